@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DEFAULT_FEE_SCALE, FeeScale } from '@/services/feeCalculationService';
+import { FeeScaleService } from '@/services/feeScaleService';
+import { WORKFLOW_DEFINITIONS } from '@/services/workflowStateMachine';
+import { WorkflowLeaseType } from '@/types/workflow';
+import { FEE_SCALE_QUERY_KEY, useFeeScale } from '@/hooks/useFeeScale';
+import { useToast } from '@/hooks/use-toast';
+
+const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+const FeeScaleSettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const savedScale = useFeeScale();
+  const [scale, setScale] = useState<FeeScale | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (savedScale) setScale(savedScale);
+  }, [savedScale]);
+
+  if (!scale) {
+    return <p className="text-gray-600">Loading fee scale...</p>;
+  }
+
+  const setValue = <K extends keyof FeeScale>(key: K, value: FeeScale[K]) =>
+    setScale(prev => prev && { ...prev, [key]: value });
+
+  const setStampDuty = <K extends keyof FeeScale['stampDuty']>(key: K, value: FeeScale['stampDuty'][K]) =>
+    setValue('stampDuty', { ...scale.stampDuty, [key]: value });
+
+  // Only the last band is open-ended, so adding a band gives the previous last one a limit
+  const addBand = () => {
+    const bands = scale.bands.map((band, index) =>
+      index === scale.bands.length - 1 && band.upTo === null
+        ? { ...band, upTo: (scale.bands[index - 1]?.upTo ?? 0) + 1000000 }
+        : band
+    );
+    setValue('bands', [...bands, { upTo: null, rate: 0 }]);
+  };
+
+  const removeBand = (index: number) => {
+    const bands = scale.bands.filter((_, i) => i !== index);
+    setValue('bands', bands.map((band, i) => i === bands.length - 1 ? { ...band, upTo: null } : band));
+  };
+
+  const toggleStampDutyType = (leaseType: WorkflowLeaseType, checked: boolean) =>
+    setStampDuty('appliesTo', checked
+      ? [...scale.stampDuty.appliesTo, leaseType]
+      : scale.stampDuty.appliesTo.filter(type => type !== leaseType));
+
+  const handleSave = async () => {
+    const errors = FeeScaleService.validate(scale);
+    if (errors.length > 0) {
+      toast({
+        title: "Fee Scale Not Saved",
+        description: errors.join('; '),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await FeeScaleService.saveFeeScale(scale);
+      queryClient.setQueryData(FEE_SCALE_QUERY_KEY, saved);
+      toast({
+        title: "Fee Scale Saved",
+        description: "New fee estimates will use this scale"
+      });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save fee scale",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Fee Scale</h2>
+          <p className="text-gray-600">
+            Professional fees, VAT, stamp duty and disbursements charged on new instructions.
+            Instructions already created keep the fees they were created with.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setScale(DEFAULT_FEE_SCALE)}>
+            Use Standard Scale
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            <Save className="w-4 h-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Fee Scale'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Professional Fee</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="fee-scale-name">Scale name</Label>
+              <Input
+                id="fee-scale-name"
+                value={scale.name}
+                onChange={(e) => setValue('name', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="fee-scale-minimum">Minimum fee (KES)</Label>
+              <Input
+                id="fee-scale-minimum"
+                type="number"
+                min={0}
+                value={isNaN(scale.minimumFee) ? '' : scale.minimumFee}
+                onChange={(e) => setValue('minimumFee', toNumber(e.target.value))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="fee-scale-vat">VAT rate (%)</Label>
+              <Input
+                id="fee-scale-vat"
+                type="number"
+                min={0}
+                step="0.01"
+                value={isNaN(scale.vatRate) ? '' : scale.vatRate}
+                onChange={(e) => setValue('vatRate', toNumber(e.target.value))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Each band's rate is charged on the part of the average annual rent that falls within it
+            </p>
+            {scale.bands.map((band, index) => {
+              const isLast = index === scale.bands.length - 1;
+              return (
+                <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                  <div>
+                    <Label htmlFor={`fee-band-limit-${index}`}>Up to (KES)</Label>
+                    <Input
+                      id={`fee-band-limit-${index}`}
+                      type="number"
+                      min={0}
+                      value={isLast || band.upTo === null || isNaN(band.upTo) ? '' : band.upTo}
+                      placeholder={isLast ? 'No limit' : ''}
+                      disabled={isLast}
+                      onChange={(e) => setValue('bands', scale.bands.map((b, i) =>
+                        i === index ? { ...b, upTo: toNumber(e.target.value) } : b))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`fee-band-rate-${index}`}>Rate (%)</Label>
+                    <Input
+                      id={`fee-band-rate-${index}`}
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={isNaN(band.rate) ? '' : band.rate}
+                      onChange={(e) => setValue('bands', scale.bands.map((b, i) =>
+                        i === index ? { ...b, rate: toNumber(e.target.value) } : b))}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeBand(index)}
+                    disabled={scale.bands.length === 1}
+                    title="Remove band"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button variant="outline" size="sm" onClick={addBand}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Band
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stamp Duty</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="stamp-duty-years">Short term up to (years)</Label>
+              <Input
+                id="stamp-duty-years"
+                type="number"
+                min={0}
+                value={isNaN(scale.stampDuty.shortTermMaxYears) ? '' : scale.stampDuty.shortTermMaxYears}
+                onChange={(e) => setStampDuty('shortTermMaxYears', toNumber(e.target.value))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="stamp-duty-short">Short-term rate (%)</Label>
+              <Input
+                id="stamp-duty-short"
+                type="number"
+                min={0}
+                step="0.01"
+                value={isNaN(scale.stampDuty.shortTermRate) ? '' : scale.stampDuty.shortTermRate}
+                onChange={(e) => setStampDuty('shortTermRate', toNumber(e.target.value))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="stamp-duty-long">Long-term rate (%)</Label>
+              <Input
+                id="stamp-duty-long"
+                type="number"
+                min={0}
+                step="0.01"
+                value={isNaN(scale.stampDuty.longTermRate) ? '' : scale.stampDuty.longTermRate}
+                onChange={(e) => setStampDuty('longTermRate', toNumber(e.target.value))}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {Object.values(WORKFLOW_DEFINITIONS).map(definition => (
+              <label key={definition.leaseType} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={scale.stampDuty.appliesTo.includes(definition.leaseType)}
+                  onChange={(e) => toggleStampDutyType(definition.leaseType, e.target.checked)}
+                />
+                <span>{definition.name}</span>
+              </label>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Disbursements</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {scale.disbursements.map((disbursement, index) => (
+            <div key={index} className="grid grid-cols-[2fr_1fr_auto] gap-2 items-end">
+              <div>
+                <Label htmlFor={`disbursement-label-${index}`}>Label</Label>
+                <Input
+                  id={`disbursement-label-${index}`}
+                  value={disbursement.label}
+                  onChange={(e) => setValue('disbursements', scale.disbursements.map((d, i) =>
+                    i === index ? { ...d, label: e.target.value } : d))}
+                />
+              </div>
+              <div>
+                <Label htmlFor={`disbursement-amount-${index}`}>Amount (KES)</Label>
+                <Input
+                  id={`disbursement-amount-${index}`}
+                  type="number"
+                  min={0}
+                  value={isNaN(disbursement.amount) ? '' : disbursement.amount}
+                  onChange={(e) => setValue('disbursements', scale.disbursements.map((d, i) =>
+                    i === index ? { ...d, amount: toNumber(e.target.value) } : d))}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setValue('disbursements', scale.disbursements.filter((_, i) => i !== index))}
+                title="Remove disbursement"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setValue('disbursements', [...scale.disbursements, { label: '', amount: 0 }])}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Disbursement
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default FeeScaleSettings;
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ROLE_LABELS, User, UserRole, useUser } from '@/contexts/UserContext';
+import { NewUserInvitation, ProfileService, UserInvitation } from '@/services/profileService';
+import { LawFirm, LawFirmService } from '@/services/lawFirmService';
+import { useToast } from '@/hooks/use-toast';
+
+interface UserFormDialogProps {
+  // Null invites a new user
+  user: User | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUserSaved: (user: User) => void;
+  onInvited: (invitation: UserInvitation) => void;
+}
+
+type UserFormData = NewUserInvitation & { isActive: boolean };
+
+const EMPTY_FORM: UserFormData = {
+  email: '',
+  name: '',
+  role: 'IC',
+  department: '',
+  lawFirmId: '',
+  isActive: true
+};
+
+const UserFormDialog: React.FC<UserFormDialogProps> = ({ user, open, onOpenChange, onUserSaved, onInvited }) => {
+  const { currentUser } = useUser();
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<UserFormData>(EMPTY_FORM);
+  const [lawFirms, setLawFirms] = useState<LawFirm[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFormData(user ? { ...user, lawFirmId: user.lawFirmId ?? '' } : EMPTY_FORM);
+      LawFirmService.getLawFirms()
+        .then(setLawFirms)
+        .catch(error => console.error('Error loading law firms:', error));
+    }
+  }, [open, user]);
+
+  // Admins cannot demote or deactivate themselves and lock everyone out of this screen
+  const isSelf = !!user && user.id === currentUser?.id;
+
+  const setValue = <K extends keyof UserFormData>(key: K, value: UserFormData[K]) =>
+    setFormData(prev => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Only external counsel belong to a law firm
+    const lawFirmId = formData.role === 'EC' ? formData.lawFirmId ?? '' : '';
+
+    try {
+      setIsSaving(true);
+      if (user) {
+        const saved = await ProfileService.updateProfile(user.id, {
+          name: formData.name,
+          role: formData.role,
+          department: formData.department,
+          lawFirmId,
+          isActive: formData.isActive
+        });
+        toast({
+          title: "User Updated",
+          description: `${saved.name} is now ${ROLE_LABELS[saved.role]}`
+        });
+        onUserSaved(saved);
+      } else {
+        const invitation = await ProfileService.inviteUser({ ...formData, lawFirmId });
+        toast({
+          title: "Invitation Sent",
+          description: `${invitation.email} will join as ${ROLE_LABELS[invitation.role]} when they sign in`
+        });
+        onInvited(invitation);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: user ? "Update Failed" : "Invitation Failed",
+        description: error instanceof Error ? error.message : "Failed to save user",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{user ? `Edit ${user.name}` : 'Invite User'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="user-email">Email *</Label>
+            <Input
+              id="user-email"
+              type="email"
+              value={formData.email}
+              onChange={(e) => setValue('email', e.target.value)}
+              disabled={!!user}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-name">Full name</Label>
+            <Input
+              id="user-name"
+              value={formData.name}
+              onChange={(e) => setValue('name', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-role">Role *</Label>
+            <Select value={formData.role} onValueChange={(value) => setValue('role', value as UserRole)} disabled={isSelf}>
+              <SelectTrigger id="user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="user-department">Department</Label>
+            <Input
+              id="user-department"
+              value={formData.department}
+              onChange={(e) => setValue('department', e.target.value)}
+            />
+          </div>
+          {formData.role === 'EC' && (
+            <div>
+              <Label htmlFor="user-law-firm">Law firm</Label>
+              <select
+                id="user-law-firm"
+                value={formData.lawFirmId ?? ''}
+                onChange={(e) => setValue('lawFirmId', e.target.value)}
+                className="w-full border rounded px-2 py-2 text-sm"
+              >
+                <option value="">Not on the panel yet</option>
+                {lawFirms.filter(firm => firm.isActive || firm.id === formData.lawFirmId).map(firm => (
+                  <option key={firm.id} value={firm.id}>{firm.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">They will see every instruction assigned to this firm</p>
+            </div>
+          )}
+          {user && (
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setValue('isActive', e.target.checked)}
+                disabled={isSelf}
+              />
+              <span>Active — inactive users can sign in but have no permissions</span>
+            </label>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : user ? 'Update User' : 'Send Invitation'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserFormDialog;
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { Edit, Mail, Search, UserPlus, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ROLE_LABELS, User, UserRole, useUser } from '@/contexts/UserContext';
+import { ProfileService, UserInvitation } from '@/services/profileService';
+import { useToast } from '@/hooks/use-toast';
+import UserFormDialog from './UserFormDialog';
+
+const ROLE_BADGE_CLASSES: Record<UserRole, string> = {
+  IC: 'bg-blue-100 text-blue-800',
+  EC: 'bg-purple-100 text-purple-800',
+  POA: 'bg-green-100 text-green-800',
+  Admin: 'bg-orange-100 text-orange-800'
+};
+
+const UserManagement = () => {
+  const { currentUser, refreshCurrentUser } = useUser();
+  const { toast } = useToast();
+  const [users, setUsers] = useState<User[]>([]);
+  const [invitations, setInvitations] = useState<UserInvitation[]>([]);
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      setIsLoading(true);
+      const [profiles, pending] = await Promise.all([
+        ProfileService.getProfiles(),
+        ProfileService.getPendingInvitations()
+      ]);
+      setUsers(profiles);
+      setInvitations(pending);
+    } catch (error) {
+      console.error('Error loading users:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load users",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openForm = (user: User | null) => {
+    setEditingUser(user);
+    setIsFormOpen(true);
+  };
+
+  const handleUserSaved = (saved: User) => {
+    setUsers(prev => prev.map(user => user.id === saved.id ? saved : user));
+    if (saved.id === currentUser?.id) refreshCurrentUser();
+  };
+
+  const handleInvited = (invitation: UserInvitation) => {
+    setInvitations(prev => [invitation, ...prev]);
+  };
+
+  const handleCancelInvitation = async (invitation: UserInvitation) => {
+    try {
+      await ProfileService.cancelInvitation(invitation.id);
+      setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+    } catch (error) {
+      toast({
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : "Failed to cancel invitation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const filteredUsers = users.filter(user =>
+    (!roleFilter || user.role === roleFilter) &&
+    (!term || [user.name, user.email, user.department, user.lawFirm ?? ''].some(value => value.toLowerCase().includes(term)))
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Users</h2>
+          <p className="text-gray-600">Who can sign in, and the role that decides what they can do</p>
+        </div>
+        <Button onClick={() => openForm(null)}>
+          <UserPlus className="w-4 h-4 mr-2" />
+          Invite User
+        </Button>
+      </div>
+
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Pending Invitations</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {invitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between text-sm">
+                <div className="flex items-center space-x-2">
+                  <Mail className="w-4 h-4 text-gray-400" />
+                  <span className="font-medium">{invitation.email}</span>
+                  <Badge className={ROLE_BADGE_CLASSES[invitation.role]}>{ROLE_LABELS[invitation.role]}</Badge>
+                  {invitation.lawFirm && <span className="text-gray-600">{invitation.lawFirm}</span>}
+                  <span className="text-gray-500">
+                    invited {new Date(invitation.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCancelInvitation(invitation)}
+                  title="Cancel invitation"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <div className="flex items-center space-x-2 flex-1 max-w-md">
+          <Search className="w-4 h-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name, email, department or law firm"
+          />
+        </div>
+        <select
+          value={roleFilter}
+          onChange={(e) => setRoleFilter(e.target.value as UserRole | '')}
+          className="border rounded px-2 py-2 text-sm"
+        >
+          <option value="">All roles</option>
+          {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="text-left p-2">Name</th>
+                <th className="text-left p-2">Role</th>
+                <th className="text-left p-2">Department</th>
+                <th className="text-left p-2">Law firm</th>
+                <th className="p-2 w-12"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredUsers.map(user => (
+                <tr key={user.id} className={`border-t ${user.isActive ? '' : 'opacity-60'}`}>
+                  <td className="p-2">
+                    <span className="font-medium">{user.name}</span>
+                    <p className="text-xs text-gray-500">{user.email}</p>
+                  </td>
+                  <td className="p-2 space-x-1">
+                    <Badge className={ROLE_BADGE_CLASSES[user.role]}>{ROLE_LABELS[user.role]}</Badge>
+                    {!user.isActive && <Badge variant="outline">Inactive</Badge>}
+                  </td>
+                  <td className="p-2">{user.department || '—'}</td>
+                  <td className="p-2">{user.lawFirm || '—'}</td>
+                  <td className="p-2">
+                    <Button variant="ghost" size="sm" onClick={() => openForm(user)} title="Edit">
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+              {!isLoading && filteredUsers.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-gray-500">
+                    <Users className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                    {users.length > 0 ? 'No users match these filters' : 'No user profiles yet'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <UserFormDialog
+        user={editingUser}
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        onUserSaved={handleUserSaved}
+        onInvited={handleInvited}
+      />
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Briefcase, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { WorkflowInstruction, useWorkflow } from "@/contexts/WorkflowContext";
+import { CERTIFICATE_STATUS_LABELS, LawFirm, LawFirmService } from "@/services/lawFirmService";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface AssignCounselDialogProps {
+  instruction: WorkflowInstruction | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AssignCounselDialog = ({ instruction, onOpenChange }: AssignCounselDialogProps) => {
+  const { instructions, assignCounsel } = useWorkflow();
+  const { toast } = useToast();
+  const [lawFirms, setLawFirms] = useState<LawFirm[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [firmId, setFirmId] = useState("");
+  const [advocateId, setAdvocateId] = useState("");
+
+  useEffect(() => {
+    if (instruction) {
+      setFirmId(instruction.lawFirmId ?? "");
+      setAdvocateId(instruction.advocateId ?? "");
+      loadLawFirms();
+    }
+  }, [instruction?.id]);
+
+  const loadLawFirms = async () => {
+    try {
+      setIsLoading(true);
+      setLawFirms(await LawFirmService.getLawFirms(true));
+    } catch (error) {
+      console.error('Error loading law firms:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load law firms",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const workload = LawFirmService.getWorkload(instructions);
+  const today = new Date();
+  const selectedFirm = lawFirms.find(firm => firm.id === firmId);
+  const selectedAdvocate = selectedFirm?.advocates.find(advocate => advocate.id === advocateId) ?? null;
+
+  const selectFirm = (id: string) => {
+    setFirmId(id);
+    setAdvocateId("");
+  };
+
+  const handleAssign = () => {
+    if (!instruction || !selectedFirm) return;
+
+    assignCounsel(instruction.id, selectedFirm, selectedAdvocate);
+    toast({
+      title: "Counsel Assigned",
+      description: `${instruction.id} assigned to ${selectedAdvocate ? `${selectedAdvocate.name}, ` : ''}${selectedFirm.name}`
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!instruction} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Briefcase className="w-5 h-5 mr-2 text-orange-400" />
+            Assign External Counsel
+          </DialogTitle>
+          {instruction && (
+            <p className="text-sm text-slate-400">{instruction.siteName} - {instruction.siteCode}</p>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-slate-400">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Loading panel...
+            </div>
+          ) : lawFirms.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-8">
+              No active law firms on the panel. Add firms under Law Firms first.
+            </p>
+          ) : (
+            <div className="border border-slate-600 rounded max-h-72 overflow-y-auto">
+              {lawFirms.map(firm => {
+                const openInstructions = (workload[firm.id] || []).filter(item => item.id !== instruction?.id);
+
+                return (
+                  <button
+                    key={firm.id}
+                    type="button"
+                    onClick={() => selectFirm(firm.id)}
+                    className={cn(
+                      "w-full text-left p-3 border-b border-slate-700 last:border-b-0 hover:bg-slate-700",
+                      firm.id === firmId && "bg-slate-700 border-l-4 border-l-orange-500"
+                    )}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{firm.name}</span>
+                      <Badge className="bg-slate-600 text-slate-200">
+                        {openInstructions.length} open
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-slate-400">
+                      {firm.advocates.length} advocate{firm.advocates.length === 1 ? '' : 's'}
+                      {firm.contactPerson && ` · Contact: ${firm.contactPerson}`}
+                    </p>
+                    {openInstructions.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {openInstructions.map(item => (
+                          <span key={item.id} className="text-xs bg-slate-600/60 text-slate-300 rounded px-1.5 py-0.5" title={item.siteName}>
+                            {item.siteCode || item.id}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {selectedFirm && (
+            <div className="space-y-2">
+              <label htmlFor="assign-advocate" className="text-sm text-slate-400">Advocate</label>
+              <select
+                id="assign-advocate"
+                value={advocateId}
+                onChange={(e) => setAdvocateId(e.target.value)}
+                className="w-full bg-slate-700 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+              >
+                <option value="">Any advocate at {selectedFirm.name}</option>
+                {selectedFirm.advocates.map(advocate => {
+                  const status = LawFirmService.getCertificateStatus(advocate, today);
+                  const open = (workload[selectedFirm.id] || []).filter(item => item.advocateId === advocate.id).length;
+
+                  // An advocate without a current practising certificate cannot act
+                  return (
+                    <option key={advocate.id} value={advocate.id} disabled={status === 'expired'}>
+                      {advocate.name} · {open} open{status !== 'valid' ? ` · ${CERTIFICATE_STATUS_LABELS[status]}` : ''}
+                    </option>
+                  );
+                })}
+              </select>
+              {selectedAdvocate && LawFirmService.getCertificateStatus(selectedAdvocate, today) !== 'valid' && (
+                <p className="flex items-center text-xs text-yellow-400">
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  {selectedAdvocate.practisingCertificateExpiry
+                    ? `Practising certificate expires ${new Date(selectedAdvocate.practisingCertificateExpiry).toLocaleDateString()}`
+                    : 'No practising certificate on file'}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="ghost"
+              onClick={() => onOpenChange(false)}
+              className="text-slate-400 hover:text-white"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleAssign}
+              disabled={!selectedFirm}
+              className="bg-orange-500 hover:bg-orange-600"
+            >
+              Assign
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssignCounselDialog;
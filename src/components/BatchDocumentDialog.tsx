@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Archive, CheckCircle2, AlertTriangle, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { WorkflowInstruction, useWorkflow } from "@/contexts/WorkflowContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BatchDocumentService,
+  BatchDocumentSet,
+  BatchGenerationResult,
+  BatchProgress
+} from "@/services/batchDocumentService";
+
+interface BatchDocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  instructions: WorkflowInstruction[];
+}
+
+const DOCUMENT_SET_OPTIONS: { key: keyof BatchDocumentSet; label: string }[] = [
+  { key: 'includeAgreement', label: 'Agreement' },
+  { key: 'includeForwardingLetter', label: 'Forwarding letter (ROF 6)' },
+  { key: 'includeInvoice', label: 'Invoice (fee note)' }
+];
+
+const BatchDocumentDialog = ({ open, onOpenChange, instructions }: BatchDocumentDialogProps) => {
+  const { recordGeneratedDocuments } = useWorkflow();
+  const { toast } = useToast();
+  const [documentSet, setDocumentSet] = useState<BatchDocumentSet>({
+    includeAgreement: true,
+    includeForwardingLetter: true,
+    includeInvoice: true
+  });
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [result, setResult] = useState<BatchGenerationResult | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const isGenerating = progress !== null && progress.currentInstructionId !== null;
+  const hasDocumentSet = Object.values(documentSet).some(Boolean);
+
+  const handleOpenChange = (next: boolean) => {
+    if (isGenerating) return;
+    if (!next) {
+      setProgress(null);
+      setResult(null);
+    }
+    onOpenChange(next);
+  };
+
+  const downloadBundle = async (batch: BatchGenerationResult) => {
+    try {
+      setIsDownloading(true);
+      await BatchDocumentService.downloadZip(batch.items);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Failed to build the ZIP bundle",
+        variant: "destructive"
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setResult(null);
+    const batch = await BatchDocumentService.generateBatch(instructions, documentSet, setProgress);
+    setResult(batch);
+
+    // Keep a copy of each instruction's documents; the ZIP is still offered if saving fails
+    const unsaved: string[] = [];
+    for (const item of batch.items.filter(candidate => candidate.status === 'generated')) {
+      try {
+        await recordGeneratedDocuments(item.instructionId, item.documents, 'batch');
+      } catch (error) {
+        console.error(`Error saving documents for ${item.instructionId}:`, error);
+        unsaved.push(item.instructionId);
+      }
+    }
+
+    if (unsaved.length > 0) {
+      toast({
+        title: "Documents Not Saved",
+        description: `Documents for ${unsaved.join(', ')} could not be saved to their instructions. Keep the ZIP download.`,
+        variant: "destructive"
+      });
+    }
+
+    toast({
+      title: batch.failed > 0 ? "Batch Finished with Errors" : "Batch Complete",
+      description: `${batch.documentCount} documents for ${batch.generated} instructions${batch.failed > 0 ? `, ${batch.failed} failed` : ''}.`,
+      variant: batch.failed > 0 && batch.generated === 0 ? "destructive" : "default"
+    });
+
+    if (batch.documentCount > 0) {
+      await downloadBundle(batch);
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+  const currentInstruction = instructions.find(instruction => instruction.id === progress?.currentInstructionId);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Archive className="w-5 h-5 mr-2 text-orange-400" />
+            Generate Documents for {instructions.length} Instruction{instructions.length === 1 ? '' : 's'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm text-slate-400">Document set</p>
+            {DOCUMENT_SET_OPTIONS.map(option => (
+              <label key={option.key} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={documentSet[option.key]}
+                  disabled={isGenerating}
+                  onChange={(e) => setDocumentSet(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+            <p className="text-xs text-slate-400">
+              Documents are bundled into one ZIP with a folder per site code and instruction, and a manifest.csv.
+            </p>
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="text-slate-400">
+                  {isGenerating
+                    ? `Generating ${currentInstruction?.siteCode || progress.currentInstructionId}...`
+                    : 'Finished'}
+                </span>
+                <span className="text-white">{progress.completed} of {progress.total}</span>
+              </div>
+              <Progress value={percent} className="h-2 bg-slate-600" />
+            </div>
+          )}
+
+          {result && (
+            <div className="border border-slate-600 rounded max-h-64 overflow-y-auto">
+              {result.items.map(item => (
+                <div key={item.instructionId} className="flex items-start justify-between p-2 border-b border-slate-700 last:border-b-0 text-sm">
+                  <div>
+                    <p className="text-white">{item.instructionId}</p>
+                    <p className="text-xs text-slate-400">{item.siteName} - {item.siteCode}</p>
+                  </div>
+                  {item.status === 'generated' ? (
+                    <span className="flex items-center text-green-400 text-xs">
+                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                      {item.documents.length} documents
+                    </span>
+                  ) : (
+                    <span className="flex items-start text-red-400 text-xs max-w-[60%] text-right">
+                      <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                      {item.error}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="ghost"
+              onClick={() => handleOpenChange(false)}
+              disabled={isGenerating}
+              className="text-slate-400 hover:text-white"
+            >
+              Close
+            </Button>
+            {result && result.documentCount > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => downloadBundle(result)}
+                disabled={isDownloading}
+                className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+              >
+                Download ZIP Again
+              </Button>
+            )}
+            <Button
+              onClick={handleGenerate}
+              disabled={isGenerating || isDownloading || !hasDocumentSet || instructions.length === 0}
+              className="bg-orange-500 hover:bg-orange-600"
+            >
+              {isGenerating ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Generating...
+                </>
+              ) : result ? 'Generate Again' : 'Generate'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BatchDocumentDialog;
@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Upload, Loader2, ArrowLeft, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { SpreadsheetTable, parseSpreadsheetFile } from '@/utils/spreadsheetParser';
+import { BulkImportReport, BulkImportService, ColumnMapping, ImportMappingProfile } from '@/services/bulkImportService';
+import { useWorkflow } from '@/contexts/WorkflowContext';
+import { InstructionService } from '@/services/instructionService';
+import { FeeScale } from '@/services/feeCalculationService';
+import { FeeScaleService } from '@/services/feeScaleService';
+import { useToast } from '@/hooks/use-toast';
+import ColumnMappingEditor from './ColumnMappingEditor';
+import ImportValidationTable from './ImportValidationTable';
+import ImportSummaryReport from './ImportSummaryReport';
+
+type ImportStep = 'upload' | 'map' | 'review' | 'done';
+
+const STEPS: { id: ImportStep; label: string }[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'map', label: 'Map Columns' },
+  { id: 'review', label: 'Review Rows' },
+  { id: 'done', label: 'Summary' }
+];
+
+const BulkInstructionImport = () => {
+  const { addInstructions } = useWorkflow();
+  const { toast } = useToast();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<SpreadsheetTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [profiles, setProfiles] = useState<ImportMappingProfile[]>([]);
+  const [report, setReport] = useState<BulkImportReport | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const loadProfiles = async () => {
+    try {
+      setProfiles(await BulkImportService.getProfiles());
+    } catch (error) {
+      console.error('Error loading import profiles:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load saved column mappings",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const rows = useMemo(
+    () => (table && step !== 'upload' ? BulkImportService.validateRows(table, mapping) : []),
+    [table, mapping, step]
+  );
+  const validCount = rows.filter(row => row.isValid).length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsParsing(true);
+      const parsed = await parseSpreadsheetFile(file);
+      setTable(parsed);
+      setFileName(file.name);
+      setMapping(BulkImportService.suggestMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Failed to read the spreadsheet",
+        variant: "destructive"
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const batchRef = BulkImportService.createBatchRef();
+
+    try {
+      setIsCreating(true);
+      let references: string[];
+      let feeScale: FeeScale;
+      try {
+        references = await InstructionService.reserveReferences(rows.filter(row => row.isValid).length);
+        feeScale = await FeeScaleService.getFeeScale();
+      } catch (error) {
+        toast({
+          title: "Import Failed",
+          description: error instanceof Error ? error.message : "Failed to reserve instruction references",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const instructions = BulkImportService.toInstructions(rows, references, feeScale);
+      const created = await addInstructions(instructions);
+      setReport(BulkImportService.buildReport(batchRef, fileName, rows, created));
+      setStep('done');
+      toast({
+        title: "Import Complete",
+        description: `${created.length} instruction${created.length === 1 ? '' : 's'} created from ${fileName}.`
+      });
+    } catch (error) {
+      // The workflow context reports the failure; nothing was created, so stay on the review step
+      console.error('Error creating imported instructions:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const startOver = () => {
+    setStep('upload');
+    setTable(null);
+    setFileName('');
+    setMapping({});
+    setReport(null);
+  };
+
+  const stepIndex = STEPS.findIndex(candidate => candidate.id === step);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Bulk Instruction Import</h2>
+        <p className="text-gray-600">Create instructions for a rollout programme from a CSV or Excel sheet, one site per row</p>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        {STEPS.map((candidate, index) => (
+          <React.Fragment key={candidate.id}>
+            {index > 0 && <span className="text-gray-400">/</span>}
+            <span className={index === stepIndex ? 'font-semibold text-blue-600' : index < stepIndex ? 'text-gray-700' : 'text-gray-400'}>
+              {index + 1}. {candidate.label}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Upload className="w-5 h-5 mr-2" />
+            {step === 'upload' ? 'Upload Spreadsheet' : fileName}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                The first row must hold the column headings. Headings such as "Site Code", "LR No" or
+                "Monthly Rent" are matched to ROF5 fields automatically, and you can adjust the mapping
+                or load a saved one before any rows are checked.
+              </p>
+              <div className="border-2 border-dashed rounded-lg p-8 text-center">
+                {isParsing ? (
+                  <p className="flex items-center justify-center text-sm text-gray-600">
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Reading spreadsheet...
+                  </p>
+                ) : (
+                  <>
+                    <Label htmlFor="bulk-import-file" className="cursor-pointer text-blue-600 hover:underline">
+                      Choose a .csv or .xlsx file
+                    </Label>
+                    <input
+                      id="bulk-import-file"
+                      type="file"
+                      accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                      onChange={handleFileChange}
+                      className="hidden"
+                    />
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 'map' && table && (
+            <div className="space-y-4">
+              <ColumnMappingEditor
+                headers={table.headers}
+                mapping={mapping}
+                onMappingChange={setMapping}
+                profiles={profiles}
+                onProfilesChange={setProfiles}
+              />
+              <div className="flex justify-between pt-4 border-t">
+                <Button variant="outline" onClick={startOver}>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Choose Another File
+                </Button>
+                <Button onClick={() => setStep('review')} disabled={Object.keys(mapping).length === 0}>
+                  Check {table.rows.length} Row{table.rows.length === 1 ? '' : 's'}
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'review' && (
+            <div className="space-y-4">
+              <ImportValidationTable rows={rows} />
+              <div className="flex justify-between items-center pt-4 border-t">
+                <Button variant="outline" onClick={() => setStep('map')} disabled={isCreating}>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Mapping
+                </Button>
+                <div className="flex items-center gap-3">
+                  {validCount < rows.length && (
+                    <span className="text-sm text-gray-600">
+                      {rows.length - validCount} row{rows.length - validCount === 1 ? '' : 's'} with errors will be skipped
+                    </span>
+                  )}
+                  <Button onClick={handleCreate} disabled={isCreating || validCount === 0}>
+                    {isCreating ? 'Creating...' : `Create ${validCount} Instruction${validCount === 1 ? '' : 's'}`}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && report && (
+            <ImportSummaryReport report={report} onStartOver={startOver} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BulkInstructionImport;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ROF5_SECTIONS, ROF5TextFieldKey, getFieldDefinition, getTextFieldKeys } from '@/schemas/rof5Schema';
+import { BulkImportService, ColumnMapping, ImportMappingProfile } from '@/services/bulkImportService';
+import { useToast } from '@/hooks/use-toast';
+
+interface ColumnMappingEditorProps {
+  headers: string[];
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  profiles: ImportMappingProfile[];
+  onProfilesChange: (profiles: ImportMappingProfile[]) => void;
+}
+
+const ColumnMappingEditor = ({ headers, mapping, onMappingChange, profiles, onProfilesChange }: ColumnMappingEditorProps) => {
+  const { toast } = useToast();
+  const [profileId, setProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedProfile = profiles.find(profile => profile.id === profileId);
+
+  const handleProfileSelect = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find(candidate => candidate.id === id);
+    if (!profile) return;
+
+    setProfileName(profile.name);
+    const applied = BulkImportService.applyProfile(profile, headers);
+    onMappingChange(applied);
+
+    const missing = Object.keys(profile.mapping).length - Object.keys(applied).length;
+    if (missing > 0) {
+      toast({
+        title: "Some Columns Not Found",
+        description: `${missing} column${missing === 1 ? '' : 's'} in "${profile.name}" ${missing === 1 ? 'is' : 'are'} not in this file.`
+      });
+    }
+  };
+
+  const handleFieldChange = (field: ROF5TextFieldKey, header: string) => {
+    const next = { ...mapping };
+    if (header) {
+      next[field] = header;
+    } else {
+      delete next[field];
+    }
+    onMappingChange(next);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      // Overwrite the selected profile only when its name is kept
+      const id = selectedProfile && selectedProfile.name === profileName.trim() ? selectedProfile.id : undefined;
+      const saved = await BulkImportService.saveProfile(profileName, mapping, id);
+      onProfilesChange(
+        [...profiles.filter(profile => profile.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setProfileId(saved.id);
+      toast({
+        title: "Mapping Saved",
+        description: `Column mapping saved as "${saved.name}".`
+      });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save the column mapping",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedProfile || !confirm(`Delete the mapping profile "${selectedProfile.name}"?`)) return;
+
+    try {
+      await BulkImportService.deleteProfile(selectedProfile.id);
+      onProfilesChange(profiles.filter(profile => profile.id !== selectedProfile.id));
+      setProfileId('');
+      setProfileName('');
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Failed to delete the mapping profile",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const mappedCount = Object.keys(mapping).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3 p-3 border rounded-lg bg-gray-50">
+        <div className="space-y-1">
+          <Label htmlFor="mapping-profile">Saved mapping</Label>
+          <select
+            id="mapping-profile"
+            value={profileId}
+            onChange={(e) => handleProfileSelect(e.target.value)}
+            className="border rounded px-2 py-2 text-sm min-w-[200px] bg-white"
+          >
+            <option value="">Matched from headings</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1 flex-1 min-w-[200px]">
+          <Label htmlFor="mapping-profile-name">Profile name</Label>
+          <Input
+            id="mapping-profile-name"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="e.g. Q3 rollout programme"
+          />
+        </div>
+        <Button variant="outline" onClick={handleSave} disabled={isSaving || !profileName.trim() || mappedCount === 0}>
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Mapping'}
+        </Button>
+        {selectedProfile && (
+          <Button variant="outline" onClick={handleDelete}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        {mappedCount} field{mappedCount === 1 ? '' : 's'} mapped from {headers.length} column{headers.length === 1 ? '' : 's'}.
+        Fields left unmapped keep their defaults and required ones will be reported as errors.
+      </p>
+
+      {ROF5_SECTIONS.map(section => (
+        <div key={section.id} className="space-y-2">
+          <h4 className="text-sm font-medium">{section.title}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+            {getTextFieldKeys(section.id).map(field => {
+              const definition = getFieldDefinition(field);
+              return (
+                <div key={field} className="flex items-center justify-between gap-3">
+                  <Label htmlFor={`mapping-${field}`} className="text-sm font-normal">
+                    {definition.label}
+                    {definition.required && <span className="text-red-500"> *</span>}
+                  </Label>
+                  <select
+                    id={`mapping-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => handleFieldChange(field, e.target.value)}
+                    className="border rounded px-2 py-1 text-sm w-48"
+                  >
+                    <option value="">Not mapped</option>
+                    {headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ColumnMappingEditor;
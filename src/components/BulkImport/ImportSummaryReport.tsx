@@ -0,0 +1,83 @@
+import React from 'react';
+import { Download, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { BulkImportReport, BulkImportService } from '@/services/bulkImportService';
+
+interface ImportSummaryReportProps {
+  report: BulkImportReport;
+  onStartOver: () => void;
+}
+
+const ImportSummaryReport = ({ report, onStartOver }: ImportSummaryReportProps) => {
+  const stats = [
+    { label: 'Rows in file', value: report.total, className: 'text-gray-900' },
+    { label: 'Instructions created', value: report.created, className: 'text-green-600' },
+    { label: 'Rows skipped', value: report.skipped, className: 'text-red-600' }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {stats.map(stat => (
+          <Card key={stat.label}>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-600">{stat.label}</p>
+              <p className={`text-2xl font-bold ${stat.className}`}>{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Batch {report.batchRef} from {report.fileName}, imported {new Date(report.createdAt).toLocaleString()}.
+      </p>
+
+      <div className="border rounded max-h-[50vh] overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="text-left p-2 w-16">Row</th>
+              <th className="text-left p-2">Site</th>
+              <th className="text-left p-2">Result</th>
+              <th className="text-left p-2">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.rows.map(row => (
+              <tr key={row.rowNumber} className="border-t align-top">
+                <td className="p-2 text-gray-500">{row.rowNumber}</td>
+                <td className="p-2">
+                  <span className="font-medium">{row.siteCode || '—'}</span>
+                  <p className="text-xs text-gray-500">{row.siteName}</p>
+                </td>
+                <td className="p-2">
+                  {row.status === 'created' ? (
+                    <Badge className="bg-green-100 text-green-800">{row.instructionId}</Badge>
+                  ) : (
+                    <Badge className="bg-red-100 text-red-800">Skipped</Badge>
+                  )}
+                </td>
+                <td className="p-2 text-gray-600">{row.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={onStartOver}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Import Another File
+        </Button>
+        <Button onClick={() => BulkImportService.downloadReport(report)}>
+          <Download className="w-4 h-4 mr-2" />
+          Download Report
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportSummaryReport;
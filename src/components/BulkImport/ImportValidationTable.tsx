@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { CheckCircle, AlertCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ROF5FieldKey, getFieldDefinition } from '@/schemas/rof5Schema';
+import { BulkImportRow } from '@/services/bulkImportService';
+
+interface ImportValidationTableProps {
+  rows: BulkImportRow[];
+}
+
+type RowFilter = 'all' | 'valid' | 'invalid';
+
+const ImportValidationTable = ({ rows }: ImportValidationTableProps) => {
+  const [filter, setFilter] = useState<RowFilter>('all');
+
+  const validCount = rows.filter(row => row.isValid).length;
+  const invalidCount = rows.length - validCount;
+  const visibleRows = rows.filter(row =>
+    filter === 'all' || (filter === 'valid' ? row.isValid : !row.isValid)
+  );
+
+  const filters: { id: RowFilter; label: string }[] = [
+    { id: 'all', label: `All rows (${rows.length})` },
+    { id: 'valid', label: `Valid (${validCount})` },
+    { id: 'invalid', label: `With errors (${invalidCount})` }
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {filters.map(option => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => setFilter(option.id)}
+            className={`px-3 py-1 rounded-full text-sm border ${
+              filter === option.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="border rounded max-h-[60vh] overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="text-left p-2 w-16">Row</th>
+              <th className="text-left p-2">Site</th>
+              <th className="text-left p-2">Landlord</th>
+              <th className="text-left p-2">Lease</th>
+              <th className="text-left p-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(row => {
+              const errorFields = Object.keys(row.errors) as ROF5FieldKey[];
+              return (
+                <tr key={row.rowNumber} className={`border-t align-top ${row.isValid ? '' : 'bg-red-50'}`}>
+                  <td className="p-2 text-gray-500">{row.rowNumber}</td>
+                  <td className="p-2">
+                    <span className="font-medium">{row.formData.siteCode || '—'}</span>
+                    <p className="text-xs text-gray-500">{row.formData.siteName}</p>
+                  </td>
+                  <td className="p-2">{row.formData.landlordName || '—'}</td>
+                  <td className="p-2">
+                    {row.formData.leaseType || '—'}
+                    {row.formData.monthlyRent && (
+                      <p className="text-xs text-gray-500">KES {row.formData.monthlyRent} / month</p>
+                    )}
+                  </td>
+                  <td className="p-2">
+                    {row.isValid ? (
+                      <Badge className="bg-green-100 text-green-800">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Valid
+                      </Badge>
+                    ) : (
+                      <div className="space-y-1">
+                        <Badge className="bg-red-100 text-red-800">
+                          <AlertCircle className="w-3 h-3 mr-1" />
+                          {errorFields.length} error{errorFields.length === 1 ? '' : 's'}
+                        </Badge>
+                        <ul className="text-xs text-red-700 space-y-0.5">
+                          {errorFields.map(field => (
+                            <li key={field}>
+                              <span className="font-medium">{getFieldDefinition(field).label}:</span> {row.errors[field]}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={5} className="p-6 text-center text-gray-500">No rows match this filter</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ImportValidationTable;
@@ -18,16 +18,27 @@ import {
   ArrowRight,
   CheckCircle2,
   MessageSquare,
-  Save
+  Save,
+  Undo2,
+  Upload,
+  Archive,
+  Briefcase
 } from "lucide-react";
 import { useWorkflow, WorkflowInstruction } from "@/contexts/WorkflowContext";
+import { useUser } from "@/contexts/UserContext";
 import { useToast } from "@/hooks/use-toast";
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import { PDFReportService } from "@/services/pdfReportService";
+import { WorkflowStateMachine } from "@/services/workflowStateMachine";
+import { getInstructionPath } from "@/lib/utils";
+import BatchDocumentDialog from "./BatchDocumentDialog";
+import AssignCounselDialog from "./AssignCounselDialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -39,11 +50,37 @@ import {
 } from "@/components/ui/dialog";
 
 const DarkWorkflowDashboard = () => {
-  const { instructions, updateInstructionStage, updateInstruction } = useWorkflow();
+  const { instructions, updateInstructionStage, updateInstruction, recordExecutedDocument } = useWorkflow();
+  const { currentUser, hasPermission } = useUser();
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const executedFileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadInstructionId, setUploadInstructionId] = useState<string>("");
   const [reasonDialogOpen, setReasonDialogOpen] = useState(false);
   const [selectedInstructionId, setSelectedInstructionId] = useState<string>("");
   const [progressReason, setProgressReason] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [batchDialogOpen, setBatchDialogOpen] = useState(false);
+  const [assigningInstructionId, setAssigningInstructionId] = useState<string | null>(null);
+
+  const selectedInstructions = instructions.filter(instruction => selectedIds.has(instruction.id));
+  const allSelected = instructions.length > 0 && selectedInstructions.length === instructions.length;
+
+  const toggleSelected = (instructionId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(instructionId);
+      } else {
+        next.delete(instructionId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(instructions.map(instruction => instruction.id)) : new Set());
+  };
 
   const getStatusColor = (stage: string) => {
     switch (stage) {
@@ -64,18 +101,44 @@ const DarkWorkflowDashboard = () => {
     }
   };
 
-  const getAvailableStages = (currentStage: WorkflowInstruction['stage']) => {
-    const stages: WorkflowInstruction['stage'][] = ['document-drafting', 'execution', 'registration', 'completed'];
-    const currentIndex = stages.indexOf(currentStage);
-    return stages.slice(currentIndex + 1);
+  const getStageLabel = (instruction: WorkflowInstruction, stage: WorkflowInstruction['stage']) =>
+    WorkflowStateMachine.getStageLabel(WorkflowStateMachine.getDefinitionForInstruction(instruction), stage);
+
+  const handleStageUpdate = (instruction: WorkflowInstruction, newStage: WorkflowInstruction['stage']) => {
+    if (updateInstructionStage(instruction.id, newStage)) {
+      toast({
+        title: "Stage Updated",
+        description: `Instruction moved to ${getStageLabel(instruction, newStage)}`,
+      });
+    }
   };
 
-  const handleStageUpdate = (instructionId: string, newStage: WorkflowInstruction['stage']) => {
-    updateInstructionStage(instructionId, newStage);
-    toast({
-      title: "Stage Updated",
-      description: `Instruction moved to ${newStage.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}`,
-    });
+  const handleUploadExecuted = (instructionId: string) => {
+    setUploadInstructionId(instructionId);
+    executedFileInputRef.current?.click();
+  };
+
+  const handleExecutedFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const instructionId = uploadInstructionId;
+    event.target.value = "";
+    setUploadInstructionId("");
+    if (!file || !instructionId) return;
+
+    try {
+      await recordExecutedDocument(instructionId, file);
+      toast({
+        title: "Executed Document Uploaded",
+        description: `${file.name} recorded against ${instructionId}`,
+      });
+    } catch (error) {
+      console.error('Error uploading executed document:', error);
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Failed to upload executed document",
+        variant: "destructive"
+      });
+    }
   };
 
   const handleAction = (action: string, instructionId: string) => {
@@ -84,6 +147,8 @@ const DarkWorkflowDashboard = () => {
       if (instruction) {
         handleDownloadDetailedReport(instruction);
       }
+    } else if (action === "View") {
+      navigate(getInstructionPath(instructionId));
     } else {
       toast({
         title: "Action Triggered",
@@ -137,6 +202,13 @@ const DarkWorkflowDashboard = () => {
 
   return (
     <div className="space-y-6">
+      <input
+        ref={executedFileInputRef}
+        type="file"
+        accept=".pdf,.doc,.docx"
+        className="hidden"
+        onChange={handleExecutedFileSelected}
+      />
       {/* Instructions Table */}
       <Card className="bg-slate-800 border-slate-700 text-white">
         <CardHeader>
@@ -149,6 +221,25 @@ const DarkWorkflowDashboard = () => {
               </Badge>
             </div>
             <div className="flex items-center space-x-2">
+              <label className="flex items-center space-x-2 text-sm font-normal text-slate-400">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={allSelected}
+                  onChange={(e) => toggleAll(e.target.checked)}
+                />
+                <span>Select all</span>
+              </label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-slate-400 hover:text-white"
+                disabled={selectedInstructions.length === 0}
+                onClick={() => setBatchDialogOpen(true)}
+              >
+                <Archive className="w-4 h-4 mr-2" />
+                Generate Documents{selectedInstructions.length > 0 ? ` (${selectedInstructions.length})` : ''}
+              </Button>
               <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white">
                 Export
               </Button>
@@ -168,9 +259,18 @@ const DarkWorkflowDashboard = () => {
                 <div className="grid grid-cols-12 gap-4 items-center">
                   {/* Priority & ID */}
                   <div className="col-span-3 flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      aria-label={`Select ${instruction.id}`}
+                      checked={selectedIds.has(instruction.id)}
+                      onChange={(e) => toggleSelected(instruction.id, e.target.checked)}
+                    />
                     {getPriorityIcon(instruction.priority)}
                     <div>
-                      <p className="font-medium text-white">{instruction.id}</p>
+                      <Link to={getInstructionPath(instruction.id)} className="block font-medium text-white hover:text-orange-400">
+                        {instruction.id}
+                      </Link>
                       <p className="text-xs text-slate-400">{instruction.siteName} - {instruction.siteCode}</p>
                     </div>
                   </div>
@@ -187,29 +287,47 @@ const DarkWorkflowDashboard = () => {
                   <div className="col-span-2">
                     <div className="flex items-center space-x-2">
                       <Badge className={getStatusColor(instruction.stage)}>
-                        {instruction.stage.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                        {getStageLabel(instruction, instruction.stage)}
                       </Badge>
-                      {instruction.stage !== 'completed' && (
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-slate-400 hover:text-white">
-                              <ArrowRight className="w-3 h-3" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent className="bg-slate-700 border-slate-600">
-                            {getAvailableStages(instruction.stage).map((stage) => (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-slate-400 hover:text-white">
+                            <ArrowRight className="w-3 h-3" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent className="bg-slate-700 border-slate-600">
+                          {WorkflowStateMachine.getTransitions(instruction, currentUser?.role).map(({ transition, allowed, reasons }) => (
+                            <DropdownMenuItem
+                              key={transition.to}
+                              disabled={!allowed}
+                              onClick={() => handleStageUpdate(instruction, transition.to)}
+                              className="text-slate-200 hover:bg-slate-600 cursor-pointer flex-col items-start"
+                            >
+                              <span className="flex items-center">
+                                {transition.type === 'send-back'
+                                  ? <Undo2 className="w-3 h-3 mr-2 text-yellow-400" />
+                                  : <ArrowRight className="w-3 h-3 mr-2" />}
+                                {transition.label}
+                              </span>
+                              {!allowed && (
+                                <span className="text-xs text-slate-400 ml-5">{reasons.join('; ')}</span>
+                              )}
+                            </DropdownMenuItem>
+                          ))}
+                          {instruction.stage === 'execution' && (
+                            <>
+                              <DropdownMenuSeparator className="bg-slate-600" />
                               <DropdownMenuItem
-                                key={stage}
-                                onClick={() => handleStageUpdate(instruction.id, stage)}
+                                onClick={() => handleUploadExecuted(instruction.id)}
                                 className="text-slate-200 hover:bg-slate-600 cursor-pointer"
                               >
-                                <ArrowRight className="w-3 h-3 mr-2" />
-                                Move to {stage.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                                <Upload className="w-3 h-3 mr-2" />
+                                Upload Executed Document
                               </DropdownMenuItem>
-                            ))}
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      )}
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
                       {instruction.stage === 'completed' && (
                         <CheckCircle2 className="w-4 h-4 text-green-400" />
                       )}
@@ -232,6 +350,17 @@ const DarkWorkflowDashboard = () => {
 
                   {/* Actions */}
                   <div className="col-span-3 flex items-center justify-end space-x-2">
+                    {instruction.stage !== 'completed' && hasPermission('assign-external-counsel') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-400 hover:text-white"
+                        onClick={() => setAssigningInstructionId(instruction.id)}
+                        title="Assign external counsel"
+                      >
+                        <Briefcase className="w-4 h-4" />
+                      </Button>
+                    )}
                     {instruction.stage !== 'completed' && (
                       <Button 
                         variant="ghost" 
@@ -293,6 +422,17 @@ const DarkWorkflowDashboard = () => {
         </CardContent>
       </Card>
 
+      <BatchDocumentDialog
+        open={batchDialogOpen}
+        onOpenChange={setBatchDialogOpen}
+        instructions={selectedInstructions}
+      />
+
+      <AssignCounselDialog
+        instruction={instructions.find(instruction => instruction.id === assigningInstructionId) ?? null}
+        onOpenChange={(open) => !open && setAssigningInstructionId(null)}
+      />
+
       {/* Add Reason Dialog */}
       <Dialog open={reasonDialogOpen} onOpenChange={setReasonDialogOpen}>
         <DialogContent className="bg-slate-800 border-slate-700 text-white">
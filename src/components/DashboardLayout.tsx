@@ -17,10 +17,15 @@ import {
   Clock,
   TrendingUp,
   LogOut,
+  Upload,
+  History,
+  UserCog,
+  Briefcase,
   Edit3
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
+import { ROLE_LABELS, useUser } from "@/contexts/UserContext";
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -31,14 +36,22 @@ interface DashboardLayoutProps {
 const sidebarItems = [
   { id: "dashboard", label: "Dashboard", icon: Home },
   { id: "rof5", label: "New Instruction", icon: FileText },
+  { id: "bulk-import", label: "Bulk Import", icon: Upload },
+  { id: "sites", label: "Sites", icon: MapPin },
+  { id: "landlords", label: "Landlords", icon: Users },
+  { id: "panel", label: "Law Firms", icon: Briefcase },
   { id: "templates", label: "Templates", icon: Calendar },
+  { id: "generation-history", label: "Generation History", icon: History },
   { id: "reminders", label: "Reminders", icon: Clock },
   { id: "reports", label: "Reports", icon: TrendingUp },
+  { id: "users", label: "Users", icon: UserCog },
+  { id: "fee-scale", label: "Fee Scale", icon: Settings },
 ];
 
 const DashboardLayout = ({ children, activeTab, onTabChange }: DashboardLayoutProps) => {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const { user, signOut } = useAuth();
+  const { currentUser } = useUser();
 
   const handleSignOut = async () => {
     try {
@@ -104,8 +117,8 @@ const DashboardLayout = ({ children, activeTab, onTabChange }: DashboardLayoutPr
             </div>
             {sidebarOpen && (
               <div className="ml-3 flex-1">
-                <p className="text-sm font-medium">{user?.email}</p>
-                <p className="text-xs text-slate-400">User</p>
+                <p className="text-sm font-medium">{currentUser?.name ?? user?.email}</p>
+                <p className="text-xs text-slate-400">{currentUser ? ROLE_LABELS[currentUser.role] : 'No role assigned'}</p>
               </div>
             )}
             {sidebarOpen && (
@@ -20,6 +20,8 @@ import { SystemTemplateService, SystemTemplate } from '@/services/systemTemplate
 import { ROF5FormData } from '@/hooks/useROF5Form';
 import { FanisiROF5Data, FanisiValidationResult, FanisiGeneratedDocument } from '@/types/fanisi';
 import { useToast } from '@/hooks/use-toast';
+import { useFeeScale } from '@/hooks/useFeeScale';
+import { useUser } from '@/contexts/UserContext';
 
 interface FanisiDocumentGeneratorProps {
   rof5Data: ROF5FormData;
@@ -31,6 +33,7 @@ const FanisiDocumentGeneratorComponent: React.FC<FanisiDocumentGeneratorProps> =
   onDocumentGenerated
 }) => {
   const { toast } = useToast();
+  const { currentUser } = useUser();
   const [systemTemplates, setSystemTemplates] = useState<SystemTemplate[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<SystemTemplate | null>(null);
   const [fanisiData, setFanisiData] = useState<FanisiROF5Data | null>(null);
@@ -41,6 +44,7 @@ const FanisiDocumentGeneratorComponent: React.FC<FanisiDocumentGeneratorProps> =
   const [generationProgress, setGenerationProgress] = useState(0);
   const [showValidationDialog, setShowValidationDialog] = useState(false);
   const [showPreviewDialog, setShowPreviewDialog] = useState(false);
+  const feeScale = useFeeScale();
 
   // Load system templates on component mount
   useEffect(() => {
@@ -49,11 +53,11 @@ const FanisiDocumentGeneratorComponent: React.FC<FanisiDocumentGeneratorProps> =
 
   // Convert ROF5 data to Fanisi format when component mounts or data changes
   useEffect(() => {
-    if (rof5Data) {
-      const converted = FanisiDocumentGenerator.convertROF5ToFanisi(rof5Data);
+    if (rof5Data && feeScale) {
+      const converted = FanisiDocumentGenerator.convertROF5ToFanisi(rof5Data, feeScale);
       setFanisiData(converted);
     }
-  }, [rof5Data]);
+  }, [rof5Data, feeScale]);
 
   const loadSystemTemplates = async () => {
     try {
@@ -87,14 +91,15 @@ const FanisiDocumentGeneratorComponent: React.FC<FanisiDocumentGeneratorProps> =
       setIsLoading(true);
       setSelectedTemplate(template);
       
-      // Extract template content and validate
-      const templateContent = await SystemTemplateService.extractTextFromTemplate(template);
-      const templateVariables = await FanisiDocumentGenerator.extractTemplateVariables(templateContent);
+      // Extract template variables from the DOCX and validate
+      const templateVariables = await FanisiDocumentGenerator.extractTemplateVariablesFromDocx(template.file_data);
       const validation = FanisiDocumentGenerator.validateROF5Data(fanisiData, templateVariables);
       
       setValidationResult(validation);
       
       if (!validation.isValid) {
+        // Record templates the data fails to validate against, so the gaps can be fixed
+        logFailure('Template validation failed', template, validation);
         setShowValidationDialog(true);
       } else {
         toast({
@@ -114,6 +119,29 @@ const FanisiDocumentGeneratorComponent: React.FC<FanisiDocumentGeneratorProps> =
     }
   };
 
+  const getLogDetails = (template = selectedTemplate, validation = validationResult) => ({
+    siteCode: fanisiData?.Site_Number,
+    templateId: template?.id,
+    templateName: template?.name,
+    userName: currentUser?.name,
+    validation
+  });
+
+  const logFailure = (errorMessage: string, template = selectedTemplate, validation = validationResult) => {
+    if (!template || !fanisiData) return;
+
+    const errorDoc: FanisiGeneratedDocument = {
+      id: 'error',
+      fileName: 'error.docx',
+      content: new Uint8Array(),
+      documentType: fanisiData.Document_Type,
+      siteName: fanisiData.Site_Name,
+      generatedAt: new Date().toISOString()
+    };
+
+    FanisiDocumentGenerator.logGeneration(errorDoc, 'error', errorMessage, getLogDetails(template, validation));
+  };
+
   const handleGenerateDocument = async () => {
     if (!selectedTemplate || !fanisiData || !validationResult?.isValid) {
       toast({
@@ -144,7 +172,7 @@ const FanisiDocumentGeneratorComponent: React.FC<FanisiDocumentGeneratorProps> =
       setGeneratedDocument(document);
       
       // Log the generation
-      FanisiDocumentGenerator.logGeneration(document, 'success');
+      FanisiDocumentGenerator.logGeneration(document, 'success', undefined, getLogDetails());
       
       if (onDocumentGenerated) {
         onDocumentGenerated(document);
@@ -158,22 +186,7 @@ const FanisiDocumentGeneratorComponent: React.FC<FanisiDocumentGeneratorProps> =
     } catch (error) {
       console.error('Error generating document:', error);
       
-      if (selectedTemplate && fanisiData) {
-        const errorDoc: FanisiGeneratedDocument = {
-          id: 'error',
-          fileName: 'error.docx',
-          content: new Uint8Array(),
-          documentType: fanisiData.Document_Type,
-          siteName: fanisiData.Site_Name,
-          generatedAt: new Date().toISOString()
-        };
-        
-        FanisiDocumentGenerator.logGeneration(
-          errorDoc, 
-          'error', 
-          error instanceof Error ? error.message : 'Unknown error'
-        );
-      }
+      logFailure(error instanceof Error ? error.message : 'Unknown error');
 
       toast({
         title: "Generation Failed",
@@ -206,7 +219,9 @@ const FanisiDocumentGeneratorComponent: React.FC<FanisiDocumentGeneratorProps> =
       return (
         <Badge className="bg-red-100 text-red-800 border-red-300">
           <AlertTriangle className="w-3 h-3 mr-1" />
-          {validationResult.missingFields.length} Missing Fields
+          {validationResult.missingFields.length > 0
+            ? `${validationResult.missingFields.length} Missing Fields`
+            : `${validationResult.invalidFields.length} Invalid Fields`}
         </Badge>
       );
     }
@@ -385,6 +400,19 @@ const FanisiDocumentGeneratorComponent: React.FC<FanisiDocumentGeneratorProps> =
                 </div>
               )}
               
+              {validationResult.invalidFields.length > 0 && (
+                <div>
+                  <h4 className="font-medium text-red-800 mb-2">Invalid Fields:</h4>
+                  <div className="bg-red-50 p-3 rounded border border-red-200">
+                    <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                      {validationResult.invalidFields.map((field) => (
+                        <li key={field}>{field}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+              
               {validationResult.unmappedVariables.length > 0 && (
                 <div>
                   <h4 className="font-medium text-yellow-800 mb-2">Unmapped Template Variables:</h4>
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { Search, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { GenerationLogFilterOptions, GenerationLogFilters, GenerationLogService } from '@/services/generationLogService';
+import { FanisiGenerationLog } from '@/types/fanisi';
+import { useToast } from '@/hooks/use-toast';
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+const EMPTY_FILTERS: GenerationLogFilters = {};
+
+const GenerationHistory = () => {
+  const { toast } = useToast();
+  const [logs, setLogs] = useState<FanisiGenerationLog[]>([]);
+  const [filters, setFilters] = useState<GenerationLogFilters>(EMPTY_FILTERS);
+  const [options, setOptions] = useState<GenerationLogFilterOptions>({ documentTypes: [], users: [] });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadLogs(filters), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  useEffect(() => {
+    GenerationLogService.getFilterOptions()
+      .then(setOptions)
+      .catch(error => console.error('Error loading generation log filters:', error));
+  }, []);
+
+  const loadLogs = async (current: GenerationLogFilters) => {
+    try {
+      setIsLoading(true);
+      setLogs(await GenerationLogService.getLogs(current));
+    } catch (error) {
+      console.error('Error loading generation logs:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load generation history",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateFilter = <K extends keyof GenerationLogFilters>(key: K, value: GenerationLogFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const failedCount = logs.filter(log => log.status === 'error').length;
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  const renderList = (label: string, items: string[]) => items.length > 0 && (
+    <div>
+      <p className="text-xs font-medium text-gray-700">{label} ({items.length})</p>
+      <p className="text-xs text-gray-600 break-words">{items.join(', ')}</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Generation History</h2>
+        <p className="text-gray-600">Every Fanisi document generation, with the validation result behind each failure</p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <Input
+              value={filters.search ?? ''}
+              onChange={(e) => updateFilter('search', e.target.value)}
+              placeholder="Search by site, file name or error..."
+              className="pl-9"
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="history-site">Site code</Label>
+              <Input
+                id="history-site"
+                value={filters.siteCode ?? ''}
+                onChange={(e) => updateFilter('siteCode', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-type">Document type</Label>
+              <select
+                id="history-type"
+                value={filters.documentType ?? ''}
+                onChange={(e) => updateFilter('documentType', e.target.value)}
+                className="w-full border rounded px-2 py-2 text-sm"
+              >
+                <option value="">All types</option>
+                {options.documentTypes.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-user">User</Label>
+              <select
+                id="history-user"
+                value={filters.userName ?? ''}
+                onChange={(e) => updateFilter('userName', e.target.value)}
+                className="w-full border rounded px-2 py-2 text-sm"
+              >
+                <option value="">All users</option>
+                {options.users.map(user => <option key={user} value={user}>{user}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-status">Status</Label>
+              <select
+                id="history-status"
+                value={filters.status ?? ''}
+                onChange={(e) => updateFilter('status', e.target.value as GenerationLogFilters['status'])}
+                className="w-full border rounded px-2 py-2 text-sm"
+              >
+                <option value="">All</option>
+                <option value="success">Succeeded</option>
+                <option value="error">Failed</option>
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-from">From</Label>
+              <Input
+                id="history-from"
+                type="date"
+                value={filters.from ?? ''}
+                onChange={(e) => updateFilter('from', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-to">To</Label>
+              <Input
+                id="history-to"
+                type="date"
+                value={filters.to ?? ''}
+                onChange={(e) => updateFilter('to', e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              {isLoading ? 'Loading...' : `${logs.length} generations, ${failedCount} failed`}
+            </span>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_FILTERS)}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Clear Filters
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-2 w-8"></th>
+                <th className="text-left p-2">When</th>
+                <th className="text-left p-2">Site</th>
+                <th className="text-left p-2">Document</th>
+                <th className="text-left p-2">User</th>
+                <th className="text-left p-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {logs.map(log => {
+                const isExpanded = expandedId === log.id;
+                return (
+                  <React.Fragment key={log.id}>
+                    <tr
+                      className={`border-t cursor-pointer hover:bg-gray-50 ${log.status === 'error' ? 'bg-red-50/50' : ''}`}
+                      onClick={() => setExpandedId(isExpanded ? null : log.id)}
+                    >
+                      <td className="p-2 text-gray-400">
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </td>
+                      <td className="p-2 whitespace-nowrap">{new Date(log.timestamp).toLocaleString()}</td>
+                      <td className="p-2">
+                        <span className="font-medium">{log.siteCode || '—'}</span>
+                        <p className="text-xs text-gray-500">{log.siteName}</p>
+                      </td>
+                      <td className="p-2">
+                        {log.documentType || '—'}
+                        {log.generatedFileName && <p className="text-xs text-gray-500">{log.generatedFileName}</p>}
+                      </td>
+                      <td className="p-2">{log.userName || '—'}</td>
+                      <td className="p-2">
+                        {log.status === 'success'
+                          ? <Badge className="bg-green-100 text-green-800">Succeeded</Badge>
+                          : <Badge className="bg-red-100 text-red-800">Failed</Badge>}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-t bg-gray-50">
+                        <td></td>
+                        <td colSpan={5} className="p-3 space-y-2">
+                          {log.templateName && (
+                            <p className="text-xs text-gray-600">Template: {log.templateName}</p>
+                          )}
+                          {log.errorMessage && (
+                            <p className="text-xs text-red-700">{log.errorMessage}</p>
+                          )}
+                          {log.validation ? (
+                            <>
+                              {renderList('Missing fields', log.validation.missingFields)}
+                              {renderList('Invalid fields', log.validation.invalidFields)}
+                              {renderList('Unmapped variables', log.validation.unmappedVariables)}
+                              {log.validation.isValid && log.validation.unmappedVariables.length === 0 && (
+                                <p className="text-xs text-gray-600">All template variables matched ROF5 data</p>
+                              )}
+                            </>
+                          ) : (
+                            <p className="text-xs text-gray-500">No template validation was recorded</p>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {!isLoading && logs.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="p-6 text-center text-gray-500">
+                    {hasFilters ? 'No generations match these filters' : 'No documents have been generated yet'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GenerationHistory;
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Download, FileText, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useWorkflow } from "@/contexts/WorkflowContext";
+import { useToast } from "@/hooks/use-toast";
+import { DocumentSource, GeneratedDocumentService, StoredDocument } from "@/services/generatedDocumentService";
+
+interface InstructionDocumentsProps {
+  instructionId: string;
+}
+
+const SOURCE_LABELS: Record<DocumentSource, string> = {
+  rof5: 'ROF 5',
+  fanisi: 'Fanisi',
+  batch: 'Batch'
+};
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const InstructionDocuments = ({ instructionId }: InstructionDocumentsProps) => {
+  const { generateDocuments } = useWorkflow();
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [instructionId]);
+
+  const loadDocuments = async () => {
+    try {
+      setIsLoading(true);
+      setDocuments(await GeneratedDocumentService.getDocuments(instructionId));
+    } catch (error) {
+      console.error('Error loading documents:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load documents",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setIsGenerating(true);
+      const stored = await generateDocuments(instructionId);
+      setDocuments(prev => [...stored, ...prev]);
+      toast({
+        title: "Documents Generated",
+        description: `${stored.length} documents generated and saved to ${instructionId}.`
+      });
+    } catch (error) {
+      toast({
+        title: "Generation Failed",
+        description: error instanceof Error ? error.message : "Failed to generate documents",
+        variant: "destructive"
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDownload = async (document: StoredDocument) => {
+    try {
+      setDownloadingId(document.id);
+      await GeneratedDocumentService.downloadDocument(document);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Failed to download document",
+        variant: "destructive"
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-400">
+          {documents.length} stored document{documents.length === 1 ? '' : 's'}
+        </p>
+        <Button
+          size="sm"
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="bg-orange-500 hover:bg-orange-600"
+        >
+          {isGenerating
+            ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            : <RefreshCw className="w-4 h-4 mr-2" />}
+          {isGenerating ? 'Generating...' : 'Generate Documents'}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="flex items-center justify-center py-6 text-sm text-slate-400">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading documents...
+        </p>
+      ) : documents.length === 0 ? (
+        <p className="py-6 text-center text-sm text-slate-400">
+          No documents have been stored for this instruction yet.
+        </p>
+      ) : (
+        <div className="border border-slate-600 rounded divide-y divide-slate-700">
+          {documents.map(document => (
+            <div key={document.id} className="flex items-center justify-between p-3 text-sm">
+              <div className="flex items-start space-x-3 min-w-0">
+                <FileText className="w-4 h-4 mt-0.5 text-orange-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-white truncate">{document.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {new Date(document.createdAt).toLocaleString()} · {formatFileSize(document.fileSize)}
+                    {document.templateName && ` · ${document.templateName}`}
+                    {document.templateVersion && ` v${document.templateVersion.versionNumber}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <Badge className="bg-slate-600 text-slate-200 border-slate-500">
+                  {SOURCE_LABELS[document.source] ?? document.source}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-slate-400 hover:text-white"
+                  disabled={downloadingId === document.id}
+                  onClick={() => handleDownload(document)}
+                >
+                  <Download className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InstructionDocuments;
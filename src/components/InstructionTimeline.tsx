@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { FileText, History, Loader2, Lock, Settings2, User } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AUDIT_CATEGORY_LABELS,
+  AuditCategory,
+  AuditLogEntry,
+  AuditLogService
+} from "@/services/auditLogService";
+
+interface InstructionTimelineProps {
+  instructionId: string;
+}
+
+const CATEGORY_ICONS: Record<AuditCategory, typeof History> = {
+  instruction: History,
+  document: FileText,
+  template: Settings2
+};
+
+const InstructionTimeline = ({ instructionId }: InstructionTimelineProps) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [category, setCategory] = useState<AuditCategory | "">("");
+  const [userName, setUserName] = useState("");
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    loadTimeline();
+  }, [instructionId]);
+
+  const loadTimeline = async () => {
+    try {
+      setIsLoading(true);
+      setEntries(await AuditLogService.getInstructionTimeline(instructionId));
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load history",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const userNames = Array.from(new Set(entries.map(entry => entry.userName))).sort();
+  const term = search.trim().toLowerCase();
+  const filteredEntries = entries.filter(entry =>
+    (!category || AuditLogService.getCategory(entry) === category) &&
+    (!userName || entry.userName === userName) &&
+    (!term || [AuditLogService.describe(entry), ...entry.changes.map(change => change.label)]
+      .some(value => value.toLowerCase().includes(term)))
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as AuditCategory | "")}
+          className="bg-slate-700 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+        >
+          <option value="">All changes</option>
+          {(Object.keys(AUDIT_CATEGORY_LABELS) as AuditCategory[]).map(key => (
+            <option key={key} value={key}>{AUDIT_CATEGORY_LABELS[key]}</option>
+          ))}
+        </select>
+        <select
+          value={userName}
+          onChange={(e) => setUserName(e.target.value)}
+          className="bg-slate-700 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+        >
+          <option value="">Everyone</option>
+          {userNames.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search changes"
+          className="flex-1 min-w-[10rem] bg-slate-700 border-slate-600 text-white"
+        />
+      </div>
+      <p className="flex items-center text-xs text-slate-400">
+        <Lock className="w-3 h-3 mr-1" />
+        Recorded by the database as changes are saved. Entries cannot be edited or removed.
+      </p>
+
+      {isLoading ? (
+        <p className="flex items-center justify-center py-6 text-sm text-slate-400">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading history...
+        </p>
+      ) : filteredEntries.length === 0 ? (
+        <p className="py-6 text-center text-sm text-slate-400">
+          {entries.length > 0 ? 'No changes match these filters.' : 'No changes have been recorded for this instruction yet.'}
+        </p>
+      ) : (
+        <ol className="relative border-l border-slate-600 ml-2 space-y-4">
+          {filteredEntries.map(entry => {
+            const Icon = CATEGORY_ICONS[AuditLogService.getCategory(entry)];
+
+            return (
+              <li key={entry.id} className="ml-4">
+                <span className="absolute -left-2 flex items-center justify-center w-4 h-4 rounded-full bg-slate-700 ring-2 ring-slate-800">
+                  <Icon className="w-2.5 h-2.5 text-orange-400" />
+                </span>
+                <p className="text-sm text-white">{AuditLogService.describe(entry)}</p>
+                <p className="flex items-center text-xs text-slate-400">
+                  <User className="w-3 h-3 mr-1" />
+                  {entry.userName} · {new Date(entry.createdAt).toLocaleString()}
+                </p>
+                {entry.operation === 'update' && entry.changes.length > 0 && (
+                  <dl className="mt-1 space-y-0.5 text-xs">
+                    {entry.changes.map(change => (
+                      <div key={change.field} className="flex flex-wrap gap-x-1">
+                        <dt className="text-slate-400">{change.label}:</dt>
+                        <dd className="text-slate-300">
+                          {AuditLogService.isDetailChange(change) ? 'updated' : (
+                            <>
+                              <span className="line-through text-slate-500">{AuditLogService.formatValue(change.oldValue)}</span>
+                              {' → '}
+                              {AuditLogService.formatValue(change.newValue)}
+                            </>
+                          )}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default InstructionTimeline;
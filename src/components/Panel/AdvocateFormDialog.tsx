@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Advocate, AdvocateInput, LawFirm, LawFirmService } from '@/services/lawFirmService';
+import { useToast } from '@/hooks/use-toast';
+
+interface AdvocateFormDialogProps {
+  lawFirm: LawFirm | null;
+  // Null adds a new advocate to the firm
+  advocate: Advocate | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (advocate: Advocate) => void;
+}
+
+const AdvocateFormDialog: React.FC<AdvocateFormDialogProps> = ({ lawFirm, advocate, open, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<AdvocateInput>(LawFirmService.createEmptyAdvocate(''));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && lawFirm) {
+      setFormData(advocate
+        ? { ...advocate, practisingCertificateExpiry: advocate.practisingCertificateExpiry ?? '' }
+        : LawFirmService.createEmptyAdvocate(lawFirm.id));
+    }
+  }, [open, lawFirm, advocate]);
+
+  const setValue = <K extends keyof AdvocateInput>(key: K, value: AdvocateInput[K]) =>
+    setFormData(prev => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      const saved = await LawFirmService.saveAdvocate(formData, advocate?.id);
+      toast({
+        title: advocate ? "Advocate Updated" : "Advocate Added",
+        description: `${saved.name} has been saved to ${lawFirm?.name}`
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save advocate",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{advocate ? `Edit ${advocate.name}` : `Add Advocate to ${lawFirm?.name}`}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="advocate-name">Full name *</Label>
+            <Input
+              id="advocate-name"
+              value={formData.name}
+              onChange={(e) => setValue('name', e.target.value)}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="advocate-email">Email</Label>
+              <Input
+                id="advocate-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setValue('email', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="advocate-phone">Phone</Label>
+              <Input
+                id="advocate-phone"
+                value={formData.phone}
+                onChange={(e) => setValue('phone', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="advocate-certificate">Practising certificate no.</Label>
+              <Input
+                id="advocate-certificate"
+                value={formData.practisingCertificateNumber}
+                onChange={(e) => setValue('practisingCertificateNumber', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="advocate-certificate-expiry">Certificate expires</Label>
+              <Input
+                id="advocate-certificate-expiry"
+                type="date"
+                value={formData.practisingCertificateExpiry ?? ''}
+                onChange={(e) => setValue('practisingCertificateExpiry', e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Signing in with this email links the advocate's account, so they see the instructions assigned to them
+          </p>
+          {advocate && (
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setValue('isActive', e.target.checked)}
+              />
+              <span>Active — inactive advocates cannot be given new instructions</span>
+            </label>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : advocate ? 'Update Advocate' : 'Add Advocate'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AdvocateFormDialog;
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LawFirm, LawFirmInput, LawFirmService } from '@/services/lawFirmService';
+import { useToast } from '@/hooks/use-toast';
+
+interface LawFirmFormDialogProps {
+  lawFirm: LawFirm | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (lawFirm: LawFirm) => void;
+}
+
+const LawFirmFormDialog: React.FC<LawFirmFormDialogProps> = ({ lawFirm, open, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<LawFirmInput>(LawFirmService.createEmptyLawFirm());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFormData(lawFirm ? { ...lawFirm } : LawFirmService.createEmptyLawFirm());
+    }
+  }, [open, lawFirm]);
+
+  const setValue = <K extends keyof LawFirmInput>(key: K, value: LawFirmInput[K]) =>
+    setFormData(prev => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      const saved = await LawFirmService.saveLawFirm(formData, lawFirm?.id);
+      toast({
+        title: lawFirm ? "Law Firm Updated" : "Law Firm Added",
+        description: `${saved.name} has been saved to the panel`
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save law firm",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{lawFirm ? `Edit ${lawFirm.name}` : 'Add Law Firm'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="law-firm-name">Firm name *</Label>
+              <Input
+                id="law-firm-name"
+                value={formData.name}
+                onChange={(e) => setValue('name', e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="law-firm-contact">Contact person</Label>
+              <Input
+                id="law-firm-contact"
+                value={formData.contactPerson}
+                onChange={(e) => setValue('contactPerson', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="law-firm-phone">Phone</Label>
+              <Input
+                id="law-firm-phone"
+                value={formData.phone}
+                onChange={(e) => setValue('phone', e.target.value)}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="law-firm-email">Email</Label>
+              <Input
+                id="law-firm-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setValue('email', e.target.value)}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="law-firm-address">Address</Label>
+              <Textarea
+                id="law-firm-address"
+                value={formData.address}
+                onChange={(e) => setValue('address', e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+          {lawFirm && (
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setValue('isActive', e.target.checked)}
+              />
+              <span>On the panel — inactive firms keep their instructions but cannot be given new ones</span>
+            </label>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : lawFirm ? 'Update Law Firm' : 'Add Law Firm'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LawFirmFormDialog;
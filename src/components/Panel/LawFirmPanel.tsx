@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { Briefcase, Edit, Mail, MapPin, Phone, Plus, Search, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Advocate,
+  CERTIFICATE_STATUS_LABELS,
+  CertificateStatus,
+  LawFirm,
+  LawFirmService
+} from '@/services/lawFirmService';
+import { useWorkflow } from '@/contexts/WorkflowContext';
+import { useToast } from '@/hooks/use-toast';
+import LawFirmFormDialog from './LawFirmFormDialog';
+import AdvocateFormDialog from './AdvocateFormDialog';
+
+const CERTIFICATE_BADGE_CLASSES: Record<CertificateStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  expiring: 'bg-amber-100 text-amber-800',
+  expired: 'bg-red-100 text-red-800',
+  missing: 'bg-gray-100 text-gray-700'
+};
+
+const LawFirmPanel = () => {
+  const { instructions } = useWorkflow();
+  const { toast } = useToast();
+  const [lawFirms, setLawFirms] = useState<LawFirm[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingFirm, setEditingFirm] = useState<LawFirm | null>(null);
+  const [isFirmFormOpen, setIsFirmFormOpen] = useState(false);
+  const [advocateFirm, setAdvocateFirm] = useState<LawFirm | null>(null);
+  const [editingAdvocate, setEditingAdvocate] = useState<Advocate | null>(null);
+  const [isAdvocateFormOpen, setIsAdvocateFormOpen] = useState(false);
+
+  useEffect(() => {
+    loadLawFirms();
+  }, []);
+
+  const loadLawFirms = async () => {
+    try {
+      setIsLoading(true);
+      setLawFirms(await LawFirmService.getLawFirms());
+    } catch (error) {
+      console.error('Error loading law firms:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load law firms",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openFirmForm = (firm: LawFirm | null) => {
+    setEditingFirm(firm);
+    setIsFirmFormOpen(true);
+  };
+
+  const openAdvocateForm = (firm: LawFirm, advocate: Advocate | null) => {
+    setAdvocateFirm(firm);
+    setEditingAdvocate(advocate);
+    setIsAdvocateFormOpen(true);
+  };
+
+  const handleFirmSaved = (saved: LawFirm) => {
+    setLawFirms(prev => {
+      const exists = prev.some(firm => firm.id === saved.id);
+      const updated = exists ? prev.map(firm => firm.id === saved.id ? saved : firm) : [...prev, saved];
+      return updated.sort((a, b) => a.name.localeCompare(b.name));
+    });
+  };
+
+  const handleAdvocateSaved = (saved: Advocate) => {
+    setLawFirms(prev => prev.map(firm => {
+      if (firm.id !== saved.lawFirmId) return firm;
+      const exists = firm.advocates.some(advocate => advocate.id === saved.id);
+      const advocates = exists
+        ? firm.advocates.map(advocate => advocate.id === saved.id ? saved : advocate)
+        : [...firm.advocates, saved];
+      return { ...firm, advocates: advocates.sort((a, b) => a.name.localeCompare(b.name)) };
+    }));
+  };
+
+  const workload = LawFirmService.getWorkload(instructions);
+  const today = new Date();
+
+  const term = search.trim().toLowerCase();
+  const filteredFirms = lawFirms.filter(firm =>
+    !term ||
+    [firm.name, firm.contactPerson, ...firm.advocates.map(advocate => advocate.name)]
+      .some(value => value.toLowerCase().includes(term))
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Law Firm Panel</h2>
+          <p className="text-gray-600">External firms instructions can be assigned to, and their advocates</p>
+        </div>
+        <Button onClick={() => openFirmForm(null)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Law Firm
+        </Button>
+      </div>
+
+      <div className="flex items-center space-x-2 max-w-md">
+        <Search className="w-4 h-4 text-gray-400" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by firm, contact or advocate"
+        />
+      </div>
+
+      <div className="grid gap-4">
+        {!isLoading && filteredFirms.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <Briefcase className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                {search ? 'No matching law firms' : 'No law firms on the panel yet'}
+              </h3>
+              <p className="text-gray-600">Add the firms you instruct so matters can be assigned to them</p>
+            </CardContent>
+          </Card>
+        ) : (
+          filteredFirms.map(firm => {
+            const openInstructions = workload[firm.id] || [];
+
+            return (
+              <Card key={firm.id} className={firm.isActive ? undefined : 'opacity-60'}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-semibold">{firm.name}</span>
+                        {!firm.isActive && <Badge variant="outline">Inactive</Badge>}
+                        <Badge variant="secondary">
+                          {openInstructions.length} open instruction{openInstructions.length === 1 ? '' : 's'}
+                        </Badge>
+                      </div>
+                      {firm.contactPerson && (
+                        <p className="text-sm text-gray-600">Contact: {firm.contactPerson}</p>
+                      )}
+                      <div className="flex items-center space-x-4 text-sm text-gray-600">
+                        {firm.phone && (
+                          <span className="flex items-center"><Phone className="w-3 h-3 mr-1" />{firm.phone}</span>
+                        )}
+                        {firm.email && (
+                          <span className="flex items-center"><Mail className="w-3 h-3 mr-1" />{firm.email}</span>
+                        )}
+                        {firm.address && (
+                          <span className="flex items-center"><MapPin className="w-3 h-3 mr-1" />{firm.address}</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => openAdvocateForm(firm, null)} title="Add advocate">
+                        <UserPlus className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openFirmForm(firm)} title="Edit">
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {firm.advocates.length > 0 ? (
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="text-left p-2">Advocate</th>
+                          <th className="text-left p-2">Practising certificate</th>
+                          <th className="text-left p-2">Open</th>
+                          <th className="p-2 w-12"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {firm.advocates.map(advocate => {
+                          const status = LawFirmService.getCertificateStatus(advocate, today);
+                          const assigned = openInstructions.filter(instruction => instruction.advocateId === advocate.id);
+
+                          return (
+                            <tr key={advocate.id} className={`border-t ${advocate.isActive ? '' : 'opacity-60'}`}>
+                              <td className="p-2">
+                                <span className="font-medium">{advocate.name}</span>
+                                <p className="text-xs text-gray-500">
+                                  {[advocate.email, advocate.phone].filter(Boolean).join(' · ') || '—'}
+                                </p>
+                              </td>
+                              <td className="p-2 space-x-1">
+                                <span>{advocate.practisingCertificateNumber || '—'}</span>
+                                <Badge className={CERTIFICATE_BADGE_CLASSES[status]}>
+                                  {advocate.practisingCertificateExpiry && status !== 'valid'
+                                    ? `${CERTIFICATE_STATUS_LABELS[status]} ${new Date(advocate.practisingCertificateExpiry).toLocaleDateString()}`
+                                    : CERTIFICATE_STATUS_LABELS[status]}
+                                </Badge>
+                              </td>
+                              <td className="p-2">{assigned.length}</td>
+                              <td className="p-2">
+                                <Button variant="ghost" size="sm" onClick={() => openAdvocateForm(firm, advocate)} title="Edit">
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-sm text-gray-500">No advocates added yet</p>
+                  )}
+
+                  {openInstructions.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {openInstructions.map(instruction => (
+                        <Badge key={instruction.id} variant="outline" title={instruction.siteName}>
+                          {instruction.siteCode || instruction.id}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      <LawFirmFormDialog
+        lawFirm={editingFirm}
+        open={isFirmFormOpen}
+        onOpenChange={setIsFirmFormOpen}
+        onSaved={handleFirmSaved}
+      />
+
+      <AdvocateFormDialog
+        lawFirm={advocateFirm}
+        advocate={editingAdvocate}
+        open={isAdvocateFormOpen}
+        onOpenChange={setIsAdvocateFormOpen}
+        onSaved={handleAdvocateSaved}
+      />
+    </div>
+  );
+};
+
+export default LawFirmPanel;
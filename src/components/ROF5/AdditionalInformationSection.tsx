@@ -1,64 +1,62 @@
-
 import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ROF5FormData } from "@/hooks/useROF5Form";
+import { ROF5FormData, ROF5TextFieldKey, ROF5ValidationErrors, getFieldDefinition, getVisibleTextFieldKeys } from "@/schemas/rof5Schema";
+import { Advocate, LawFirm } from "@/services/lawFirmService";
+import ROF5Field from "./ROF5Field";
+import CounselAutocomplete from "./CounselAutocomplete";
 
 interface AdditionalInformationSectionProps {
   formData: ROF5FormData;
-  onInputChange: (field: keyof ROF5FormData, value: string) => void;
+  onInputChange: (field: ROF5TextFieldKey, value: string) => void;
+  onDocumentCheck?: (document: string, checked: boolean) => void;
+  onCounselSelect?: (advocate: Advocate, firm: LawFirm) => void;
+  errors?: ROF5ValidationErrors;
 }
 
-const AdditionalInformationSection = ({ formData, onInputChange }: AdditionalInformationSectionProps) => {
+const AdditionalInformationSection = ({ formData, onInputChange, onDocumentCheck, onCounselSelect, errors = {} }: AdditionalInformationSectionProps) => {
+  const documents = getFieldDefinition('documentsReceived');
+
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-semibold">Additional Information</h3>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <div>
-          <Label htmlFor="instructingCounsel">Instructing Counsel *</Label>
-          <Input
-            id="instructingCounsel"
-            value={formData.instructingCounsel}
-            onChange={(e) => onInputChange("instructingCounsel", e.target.value)}
-            placeholder="Name of instructing counsel"
-            required
+        {getVisibleTextFieldKeys('additional', formData).map(field => field === 'instructingCounsel' && onCounselSelect ? (
+          <CounselAutocomplete
+            key={field}
+            formData={formData}
+            onInputChange={onInputChange}
+            onCounselSelect={onCounselSelect}
+            error={errors[field]}
           />
-        </div>
-        <div>
-          <Label htmlFor="urgencyLevel">Urgency Level</Label>
-          <Select value={formData.urgencyLevel} onValueChange={(value) => onInputChange("urgencyLevel", value)}>
-            <SelectTrigger>
-              <SelectValue placeholder="Select Urgency" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="low">Low</SelectItem>
-              <SelectItem value="medium">Medium</SelectItem>
-              <SelectItem value="high">High</SelectItem>
-              <SelectItem value="urgent">Urgent</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-        <div>
-          <Label htmlFor="expectedCompletionDate">Expected Completion Date</Label>
-          <Input
-            id="expectedCompletionDate"
-            type="date"
-            value={formData.expectedCompletionDate}
-            onChange={(e) => onInputChange("expectedCompletionDate", e.target.value)}
+        ) : (
+          <ROF5Field
+            key={field}
+            name={field}
+            formData={formData}
+            onInputChange={onInputChange}
+            error={errors[field]}
+            className={getFieldDefinition(field).format === 'textarea' ? 'md:col-span-2' : undefined}
           />
-        </div>
-      </div>
-      <div>
-        <Label htmlFor="specialConditions">Special Conditions/Notes</Label>
-        <Textarea
-          id="specialConditions"
-          value={formData.specialConditions}
-          onChange={(e) => onInputChange("specialConditions", e.target.value)}
-          placeholder="Any special conditions, requirements, or notes..."
-          rows={4}
-        />
+        ))}
       </div>
+      {onDocumentCheck && (
+        <div>
+          <Label>{documents.label}</Label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-2">
+            {documents.options?.map(option => (
+              <label key={option.value} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={formData.documentsReceived.includes(option.value)}
+                  onChange={(e) => onDocumentCheck(option.value, e.target.checked)}
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
+          {errors.documentsReceived && <p className="text-xs text-red-600 mt-1">{errors.documentsReceived}</p>}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,105 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LandlordParty, LandlordRole, LANDLORD_ROLE_OPTIONS, createLandlordParty } from "@/schemas/rof5Schema";
+
+interface AdditionalLandlordsEditorProps {
+  parties: LandlordParty[];
+  onChange: (parties: LandlordParty[]) => void;
+  error?: string;
+}
+
+const AdditionalLandlordsEditor = ({ parties, onChange, error }: AdditionalLandlordsEditorProps) => {
+  const updateParty = (index: number, updates: Partial<LandlordParty>) => {
+    onChange(parties.map((party, i) => i === index ? { ...party, ...updates } : party));
+  };
+
+  const removeParty = (index: number) => {
+    onChange(parties.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Additional Landlords</Label>
+          <p className="text-xs text-gray-500">
+            Co-owners, administrators, company directors or attorneys who sign alongside the landlord above
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...parties, createLandlordParty()])}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Landlord
+        </Button>
+      </div>
+
+      {parties.map((party, index) => (
+        <div key={index} className="border rounded-lg p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">Landlord {index + 2}</span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => removeParty(index)}>
+              <Trash2 className="w-4 h-4 text-red-600" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor={`party-${index}-name`}>Name *</Label>
+              <Input
+                id={`party-${index}-name`}
+                value={party.name}
+                onChange={(e) => updateParty(index, { name: e.target.value })}
+                placeholder="Full name"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`party-${index}-role`}>Role</Label>
+              <Select value={party.role} onValueChange={(value) => updateParty(index, { role: value as LandlordRole })}>
+                <SelectTrigger id={`party-${index}-role`}>
+                  <SelectValue placeholder="Select Role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANDLORD_ROLE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor={`party-${index}-id`}>ID/Registration Number</Label>
+              <Input
+                id={`party-${index}-id`}
+                value={party.idNumber}
+                onChange={(e) => updateParty(index, { idNumber: e.target.value })}
+                placeholder="e.g., 12345678"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`party-${index}-pin`}>KRA PIN</Label>
+              <Input
+                id={`party-${index}-pin`}
+                value={party.kraPin}
+                onChange={(e) => updateParty(index, { kraPin: e.target.value })}
+                placeholder="e.g., A123456789Z"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor={`party-${index}-address`}>Address</Label>
+              <Input
+                id={`party-${index}-address`}
+                value={party.address}
+                onChange={(e) => updateParty(index, { address: e.target.value })}
+                placeholder="Postal address; leave blank if shared with the landlord above"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default AdditionalLandlordsEditor;
@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Briefcase } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { ROF5FormData, ROF5TextFieldKey, getFieldDefinition } from "@/schemas/rof5Schema";
+import { Advocate, CERTIFICATE_STATUS_LABELS, LawFirm, LawFirmService } from "@/services/lawFirmService";
+
+interface CounselAutocompleteProps {
+  formData: ROF5FormData;
+  onInputChange: (field: ROF5TextFieldKey, value: string) => void;
+  onCounselSelect: (advocate: Advocate, firm: LawFirm) => void;
+  error?: string;
+}
+
+interface CounselOption {
+  advocate: Advocate;
+  firm: LawFirm;
+}
+
+// The panel is small, so it is loaded once and matched as the user types
+const MAX_SUGGESTIONS = 8;
+
+const CounselAutocomplete = ({ formData, onInputChange, onCounselSelect, error }: CounselAutocompleteProps) => {
+  const definition = getFieldDefinition('instructingCounsel');
+  const [lawFirms, setLawFirms] = useState<LawFirm[] | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const errorId = 'instructingCounsel-error';
+
+  useEffect(() => {
+    if (!isOpen || lawFirms) return;
+
+    LawFirmService.getLawFirms(true)
+      .then(setLawFirms)
+      .catch(loadError => {
+        console.error('Error loading law firms:', loadError);
+        setLawFirms([]);
+      });
+  }, [isOpen, lawFirms]);
+
+  const term = formData.instructingCounsel.trim().toLowerCase();
+  const today = new Date();
+  const suggestions: CounselOption[] = !term ? [] : (lawFirms || [])
+    .flatMap(firm => firm.advocates.map(advocate => ({ advocate, firm })))
+    .filter(({ advocate, firm }) =>
+      advocate.name.toLowerCase().includes(term) || firm.name.toLowerCase().includes(term))
+    .slice(0, MAX_SUGGESTIONS);
+
+  // An advocate without a current practising certificate cannot be instructed
+  const isSelectable = (option: CounselOption) =>
+    LawFirmService.getCertificateStatus(option.advocate, today) !== 'expired';
+
+  const selectCounsel = (option: CounselOption) => {
+    if (!isSelectable(option)) return;
+    setIsOpen(false);
+    onCounselSelect(option.advocate, option.firm);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      selectCounsel(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Label htmlFor="instructingCounsel">
+        {definition.label}{definition.required && ' *'}
+      </Label>
+      <Input
+        id="instructingCounsel"
+        value={formData.instructingCounsel}
+        onChange={(e) => {
+          onInputChange('instructingCounsel', e.target.value);
+          setHighlighted(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={definition.placeholder}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={isOpen && suggestions.length > 0}
+        aria-controls="instructingCounsel-suggestions"
+        aria-invalid={!!error}
+        aria-describedby={error ? errorId : undefined}
+        className={error ? 'border-red-500' : undefined}
+      />
+      {isOpen && suggestions.length > 0 && (
+        <ul
+          id="instructingCounsel-suggestions"
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-64 overflow-auto rounded-md border bg-white shadow-lg"
+        >
+          {suggestions.map((option, index) => {
+            const status = LawFirmService.getCertificateStatus(option.advocate, today);
+
+            return (
+              <li
+                key={option.advocate.id}
+                role="option"
+                aria-selected={index === highlighted}
+                aria-disabled={!isSelectable(option)}
+                // Select before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectCounsel(option);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`px-3 py-2 text-sm ${isSelectable(option) ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'} ${index === highlighted ? 'bg-blue-50' : ''}`}
+              >
+                <div className="font-medium">{option.advocate.name} · {option.firm.name}</div>
+                {status !== 'valid' && (
+                  <div className={`text-xs ${status === 'expired' ? 'text-red-600' : 'text-amber-600'}`}>
+                    {CERTIFICATE_STATUS_LABELS[status]}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+          <li className="px-3 py-1 text-xs text-gray-400 border-t flex items-center">
+            <Briefcase className="w-3 h-3 mr-1" />
+            Selecting a panel advocate assigns the instruction to their firm
+          </li>
+        </ul>
+      )}
+      {error && <p id={errorId} className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default CounselAutocomplete;
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { DraftRevision, DraftService, SavedDraft } from "@/services/draftService";
+import { ROF5FormData, createEmptyROF5FormData } from "@/schemas/rof5Schema";
+import { useToast } from "@/hooks/use-toast";
+
+interface DraftHistoryDialogProps {
+  draft: SavedDraft | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (formData: ROF5FormData, revision: DraftRevision) => void;
+}
+
+const SAVE_KIND_LABELS: Record<DraftRevision['saveKind'], string> = {
+  autosave: 'Autosave',
+  manual: 'Saved',
+  migrated: 'Imported from browser',
+  imported: 'Imported from document'
+};
+
+const DraftHistoryDialog = ({ draft, open, onOpenChange, onRestore }: DraftHistoryDialogProps) => {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<DraftRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && draft) {
+      loadRevisions(draft.id);
+    }
+  }, [open, draft]);
+
+  const loadRevisions = async (draftId: string) => {
+    try {
+      setIsLoading(true);
+      const loaded = await DraftService.getRevisions(draftId);
+      setRevisions(loaded);
+      setSelectedId(loaded[0]?.id ?? null);
+      setCompareId(loaded[1]?.id ?? null);
+    } catch (error) {
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load draft history",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selected = revisions.find(revision => revision.id === selectedId);
+  const compared = revisions.find(revision => revision.id === compareId);
+  // Compare against the chosen revision, or an empty form for the first one
+  const changes = selected
+    ? DraftService.diffRevisions(compared?.formData ?? createEmptyROF5FormData(), selected.formData)
+    : [];
+
+  const selectRevision = (revision: DraftRevision) => {
+    setSelectedId(revision.id);
+    const previous = revisions.find(candidate => candidate.revisionNumber < revision.revisionNumber);
+    setCompareId(previous?.id ?? null);
+  };
+
+  const formatTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="w-5 h-5 mr-2" />
+            {draft ? `History of ${draft.name}` : 'Draft History'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 py-6 text-center">Loading history...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">This draft has not been saved yet</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => selectRevision(revision)}
+                  className={`w-full text-left p-2 border rounded ${revision.id === selectedId ? 'border-blue-500 bg-blue-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-sm">Revision {revision.revisionNumber}</span>
+                    <Badge variant="outline">{SAVE_KIND_LABELS[revision.saveKind]}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">{formatTime(revision.createdAt)}</p>
+                  {revision.savedByEmail && <p className="text-xs text-gray-500">{revision.savedByEmail}</p>}
+                </button>
+              ))}
+            </div>
+
+            <div className="md:col-span-2 space-y-3">
+              {selected && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm">
+                      <span className="text-gray-600">Changes in revision {selected.revisionNumber} compared with </span>
+                      <select
+                        value={compareId ?? ''}
+                        onChange={(e) => setCompareId(e.target.value || null)}
+                        className="border rounded px-1 py-0.5 text-sm"
+                      >
+                        <option value="">an empty form</option>
+                        {revisions
+                          .filter(revision => revision.id !== selected.id)
+                          .map(revision => (
+                            <option key={revision.id} value={revision.id}>revision {revision.revisionNumber}</option>
+                          ))}
+                      </select>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        onRestore(selected.formData, selected);
+                        onOpenChange(false);
+                      }}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                  </div>
+
+                  {changes.length === 0 ? (
+                    <p className="text-sm text-gray-500 py-4 text-center">No differences</p>
+                  ) : (
+                    <table className="w-full text-sm border">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="text-left p-2 w-1/4">Field</th>
+                          <th className="text-left p-2">Before</th>
+                          <th className="text-left p-2">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changes.map(change => (
+                          <tr key={change.field} className="border-t align-top">
+                            <td className="p-2 font-medium">{change.label}</td>
+                            <td className="p-2 text-red-700 bg-red-50 whitespace-pre-wrap">{change.before || '—'}</td>
+                            <td className="p-2 text-green-700 bg-green-50 whitespace-pre-wrap">{change.after || '—'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DraftHistoryDialog;
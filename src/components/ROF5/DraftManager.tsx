@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Save, FolderOpen, History, Share2, Cloud, CloudOff, Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DraftRevision, DraftService, SavedDraft } from "@/services/draftService";
+import { DraftSaveStatus } from "@/hooks/useDraftAutosave";
+import { ROF5FormData } from "@/schemas/rof5Schema";
+import { useToast } from "@/hooks/use-toast";
+import DraftHistoryDialog from "./DraftHistoryDialog";
+import ShareDraftDialog from "./ShareDraftDialog";
+
+interface DraftManagerProps {
+  draft: SavedDraft | null;
+  status: DraftSaveStatus;
+  onSave: (name?: string) => Promise<SavedDraft | null>;
+  onLoad: (draft: SavedDraft) => void;
+  onRestore: (formData: ROF5FormData, revision: DraftRevision) => void;
+  onDelete?: (draft: SavedDraft) => void;
+}
+
+const DraftManager = ({ draft, status, onSave, onLoad, onRestore, onDelete }: DraftManagerProps) => {
+  const { toast } = useToast();
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [showLoadDialog, setShowLoadDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const [savedDrafts, setSavedDrafts] = useState<SavedDraft[]>([]);
+  const [isLoadingDrafts, setIsLoadingDrafts] = useState(false);
+
+  const openSaveDialog = () => {
+    setDraftName(draft?.name ?? '');
+    setShowSaveDialog(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const saved = await onSave(draftName);
+      setShowSaveDialog(false);
+      setDraftName('');
+      toast({
+        title: "Draft Saved",
+        description: `ROF 5 draft "${saved?.name}" has been saved as revision ${saved?.currentRevision}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save draft. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openLoadDialog = async () => {
+    setShowLoadDialog(true);
+    try {
+      setIsLoadingDrafts(true);
+      setSavedDrafts(await DraftService.getAllDrafts());
+    } catch (error) {
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load drafts",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoadingDrafts(false);
+    }
+  };
+
+  const handleLoad = (selected: SavedDraft) => {
+    onLoad(selected);
+    setShowLoadDialog(false);
+  };
+
+  const handleDelete = async (selected: SavedDraft) => {
+    try {
+      await DraftService.deleteDraft(selected.id);
+      setSavedDrafts(prev => prev.filter(existing => existing.id !== selected.id));
+      onDelete?.(selected);
+      toast({
+        title: "Draft Deleted",
+        description: "Draft has been deleted successfully",
+      });
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Failed to delete draft",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const formatTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
+  };
+
+  const renderStatus = () => {
+    switch (status) {
+      case 'saving':
+        return (
+          <span className="flex items-center text-xs text-gray-500">
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            Saving...
+          </span>
+        );
+      case 'saved':
+        return (
+          <span className="flex items-center text-xs text-gray-500">
+            <Cloud className="w-3 h-3 mr-1" />
+            Saved {draft ? new Date(draft.lastModified).toLocaleTimeString() : ''}
+          </span>
+        );
+      case 'error':
+        return (
+          <span className="flex items-center text-xs text-red-600">
+            <CloudOff className="w-3 h-3 mr-1" />
+            Autosave failed
+          </span>
+        );
+      default:
+        return <span className="text-xs text-gray-400">Changes are saved automatically</span>;
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-3">
+      <div className="flex space-x-2">
+        <Button type="button" variant="outline" size="sm" onClick={openSaveDialog}>
+          <Save className="w-4 h-4 mr-2" />
+          Save Draft
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={openLoadDialog}>
+          <FolderOpen className="w-4 h-4 mr-2" />
+          Load Draft
+        </Button>
+        {draft && (
+          <>
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+              <History className="w-4 h-4 mr-2" />
+              History
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowShare(true)}>
+              <Share2 className="w-4 h-4 mr-2" />
+              Share
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-col">
+        {draft && <span className="text-sm font-medium">{draft.name}</span>}
+        {renderStatus()}
+      </div>
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Draft</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              placeholder="Enter draft name (optional)"
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setShowSaveDialog(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={status === 'saving'}>
+                Save Draft
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showLoadDialog} onOpenChange={setShowLoadDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Load Draft</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 max-h-96 overflow-y-auto">
+            {isLoadingDrafts ? (
+              <p className="text-gray-500 text-center py-4">Loading drafts...</p>
+            ) : savedDrafts.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No saved drafts found</p>
+            ) : (
+              savedDrafts.map((saved) => (
+                <div key={saved.id} className="flex items-center justify-between p-3 border rounded">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <h4 className="font-medium">{saved.name}</h4>
+                      {saved.sharedWithMe && (
+                        <Badge variant="secondary" className="flex items-center">
+                          <Users className="w-3 h-3 mr-1" />
+                          Shared by {saved.ownerEmail || 'a colleague'}
+                        </Badge>
+                      )}
+                      {saved.id === draft?.id && <Badge variant="outline">Open</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      Last saved: {formatTime(saved.lastModified)} · Revision {saved.currentRevision}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button size="sm" onClick={() => handleLoad(saved)}>
+                      Load
+                    </Button>
+                    {!saved.sharedWithMe && (
+                      <Button size="sm" variant="destructive" onClick={() => handleDelete(saved)}>
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <DraftHistoryDialog
+        draft={draft}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        onRestore={onRestore}
+      />
+
+      <ShareDraftDialog
+        draft={draft}
+        open={showShare}
+        onOpenChange={setShowShare}
+      />
+    </div>
+  );
+};
+
+export default DraftManager;
@@ -0,0 +1,52 @@
+import { useMemo } from "react";
+import { ROF5FormData } from "@/hooks/useROF5Form";
+import { FeeCalculationService } from "@/services/feeCalculationService";
+import { useFeeScale } from "@/hooks/useFeeScale";
+
+interface FeeBreakdownPreviewProps {
+  formData: ROF5FormData;
+}
+
+const FeeBreakdownPreview = ({ formData }: FeeBreakdownPreviewProps) => {
+  const feeScale = useFeeScale();
+  const fees = useMemo(
+    () => feeScale ? FeeCalculationService.calculateFromFormData(formData, feeScale) : null,
+    [formData, feeScale]
+  );
+
+  if (!fees || fees.total <= 0) {
+    return null;
+  }
+
+  const row = (label: string, amount: number, emphasis = false) => (
+    <div className={`flex justify-between ${emphasis ? 'font-semibold border-t pt-1 mt-1' : ''}`}>
+      <span>{label}</span>
+      <span>KES {amount.toLocaleString()}</span>
+    </div>
+  );
+
+  return (
+    <div className="border rounded-lg p-4 bg-gray-50">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-gray-900">Fee Estimate</h4>
+        <span className="text-xs text-gray-600">{fees.scaleName}</span>
+      </div>
+      <div className="text-sm space-y-1">
+        {row(`Professional fee (on average annual rent of KES ${fees.averageAnnualRent.toLocaleString()})`, fees.professionalFee)}
+        {row(`VAT (${fees.vatRate}%)`, fees.vat)}
+        {fees.disbursements.map(disbursement => (
+          <div key={disbursement.label} className="flex justify-between text-gray-600">
+            <span>
+              {disbursement.label}
+              {disbursement.label === 'Stamp duty' && ` (${fees.stampDutyRate}%)`}
+            </span>
+            <span>KES {disbursement.amount.toLocaleString()}</span>
+          </div>
+        ))}
+        {row('Total', fees.total, true)}
+      </div>
+    </div>
+  );
+};
+
+export default FeeBreakdownPreview;
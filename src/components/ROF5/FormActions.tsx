@@ -1,17 +1,26 @@
 
-import { Zap, FileText } from "lucide-react";
+import { Zap, FileText, ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 interface FormActionsProps {
   onSaveDraft?: () => void;
   isSubmitting?: boolean;
   onDownloadROF5?: () => void;
+  // Returns to the previous wizard step
+  onBack?: () => void;
 }
 
-const FormActions = ({ onSaveDraft, isSubmitting = false, onDownloadROF5 }: FormActionsProps) => {
+const FormActions = ({ onSaveDraft, isSubmitting = false, onDownloadROF5, onBack }: FormActionsProps) => {
   return (
     <div className="flex justify-between items-center">
       <div className="flex space-x-4">
+        {onBack && (
+          <Button type="button" variant="outline" onClick={onBack} disabled={isSubmitting}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        )}
+
         <Button 
           type="button" 
           variant="outline" 
@@ -1,6 +1,7 @@
 
-import { Separator } from "@/components/ui/separator";
-import { ROF5FormData } from "@/hooks/useROF5Form";
+import { ROF5FormData, ROF5Section, ROF5TextFieldKey, ROF5ValidationErrors, LandlordParty } from "@/schemas/rof5Schema";
+import { Site } from "@/services/siteService";
+import { Advocate, LawFirm } from "@/services/lawFirmService";
 import SiteInformationSection from "./SiteInformationSection";
 import TitleDetailsSection from "./TitleDetailsSection";
 import LandlordInformationSection from "./LandlordInformationSection";
@@ -8,48 +9,64 @@ import LeaseTermsSection from "./LeaseTermsSection";
 import AdditionalInformationSection from "./AdditionalInformationSection";
 
 interface FormSectionsProps {
+  // The wizard step being shown
+  section: ROF5Section;
   formData: ROF5FormData;
-  onInputChange: (field: keyof ROF5FormData, value: string) => void;
+  onInputChange: (field: ROF5TextFieldKey, value: string) => void;
   onDocumentCheck?: (document: string, checked: boolean) => void;
+  onLandlordsChange?: (parties: LandlordParty[]) => void;
+  onSiteSelect?: (site: Site) => void;
+  onCounselSelect?: (advocate: Advocate, firm: LawFirm) => void;
+  errors?: ROF5ValidationErrors;
 }
 
-const FormSections = ({ formData, onInputChange, onDocumentCheck }: FormSectionsProps) => {
-  return (
-    <div className="lg:col-span-2 space-y-8">
-      <SiteInformationSection 
-        formData={formData} 
-        onInputChange={onInputChange} 
-      />
-      
-      <Separator />
-      
-      <TitleDetailsSection 
-        formData={formData} 
-        onInputChange={onInputChange} 
-      />
-      
-      <Separator />
-      
-      <LandlordInformationSection 
-        formData={formData} 
-        onInputChange={onInputChange} 
-      />
-      
-      <Separator />
-      
-      <LeaseTermsSection 
-        formData={formData} 
-        onInputChange={onInputChange} 
-      />
-      
-      <Separator />
-      
-      <AdditionalInformationSection 
-        formData={formData} 
-        onInputChange={onInputChange} 
-      />
-    </div>
-  );
+const FormSections = ({ section, formData, onInputChange, onDocumentCheck, onLandlordsChange, onSiteSelect, onCounselSelect, errors }: FormSectionsProps) => {
+  switch (section) {
+    case 'site':
+      return (
+        <SiteInformationSection
+          formData={formData}
+          onInputChange={onInputChange}
+          onSiteSelect={onSiteSelect}
+          errors={errors}
+        />
+      );
+    case 'title':
+      return (
+        <TitleDetailsSection
+          formData={formData}
+          onInputChange={onInputChange}
+          errors={errors}
+        />
+      );
+    case 'landlord':
+      return (
+        <LandlordInformationSection
+          formData={formData}
+          onInputChange={onInputChange}
+          onLandlordsChange={onLandlordsChange}
+          errors={errors}
+        />
+      );
+    case 'lease':
+      return (
+        <LeaseTermsSection
+          formData={formData}
+          onInputChange={onInputChange}
+          errors={errors}
+        />
+      );
+    case 'additional':
+      return (
+        <AdditionalInformationSection
+          formData={formData}
+          onInputChange={onInputChange}
+          onDocumentCheck={onDocumentCheck}
+          onCounselSelect={onCounselSelect}
+          errors={errors}
+        />
+      );
+  }
 };
 
 export default FormSections;
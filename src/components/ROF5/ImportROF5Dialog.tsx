@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { FileUp, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ImportConfidence, ImportedField, ROF5ImportResult, ROF5ImportService } from "@/services/rof5ImportService";
+import { ROF5FormData, getFieldDefinition } from "@/schemas/rof5Schema";
+import { useToast } from "@/hooks/use-toast";
+
+interface ImportROF5DialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (formData: ROF5FormData, fileName: string) => Promise<void>;
+}
+
+interface ImportRow extends ImportedField {
+  include: boolean;
+}
+
+const CONFIDENCE_STYLES: Record<ImportConfidence, string> = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-red-100 text-red-800'
+};
+
+const ImportROF5Dialog = ({ open, onOpenChange, onImport }: ImportROF5DialogProps) => {
+  const { toast } = useToast();
+  const [result, setResult] = useState<ROF5ImportResult | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [activeLine, setActiveLine] = useState<number | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setResult(null);
+    setRows([]);
+    setActiveLine(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsParsing(true);
+      const parsed = await ROF5ImportService.importFile(file);
+      setResult(parsed);
+      setRows(parsed.fields.map(field => ({ ...field, include: true })));
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Failed to read the ROF5 form",
+        variant: "destructive"
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ImportRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleConfirm = async () => {
+    if (!result) return;
+
+    try {
+      setIsImporting(true);
+      await onImport(ROF5ImportService.toFormData(rows.filter(row => row.include)), result.fileName);
+      handleOpenChange(false);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const usedLines = new Set(rows.filter(row => row.include).map(row => row.lineIndex));
+  const includedCount = rows.filter(row => row.include).length;
+
+  const renderValueInput = (row: ImportRow, index: number) => {
+    const definition = getFieldDefinition(row.field);
+
+    if (definition.format === 'select' && definition.options) {
+      return (
+        <select
+          value={row.value}
+          onChange={(e) => updateRow(index, { value: e.target.value, issue: undefined })}
+          className="w-full border rounded px-2 py-1 text-sm"
+        >
+          {!definition.options.some(option => option.value === row.value) && (
+            <option value={row.value}>{row.value || 'Select...'}</option>
+          )}
+          {definition.options.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <Input
+        type={definition.format === 'date' ? 'date' : 'text'}
+        value={row.value}
+        onChange={(e) => updateRow(index, { value: e.target.value, issue: undefined })}
+        className="h-8 text-sm"
+      />
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileUp className="w-5 h-5 mr-2" />
+            {result ? `Confirm Import from ${result.fileName}` : 'Import ROF5'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!result ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Upload a filled-in ROF5 form as a Word document or a PDF with selectable text.
+              Values next to labels such as "Site Code:" and "Title Number:" are read into the form
+              for you to check before a draft is created.
+            </p>
+            <div className="border-2 border-dashed rounded-lg p-8 text-center">
+              {isParsing ? (
+                <p className="flex items-center justify-center text-sm text-gray-600">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Reading form...
+                </p>
+              ) : (
+                <>
+                  <Label htmlFor="rof5-import-file" className="cursor-pointer text-blue-600 hover:underline">
+                    Choose a .docx or .pdf file
+                  </Label>
+                  <input
+                    id="rof5-import-file"
+                    type="file"
+                    accept=".docx,.pdf,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+                </>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Document</h4>
+                <div className="border rounded p-2 max-h-[60vh] overflow-y-auto text-xs font-mono space-y-0.5">
+                  {result.lines.map((line, index) => (
+                    <div
+                      key={index}
+                      className={`px-1 rounded whitespace-pre-wrap ${
+                        index === activeLine ? 'bg-blue-100' : usedLines.has(index) ? 'bg-yellow-50' : ''
+                      }`}
+                    >
+                      {line.replace(/\t/g, '  |  ')}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Form fields ({includedCount} of {rows.length} selected)</h4>
+                <div className="border rounded max-h-[60vh] overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="p-2 w-8"></th>
+                        <th className="text-left p-2">Field</th>
+                        <th className="text-left p-2">Value</th>
+                        <th className="text-left p-2">Confidence</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row, index) => (
+                        <tr
+                          key={row.field}
+                          className="border-t align-top"
+                          onMouseEnter={() => setActiveLine(row.lineIndex)}
+                          onMouseLeave={() => setActiveLine(null)}
+                        >
+                          <td className="p-2">
+                            <input
+                              type="checkbox"
+                              className="h-4 w-4 mt-1"
+                              checked={row.include}
+                              onChange={(e) => updateRow(index, { include: e.target.checked })}
+                            />
+                          </td>
+                          <td className="p-2">
+                            <span className="font-medium">{row.label}</span>
+                            {row.rawValue !== row.value && (
+                              <p className="text-xs text-gray-500">Read as "{row.rawValue}"</p>
+                            )}
+                          </td>
+                          <td className="p-2">
+                            {renderValueInput(row, index)}
+                            {row.issue && <p className="text-xs text-red-600 mt-1">{row.issue}</p>}
+                          </td>
+                          <td className="p-2">
+                            <Badge className={CONFIDENCE_STYLES[row.confidence]}>
+                              {row.confidence} ({Math.round(row.score * 100)}%)
+                            </Badge>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-between items-center pt-4 border-t">
+              <Button variant="outline" onClick={reset} disabled={isImporting}>
+                Choose Another File
+              </Button>
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+                  Cancel
+                </Button>
+                <Button onClick={handleConfirm} disabled={isImporting || includedCount === 0}>
+                  {isImporting ? 'Creating Draft...' : `Create Draft with ${includedCount} Fields`}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportROF5Dialog;
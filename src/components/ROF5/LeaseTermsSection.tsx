@@ -1,16 +1,16 @@
-
 import { DollarSign } from "lucide-react";
-import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ROF5FormData } from "@/hooks/useROF5Form";
+import { ROF5FormData, ROF5TextFieldKey, ROF5ValidationErrors, getFieldDefinition, getVisibleTextFieldKeys } from "@/schemas/rof5Schema";
+import ROF5Field from "./ROF5Field";
+import RentSchedulePreview from "./RentSchedulePreview";
+import FeeBreakdownPreview from "./FeeBreakdownPreview";
 
 interface LeaseTermsSectionProps {
   formData: ROF5FormData;
-  onInputChange: (field: keyof ROF5FormData, value: string) => void;
+  onInputChange: (field: ROF5TextFieldKey, value: string) => void;
+  errors?: ROF5ValidationErrors;
 }
 
-const LeaseTermsSection = ({ formData, onInputChange }: LeaseTermsSectionProps) => {
+const LeaseTermsSection = ({ formData, onInputChange, errors = {} }: LeaseTermsSectionProps) => {
   return (
     <div className="space-y-4">
       <div className="flex items-center space-x-2 mb-4">
@@ -18,74 +18,19 @@ const LeaseTermsSection = ({ formData, onInputChange }: LeaseTermsSectionProps)
         <h3 className="text-lg font-semibold">Lease Terms</h3>
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        <div>
-          <Label htmlFor="leaseType">Lease Type *</Label>
-          <Select value={formData.leaseType} onValueChange={(value) => onInputChange("leaseType", value)}>
-            <SelectTrigger>
-              <SelectValue placeholder="Select Lease Type" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="lease">Lease Agreement</SelectItem>
-              <SelectItem value="licence">Licence Agreement</SelectItem>
-              <SelectItem value="agreement-to-lease">Agreement to Lease</SelectItem>
-              <SelectItem value="wayleave">Wayleave Agreement</SelectItem>
-              <SelectItem value="easement">Easement Agreement</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-        <div>
-          <Label htmlFor="leaseTerm">Lease Term (Years) *</Label>
-          <Input
-            id="leaseTerm"
-            type="number"
-            value={formData.leaseTerm}
-            onChange={(e) => onInputChange("leaseTerm", e.target.value)}
-            placeholder="e.g., 10"
-            required
-          />
-        </div>
-        <div>
-          <Label htmlFor="commencementDate">Commencement Date *</Label>
-          <Input
-            id="commencementDate"
-            type="date"
-            value={formData.commencementDate}
-            onChange={(e) => onInputChange("commencementDate", e.target.value)}
-            required
-          />
-        </div>
-        <div>
-          <Label htmlFor="monthlyRent">Monthly Rent (KES) *</Label>
-          <Input
-            id="monthlyRent"
-            type="number"
-            value={formData.monthlyRent}
-            onChange={(e) => onInputChange("monthlyRent", e.target.value)}
-            placeholder="e.g., 50000"
-            required
-          />
-        </div>
-        <div>
-          <Label htmlFor="deposit">Security Deposit (KES)</Label>
-          <Input
-            id="deposit"
-            type="number"
-            value={formData.deposit}
-            onChange={(e) => onInputChange("deposit", e.target.value)}
-            placeholder="e.g., 100000"
-          />
-        </div>
-        <div>
-          <Label htmlFor="rentEscalation">Rent Escalation (% p.a.)</Label>
-          <Input
-            id="rentEscalation"
-            type="number"
-            value={formData.rentEscalation}
-            onChange={(e) => onInputChange("rentEscalation", e.target.value)}
-            placeholder="5"
+        {getVisibleTextFieldKeys('lease', formData).map(field => (
+          <ROF5Field
+            key={field}
+            name={field}
+            formData={formData}
+            onInputChange={onInputChange}
+            error={errors[field]}
+            className={getFieldDefinition(field).format === 'textarea' ? 'md:col-span-2 lg:col-span-3' : undefined}
           />
-        </div>
+        ))}
       </div>
+      <RentSchedulePreview formData={formData} />
+      <FeeBreakdownPreview formData={formData} />
     </div>
   );
 };
@@ -0,0 +1,88 @@
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ROF5FormData, ROF5TextFieldKey, getFieldDefinition } from "@/schemas/rof5Schema";
+
+interface ROF5FieldProps {
+  name: ROF5TextFieldKey;
+  formData: ROF5FormData;
+  onInputChange: (field: ROF5TextFieldKey, value: string) => void;
+  error?: string;
+  className?: string;
+}
+
+const INPUT_TYPES: Record<string, string> = {
+  date: 'date',
+  email: 'email',
+  phone: 'tel',
+  number: 'number'
+};
+
+const ROF5Field = ({ name, formData, onInputChange, error, className }: ROF5FieldProps) => {
+  const definition = getFieldDefinition(name);
+  const value = formData[name];
+  const errorId = `${name}-error`;
+
+  const renderControl = () => {
+    switch (definition.format) {
+      case 'select':
+        return (
+          <Select value={value} onValueChange={(selected) => onInputChange(name, selected)}>
+            <SelectTrigger
+              id={name}
+              aria-invalid={!!error}
+              aria-describedby={error ? errorId : undefined}
+              className={error ? 'border-red-500' : undefined}
+            >
+              <SelectValue placeholder={`Select ${definition.label}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {definition.options?.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'textarea':
+        return (
+          <Textarea
+            id={name}
+            value={value}
+            onChange={(e) => onInputChange(name, e.target.value)}
+            placeholder={definition.placeholder}
+            aria-invalid={!!error}
+            aria-describedby={error ? errorId : undefined}
+            className={error ? 'border-red-500' : undefined}
+          />
+        );
+      default:
+        return (
+          <Input
+            id={name}
+            type={INPUT_TYPES[definition.format] ?? 'text'}
+            // KES amounts accept "50,000", so they stay text inputs with a numeric keypad
+            inputMode={definition.format === 'kes' ? 'decimal' : undefined}
+            value={value}
+            onChange={(e) => onInputChange(name, e.target.value)}
+            placeholder={definition.placeholder}
+            aria-invalid={!!error}
+            aria-describedby={error ? errorId : undefined}
+            className={error ? 'border-red-500' : undefined}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className={className}>
+      <Label htmlFor={name}>
+        {definition.label}{definition.required && ' *'}
+      </Label>
+      {renderControl()}
+      {error && <p id={errorId} className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default ROF5Field;
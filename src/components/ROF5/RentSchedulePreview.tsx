@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { ROF5FormData } from "@/hooks/useROF5Form";
+import { RentScheduleService } from "@/services/rentScheduleService";
+
+interface RentSchedulePreviewProps {
+  formData: ROF5FormData;
+}
+
+const RentSchedulePreview = ({ formData }: RentSchedulePreviewProps) => {
+  const schedule = useMemo(() => RentScheduleService.calculateFromFormData(formData), [formData]);
+
+  if (schedule.terms.monthlyRent <= 0 || schedule.periods.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border rounded-lg p-4 bg-gray-50">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-gray-900">Rent Schedule</h4>
+        <span className="text-xs text-gray-600">{RentScheduleService.describeEscalation(schedule.terms)}</span>
+      </div>
+      <div className="max-h-64 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b">
+              <th className="py-1 pr-2">Year</th>
+              <th className="py-1 pr-2">Period</th>
+              <th className="py-1 pr-2 text-right">Monthly (KES)</th>
+              <th className="py-1 text-right">Annual (KES)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.periods.map(period => (
+              <tr key={period.year} className={`border-b last:border-0 ${period.term === 'renewal' ? 'text-gray-500' : ''}`}>
+                <td className="py-1 pr-2">
+                  {period.year}
+                  {period.term === 'renewal' && <span className="ml-1 text-xs">(renewal)</span>}
+                </td>
+                <td className="py-1 pr-2 text-xs">
+                  {period.startDate ? `${period.startDate} – ${period.endDate}` : '—'}
+                </td>
+                <td className="py-1 pr-2 text-right">{period.monthlyRent.toLocaleString()}</td>
+                <td className="py-1 text-right">
+                  {period.annualRent.toLocaleString()}
+                  {period.rentFreeMonths > 0 && (
+                    <span className="block text-xs text-green-700">{period.rentFreeMonths} months rent-free</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-between text-xs text-gray-600 mt-2 pt-2 border-t">
+        <span>Initial term total: KES {schedule.initialTermTotal.toLocaleString()}</span>
+        {schedule.renewalTermTotal > 0 && (
+          <span>Renewal term total: KES {schedule.renewalTermTotal.toLocaleString()}</span>
+        )}
+      </div>
+      {schedule.calendarYears.length > 0 && (
+        <p className="text-xs text-gray-500 mt-1">
+          Calendar {schedule.calendarYears[0].year}: KES {schedule.calendarYears[0].amount.toLocaleString()} over {schedule.calendarYears[0].months} months (pro-rated from commencement)
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RentSchedulePreview;
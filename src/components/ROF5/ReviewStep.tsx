@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from "react";
+import { Download, Eye, FileText, Pencil, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  ROF5FormData,
+  ROF5Section,
+  ROF5_SECTIONS,
+  formatFieldValue,
+  getFieldDefinition,
+  getFieldKeys,
+  isFieldVisible
+} from "@/schemas/rof5Schema";
+import { DocumentGenerationService, GeneratedDocument } from "@/services/documentGenerationService";
+
+interface ReviewStepProps {
+  formData: ROF5FormData;
+  documents: GeneratedDocument[];
+  // The answers the documents were generated from
+  bundleFormData: ROF5FormData | null;
+  isGenerating: boolean;
+  onGenerateBundle: () => void;
+  onDownloadAll: () => void;
+  onEditSection: (section: ROF5Section) => void;
+}
+
+const ReviewStep = ({
+  formData,
+  documents,
+  bundleFormData,
+  isGenerating,
+  onGenerateBundle,
+  onDownloadAll,
+  onEditSection
+}: ReviewStepProps) => {
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [previewHtml, setPreviewHtml] = useState('');
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const requestedFormData = useRef<ROF5FormData | null>(null);
+
+  // Regenerate on arrival if the answers changed since the bundle was generated. Each
+  // set of answers is tried once per visit, so a failed generation is not repeated.
+  useEffect(() => {
+    if (documents.length > 0 && bundleFormData === formData) return;
+    if (requestedFormData.current === formData) return;
+
+    requestedFormData.current = formData;
+    onGenerateBundle();
+  }, [formData, documents, bundleFormData, onGenerateBundle]);
+
+  useEffect(() => {
+    setPreviewId(documents[0]?.id ?? null);
+  }, [documents]);
+
+  useEffect(() => {
+    const preview = documents.find(document => document.id === previewId);
+    if (!preview) {
+      setPreviewHtml('');
+      return;
+    }
+
+    const loadPreview = async () => {
+      try {
+        setIsLoadingPreview(true);
+        setPreviewHtml(await DocumentGenerationService.getPreviewHtml(preview));
+      } catch (error) {
+        setPreviewHtml(`<p style="color: #ef4444;">${error instanceof Error ? error.message : 'Preview not available'}</p>`);
+      } finally {
+        setIsLoadingPreview(false);
+      }
+    };
+
+    loadPreview();
+  }, [previewId, documents]);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold">Review Instruction</h3>
+        {ROF5_SECTIONS.map(section => (
+          <div key={section.id} className="border rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-medium">{section.title}</h4>
+              <Button type="button" variant="ghost" size="sm" onClick={() => onEditSection(section.id)}>
+                <Pencil className="w-4 h-4 mr-1" />
+                Edit
+              </Button>
+            </div>
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+              {getFieldKeys(section.id)
+                .filter(field => isFieldVisible(field, formData))
+                .map(field => {
+                  const definition = getFieldDefinition(field);
+                  const value = formatFieldValue(field, formData);
+                  const label = definition.options?.find(option => option.value === value)?.label ?? value;
+
+                  return (
+                    <div key={field} className={definition.format === 'textarea' ? 'md:col-span-2' : undefined}>
+                      <dt className="text-gray-500">{definition.label}</dt>
+                      <dd className="whitespace-pre-wrap">{label || <span className="text-gray-400">Not provided</span>}</dd>
+                    </div>
+                  );
+                })}
+            </dl>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Document Bundle</h3>
+          <div className="flex space-x-2">
+            <Button type="button" variant="outline" size="sm" onClick={onGenerateBundle} disabled={isGenerating}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isGenerating ? 'animate-spin' : ''}`} />
+              Regenerate
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={onDownloadAll} disabled={isGenerating || documents.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Download All
+            </Button>
+          </div>
+        </div>
+
+        {isGenerating && documents.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">Generating documents...</p>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">No documents generated yet</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              {documents.map(document => (
+                <button
+                  key={document.id}
+                  type="button"
+                  onClick={() => setPreviewId(document.id)}
+                  className={`w-full text-left p-2 border rounded ${document.id === previewId ? 'border-blue-500 bg-blue-50' : ''}`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <FileText className="w-4 h-4 text-blue-600 shrink-0" />
+                    <span className="text-sm font-medium truncate">{document.name}</span>
+                  </div>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <Badge variant="outline">{document.templateUsed}</Badge>
+                    {document.templateVersion && (
+                      <span className="text-xs text-gray-500">v{document.templateVersion.versionNumber}</span>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="md:col-span-2 border rounded-lg p-4 max-h-[32rem] overflow-y-auto bg-white">
+              {isLoadingPreview ? (
+                <p className="text-sm text-gray-500 py-6 text-center">Loading preview...</p>
+              ) : previewHtml ? (
+                <div className="prose prose-sm max-w-none" dangerouslySetInnerHTML={{ __html: previewHtml }} />
+              ) : (
+                <p className="flex items-center justify-center text-sm text-gray-500 py-6">
+                  <Eye className="w-4 h-4 mr-2" />
+                  Select a document to preview
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewStep;
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { Share2, X } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DraftService, DraftShare, SavedDraft } from "@/services/draftService";
+import { useToast } from "@/hooks/use-toast";
+
+interface ShareDraftDialogProps {
+  draft: SavedDraft | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ShareDraftDialog = ({ draft, open, onOpenChange }: ShareDraftDialogProps) => {
+  const { toast } = useToast();
+  const [shares, setShares] = useState<DraftShare[]>([]);
+  const [email, setEmail] = useState('');
+  const [isSharing, setIsSharing] = useState(false);
+
+  useEffect(() => {
+    if (open && draft) {
+      setEmail('');
+      DraftService.getShares(draft.id)
+        .then(setShares)
+        .catch(error => console.error('Error loading draft shares:', error));
+    }
+  }, [open, draft]);
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !email.trim()) return;
+
+    try {
+      setIsSharing(true);
+      await DraftService.shareDraft(draft.id, email);
+      setShares(await DraftService.getShares(draft.id));
+      toast({
+        title: "Draft Shared",
+        description: `${email.trim()} can now open and complete "${draft.name}"`
+      });
+      setEmail('');
+    } catch (error) {
+      toast({
+        title: "Sharing Failed",
+        description: error instanceof Error ? error.message : "Failed to share draft",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleRemove = async (share: DraftShare) => {
+    try {
+      await DraftService.removeShare(share.draftId, share.userId);
+      setShares(prev => prev.filter(existing => existing.userId !== share.userId));
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Failed to stop sharing draft",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Share2 className="w-5 h-5 mr-2" />
+            Share Draft
+          </DialogTitle>
+        </DialogHeader>
+
+        {draft?.sharedWithMe ? (
+          <p className="text-sm text-gray-600">
+            This draft was shared with you by {draft.ownerEmail || 'a colleague'}. Only they can share it further.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <form onSubmit={handleShare} className="space-y-2">
+              <Label htmlFor="share-email">Colleague's email</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="share-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="colleague@example.com"
+                />
+                <Button type="submit" disabled={isSharing || !email.trim()}>
+                  {isSharing ? 'Sharing...' : 'Share'}
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">They will see the draft in their draft list and can edit and submit it.</p>
+            </form>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Shared with</h4>
+              {shares.length === 0 ? (
+                <p className="text-sm text-gray-500">Not shared with anyone yet</p>
+              ) : (
+                shares.map(share => (
+                  <div key={share.userId} className="flex items-center justify-between p-2 border rounded">
+                    <span className="text-sm">{share.email}</span>
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(share)} title="Stop sharing">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDraftDialog;
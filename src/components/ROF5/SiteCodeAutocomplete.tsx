@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { History } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { ROF5FormData, ROF5TextFieldKey, getFieldDefinition } from "@/schemas/rof5Schema";
+import { Site, SiteService } from "@/services/siteService";
+
+interface SiteCodeAutocompleteProps {
+  formData: ROF5FormData;
+  onInputChange: (field: ROF5TextFieldKey, value: string) => void;
+  onSiteSelect: (site: Site) => void;
+  error?: string;
+}
+
+// Wait for a pause in typing before querying the registry
+const SEARCH_DELAY_MS = 250;
+
+const SiteCodeAutocomplete = ({ formData, onInputChange, onSiteSelect, error }: SiteCodeAutocompleteProps) => {
+  const definition = getFieldDefinition('siteCode');
+  const [suggestions, setSuggestions] = useState<Site[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const errorId = 'siteCode-error';
+
+  useEffect(() => {
+    if (!isOpen || !formData.siteCode.trim()) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const sites = await SiteService.searchByCode(formData.siteCode);
+      if (!cancelled) {
+        setSuggestions(sites);
+        setHighlighted(0);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.siteCode, isOpen]);
+
+  const selectSite = (site: Site) => {
+    setIsOpen(false);
+    setSuggestions([]);
+    onSiteSelect(site);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      selectSite(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Label htmlFor="siteCode">
+        {definition.label}{definition.required && ' *'}
+      </Label>
+      <Input
+        id="siteCode"
+        value={formData.siteCode}
+        onChange={(e) => {
+          onInputChange('siteCode', e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={definition.placeholder}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={isOpen && suggestions.length > 0}
+        aria-controls="siteCode-suggestions"
+        aria-invalid={!!error}
+        aria-describedby={error ? errorId : undefined}
+        className={error ? 'border-red-500' : undefined}
+      />
+      {isOpen && suggestions.length > 0 && (
+        <ul
+          id="siteCode-suggestions"
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-64 overflow-auto rounded-md border bg-white shadow-lg"
+        >
+          {suggestions.map((site, index) => (
+            <li
+              key={site.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // Select before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectSite(site);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`px-3 py-2 cursor-pointer text-sm ${index === highlighted ? 'bg-blue-50' : ''}`}
+            >
+              <div className="font-medium">{site.siteCode} · {site.siteName}</div>
+              <div className="text-xs text-gray-500">
+                {[site.siteLocation, site.landlordName].filter(Boolean).join(' · ')}
+              </div>
+            </li>
+          ))}
+          <li className="px-3 py-1 text-xs text-gray-400 border-t flex items-center">
+            <History className="w-3 h-3 mr-1" />
+            Selecting a site fills in its title and landlord details
+          </li>
+        </ul>
+      )}
+      {error && <p id={errorId} className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default SiteCodeAutocomplete;
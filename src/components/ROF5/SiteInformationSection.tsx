@@ -1,16 +1,17 @@
-
 import { MapPin } from "lucide-react";
-import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ROF5FormData } from "@/hooks/useROF5Form";
+import { ROF5FormData, ROF5TextFieldKey, ROF5ValidationErrors, getVisibleTextFieldKeys } from "@/schemas/rof5Schema";
+import { Site } from "@/services/siteService";
+import ROF5Field from "./ROF5Field";
+import SiteCodeAutocomplete from "./SiteCodeAutocomplete";
 
 interface SiteInformationSectionProps {
   formData: ROF5FormData;
-  onInputChange: (field: keyof ROF5FormData, value: string) => void;
+  onInputChange: (field: ROF5TextFieldKey, value: string) => void;
+  onSiteSelect?: (site: Site) => void;
+  errors?: ROF5ValidationErrors;
 }
 
-const SiteInformationSection = ({ formData, onInputChange }: SiteInformationSectionProps) => {
+const SiteInformationSection = ({ formData, onInputChange, onSiteSelect, errors = {} }: SiteInformationSectionProps) => {
   return (
     <div className="space-y-4">
       <div className="flex items-center space-x-2 mb-4">
@@ -18,36 +19,23 @@ const SiteInformationSection = ({ formData, onInputChange }: SiteInformationSect
         <h3 className="text-lg font-semibold">Site Information</h3>
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        <div>
-          <Label htmlFor="siteName">Site Name *</Label>
-          <Input
-            id="siteName"
-            value={formData.siteName}
-            onChange={(e) => onInputChange("siteName", e.target.value)}
-            placeholder="e.g., Westlands Plaza"
-            required
-          />
-        </div>
-        <div>
-          <Label htmlFor="siteCode">Site Code *</Label>
-          <Input
-            id="siteCode"
-            value={formData.siteCode}
-            onChange={(e) => onInputChange("siteCode", e.target.value)}
-            placeholder="e.g., NBI001"
-            required
+        {getVisibleTextFieldKeys('site', formData).map(field => field === 'siteCode' && onSiteSelect ? (
+          <SiteCodeAutocomplete
+            key={field}
+            formData={formData}
+            onInputChange={onInputChange}
+            onSiteSelect={onSiteSelect}
+            error={errors[field]}
           />
-        </div>
-        <div>
-          <Label htmlFor="siteLocation">Site Location *</Label>
-          <Input
-            id="siteLocation"
-            value={formData.siteLocation}
-            onChange={(e) => onInputChange("siteLocation", e.target.value)}
-            placeholder="e.g., Westlands, Nairobi"
-            required
+        ) : (
+          <ROF5Field
+            key={field}
+            name={field}
+            formData={formData}
+            onInputChange={onInputChange}
+            error={errors[field]}
           />
-        </div>
+        ))}
       </div>
     </div>
   );
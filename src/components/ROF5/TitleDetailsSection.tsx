@@ -1,16 +1,14 @@
-
 import { Building } from "lucide-react";
-import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ROF5FormData } from "@/hooks/useROF5Form";
+import { ROF5FormData, ROF5TextFieldKey, ROF5ValidationErrors, getVisibleTextFieldKeys } from "@/schemas/rof5Schema";
+import ROF5Field from "./ROF5Field";
 
 interface TitleDetailsSectionProps {
   formData: ROF5FormData;
-  onInputChange: (field: keyof ROF5FormData, value: string) => void;
+  onInputChange: (field: ROF5TextFieldKey, value: string) => void;
+  errors?: ROF5ValidationErrors;
 }
 
-const TitleDetailsSection = ({ formData, onInputChange }: TitleDetailsSectionProps) => {
+const TitleDetailsSection = ({ formData, onInputChange, errors = {} }: TitleDetailsSectionProps) => {
   return (
     <div className="space-y-4">
       <div className="flex items-center space-x-2 mb-4">
@@ -18,52 +16,15 @@ const TitleDetailsSection = ({ formData, onInputChange }: TitleDetailsSectionPro
         <h3 className="text-lg font-semibold">Title Details</h3>
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        <div>
-          <Label htmlFor="titleNumber">Title Number *</Label>
-          <Input
-            id="titleNumber"
-            value={formData.titleNumber}
-            onChange={(e) => onInputChange("titleNumber", e.target.value)}
-            placeholder="e.g., NAIROBI/BLOCK1/123"
-            required
-          />
-        </div>
-        <div>
-          <Label htmlFor="titleType">Title Type *</Label>
-          <Select value={formData.titleType} onValueChange={(value) => onInputChange("titleType", value)}>
-            <SelectTrigger>
-              <SelectValue placeholder="Select Title Type" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="freehold">Freehold</SelectItem>
-              <SelectItem value="leasehold">Leasehold</SelectItem>
-              <SelectItem value="sectional">Sectional Title</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-        <div>
-          <Label htmlFor="landArea">Land Area (square metres)</Label>
-          <Input
-            id="landArea"
-            value={formData.landArea}
-            onChange={(e) => onInputChange("landArea", e.target.value)}
-            placeholder="e.g., 1 by 1 square metres"
+        {getVisibleTextFieldKeys('title', formData).map(field => (
+          <ROF5Field
+            key={field}
+            name={field}
+            formData={formData}
+            onInputChange={onInputChange}
+            error={errors[field]}
           />
-        </div>
-        <div>
-          <Label htmlFor="landUse">Land Use</Label>
-          <Select value={formData.landUse} onValueChange={(value) => onInputChange("landUse", value)}>
-            <SelectTrigger>
-              <SelectValue placeholder="Select Land Use" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="commercial">Commercial</SelectItem>
-              <SelectItem value="residential">Residential</SelectItem>
-              <SelectItem value="industrial">Industrial</SelectItem>
-              <SelectItem value="mixed">Mixed Use</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
+        ))}
       </div>
     </div>
   );
@@ -0,0 +1,50 @@
+import { Check } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { ROF5WizardStep } from "@/hooks/useROF5Wizard";
+
+interface WizardProgressProps {
+  steps: ROF5WizardStep[];
+  stepIndex: number;
+  furthestIndex: number;
+  progress: number;
+  onStepClick: (index: number) => void;
+}
+
+const WizardProgress = ({ steps, stepIndex, furthestIndex, progress, onStepClick }: WizardProgressProps) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Step {stepIndex + 1} of {steps.length}: {steps[stepIndex].title}</span>
+        <span className="text-gray-500">{progress}% complete</span>
+      </div>
+      <Progress value={progress} className="h-2" />
+      <ol className="grid grid-cols-3 md:grid-cols-6 gap-2">
+        {steps.map((step, index) => {
+          const isCurrent = index === stepIndex;
+          const isDone = index < stepIndex || (index <= furthestIndex && !isCurrent);
+
+          return (
+            <li key={step.id}>
+              <button
+                type="button"
+                onClick={() => onStepClick(index)}
+                className={`w-full flex items-center space-x-2 p-2 rounded text-left text-xs border ${
+                  isCurrent ? 'border-blue-500 bg-blue-50 text-blue-700' : isDone ? 'border-green-200 text-green-700' : 'text-gray-500'
+                }`}
+              >
+                <span className={`flex items-center justify-center w-5 h-5 rounded-full text-[10px] shrink-0 ${
+                  isCurrent ? 'bg-blue-600 text-white' : isDone ? 'bg-green-600 text-white' : 'bg-gray-200'
+                }`}>
+                  {isDone ? <Check className="w-3 h-3" /> : index + 1}
+                </span>
+                <span className="truncate">{step.title}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default WizardProgress;
@@ -4,34 +4,51 @@ import { useROF5Form } from "@/hooks/useROF5Form";
 import { useWorkflow, WorkflowInstruction } from "@/contexts/WorkflowContext";
 import { DocumentGenerationService, GeneratedDocument, DocumentGenerationOptions } from "@/services/documentGenerationService";
 import { ROF5DocumentService, ROF5Document } from "@/services/rof5DocumentService";
-import { DraftService, SavedDraft } from "@/services/draftService";
+import { DraftRevision, DraftService, SavedDraft } from "@/services/draftService";
+import { useDraftAutosave } from "@/hooks/useDraftAutosave";
+import { useROF5Wizard } from "@/hooks/useROF5Wizard";
 import { AIService } from "@/services/aiService";
 import { DocumentGenerator } from "@/services/documentGenerator";
 import FormHeader from "@/components/ROF5/FormHeader";
 import FormSections from "@/components/ROF5/FormSections";
 import FormActions from "@/components/ROF5/FormActions";
+import DraftManager from "@/components/ROF5/DraftManager";
+import WizardProgress from "@/components/ROF5/WizardProgress";
+import ReviewStep from "@/components/ROF5/ReviewStep";
+import ImportROF5Dialog from "@/components/ROF5/ImportROF5Dialog";
 import AISuggestions from "@/components/AISuggestions";
 import { Button } from "@/components/ui/button";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
-import { FileText, Save, FolderOpen, Download, Eye } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileText, Download, Eye, ArrowLeft, ArrowRight, FileUp } from "lucide-react";
 import { SystemTemplateService, SystemTemplate } from "@/services/systemTemplateService";
 import { formatTemplateContent, isContentReadable } from "@/utils/templates/documentUtils";
+import { sanitizeFileName } from "@/utils/templates/documentParser";
 import FanisiDocumentGeneratorComponent from "@/components/FanisiDocumentGenerator";
 import EnhancedTemplateSelector from "@/components/EnhancedTemplateSelector";
 import { FanisiGeneratedDocument } from "@/types/fanisi";
+import { FeeCalculationService } from "@/services/feeCalculationService";
+import { FeeScaleService } from "@/services/feeScaleService";
+import { InstructionService } from "@/services/instructionService";
+import { LandlordPartyService } from "@/services/landlordPartyService";
+import { ROF5FormData, ROF5Section, ROF5TextFieldKey } from "@/schemas/rof5Schema";
 
 const ROF5Form = () => {
   const {
     formData,
+    errors,
     handleInputChange,
     handleDocumentCheck,
+    handleLandlordsChange,
+    handleSiteSelect,
+    handleCounselSelect,
+    getCounselAssignment,
+    validateFormData,
     generateDocumentVariables,
     resetForm,
-    addInstruction,
     toast,
     loadFormData
   } = useROF5Form();
+  const { addInstructions, recordGeneratedDocuments } = useWorkflow();
 
   const [currentField, setCurrentField] = useState<string>('');
   const [aiEnabled, setAiEnabled] = useState(true);
@@ -39,17 +56,15 @@ const ROF5Form = () => {
   const [showTemplateSelector, setShowTemplateSelector] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
   const [generatedDocuments, setGeneratedDocuments] = useState<GeneratedDocument[]>([]);
+  const [bundleFormData, setBundleFormData] = useState<ROF5FormData | null>(null);
   const [documentOptions, setDocumentOptions] = useState<DocumentGenerationOptions>({
     includeAgreement: true,
     includeForwardingLetter: true,
     includeInvoice: true
   });
 
-  // Draft management state
-  const [showDraftDialog, setShowDraftDialog] = useState(false);
-  const [showLoadDialog, setShowLoadDialog] = useState(false);
-  const [draftName, setDraftName] = useState('');
-  const [savedDrafts, setSavedDrafts] = useState<SavedDraft[]>([]);
+  const { draft, status: draftStatus, saveNow, openDraft, detachDraft } = useDraftAutosave(formData);
+  const wizard = useROF5Wizard(formData, validateFormData);
 
   const [selectedAgreementTemplate, setSelectedAgreementTemplate] = useState<SystemTemplate | null>(null);
   const [systemTemplates, setSystemTemplates] = useState<SystemTemplate[]>([]);
@@ -62,9 +77,10 @@ const ROF5Form = () => {
   
   // Fanisi document generator state
   const [showFanisiGenerator, setShowFanisiGenerator] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [fanisiDocuments, setFanisiDocuments] = useState<FanisiGeneratedDocument[]>([]);
 
-  const handleInputChangeWithAI = (field: keyof typeof formData, value: string) => {
+  const handleInputChangeWithAI = (field: ROF5TextFieldKey, value: string) => {
     handleInputChange(field, value);
     if (aiEnabled) {
       setCurrentField(field);
@@ -72,69 +88,80 @@ const ROF5Form = () => {
   };
 
   const handleApplyAISuggestion = (field: string, value: string) => {
-    handleInputChange(field as keyof typeof formData, value);
+    handleInputChange(field as ROF5TextFieldKey, value);
     toast({
       title: "AI Suggestion Applied",
       description: `${field} updated with AI suggestion`,
     });
   };
 
-  const handleSaveDraft = () => {
-    if (draftName.trim()) {
-      try {
-        const draft = DraftService.saveDraft(formData, draftName);
-        setSavedDrafts(DraftService.getAllDrafts());
-        setShowDraftDialog(false);
-        setDraftName('');
-        toast({
-          title: "Draft Saved",
-          description: `ROF 5 draft "${draft.name}" has been saved successfully`,
-        });
-      } catch (error) {
-        toast({
-          title: "Save Failed",
-          description: "Failed to save draft. Please try again.",
-          variant: "destructive"
-        });
-      }
-    } else {
-      // Quick save with auto-generated name
-      try {
-        const draft = DraftService.saveDraft(formData);
-        setSavedDrafts(DraftService.getAllDrafts());
-        toast({
-          title: "Draft Saved",
-          description: `ROF 5 draft "${draft.name}" has been saved successfully`,
-        });
-      } catch (error) {
-        toast({
-          title: "Save Failed",
-          description: "Failed to save draft. Please try again.",
-          variant: "destructive"
-        });
-      }
+  const handleSaveDraft = async () => {
+    try {
+      const saved = await saveNow();
+      toast({
+        title: "Draft Saved",
+        description: `ROF 5 draft "${saved?.name}" has been saved successfully`,
+      });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: "Failed to save draft. Please try again.",
+        variant: "destructive"
+      });
     }
   };
 
-  const handleLoadDraft = (draft: SavedDraft) => {
-    loadFormData(draft.formData);
-    setShowLoadDialog(false);
+  const handleLoadDraft = (saved: SavedDraft) => {
+    loadFormData(saved.formData);
+    openDraft(saved);
+    wizard.resetWizard();
     toast({
       title: "Draft Loaded",
-      description: `Loaded draft: ${draft.name}`,
+      description: saved.sharedWithMe
+        ? `Loaded draft: ${saved.name}, shared by ${saved.ownerEmail || 'a colleague'}`
+        : `Loaded draft: ${saved.name}`,
     });
   };
 
-  const handleDeleteDraft = (draftId: string) => {
-    DraftService.deleteDraft(draftId);
-    setSavedDrafts(DraftService.getAllDrafts());
+  // The confirmed fields become a new draft, so the original upload can be traced in its history
+  const handleImport = async (imported: ROF5FormData, fileName: string) => {
+    wizard.resetWizard();
+    setGeneratedDocuments([]);
+
+    try {
+      // Create the draft first so autosave treats the imported form as already saved
+      const saved = await DraftService.createDraft(imported, `${sanitizeFileName(fileName)} (imported)`, 'imported');
+      loadFormData(saved.formData);
+      openDraft(saved);
+      toast({
+        title: "ROF5 Imported",
+        description: `Draft "${saved.name}" created from ${fileName}. Check each step before submitting.`,
+      });
+    } catch (error) {
+      loadFormData(imported);
+      detachDraft();
+      toast({
+        title: "Draft Not Saved",
+        description: `The form was filled from ${fileName}, but the draft could not be saved: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Restoring loads the old revision into the form; autosave then records it as the newest revision
+  const handleRestoreRevision = (restored: ROF5FormData, revision: DraftRevision) => {
+    loadFormData(restored);
     toast({
-      title: "Draft Deleted",
-      description: "Draft has been deleted successfully",
+      title: "Revision Restored",
+      description: `Restored revision ${revision.revisionNumber}. It will be saved as a new revision.`,
     });
   };
 
   const handleDownloadROF5 = async () => {
+    if (!validateFormData({ allowMissing: true })) {
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       toast({
@@ -196,14 +223,9 @@ const ROF5Form = () => {
     selectTemplateByLeaseType();
   }, [formData.leaseType]);
 
-  const handleGenerateDocuments = async () => {
-    if (!formData.siteName || !formData.siteCode || !formData.landlordName) {
-      toast({
-        title: "Missing Information",
-        description: "Please fill in site name, site code, and landlord name before generating documents",
-        variant: "destructive"
-      });
-      return;
+  const handleGenerateDocuments = async (): Promise<GeneratedDocument[]> => {
+    if (!validateFormData()) {
+      return [];
     }
 
     try {
@@ -225,11 +247,13 @@ const ROF5Form = () => {
       );
 
       setGeneratedDocuments(documents);
+      setBundleFormData(formData);
 
       toast({
         title: "Documents Generated Successfully",
         description: `Generated ${documents.length} documents with blank spaces filled from ROF5 data. Click download to save them.`,
       });
+      return documents;
     } catch (error) {
       console.error('Document generation error:', error);
       toast({
@@ -237,12 +261,13 @@ const ROF5Form = () => {
         description: "Failed to generate documents. Please check your templates and ROF5 data, then try again.",
         variant: "destructive"
       });
+      return [];
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handleDownloadAll = () => {
+  const handleDownloadAll = async () => {
     if (generatedDocuments.length === 0) {
       toast({
         title: "No Documents",
@@ -252,12 +277,20 @@ const ROF5Form = () => {
       return;
     }
 
-    DocumentGenerationService.downloadAllDocuments(generatedDocuments);
-    
-    toast({
-      title: "Download Started",
-      description: `Downloading ${generatedDocuments.length} documents...`,
-    });
+    try {
+      await DocumentGenerationService.downloadAllDocuments(generatedDocuments, formData.siteCode || 'documents');
+
+      toast({
+        title: "Download Started",
+        description: `Downloading ${generatedDocuments.length} documents as a ZIP...`,
+      });
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Failed to download documents",
+        variant: "destructive"
+      });
+    }
   };
 
   const handleFanisiDocumentGenerated = (document: FanisiGeneratedDocument) => {
@@ -285,19 +318,55 @@ const ROF5Form = () => {
     });
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    // Validate required fields
-    if (!formData.siteName || !formData.siteCode || !formData.siteLocation || !formData.landlordName) {
+  const handleEditSection = (section: ROF5Section) => {
+    wizard.goToStep(wizard.steps.findIndex(step => step.id === section));
+  };
+
+  /**
+   * Stores the bundle and any Fanisi documents with the new instruction. A failure here
+   * leaves the instruction in place, so it is reported rather than failing the submission.
+   */
+  const saveDocumentsToInstruction = async (instructionId: string, documents: GeneratedDocument[]) => {
+    const fanisiBundle: GeneratedDocument[] = fanisiDocuments.map(doc => ({
+      id: doc.id,
+      name: doc.fileName,
+      content: doc.content,
+      format: 'docx',
+      templateUsed: `Fanisi ${doc.documentType}`
+    }));
+
+    try {
+      if (documents.length > 0) {
+        await recordGeneratedDocuments(instructionId, documents, 'rof5', formData);
+      }
+      if (fanisiBundle.length > 0) {
+        await recordGeneratedDocuments(instructionId, fanisiBundle, 'fanisi', formData);
+      }
+    } catch (error) {
       toast({
-        title: "Validation Error",
-        description: "Please fill in all required fields (Site Name, Site Code, Location, and Landlord Name)",
+        title: "Documents Not Saved",
+        description: `${instructionId} was created, but its documents could not be stored: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive"
       });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Enter in a field on an earlier step moves on rather than submitting
+    if (!wizard.isReview) {
+      wizard.goNext();
+      return;
+    }
+    
+    if (!wizard.validateAll()) {
       return;
     }
 
+    // Generate the bundle first if it hasn't been, so it is stored with the new instruction
+    const documents = generatedDocuments.length > 0 ? generatedDocuments : await handleGenerateDocuments();
+
     setIsSubmitting(true);
     
     try {
@@ -306,47 +375,52 @@ const ROF5Form = () => {
       const aiDeadline = AIService.calculateSmartDeadline(formData, aiPriority);
       
       // Create new instruction with AI enhancements
-      const instructionId = `ROF-${new Date().getFullYear()}-${String(Date.now()).slice(-3)}`;
+      const [instructionId] = await InstructionService.reserveReferences();
+      const feeScale = await FeeScaleService.getFeeScale();
       
       const newInstruction: WorkflowInstruction = {
         id: instructionId,
         siteCode: formData.siteCode,
         siteName: formData.siteName,
         siteLocation: formData.siteLocation,
-        landlordName: formData.landlordName,
+        landlordName: LandlordPartyService.getLandlordNames(formData),
         stage: 'document-drafting',
         progress: 25,
         createdAt: new Date().toISOString().split('T')[0],
         lastUpdated: new Date().toISOString().split('T')[0],
         assignee: formData.instructingCounsel || 'Unassigned',
+        ...getCounselAssignment(),
         nextAction: 'Generate Documents',
         priority: aiPriority,
         formData: { ...formData, expectedCompletionDate: aiDeadline },
-        generatedDocuments: generatedDocuments.map(doc => doc.name),
-        auditTrail: [{
-          id: `audit-${Date.now()}`,
-          action: 'ROF 5 Submitted with Document Generation',
-          user: formData.instructingCounsel || 'Current User',
-          timestamp: new Date().toISOString(),
-          details: `Priority: ${aiPriority}, Deadline: ${aiDeadline}, Documents: ${generatedDocuments.length}`
-        }]
+        generatedDocuments: documents.map(doc => doc.name),
+        feeBreakdown: FeeCalculationService.calculateFromFormData(formData, feeScale),
+        documentTemplateVersions: Object.fromEntries(
+          documents
+            .filter(doc => doc.templateVersion)
+            .map(doc => [doc.name, doc.templateVersion!])
+        )
       };
 
-      addInstruction(newInstruction);
+      await addInstructions([newInstruction]);
+      await saveDocumentsToInstruction(instructionId, documents);
+
+      if (draft) {
+        DraftService.markSubmitted(draft.id, instructionId)
+          .catch(error => console.error('Error closing submitted draft:', error));
+      }
       
       toast({
         title: "ROF 5 Submitted Successfully",
-        description: `Property instruction ${instructionId} created with ${generatedDocuments.length} generated documents.`,
+        description: `Property instruction ${instructionId} created with ${documents.length} generated documents.`,
       });
 
-      // Auto-generate documents if none exist yet
-      if (generatedDocuments.length === 0) {
-        await handleGenerateDocuments();
-      }
-
       // Reset form
+      detachDraft();
       resetForm();
+      wizard.resetWizard();
       setGeneratedDocuments([]);
+      setFanisiDocuments([]);
 
     } catch (error) {
       console.error('ROF5 submission error:', error);
@@ -360,11 +434,6 @@ const ROF5Form = () => {
     }
   };
 
-  // Load drafts on component mount
-  useState(() => {
-    setSavedDrafts(DraftService.getAllDrafts());
-  });
-
   // Load system templates on component mount
   useEffect(() => {
     const loadSystemTemplates = async () => {
@@ -440,89 +509,61 @@ const ROF5Form = () => {
         <CardContent>
           {/* Draft Management Bar */}
           <div className="flex justify-between items-center mb-6 p-4 bg-gray-50 rounded-lg">
+            <DraftManager
+              draft={draft}
+              status={draftStatus}
+              onSave={saveNow}
+              onLoad={handleLoadDraft}
+              onRestore={handleRestoreRevision}
+              onDelete={(deleted) => deleted.id === draft?.id && detachDraft()}
+            />
+
             <div className="flex space-x-2">
-              <Dialog open={showDraftDialog} onOpenChange={setShowDraftDialog}>
-                <DialogTrigger asChild>
-                  <Button variant="outline" size="sm">
-                    <Save className="w-4 h-4 mr-2" />
-                    Save Draft
-                  </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Save Draft</DialogTitle>
-                  </DialogHeader>
-                  <div className="space-y-4">
-                    <Input
-                      placeholder="Enter draft name (optional)"
-                      value={draftName}
-                      onChange={(e) => setDraftName(e.target.value)}
-                    />
-                    <div className="flex justify-end space-x-2">
-                      <Button variant="outline" onClick={() => setShowDraftDialog(false)}>
-                        Cancel
-                      </Button>
-                      <Button onClick={handleSaveDraft}>
-                        Save Draft
-                      </Button>
-                    </div>
-                  </div>
-                </DialogContent>
-              </Dialog>
-
-              <Dialog open={showLoadDialog} onOpenChange={setShowLoadDialog}>
-                <DialogTrigger asChild>
-                  <Button variant="outline" size="sm">
-                    <FolderOpen className="w-4 h-4 mr-2" />
-                    Load Draft
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="max-w-2xl">
-                  <DialogHeader>
-                    <DialogTitle>Load Draft</DialogTitle>
-                  </DialogHeader>
-                  <div className="space-y-4 max-h-96 overflow-y-auto">
-                    {savedDrafts.length === 0 ? (
-                      <p className="text-gray-500 text-center py-4">No saved drafts found</p>
-                    ) : (
-                      savedDrafts.map((draft) => (
-                        <div key={draft.id} className="flex items-center justify-between p-3 border rounded">
-                          <div>
-                            <h4 className="font-medium">{draft.name}</h4>
-                            <p className="text-sm text-gray-500">
-                              Saved: {new Date(draft.savedAt).toLocaleDateString()}{' '}
-                              {new Date(draft.savedAt).toLocaleTimeString()}
-                            </p>
-                          </div>
-                          <div className="flex space-x-2">
-                            <Button size="sm" onClick={() => handleLoadDraft(draft)}>
-                              Load
-                            </Button>
-                            <Button size="sm" variant="destructive" onClick={() => handleDeleteDraft(draft.id)}>
-                              Delete
-                            </Button>
-                          </div>
-                        </div>
-                      ))
-                    )}
-                  </div>
-                </DialogContent>
-              </Dialog>
+              <Button variant="outline" onClick={() => setShowImportDialog(true)} disabled={isSubmitting}>
+                <FileUp className="w-4 h-4 mr-2" />
+                Import ROF5
+              </Button>
+              <Button onClick={handleDownloadROF5} disabled={isSubmitting} className="bg-green-600 hover:bg-green-700">
+                <Download className="w-4 h-4 mr-2" />
+                Download ROF5 (Word)
+              </Button>
             </div>
-
-            <Button onClick={handleDownloadROF5} disabled={isSubmitting} className="bg-green-600 hover:bg-green-700">
-              <Download className="w-4 h-4 mr-2" />
-              Download ROF5 (Word)
-            </Button>
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-8">
+            <WizardProgress
+              steps={wizard.steps}
+              stepIndex={wizard.stepIndex}
+              furthestIndex={wizard.furthestIndex}
+              progress={wizard.progress}
+              onStepClick={wizard.goToStep}
+            />
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-              <FormSections
-                formData={formData}
-                onInputChange={handleInputChangeWithAI}
-                onDocumentCheck={handleDocumentCheck}
-              />
+              <div className="lg:col-span-2 space-y-8">
+                {wizard.currentStep.id === 'review' ? (
+                  <ReviewStep
+                    formData={formData}
+                    documents={generatedDocuments}
+                    bundleFormData={bundleFormData}
+                    isGenerating={isSubmitting}
+                    onGenerateBundle={handleGenerateDocuments}
+                    onDownloadAll={handleDownloadAll}
+                    onEditSection={handleEditSection}
+                  />
+                ) : (
+                  <FormSections
+                    section={wizard.currentStep.id}
+                    formData={formData}
+                    onInputChange={handleInputChangeWithAI}
+                    onDocumentCheck={handleDocumentCheck}
+                    onLandlordsChange={handleLandlordsChange}
+                    onSiteSelect={handleSiteSelect}
+                    onCounselSelect={handleCounselSelect}
+                    errors={errors}
+                  />
+                )}
+              </div>
 
               {aiEnabled && (
                 <div className="space-y-4">
@@ -535,77 +576,101 @@ const ROF5Form = () => {
               )}
             </div>
 
-            {/* Document Generation Section */}
-            <EnhancedTemplateSelector
-              rof5Data={formData}
-              onDocumentGenerated={handleDocumentGenerated}
-            />
+            {!wizard.isReview && (
+              <div className="flex justify-between items-center">
+                <Button type="button" variant="outline" onClick={wizard.goBack} disabled={wizard.stepIndex === 0}>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back
+                </Button>
+                <Button type="button" onClick={wizard.goNext}>
+                  Next: {wizard.steps[wizard.stepIndex + 1].title}
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </Button>
+              </div>
+            )}
 
-            {/* Fanisi Legal Document Generator */}
-            <Card className="border-2 border-purple-200 bg-purple-50">
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-semibold text-purple-800">Fanisi Legal Document Generator</h3>
-                  <Button
-                    type="button"
-                    onClick={() => setShowFanisiGenerator(!showFanisiGenerator)}
-                    variant="outline"
-                    className="border-purple-300 text-purple-700 hover:bg-purple-100"
-                  >
-                    {showFanisiGenerator ? 'Hide' : 'Show'} Fanisi Generator
-                  </Button>
-                </div>
+            {wizard.isReview && (
+              <>
+                {/* Document Generation Section */}
+                <EnhancedTemplateSelector
+                  rof5Data={formData}
+                  onDocumentGenerated={handleDocumentGenerated}
+                />
+
+                {/* Fanisi Legal Document Generator */}
+                <Card className="border-2 border-purple-200 bg-purple-50">
+                  <CardContent className="p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-purple-800">Fanisi Legal Document Generator</h3>
+                      <Button
+                        type="button"
+                        onClick={() => setShowFanisiGenerator(!showFanisiGenerator)}
+                        variant="outline"
+                        className="border-purple-300 text-purple-700 hover:bg-purple-100"
+                      >
+                        {showFanisiGenerator ? 'Hide' : 'Show'} Fanisi Generator
+                      </Button>
+                    </div>
                 
-                {showFanisiGenerator && (
-                  <FanisiDocumentGeneratorComponent
-                    rof5Data={formData}
-                    onDocumentGenerated={handleFanisiDocumentGenerated}
-                  />
-                )}
+                    {showFanisiGenerator && (
+                      <FanisiDocumentGeneratorComponent
+                        rof5Data={formData}
+                        onDocumentGenerated={handleFanisiDocumentGenerated}
+                      />
+                    )}
                 
-                {fanisiDocuments.length > 0 && (
-                  <div className="mt-4 border-t pt-4">
-                    <h4 className="font-medium mb-3">Generated Fanisi Documents ({fanisiDocuments.length})</h4>
-                    <div className="space-y-2">
-                      {fanisiDocuments.map((doc) => (
-                        <div key={doc.id} className="flex items-center justify-between p-2 bg-white rounded border">
-                          <div>
-                            <span className="text-sm font-medium">{doc.fileName}</span>
-                            <p className="text-xs text-gray-500">{doc.documentType} - {doc.siteName}</p>
-                          </div>
-                          <Button
-                            type="button"
-                            size="sm"
-                            onClick={() => {
-                              const link = document.createElement('a');
-                              const blob = new Blob([doc.content], {
-                                type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-                              });
-                              link.href = URL.createObjectURL(blob);
-                              link.download = doc.fileName;
-                              link.click();
-                              URL.revokeObjectURL(link.href);
-                            }}
-                            className="bg-purple-600 hover:bg-purple-700 text-white"
-                          >
-                            Download
-                          </Button>
+                    {fanisiDocuments.length > 0 && (
+                      <div className="mt-4 border-t pt-4">
+                        <h4 className="font-medium mb-3">Generated Fanisi Documents ({fanisiDocuments.length})</h4>
+                        <div className="space-y-2">
+                          {fanisiDocuments.map((doc) => (
+                            <div key={doc.id} className="flex items-center justify-between p-2 bg-white rounded border">
+                              <div>
+                                <span className="text-sm font-medium">{doc.fileName}</span>
+                                <p className="text-xs text-gray-500">{doc.documentType} - {doc.siteName}</p>
+                              </div>
+                              <Button
+                                type="button"
+                                size="sm"
+                                onClick={() => {
+                                  const link = document.createElement('a');
+                                  const blob = new Blob([doc.content], {
+                                    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+                                  });
+                                  link.href = URL.createObjectURL(blob);
+                                  link.download = doc.fileName;
+                                  link.click();
+                                  URL.revokeObjectURL(link.href);
+                                }}
+                                className="bg-purple-600 hover:bg-purple-700 text-white"
+                              >
+                                Download
+                              </Button>
+                            </div>
+                          ))}
                         </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-            <FormActions 
-              onSaveDraft={handleSaveDraft}
-              isSubmitting={isSubmitting}
-              onDownloadROF5={handleDownloadROF5}
-            />
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+                <FormActions 
+                  onSaveDraft={handleSaveDraft}
+                  isSubmitting={isSubmitting}
+                  onDownloadROF5={handleDownloadROF5}
+                  onBack={wizard.goBack}
+                />
+              </>
+            )}
           </form>
         </CardContent>
       </Card>
 
+      <ImportROF5Dialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        onImport={handleImport}
+      />
+
       {/* Template Selection Dialog */}
       <Dialog open={showTemplateSelector} onOpenChange={setShowTemplateSelector}>
         <DialogContent className="max-w-2xl">
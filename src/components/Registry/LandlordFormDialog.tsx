@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getFieldDefinition } from '@/schemas/rof5Schema';
+import { Landlord, LandlordInput, LandlordService, LANDLORD_FORM_FIELDS } from '@/services/landlordService';
+import { useToast } from '@/hooks/use-toast';
+
+interface LandlordFormDialogProps {
+  landlord: Landlord | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (landlord: Landlord) => void;
+}
+
+const LandlordFormDialog: React.FC<LandlordFormDialogProps> = ({ landlord, open, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<LandlordInput>(LandlordService.createEmptyLandlord());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFormData(landlord ? { ...landlord } : LandlordService.createEmptyLandlord());
+    }
+  }, [open, landlord]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      const saved = await LandlordService.saveLandlord(formData, landlord?.id);
+      toast({
+        title: landlord ? "Landlord Updated" : "Landlord Added",
+        description: `${saved.name} has been saved to the registry`
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save landlord",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (key: keyof LandlordInput) => {
+    const definition = getFieldDefinition(LANDLORD_FORM_FIELDS[key]);
+    const setValue = (value: string) => setFormData(prev => ({ ...prev, [key]: value }));
+    const id = `landlord-${key}`;
+
+    return (
+      <div key={key} className={definition.format === 'textarea' ? 'md:col-span-2' : undefined}>
+        <Label htmlFor={id}>{definition.label}{key === 'name' && ' *'}</Label>
+        {definition.options ? (
+          <Select value={formData[key]} onValueChange={setValue}>
+            <SelectTrigger id={id}>
+              <SelectValue placeholder={`Select ${definition.label}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {definition.options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : definition.format === 'textarea' ? (
+          <Textarea
+            id={id}
+            value={formData[key]}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={definition.placeholder}
+            rows={2}
+          />
+        ) : (
+          <Input
+            id={id}
+            value={formData[key]}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={definition.placeholder}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{landlord ? `Edit ${landlord.name}` : 'Add Landlord'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(Object.keys(LANDLORD_FORM_FIELDS) as (keyof LandlordInput)[]).map(renderField)}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : landlord ? 'Update Landlord' : 'Add Landlord'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LandlordFormDialog;
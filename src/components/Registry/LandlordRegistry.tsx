@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Users, Edit, Search, Phone, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { getFieldDefinition } from '@/schemas/rof5Schema';
+import { Landlord, LandlordService } from '@/services/landlordService';
+import { useUser } from '@/contexts/UserContext';
+import { useToast } from '@/hooks/use-toast';
+import LandlordFormDialog from './LandlordFormDialog';
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+const LandlordRegistry = () => {
+  const { hasPermission } = useUser();
+  const { toast } = useToast();
+  const [landlords, setLandlords] = useState<Landlord[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingLandlord, setEditingLandlord] = useState<Landlord | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const canEdit = hasPermission('manage-properties') || hasPermission('create-instruction');
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadLandlords(search), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const loadLandlords = async (term: string) => {
+    try {
+      setIsLoading(true);
+      setLandlords(await LandlordService.getLandlords(term));
+    } catch (error) {
+      console.error('Error loading landlords:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load landlords",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openForm = (landlord: Landlord | null) => {
+    setEditingLandlord(landlord);
+    setIsFormOpen(true);
+  };
+
+  const handleSaved = (saved: Landlord) => {
+    setLandlords(prev => {
+      const exists = prev.some(landlord => landlord.id === saved.id);
+      const updated = exists ? prev.map(landlord => landlord.id === saved.id ? saved : landlord) : [...prev, saved];
+      return updated.sort((a, b) => a.name.localeCompare(b.name));
+    });
+  };
+
+  const getTypeLabel = (landlordType: string) =>
+    getFieldDefinition('landlordType').options?.find(option => option.value === landlordType)?.label ?? landlordType;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Landlord Registry</h2>
+          <p className="text-gray-600">Landlord details reused when instructions are raised for their sites</p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => openForm(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Landlord
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2 max-w-md">
+        <Search className="w-4 h-4 text-gray-400" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name, ID number or KRA PIN"
+        />
+      </div>
+
+      <div className="grid gap-4">
+        {!isLoading && landlords.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <Users className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                {search ? 'No matching landlords' : 'No landlords yet'}
+              </h3>
+              <p className="text-gray-600">Landlords are added automatically when an instruction is submitted</p>
+            </CardContent>
+          </Card>
+        ) : (
+          landlords.map(landlord => (
+            <Card key={landlord.id}>
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold">{landlord.name}</span>
+                      <Badge variant="outline">{getTypeLabel(landlord.landlordType)}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      ID: {landlord.idNumber || '—'} · KRA PIN: {landlord.kraPin || '—'}
+                    </p>
+                    <div className="flex items-center space-x-4 text-sm text-gray-600">
+                      {landlord.phone && (
+                        <span className="flex items-center"><Phone className="w-3 h-3 mr-1" />{landlord.phone}</span>
+                      )}
+                      {landlord.email && (
+                        <span className="flex items-center"><Mail className="w-3 h-3 mr-1" />{landlord.email}</span>
+                      )}
+                    </div>
+                    {landlord.siteCodes.length > 0 && (
+                      <div className="flex flex-wrap gap-1 pt-1">
+                        {landlord.siteCodes.map(code => (
+                          <Badge key={code} variant="secondary">{code}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <Button variant="ghost" size="sm" onClick={() => openForm(landlord)} title="Edit">
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <LandlordFormDialog
+        landlord={editingLandlord}
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        onSaved={handleSaved}
+      />
+    </div>
+  );
+};
+
+export default LandlordRegistry;
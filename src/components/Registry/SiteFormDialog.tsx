@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getFieldDefinition } from '@/schemas/rof5Schema';
+import { Site, SiteFormField, SiteInput, SiteService, SITE_FORM_FIELDS } from '@/services/siteService';
+import { Landlord } from '@/services/landlordService';
+import { useToast } from '@/hooks/use-toast';
+
+interface SiteFormDialogProps {
+  site: Site | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  landlords: Landlord[];
+  onSaved: (site: Site) => void;
+}
+
+// Radix selects cannot hold an empty value, so "no landlord" gets its own
+const NO_LANDLORD = 'none';
+
+const SiteFormDialog: React.FC<SiteFormDialogProps> = ({ site, open, onOpenChange, landlords, onSaved }) => {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<SiteInput>(SiteService.createEmptySite());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFormData(site ? { ...site } : SiteService.createEmptySite());
+    }
+  }, [open, site]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      const saved = await SiteService.saveSite(formData, site?.id);
+      toast({
+        title: site ? "Site Updated" : "Site Added",
+        description: `${saved.siteCode} has been saved to the registry`
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save site",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (field: SiteFormField) => {
+    const definition = getFieldDefinition(field);
+    const setValue = (value: string) => setFormData(prev => ({ ...prev, [field]: value }));
+
+    return (
+      <div key={field}>
+        <Label htmlFor={`site-${field}`}>
+          {definition.label}{(field === 'siteCode' || field === 'siteName') && ' *'}
+        </Label>
+        {definition.options ? (
+          <Select value={formData[field]} onValueChange={setValue}>
+            <SelectTrigger id={`site-${field}`}>
+              <SelectValue placeholder={`Select ${definition.label}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {definition.options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            id={`site-${field}`}
+            value={formData[field]}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={definition.placeholder}
+            // Instructions refer to sites by code, so the code is fixed once registered
+            disabled={field === 'siteCode' && !!site}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{site ? `Edit Site ${site.siteCode}` : 'Add Site'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {SITE_FORM_FIELDS.map(renderField)}
+            <div>
+              <Label htmlFor="site-landlord">Landlord</Label>
+              <Select
+                value={formData.landlordId ?? NO_LANDLORD}
+                onValueChange={(value) => setFormData(prev => ({
+                  ...prev,
+                  landlordId: value === NO_LANDLORD ? undefined : value
+                }))}
+              >
+                <SelectTrigger id="site-landlord">
+                  <SelectValue placeholder="Select Landlord" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LANDLORD}>No landlord</SelectItem>
+                  {landlords.map(landlord => (
+                    <SelectItem key={landlord.id} value={landlord.id}>{landlord.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : site ? 'Update Site' : 'Add Site'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SiteFormDialog;
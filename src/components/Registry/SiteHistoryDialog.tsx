@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { History, FileText, CheckCircle } from 'lucide-react';
+import { Site, SiteHistoryEntry, SiteService } from '@/services/siteService';
+import { ExecutedDocumentService } from '@/services/executedDocumentService';
+import { useToast } from '@/hooks/use-toast';
+
+interface SiteHistoryDialogProps {
+  site: Site | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SiteHistoryDialog: React.FC<SiteHistoryDialogProps> = ({ site, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<SiteHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (open && site) {
+      loadHistory(site);
+    }
+  }, [open, site]);
+
+  const loadHistory = async (selected: Site) => {
+    try {
+      setIsLoading(true);
+      setHistory(await SiteService.getSiteHistory(selected));
+    } catch (error) {
+      console.error('Error loading site history:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load site history",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (dateString?: string) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : '—';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="w-5 h-5 mr-2" />
+            {site ? `${site.siteCode} · ${site.siteName}` : 'Site History'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 py-6 text-center">Loading history...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">No instructions have been raised for this site yet</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+            {[...history].reverse().map(entry => (
+              <li key={entry.instructionId} className="ml-4">
+                <div className="absolute w-3 h-3 bg-blue-500 rounded-full -left-1.5 mt-1.5" />
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{entry.instructionId}</span>
+                    <Badge variant={entry.kind === 'renewal' ? 'secondary' : 'default'}>
+                      {entry.kind === 'renewal' ? 'Renewal' : 'New'}
+                    </Badge>
+                    <Badge variant="outline">{entry.stageLabel}</Badge>
+                  </div>
+                  <span className="text-xs text-gray-500">Raised {formatDate(entry.createdAt)}</span>
+                </div>
+                <p className="text-sm text-gray-700 mt-1">
+                  {entry.documentType} with {entry.landlordName || 'unknown landlord'}
+                </p>
+                <div className="grid grid-cols-3 gap-2 text-xs text-gray-600 mt-2">
+                  <span>Commences: {formatDate(entry.commencementDate)}</span>
+                  <span>Term: {entry.termYears ? `${entry.termYears} years` : '—'}</span>
+                  <span>Expires: {formatDate(entry.expiryDate)}</span>
+                </div>
+                {(entry.generatedDocuments.length > 0 || entry.executedDocuments.length > 0) && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {entry.generatedDocuments.map(document => (
+                      <span key={`generated-${document}`} className="flex items-center text-xs text-gray-600">
+                        <FileText className="w-3 h-3 mr-1" />
+                        {document}
+                      </span>
+                    ))}
+                    {entry.executedDocuments.map(document => (
+                      <span key={`executed-${document}`} className="flex items-center text-xs text-green-700">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        {ExecutedDocumentService.getFileName(document)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SiteHistoryDialog;
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, MapPin, Edit, History, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Site, SiteService } from '@/services/siteService';
+import { Landlord, LandlordService } from '@/services/landlordService';
+import { useUser } from '@/contexts/UserContext';
+import { useToast } from '@/hooks/use-toast';
+import SiteFormDialog from './SiteFormDialog';
+import SiteHistoryDialog from './SiteHistoryDialog';
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+const SiteRegistry = () => {
+  const { hasPermission } = useUser();
+  const { toast } = useToast();
+  const [sites, setSites] = useState<Site[]>([]);
+  const [landlords, setLandlords] = useState<Landlord[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingSite, setEditingSite] = useState<Site | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [historySite, setHistorySite] = useState<Site | null>(null);
+
+  const canEdit = hasPermission('manage-properties') || hasPermission('create-instruction');
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadSites(search), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    LandlordService.getLandlords()
+      .then(setLandlords)
+      .catch(error => console.error('Error loading landlords:', error));
+  }, []);
+
+  const loadSites = async (term: string) => {
+    try {
+      setIsLoading(true);
+      setSites(await SiteService.getSites(term));
+    } catch (error) {
+      console.error('Error loading sites:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load sites",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openForm = (site: Site | null) => {
+    setEditingSite(site);
+    setIsFormOpen(true);
+  };
+
+  const handleSaved = (saved: Site) => {
+    setSites(prev => {
+      const exists = prev.some(site => site.id === saved.id);
+      const updated = exists ? prev.map(site => site.id === saved.id ? saved : site) : [...prev, saved];
+      return updated.sort((a, b) => a.siteCode.localeCompare(b.siteCode));
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Site Registry</h2>
+          <p className="text-gray-600">Sites, their titles and landlords, reused across instructions</p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => openForm(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Site
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2 max-w-md">
+        <Search className="w-4 h-4 text-gray-400" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by site code, name or location"
+        />
+      </div>
+
+      <div className="grid gap-4">
+        {!isLoading && sites.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <MapPin className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                {search ? 'No matching sites' : 'No sites yet'}
+              </h3>
+              <p className="text-gray-600">Sites are added automatically when an instruction is submitted</p>
+            </CardContent>
+          </Card>
+        ) : (
+          sites.map(site => (
+            <Card key={site.id}>
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold">{site.siteCode}</span>
+                      <span className="text-gray-700">{site.siteName}</span>
+                      {site.titleType && <Badge variant="outline">{site.titleType}</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {[site.siteLocation, site.county].filter(Boolean).join(', ') || 'No location recorded'}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      Title: {site.titleNumber || '—'} · Landlord: {site.landlordName || '—'}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button variant="ghost" size="sm" onClick={() => setHistorySite(site)} title="History">
+                      <History className="w-4 h-4" />
+                    </Button>
+                    {canEdit && (
+                      <Button variant="ghost" size="sm" onClick={() => openForm(site)} title="Edit">
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <SiteFormDialog
+        site={editingSite}
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        landlords={landlords}
+        onSaved={handleSaved}
+      />
+
+      <SiteHistoryDialog
+        site={historySite}
+        open={!!historySite}
+        onOpenChange={(open) => !open && setHistorySite(null)}
+      />
+    </div>
+  );
+};
+
+export default SiteRegistry;
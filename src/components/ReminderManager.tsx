@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Plus, Bell, Trash2, Edit, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,6 +13,7 @@ import { Switch } from '@/components/ui/switch';
 import { useNotifications, Reminder } from '@/contexts/NotificationContext';
 import { useWorkflow } from '@/contexts/WorkflowContext';
 import { useToast } from '@/hooks/use-toast';
+import { getInstructionPath } from '@/lib/utils';
 
 const ReminderManager = () => {
   const { reminders, addReminder, updateReminder, deleteReminder } = useNotifications();
@@ -255,9 +257,9 @@ const ReminderManager = () => {
                 <div className="flex items-start justify-between">
                   <div className="space-y-1">
                     <CardTitle className="text-base">{reminder.title}</CardTitle>
-                    <p className="text-sm text-gray-600">
+                    <Link to={getInstructionPath(reminder.instructionId)} className="text-sm text-gray-600 hover:underline">
                       {getInstructionTitle(reminder.instructionId)}
-                    </p>
+                    </Link>
                   </div>
                   <div className="flex items-center space-x-2">
                     {getFrequencyBadge(reminder.frequency)}
@@ -5,6 +5,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Eye, 
   Edit3, 
@@ -16,7 +17,8 @@ import {
   Save
 } from 'lucide-react';
 import { SystemTemplate, SystemTemplateService } from '@/services/systemTemplateService';
-import { TemplatePlaceholderService, DetectedPlaceholder } from '@/services/templatePlaceholderService';
+import { TemplatePlaceholderService, DetectedPlaceholder, PlaceholderMapping } from '@/services/templatePlaceholderService';
+import { PlaceholderMappingService } from '@/services/placeholderMappingService';
 import { ROF5FormData } from '@/hooks/useROF5Form';
 import { useToast } from '@/hooks/use-toast';
 import { DocumentGeneratorService } from '@/services/documentGeneratorService';
@@ -42,6 +44,7 @@ const TemplatePreviewEditor: React.FC<TemplatePreviewEditorProps> = ({
   const [showEditor, setShowEditor] = useState(false);
   const [editableContent, setEditableContent] = useState<string>('');
   const [templateType, setTemplateType] = useState<string | null>(null);
+  const [customMappings, setCustomMappings] = useState<PlaceholderMapping[]>([]);
 
   // Load template content when template changes
   useEffect(() => {
@@ -54,10 +57,10 @@ const TemplatePreviewEditor: React.FC<TemplatePreviewEditorProps> = ({
 
   // Auto-fill placeholders when ROF5 data changes
   useEffect(() => {
-    if (templateContent && detectedPlaceholders.length > 0 && templateType) {
+    if (templateContent && detectedPlaceholders.length > 0 && (templateType || customMappings.length > 0)) {
       fillPlaceholdersAutomatically();
     }
-  }, [rof5Data, templateContent, detectedPlaceholders, templateType]);
+  }, [rof5Data, templateContent, templateType, customMappings]);
 
   const resetState = () => {
     setTemplateContent('');
@@ -65,6 +68,7 @@ const TemplatePreviewEditor: React.FC<TemplatePreviewEditorProps> = ({
     setFilledContent('');
     setEditableContent('');
     setTemplateType(null);
+    setCustomMappings([]);
   };
 
   const loadTemplateContent = async () => {
@@ -81,10 +85,22 @@ const TemplatePreviewEditor: React.FC<TemplatePreviewEditorProps> = ({
       const detectedType = TemplatePlaceholderService.detectTemplateType(content);
       setTemplateType(detectedType);
       
+      // Mappings saved by an admin for this template override the built-in ones
+      let storedMappings: PlaceholderMapping[] = [];
+      try {
+        storedMappings = PlaceholderMappingService.toPlaceholderMappings(
+          await PlaceholderMappingService.getMappings(template.id)
+        );
+      } catch (error) {
+        console.warn('Could not load stored placeholder mappings, using built-in mappings:', error);
+      }
+      setCustomMappings(storedMappings);
+      
       // Detect placeholders and mark them
       const { content: markedContent, placeholders } = TemplatePlaceholderService.detectPlaceholders(
         content, 
-        detectedType || 'unknown'
+        detectedType || 'unknown',
+        storedMappings
       );
       
       setDetectedPlaceholders(placeholders);
@@ -110,22 +126,24 @@ const TemplatePreviewEditor: React.FC<TemplatePreviewEditorProps> = ({
     }
   };
 
-  const fillPlaceholdersAutomatically = () => {
-    if (!templateType || detectedPlaceholders.length === 0) return;
+  const fillPlaceholdersAutomatically = (placeholders: DetectedPlaceholder[] = detectedPlaceholders) => {
+    if ((!templateType && customMappings.length === 0) || placeholders.length === 0) return;
 
     console.log('Auto-filling placeholders with ROF5 data...');
     
     const { content: autoFilledContent, filledPlaceholders } = TemplatePlaceholderService.fillPlaceholdersWithROF5(
       editableContent,
-      detectedPlaceholders,
+      placeholders,
       rof5Data,
-      templateType
+      templateType || 'unknown',
+      customMappings
     );
     
     setFilledContent(autoFilledContent);
     setDetectedPlaceholders(filledPlaceholders);
     
     const validation = TemplatePlaceholderService.validateFilledPlaceholders(filledPlaceholders);
+    const flaggedCount = filledPlaceholders.filter(p => TemplatePlaceholderService.needsReview(p)).length;
     
     if (validation.isValid) {
       toast({
@@ -135,11 +153,43 @@ const TemplatePreviewEditor: React.FC<TemplatePreviewEditorProps> = ({
     } else {
       toast({
         title: "Partial Fill Complete",
-        description: `Filled ${filledPlaceholders.length - validation.unfilledCount} of ${filledPlaceholders.length} placeholders`,
+        description: flaggedCount > 0
+          ? `Filled ${filledPlaceholders.length - validation.unfilledCount} of ${filledPlaceholders.length} placeholders. ${flaggedCount} need manual mapping.`
+          : `Filled ${filledPlaceholders.length - validation.unfilledCount} of ${filledPlaceholders.length} placeholders`,
       });
     }
   };
 
+  const handleManualMapping = (placeholderId: string, mappingId: string) => {
+    const updated = detectedPlaceholders.map(p =>
+      p.id === placeholderId
+        ? TemplatePlaceholderService.applyManualMapping(
+            p,
+            mappingId === 'leave-unfilled' ? null : mappingId,
+            templateType || 'unknown',
+            customMappings
+          )
+        : p
+    );
+    fillPlaceholdersAutomatically(updated);
+  };
+
+  const getMatchStatusBadge = (placeholder: DetectedPlaceholder) => {
+    const confidence = `${Math.round((placeholder.confidence || 0) * 100)}%`;
+    switch (placeholder.matchStatus) {
+      case 'matched':
+        return <Badge className="bg-green-100 text-green-800">{confidence}</Badge>;
+      case 'manual':
+        return <Badge className="bg-blue-100 text-blue-800">Manual</Badge>;
+      case 'ambiguous':
+        return <Badge className="bg-orange-100 text-orange-800">Ambiguous {confidence}</Badge>;
+      case 'low-confidence':
+        return <Badge className="bg-yellow-100 text-yellow-800">Low {confidence}</Badge>;
+      default:
+        return <Badge className="bg-gray-100 text-gray-800">Unmapped</Badge>;
+    }
+  };
+
   const handleGenerateDocument = async () => {
     if (!template || !filledContent) {
       toast({
@@ -199,9 +249,10 @@ const TemplatePreviewEditor: React.FC<TemplatePreviewEditorProps> = ({
   };
 
   const getPlaceholderStats = () => {
-    const filled = detectedPlaceholders.filter(p => p.filled).length;
+    const filled = detectedPlaceholders.filter(p => p.filled || TemplatePlaceholderService.isLeftUnfilled(p)).length;
+    const flagged = detectedPlaceholders.filter(p => TemplatePlaceholderService.needsReview(p)).length;
     const total = detectedPlaceholders.length;
-    return { filled, total, percentage: total > 0 ? Math.round((filled / total) * 100) : 0 };
+    return { filled, flagged, total, percentage: total > 0 ? Math.round((filled / total) * 100) : 0 };
   };
 
   if (!template) {
@@ -241,6 +292,16 @@ const TemplatePreviewEditor: React.FC<TemplatePreviewEditorProps> = ({
         </CardHeader>
         
         <CardContent className="space-y-4">
+          {stats.flagged > 0 && (
+            <Alert className="border-yellow-300 bg-yellow-50">
+              <AlertTriangle className="h-4 w-4 text-yellow-600" />
+              <AlertDescription className="text-yellow-800">
+                {stats.flagged} placeholder{stats.flagged === 1 ? '' : 's'} could not be matched confidently and were left unfilled.
+                Open "Edit Placeholders" to map them manually.
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Progress Bar */}
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
@@ -307,31 +368,72 @@ const TemplatePreviewEditor: React.FC<TemplatePreviewEditorProps> = ({
                   <div className="border-r pr-4 overflow-auto">
                     <h3 className="font-medium mb-3">Placeholders ({detectedPlaceholders.length})</h3>
                     <div className="space-y-2">
-                      {detectedPlaceholders.map((placeholder) => (
-                        <div
-                          key={placeholder.id}
-                          className={`p-3 border rounded-lg text-sm ${
-                            placeholder.filled 
-                              ? 'border-green-200 bg-green-50' 
-                              : 'border-yellow-200 bg-yellow-50'
-                          }`}
-                        >
-                          <div className="flex items-center justify-between mb-1">
-                            <span className="font-medium">#{placeholder.order}</span>
-                            {placeholder.filled ? (
-                              <CheckCircle className="w-4 h-4 text-green-600" />
-                            ) : (
-                              <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                      {detectedPlaceholders.map((placeholder) => {
+                        const flagged = TemplatePlaceholderService.needsReview(placeholder);
+                        const mappings = TemplatePlaceholderService.getMappingsForTemplate(templateType || 'unknown', customMappings);
+                        const candidateIds = (placeholder.candidates || []).map(c => c.mappingId);
+
+                        return (
+                          <div
+                            key={placeholder.id}
+                            className={`p-3 border rounded-lg text-sm ${
+                              placeholder.filled 
+                                ? 'border-green-200 bg-green-50' 
+                                : flagged
+                                  ? 'border-orange-300 bg-orange-50'
+                                  : 'border-yellow-200 bg-yellow-50'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="font-medium">#{placeholder.order}</span>
+                              <div className="flex items-center space-x-1">
+                                {getMatchStatusBadge(placeholder)}
+                                {placeholder.filled ? (
+                                  <CheckCircle className="w-4 h-4 text-green-600" />
+                                ) : (
+                                  <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                                )}
+                              </div>
+                            </div>
+                            <p className="text-gray-700 mb-1">{placeholder.description}</p>
+                            {flagged && (
+                              <p className="text-gray-500 text-xs mb-2 italic">
+                                …{placeholder.contextBefore} <strong>[blank]</strong> {placeholder.contextAfter}…
+                              </p>
+                            )}
+                            {placeholder.filled && (
+                              <p className="text-green-700 font-medium text-xs">
+                                Value: {placeholder.value}
+                              </p>
+                            )}
+                            {(flagged || placeholder.matchStatus === 'manual') && mappings.length > 0 && (
+                              <Select
+                                value={placeholder.matchStatus === 'manual' ? placeholder.mappingId || 'leave-unfilled' : undefined}
+                                onValueChange={(value) => handleManualMapping(placeholder.id, value)}
+                              >
+                                <SelectTrigger className="h-8 text-xs mt-2">
+                                  <SelectValue placeholder="Map to field..." />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {(placeholder.candidates || []).map(candidate => (
+                                    <SelectItem key={candidate.mappingId} value={candidate.mappingId}>
+                                      {candidate.description} ({Math.round(candidate.score * 100)}%)
+                                    </SelectItem>
+                                  ))}
+                                  {mappings
+                                    .filter(m => !candidateIds.includes(m.id))
+                                    .map(mapping => (
+                                      <SelectItem key={mapping.id} value={mapping.id}>
+                                        {mapping.description}
+                                      </SelectItem>
+                                    ))}
+                                  <SelectItem value="leave-unfilled">Leave unfilled</SelectItem>
+                                </SelectContent>
+                              </Select>
                             )}
                           </div>
-                          <p className="text-gray-700 mb-1">{placeholder.description}</p>
-                          {placeholder.filled && (
-                            <p className="text-green-700 font-medium text-xs">
-                              Value: {placeholder.value}
-                            </p>
-                          )}
-                        </div>
-                      ))}
+                        );
+                      })}
                     </div>
                   </div>
                   
@@ -16,12 +16,17 @@ import {
   Trash2,
   Eye,
   Download,
-  RefreshCw
+  RefreshCw,
+  MapPin,
+  History
 } from 'lucide-react';
 import { SystemTemplateService, SystemTemplate, CreateSystemTemplateData } from '@/services/systemTemplateService';
 import { TemplateCategory } from '@/types/database';
 import { useToast } from '@/hooks/use-toast';
+import { useUser } from '@/contexts/UserContext';
 import { validateDocumentFile, sanitizeFileName } from '@/utils/templates/documentParser';
+import PlaceholderMappingEditor from '@/components/Templates/PlaceholderMappingEditor';
+import TemplateVersionHistory from '@/components/Templates/TemplateVersionHistory';
 
 interface TemplateUploadManagerProps {
   onTemplateUploaded?: (template: SystemTemplate) => void;
@@ -33,11 +38,15 @@ const TemplateUploadManager: React.FC<TemplateUploadManagerProps> = ({
   onTemplateSelected
 }) => {
   const { toast } = useToast();
+  const { hasPermission } = useUser();
+  const canManage = hasPermission('manage-templates');
   const [systemTemplates, setSystemTemplates] = useState<SystemTemplate[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [showUploadDialog, setShowUploadDialog] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<SystemTemplate | null>(null);
+  const [mappingTemplate, setMappingTemplate] = useState<SystemTemplate | null>(null);
+  const [historyTemplate, setHistoryTemplate] = useState<SystemTemplate | null>(null);
   
   // Upload form state
   const [uploadForm, setUploadForm] = useState({
@@ -228,12 +237,14 @@ const TemplateUploadManager: React.FC<TemplateUploadManagerProps> = ({
             </Button>
             
             <Dialog open={showUploadDialog} onOpenChange={setShowUploadDialog}>
-              <DialogTrigger asChild>
-                <Button className="bg-blue-600 hover:bg-blue-700">
-                  <Upload className="w-4 h-4 mr-2" />
-                  Upload Template
-                </Button>
-              </DialogTrigger>
+              {canManage && (
+                <DialogTrigger asChild>
+                  <Button className="bg-blue-600 hover:bg-blue-700">
+                    <Upload className="w-4 h-4 mr-2" />
+                    Upload Template
+                  </Button>
+                </DialogTrigger>
+              )}
               <DialogContent className="max-w-md">
                 <DialogHeader>
                   <DialogTitle>Upload New Template</DialogTitle>
@@ -329,7 +340,7 @@ const TemplateUploadManager: React.FC<TemplateUploadManagerProps> = ({
             </p>
           </div>
           <div className="flex space-x-2">
-            {systemTemplates.length > 0 && (
+            {canManage && systemTemplates.length > 0 && (
               <Button
                 variant="destructive"
                 size="sm"
@@ -389,6 +400,9 @@ const TemplateUploadManager: React.FC<TemplateUploadManagerProps> = ({
                       <Badge variant="outline" className="text-xs">
                         {template.category}
                       </Badge>
+                      <Badge variant="outline" className="text-xs">
+                        v{template.current_version ?? 1}
+                      </Badge>
                       {selectedTemplate?.id === template.id && (
                         <Badge className="bg-blue-100 text-blue-800 text-xs">
                           Selected
@@ -406,6 +420,32 @@ const TemplateUploadManager: React.FC<TemplateUploadManagerProps> = ({
                   </div>
                   
                   <div className="flex items-center space-x-2 ml-4">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Version History"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setHistoryTemplate(template);
+                      }}
+                      className="text-gray-400 hover:text-blue-600"
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Map Placeholders"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setMappingTemplate(template);
+                        }}
+                        className="text-gray-400 hover:text-blue-600"
+                      >
+                        <MapPin className="w-4 h-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -424,6 +464,23 @@ const TemplateUploadManager: React.FC<TemplateUploadManagerProps> = ({
           </div>
         )}
       </CardContent>
+
+      <PlaceholderMappingEditor
+        template={mappingTemplate}
+        open={!!mappingTemplate}
+        onOpenChange={(open) => !open && setMappingTemplate(null)}
+      />
+
+      <TemplateVersionHistory
+        template={historyTemplate}
+        open={!!historyTemplate}
+        onOpenChange={(open) => !open && setHistoryTemplate(null)}
+        canManage={canManage}
+        onTemplateUpdated={(updated) => {
+          setHistoryTemplate(updated);
+          loadSystemTemplates();
+        }}
+      />
     </Card>
   );
 };
@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MapPin, Save, Trash2, MousePointerClick } from 'lucide-react';
+import { SystemTemplate, SystemTemplateService } from '@/services/systemTemplateService';
+import { TemplatePlaceholderService, DetectedPlaceholder } from '@/services/templatePlaceholderService';
+import {
+  PlaceholderMappingService,
+  StoredPlaceholderMapping,
+  ComputedExpression,
+  ROF5_FIELD_OPTIONS,
+  COMPUTED_EXPRESSION_OPTIONS
+} from '@/services/placeholderMappingService';
+import { ROF5FormData } from '@/hooks/useROF5Form';
+import { useToast } from '@/hooks/use-toast';
+
+interface PlaceholderMappingEditorProps {
+  template: SystemTemplate | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PlaceholderMappingEditor: React.FC<PlaceholderMappingEditorProps> = ({
+  template,
+  open,
+  onOpenChange
+}) => {
+  const { toast } = useToast();
+  const [markedContent, setMarkedContent] = useState('');
+  const [placeholders, setPlaceholders] = useState<DetectedPlaceholder[]>([]);
+  const [mappings, setMappings] = useState<Record<number, StoredPlaceholderMapping>>({});
+  const [selectedOrder, setSelectedOrder] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && template) {
+      loadTemplate(template);
+    }
+  }, [open, template]);
+
+  const loadTemplate = async (current: SystemTemplate) => {
+    try {
+      setIsLoading(true);
+      setSelectedOrder(null);
+
+      const content = await SystemTemplateService.extractTextFromTemplate(current);
+      const templateType = TemplatePlaceholderService.detectTemplateType(content) || 'unknown';
+      const detected = TemplatePlaceholderService.detectPlaceholders(content, templateType);
+      const stored = await PlaceholderMappingService.getMappings(current.id);
+
+      setMarkedContent(detected.content);
+      setPlaceholders(detected.placeholders);
+      setMappings(Object.fromEntries(stored.map(m => [m.placeholderOrder, m])));
+    } catch (error) {
+      console.error('Error loading template for mapping:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load template",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Colour each blank by state: selected, mapped or unmapped
+  const renderedContent = useMemo(() => {
+    let html = markedContent;
+    placeholders.forEach(placeholder => {
+      const isSelected = placeholder.order === selectedOrder;
+      const isMapped = !!mappings[placeholder.order];
+      const style = isSelected
+        ? 'background-color: #fde68a; border: 2px solid #d97706;'
+        : isMapped
+          ? 'background-color: #dbeafe; border: 1px solid #2563eb;'
+          : 'background-color: #dcfce7; border: 1px dashed #16a34a;';
+      html = html.replace(
+        new RegExp(`<span class="placeholder-marker" data-id="${placeholder.id}"[^>]*>`),
+        `<span class="placeholder-marker" data-id="${placeholder.id}" title="#${placeholder.order}" style="${style} padding: 2px 4px; border-radius: 3px; cursor: pointer;">`
+      );
+    });
+    return html;
+  }, [markedContent, placeholders, mappings, selectedOrder]);
+
+  const selectedPlaceholder = placeholders.find(p => p.order === selectedOrder) || null;
+  const selectedMapping = selectedOrder !== null ? mappings[selectedOrder] : undefined;
+
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const marker = (e.target as HTMLElement).closest('.placeholder-marker');
+    const placeholder = placeholders.find(p => p.id === marker?.getAttribute('data-id'));
+    if (placeholder) {
+      setSelectedOrder(placeholder.order);
+    }
+  };
+
+  const updateSelectedMapping = (updates: Partial<StoredPlaceholderMapping>) => {
+    if (!template || !selectedPlaceholder) return;
+
+    const existing = mappings[selectedPlaceholder.order];
+    const next: StoredPlaceholderMapping = {
+      templateId: template.id,
+      placeholderOrder: selectedPlaceholder.order,
+      pattern: `${selectedPlaceholder.contextBefore} …… ${selectedPlaceholder.contextAfter}`.trim(),
+      description: '',
+      sourceType: 'field',
+      ...existing,
+      ...updates
+    };
+
+    // Default the label from the chosen field or expression until an admin edits it
+    if (!updates.description && (!existing?.description || existing.description === getDefaultDescription(existing))) {
+      next.description = getDefaultDescription(next);
+    }
+
+    setMappings(prev => ({ ...prev, [selectedPlaceholder.order]: next }));
+  };
+
+  const getDefaultDescription = (mapping: StoredPlaceholderMapping): string => {
+    if (mapping.sourceType === 'field') {
+      return ROF5_FIELD_OPTIONS.find(f => f.value === mapping.rof5Field)?.label || '';
+    }
+    if (mapping.expression === 'rent-year') {
+      return `Year ${mapping.expressionArg || 'N'} Rent`;
+    }
+    if (mapping.expression === 'amount-in-words') {
+      const field = ROF5_FIELD_OPTIONS.find(f => f.value === mapping.expressionArg)?.label;
+      return field ? `${field} in Words` : 'Amount in Words';
+    }
+    return COMPUTED_EXPRESSION_OPTIONS.find(e => e.value === mapping.expression)?.label || '';
+  };
+
+  const handleRemoveMapping = () => {
+    if (selectedOrder === null) return;
+    setMappings(prev => {
+      const next = { ...prev };
+      delete next[selectedOrder];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!template) return;
+
+    const incomplete = Object.values(mappings).filter(m =>
+      (m.sourceType === 'field' && !m.rof5Field) ||
+      (m.sourceType === 'computed' && (!m.expression || (COMPUTED_EXPRESSION_OPTIONS.find(e => e.value === m.expression)?.argLabel && !m.expressionArg)))
+    );
+    if (incomplete.length > 0) {
+      toast({
+        title: "Incomplete Mappings",
+        description: `Finish mapping blank${incomplete.length === 1 ? '' : 's'} ${incomplete.map(m => `#${m.placeholderOrder}`).join(', ')} before saving`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await PlaceholderMappingService.saveMappings(template.id, Object.values(mappings));
+      toast({
+        title: "Mappings Saved",
+        description: `Saved ${saved.length} placeholder mappings for ${template.name}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving mappings:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save placeholder mappings",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const expressionOption = COMPUTED_EXPRESSION_OPTIONS.find(e => e.value === selectedMapping?.expression);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <MapPin className="w-5 h-5" />
+            <span>Placeholder Mappings: {template?.name}</span>
+            <Badge className="bg-blue-100 text-blue-800">
+              {Object.keys(mappings).length}/{placeholders.length} Mapped
+            </Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-4 h-[65vh]">
+            {/* Template content with clickable blanks */}
+            <div className="col-span-2 overflow-auto bg-white p-4 rounded-lg border">
+              <div
+                className="prose prose-sm max-w-none"
+                onClick={handleContentClick}
+                dangerouslySetInnerHTML={{ __html: renderedContent }}
+              />
+            </div>
+
+            {/* Mapping form */}
+            <div className="overflow-auto space-y-4">
+              {!selectedPlaceholder ? (
+                <div className="text-center text-gray-500 py-8">
+                  <MousePointerClick className="w-8 h-8 mx-auto mb-2" />
+                  <p className="text-sm">Click a highlighted blank in the template to map it</p>
+                </div>
+              ) : (
+                <div className="space-y-3 p-3 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium">Blank #{selectedPlaceholder.order}</h3>
+                    {selectedPlaceholder.matchStatus === 'matched' && !selectedMapping && (
+                      <Badge variant="outline" className="text-xs">
+                        Suggested: {selectedPlaceholder.description}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 italic">
+                    …{selectedPlaceholder.contextBefore} <strong>[blank]</strong> {selectedPlaceholder.contextAfter}…
+                  </p>
+
+                  <div>
+                    <Label>Value Source</Label>
+                    <Select
+                      value={selectedMapping?.sourceType || ''}
+                      onValueChange={(value: 'field' | 'computed') => updateSelectedMapping({ sourceType: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a source" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="field">ROF5 Field</SelectItem>
+                        <SelectItem value="computed">Computed Expression</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {selectedMapping?.sourceType === 'field' && (
+                    <div>
+                      <Label>ROF5 Field</Label>
+                      <Select
+                        value={selectedMapping.rof5Field || ''}
+                        onValueChange={(value) => updateSelectedMapping({ rof5Field: value as keyof ROF5FormData })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select field" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROF5_FIELD_OPTIONS.map(field => (
+                            <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {selectedMapping?.sourceType === 'computed' && (
+                    <>
+                      <div>
+                        <Label>Expression</Label>
+                        <Select
+                          value={selectedMapping.expression || ''}
+                          onValueChange={(value) => updateSelectedMapping({ expression: value as ComputedExpression, expressionArg: undefined })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select expression" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {COMPUTED_EXPRESSION_OPTIONS.map(expression => (
+                              <SelectItem key={expression.value} value={expression.value}>{expression.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {selectedMapping.expression === 'rent-year' && (
+                        <div>
+                          <Label>{expressionOption?.argLabel}</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={50}
+                            value={selectedMapping.expressionArg || ''}
+                            onChange={(e) => updateSelectedMapping({ expressionArg: e.target.value })}
+                          />
+                        </div>
+                      )}
+
+                      {selectedMapping.expression === 'amount-in-words' && (
+                        <div>
+                          <Label>{expressionOption?.argLabel}</Label>
+                          <Select
+                            value={selectedMapping.expressionArg || ''}
+                            onValueChange={(value) => updateSelectedMapping({ expressionArg: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select amount field" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ROF5_FIELD_OPTIONS.filter(f => f.format === 'kes').map(field => (
+                                <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </>
+                  )}
+
+                  {selectedMapping && (
+                    <>
+                      <div>
+                        <Label>Label</Label>
+                        <Input
+                          value={selectedMapping.description}
+                          onChange={(e) => updateSelectedMapping({ description: e.target.value })}
+                        />
+                      </div>
+                      <Button variant="outline" size="sm" onClick={handleRemoveMapping} className="text-red-600">
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Remove Mapping
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Configured mappings */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">Mapped Blanks</h4>
+                {Object.values(mappings).length === 0 ? (
+                  <p className="text-xs text-gray-500">No blanks mapped yet</p>
+                ) : (
+                  Object.values(mappings)
+                    .sort((a, b) => a.placeholderOrder - b.placeholderOrder)
+                    .map(mapping => (
+                      <button
+                        key={mapping.placeholderOrder}
+                        type="button"
+                        onClick={() => setSelectedOrder(mapping.placeholderOrder)}
+                        className={`w-full text-left p-2 border rounded text-xs ${
+                          mapping.placeholderOrder === selectedOrder ? 'border-amber-500 bg-amber-50' : 'border-blue-200 bg-blue-50'
+                        }`}
+                      >
+                        <span className="font-medium">#{mapping.placeholderOrder}</span> {mapping.description || 'Untitled'}
+                      </button>
+                    ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading} className="bg-blue-600 hover:bg-blue-700">
+            <Save className="w-4 h-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Mappings'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlaceholderMappingEditor;
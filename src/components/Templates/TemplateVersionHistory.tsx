@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { History, Download, RotateCcw, Upload } from 'lucide-react';
+import { SystemTemplate, SystemTemplateService } from '@/services/systemTemplateService';
+import { TemplateVersionService, TemplateVersion } from '@/services/templateVersionService';
+import { validateDocumentFile } from '@/utils/templates/documentParser';
+import { useToast } from '@/hooks/use-toast';
+
+interface TemplateVersionHistoryProps {
+  template: SystemTemplate | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canManage: boolean;
+  onTemplateUpdated?: (template: SystemTemplate) => void;
+}
+
+const TemplateVersionHistory: React.FC<TemplateVersionHistoryProps> = ({
+  template,
+  open,
+  onOpenChange,
+  canManage,
+  onTemplateUpdated
+}) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [replacementFile, setReplacementFile] = useState<File | null>(null);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (open && template) {
+      setReplacementFile(null);
+      setNotes('');
+      loadVersions(template.id);
+    }
+  }, [open, template]);
+
+  const loadVersions = async (templateId: string) => {
+    try {
+      setIsLoading(true);
+      setVersions(await TemplateVersionService.getVersions(templateId));
+    } catch (error) {
+      console.error('Error loading template versions:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load version history",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const currentVersion = template?.current_version ?? versions[0]?.versionNumber;
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!validateDocumentFile(file)) {
+      toast({
+        title: "Invalid File",
+        description: "Please select a valid .docx or .doc file (max 10MB)",
+        variant: "destructive"
+      });
+      return;
+    }
+    setReplacementFile(file);
+  };
+
+  const handleUploadVersion = async () => {
+    if (!template || !replacementFile) return;
+
+    if (!notes.trim()) {
+      toast({
+        title: "Missing Notes",
+        description: "Describe what changed in this version",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const fileData = new Uint8Array(await replacementFile.arrayBuffer());
+      const updated = await SystemTemplateService.updateSystemTemplate(
+        template.id,
+        {
+          file_name: replacementFile.name,
+          file_data: fileData,
+          content_type: replacementFile.type || 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+        },
+        notes
+      );
+
+      toast({
+        title: "New Version Uploaded",
+        description: `${template.name} is now at version ${updated.current_version}`,
+      });
+
+      setReplacementFile(null);
+      setNotes('');
+      onTemplateUpdated?.(updated);
+      await loadVersions(template.id);
+    } catch (error) {
+      console.error('Error uploading template version:', error);
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Failed to upload new version",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: TemplateVersion) => {
+    if (!template) return;
+
+    try {
+      setIsSaving(true);
+      const updated = await TemplateVersionService.restoreVersion(template.id, version);
+
+      toast({
+        title: "Version Restored",
+        description: `Version ${version.versionNumber} restored as version ${updated.current_version}`,
+      });
+
+      onTemplateUpdated?.(updated);
+      await loadVersions(template.id);
+    } catch (error) {
+      console.error('Error restoring template version:', error);
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "Failed to restore version",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownload = (version: TemplateVersion) => {
+    if (!template) return;
+
+    try {
+      TemplateVersionService.downloadVersion(template, version);
+    } catch (error) {
+      console.error('Error downloading template version:', error);
+      toast({
+        title: "Download Failed",
+        description: "Failed to download template version",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="w-5 h-5" />
+            <span>Version History: {template?.name}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {canManage && (
+          <div className="space-y-3 p-4 border rounded-lg bg-gray-50">
+            <h4 className="font-medium text-gray-900">Upload Replacement File</h4>
+            <div>
+              <Label htmlFor="version-file">Template File</Label>
+              <Input id="version-file" type="file" accept=".docx,.doc" onChange={handleFileSelect} />
+            </div>
+            <div>
+              <Label htmlFor="version-notes">Change Notes</Label>
+              <Textarea
+                id="version-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. Updated rent review clause wording"
+                rows={2}
+              />
+            </div>
+            <Button
+              onClick={handleUploadVersion}
+              disabled={!replacementFile || isSaving}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Upload as New Version'}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No versions recorded for this template yet</p>
+        ) : (
+          <div className="space-y-2">
+            {versions.map(version => (
+              <div key={version.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="font-medium text-gray-900">Version {version.versionNumber}</span>
+                    {version.versionNumber === currentVersion && (
+                      <Badge className="bg-green-100 text-green-800 text-xs">Current</Badge>
+                    )}
+                  </div>
+                  {version.notes && <p className="text-sm text-gray-600">{version.notes}</p>}
+                  <div className="flex items-center space-x-4 text-xs text-gray-500 mt-1">
+                    <span>File: {version.fileName}</span>
+                    {version.createdAt && <span>Created: {new Date(version.createdAt).toLocaleString()}</span>}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 ml-4">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDownload(version)}
+                    className="text-gray-400 hover:text-blue-600"
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  {canManage && version.versionNumber !== currentVersion && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(version)}
+                      disabled={isSaving}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateVersionHistory;
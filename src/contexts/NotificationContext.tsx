@@ -1,6 +1,8 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { getInstructionPath } from '@/lib/utils';
 
 export interface Notification {
   id: string;
@@ -63,7 +65,13 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
       toast({
         title: notification.title,
         description: notification.message,
-        variant: notification.priority === 'critical' ? 'destructive' : 'default'
+        variant: notification.priority === 'critical' ? 'destructive' : 'default',
+        // The provider sits outside the router, so this is a plain link
+        action: notification.instructionId ? (
+          <ToastAction altText={`Open ${notification.instructionId}`} asChild>
+            <a href={getInstructionPath(notification.instructionId)}>Open</a>
+          </ToastAction>
+        ) : undefined
       });
     }
   };
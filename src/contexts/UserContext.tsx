@@ -1,5 +1,7 @@
-
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { ProfileService } from '@/services/profileService';
 
 export type UserRole = 'IC' | 'EC' | 'POA' | 'Admin';
 
@@ -9,71 +11,80 @@ export interface User {
   email: string;
   role: UserRole;
   department: string;
+  // Panel firm of external counsel; the name is joined in for display
+  lawFirmId?: string;
+  lawFirm?: string;
+  isActive: boolean;
 }
 
+export const ROLE_LABELS: Record<UserRole, string> = {
+  IC: 'In-House Counsel',
+  EC: 'External Counsel',
+  POA: 'Property Operations',
+  Admin: 'Administrator'
+};
+
 interface UserContextType {
   currentUser: User | null;
-  setCurrentUser: (user: User) => void;
+  isLoading: boolean;
+  refreshCurrentUser: () => Promise<void>;
   hasPermission: (action: string) => boolean;
-  getUsersByRole: (role: UserRole) => User[];
+  getUsersByRole: (role: UserRole) => Promise<User[]>;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
-const mockUsers: User[] = [
-  {
-    id: '1',
-    name: 'John Doe',
-    email: 'john.doe@safaricom.co.ke',
-    role: 'IC',
-    department: 'Legal - In-House Counsel'
-  },
-  {
-    id: '2',
-    name: 'Jane Smith',
-    email: 'jane.smith@lawfirm.co.ke',
-    role: 'EC',
-    department: 'External Counsel'
-  },
-  {
-    id: '3',
-    name: 'Mike Johnson',
-    email: 'mike.johnson@safaricom.co.ke',
-    role: 'POA',
-    department: 'Property Operations'
-  },
-  {
-    id: '4',
-    name: 'Admin User',
-    email: 'admin@safaricom.co.ke',
-    role: 'Admin',
-    department: 'System Administration'
-  }
-];
+// Copy of the role_permissions table, used until that migration has been applied.
+// RLS policies check the table, so keep the two in step.
+const rolePermissions: Record<UserRole, string[]> = {
+  IC: [
+    'create-instruction', 'view-dashboard', 'assign-external-counsel', 'approve-documents', 'generate-reports',
+    'update-status', 'upload-documents', 'generate-documents', 'manage-panel'
+  ],
+  EC: ['view-assigned-instructions', 'upload-documents', 'update-status', 'generate-documents'],
+  POA: ['view-all-instructions', 'manage-properties', 'generate-reports', 'update-status', 'upload-documents'],
+  Admin: [
+    'manage-users', 'view-all', 'system-settings', 'manage-templates', 'generate-reports',
+    'update-status', 'generate-documents', 'manage-panel'
+  ]
+};
 
 export const UserProvider = ({ children }: { children: ReactNode }) => {
-  const [currentUser, setCurrentUser] = useState<User | null>(mockUsers[0]); // Default to IC user
+  const { user, loading: authLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['profile', user?.id];
 
-  const rolePermissions = {
-    IC: ['create-instruction', 'view-dashboard', 'assign-external-counsel', 'approve-documents', 'generate-reports'],
-    EC: ['view-assigned-instructions', 'upload-documents', 'update-status', 'generate-documents'],
-    POA: ['view-all-instructions', 'manage-properties', 'generate-reports'],
-    Admin: ['manage-users', 'view-all', 'system-settings', 'manage-templates', 'generate-reports']
-  };
+  const { data: profile = null, isLoading: profileLoading } = useQuery({
+    queryKey,
+    queryFn: () => ProfileService.getCurrentProfile(),
+    enabled: !!user
+  });
+
+  // Deactivated users keep their profile but lose every permission
+  const currentUser = user && profile?.isActive ? profile : null;
+
+  const { data: permissions = null } = useQuery({
+    queryKey: ['role-permissions', currentUser?.role],
+    queryFn: () => ProfileService.getRolePermissions(currentUser!.role),
+    enabled: !!currentUser
+  });
 
   const hasPermission = (action: string): boolean => {
     if (!currentUser) return false;
-    return rolePermissions[currentUser.role]?.includes(action) || false;
+    return (permissions ?? rolePermissions[currentUser.role])?.includes(action) || false;
   };
 
-  const getUsersByRole = (role: UserRole): User[] => {
-    return mockUsers.filter(user => user.role === role);
+  const getUsersByRole = (role: UserRole): Promise<User[]> => ProfileService.getUsersByRole(role);
+
+  const refreshCurrentUser = async () => {
+    await queryClient.invalidateQueries({ queryKey });
   };
 
   return (
     <UserContext.Provider value={{
       currentUser,
-      setCurrentUser,
+      isLoading: authLoading || (!!user && profileLoading),
+      refreshCurrentUser,
       hasPermission,
       getUsersByRole
     }}>
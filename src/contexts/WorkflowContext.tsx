@@ -1,5 +1,18 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { useUser } from './UserContext';
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { User, UserRole, useUser } from './UserContext';
+import { InstructionService } from '@/services/instructionService';
+import { WorkflowStateMachine } from '@/services/workflowStateMachine';
+import { WorkflowStage } from '@/types/workflow';
+import type { TemplateVersionReference } from '@/services/templateVersionService';
+import type { FeeBreakdown } from '@/services/feeCalculationService';
+import type { Advocate, LawFirm } from '@/services/lawFirmService';
+import { DocumentGenerationOptions, DocumentGenerationService, GeneratedDocument } from '@/services/documentGenerationService';
+import { DocumentSource, GeneratedDocumentService, StoredDocument } from '@/services/generatedDocumentService';
+import { ExecutedDocumentService } from '@/services/executedDocumentService';
+import { ROF5FormData, normalizeROF5FormData } from '@/schemas/rof5Schema';
 
 export interface WorkflowInstruction {
   id: string;
@@ -7,234 +20,292 @@ export interface WorkflowInstruction {
   siteName: string;
   siteLocation: string;
   landlordName: string;
-  stage: 'document-drafting' | 'execution' | 'registration' | 'completed';
+  // Registry site and landlord the instruction is linked to
+  siteId?: string;
+  landlordId?: string;
+  stage: WorkflowStage;
   progress: number;
   createdAt: string;
   lastUpdated: string;
   assignee: string;
+  // User the instruction is assigned to; external counsel only see their own
+  assignedTo?: string | null;
+  // Panel firm and advocate handling the instruction; the firm sees all its matters
+  lawFirmId?: string | null;
+  advocateId?: string | null;
   nextAction: string;
   priority: 'low' | 'medium' | 'high';
   formData: any;
   generatedDocuments: string[];
-  auditTrail: AuditEntry[];
+  // Template version that produced each generated document, keyed by document name
+  documentTemplateVersions?: Record<string, TemplateVersionReference>;
+  executedDocuments?: string[];
+  feeBreakdown?: FeeBreakdown;
   progressReason?: string;
 }
 
-export interface AuditEntry {
-  id: string;
-  action: string;
-  user: string;
-  timestamp: string;
-  details: string;
-}
-
 interface WorkflowContextType {
   instructions: WorkflowInstruction[];
+  isLoading: boolean;
   addInstruction: (instruction: WorkflowInstruction) => void;
+  // Saves a batch in one go; rejects, saving nothing, if any instruction fails
+  addInstructions: (instructions: WorkflowInstruction[]) => Promise<WorkflowInstruction[]>;
   updateInstruction: (id: string, updates: Partial<WorkflowInstruction>) => void;
-  updateInstructionStage: (id: string, stage: WorkflowInstruction['stage']) => void;
-  addAuditEntry: (instructionId: string, entry: Omit<AuditEntry, 'id'>) => void;
-  generateDocuments: (instructionId: string, templateIds: string[]) => Promise<string[]>;
-  assignToUser: (instructionId: string, userId: string, role: string) => void;
+  updateInstructionStage: (id: string, stage: WorkflowInstruction['stage']) => boolean;
+  // Uploads the signed copy to storage and records its path on the instruction
+  recordExecutedDocument: (instructionId: string, file: File) => Promise<void>;
+  // Saves generated files to storage against the instruction and records them on it
+  recordGeneratedDocuments: (
+    instructionId: string,
+    documents: GeneratedDocument[],
+    source: DocumentSource,
+    formData?: ROF5FormData
+  ) => Promise<StoredDocument[]>;
+  generateDocuments: (instructionId: string, options?: Partial<DocumentGenerationOptions>) => Promise<StoredDocument[]>;
+  assignToUser: (instructionId: string, assignedUser: User) => void;
+  assignCounsel: (instructionId: string, firm: LawFirm, advocate: Advocate | null) => void;
 }
 
 const WorkflowContext = createContext<WorkflowContextType | undefined>(undefined);
 
 export const WorkflowProvider = ({ children }: { children: ReactNode }) => {
-  const [instructions, setInstructions] = useState<WorkflowInstruction[]>([
-    {
-      id: "ROF-2024-001",
-      siteCode: "NBI001",
-      siteName: "Westlands Plaza",
-      siteLocation: "Westlands, Nairobi",
-      landlordName: "ABC Properties Ltd",
-      stage: "document-drafting",
-      progress: 35,
-      createdAt: "2024-01-10",
-      lastUpdated: "2024-01-15",
-      assignee: "John Doe (IC)",
-      nextAction: "EC Review",
-      priority: "high",
-      formData: {},
-      generatedDocuments: [],
-      auditTrail: [],
-      progressReason: "Waiting for landlord to provide additional documentation"
-    },
-    {
-      id: "ROF-2024-002",
-      siteCode: "NBI002", 
-      siteName: "Karen Gardens",
-      siteLocation: "Karen, Nairobi",
-      landlordName: "XYZ Holdings Ltd",
-      stage: "execution",
-      progress: 65,
-      createdAt: "2024-01-08",
-      lastUpdated: "2024-01-20",
-      assignee: "Jane Smith (EC)",
-      nextAction: "Lease Execution",
-      priority: "medium",
-      formData: {},
-      generatedDocuments: [],
-      auditTrail: []
-    },
-    {
-      id: "ROF-2024-003",
-      siteCode: "NBI003",
-      siteName: "Kilimani Tower",
-      siteLocation: "Kilimani, Nairobi",
-      landlordName: "Prime Estates",
-      stage: "registration",
-      progress: 85,
-      createdAt: "2024-01-05",
-      lastUpdated: "2024-01-22",
-      assignee: "Mike Johnson (POA)",
-      nextAction: "Registration & Closure",
-      priority: "low",
-      formData: {},
-      generatedDocuments: [],
-      auditTrail: []
-    },
-    {
-      id: "ROF-2024-004",
-      siteCode: "NBI004",
-      siteName: "Central Plaza",
-      siteLocation: "CBD, Nairobi",
-      landlordName: "Central Plaza Ltd",
-      stage: "completed",
-      progress: 100,
-      createdAt: "2024-01-01",
-      lastUpdated: "2024-01-25",
-      assignee: "Admin User (Admin)",
-      nextAction: "File Archived",
-      priority: "low",
-      formData: {},
-      generatedDocuments: [],
-      auditTrail: []
-    }
-  ]);
-
-  const getStageProgress = (stage: WorkflowInstruction['stage']): number => {
-    switch (stage) {
-      case 'document-drafting': return 25;
-      case 'execution': return 60;
-      case 'registration': return 85;
-      case 'completed': return 100;
-      default: return 0;
-    }
+  const { user } = useAuth();
+  const { currentUser } = useUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['instructions', user?.id];
+
+  const { data: instructions = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => InstructionService.getAllInstructions(),
+    enabled: !!user
+  });
+
+  const getCachedInstructions = () =>
+    queryClient.getQueryData<WorkflowInstruction[]>(queryKey) || [];
+
+  // Apply a change to the cached list immediately and hand back a rollback snapshot
+  const applyOptimisticUpdate = async (
+    update: (current: WorkflowInstruction[]) => WorkflowInstruction[]
+  ) => {
+    await queryClient.cancelQueries({ queryKey });
+    const previous = queryClient.getQueryData<WorkflowInstruction[]>(queryKey);
+    queryClient.setQueryData<WorkflowInstruction[]>(queryKey, (current = []) => update(current));
+    return { previous };
   };
 
-  const getNextAction = (stage: WorkflowInstruction['stage']): string => {
-    switch (stage) {
-      case 'document-drafting': return 'EC Review & Document Finalization';
-      case 'execution': return 'Lease Execution & Signing';
-      case 'registration': return 'Registration & Closure';
-      case 'completed': return 'File Archived';
-      default: return 'Pending Review';
+  const handleMutationError = (title: string) => (
+    error: Error,
+    _variables: unknown,
+    context?: { previous?: WorkflowInstruction[] }
+  ) => {
+    if (context?.previous) {
+      queryClient.setQueryData(queryKey, context.previous);
     }
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive"
+    });
   };
 
-  const addInstruction = (instruction: WorkflowInstruction) => {
-    setInstructions(prev => [...prev, instruction]);
-  };
+  const invalidateInstructions = () => queryClient.invalidateQueries({ queryKey });
 
-  const updateInstruction = (id: string, updates: Partial<WorkflowInstruction>) => {
-    setInstructions(prev => 
-      prev.map(inst => 
-        inst.id === id 
+  const addInstructionMutation = useMutation({
+    mutationFn: (instruction: WorkflowInstruction) => InstructionService.createInstruction(instruction),
+    onMutate: (instruction: WorkflowInstruction) => applyOptimisticUpdate(current => [instruction, ...current]),
+    onError: handleMutationError("Failed to Save Instruction"),
+    onSettled: invalidateInstructions
+  });
+
+  const addInstructionsMutation = useMutation({
+    mutationFn: (batch: WorkflowInstruction[]) => InstructionService.createInstructions(batch),
+    onMutate: (batch: WorkflowInstruction[]) => applyOptimisticUpdate(current => [...batch, ...current]),
+    onError: handleMutationError("Failed to Save Instructions"),
+    onSettled: invalidateInstructions
+  });
+
+  const updateInstructionMutation = useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<WorkflowInstruction> }) =>
+      InstructionService.updateInstruction(id, updates),
+    onMutate: ({ id, updates }) => applyOptimisticUpdate(current =>
+      current.map(inst =>
+        inst.id === id
           ? { ...inst, ...updates, lastUpdated: new Date().toISOString().split('T')[0] }
           : inst
       )
-    );
+    ),
+    onError: handleMutationError("Failed to Update Instruction"),
+    onSettled: invalidateInstructions
+  });
+
+  const addInstruction = (instruction: WorkflowInstruction) => {
+    addInstructionMutation.mutate(instruction);
   };
 
-  const updateInstructionStage = (id: string, stage: WorkflowInstruction['stage']) => {
-    const progress = getStageProgress(stage);
-    const nextAction = getNextAction(stage);
-    
+  const addInstructions = (batch: WorkflowInstruction[]) => addInstructionsMutation.mutateAsync(batch);
+
+  const updateInstruction = (id: string, updates: Partial<WorkflowInstruction>) => {
+    updateInstructionMutation.mutate({ id, updates });
+  };
+
+  const updateInstructionStage = (id: string, stage: WorkflowInstruction['stage']): boolean => {
+    const instruction = getCachedInstructions().find(i => i.id === id);
+    if (!instruction) return false;
+
+    const check = WorkflowStateMachine.canTransition(instruction, stage, currentUser?.role);
+    if (!check.allowed) {
+      toast({
+        title: "Stage Change Not Allowed",
+        description: check.reasons.join('. '),
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    const definition = WorkflowStateMachine.getDefinitionForInstruction(instruction);
+
     updateInstruction(id, {
       stage,
-      progress,
-      nextAction
+      progress: WorkflowStateMachine.getStageProgress(definition, stage),
+      nextAction: WorkflowStateMachine.getNextAction(definition, stage)
     });
 
-    addAuditEntry(id, {
-      action: 'Stage Updated',
-      user: 'System',
-      timestamp: new Date().toISOString(),
-      details: `Stage changed to ${stage.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}`
-    });
+    return true;
   };
 
-  const addAuditEntry = (instructionId: string, entry: Omit<AuditEntry, 'id'>) => {
-    const auditEntry: AuditEntry = {
-      ...entry,
-      id: `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    };
+  const recordExecutedDocument = async (instructionId: string, file: File) => {
+    const instruction = getCachedInstructions().find(i => i.id === instructionId);
+    if (!instruction) {
+      throw new Error(`Instruction ${instructionId} not found`);
+    }
 
-    updateInstruction(instructionId, {
-      auditTrail: [...(instructions.find(i => i.id === instructionId)?.auditTrail || []), auditEntry]
-    });
+    const storagePath = await ExecutedDocumentService.uploadDocument(instructionId, file);
+
+    try {
+      await updateInstructionMutation.mutateAsync({
+        id: instructionId,
+        updates: { executedDocuments: [...(instruction.executedDocuments || []), storagePath] }
+      });
+    } catch (error) {
+      // Don't leave a file behind that the instruction doesn't point to
+      await ExecutedDocumentService.removeDocument(storagePath);
+      throw error;
+    }
   };
 
-  const assignToUser = (instructionId: string, userId: string, role: string) => {
-    const instruction = instructions.find(i => i.id === instructionId);
+  const applyAssignment = (
+    instructionId: string,
+    role: UserRole,
+    assignment: Partial<WorkflowInstruction>,
+    label: string
+  ) => {
+    const instruction = getCachedInstructions().find(i => i.id === instructionId);
     if (!instruction) return;
 
+    const definition = WorkflowStateMachine.getDefinitionForInstruction(instruction);
     let newStage = instruction.stage;
     let newProgress = instruction.progress;
 
-    // Auto-advance stage based on role assignment
-    if (role === 'EC' && instruction.stage === 'document-drafting') {
-      newStage = 'execution';
-      newProgress = 60;
-    } else if (role === 'POA' && instruction.stage === 'execution') {
-      newStage = 'registration';
-      newProgress = 85;
+    // Auto-advance stage based on role assignment, where the transition's role guards
+    // and preconditions allow it; otherwise only the assignee changes
+    const autoAdvanceTo: WorkflowStage | undefined =
+      role === 'EC' && instruction.stage === 'document-drafting' ? 'execution'
+        : role === 'POA' && instruction.stage === 'execution' ? 'registration'
+          : undefined;
+
+    if (autoAdvanceTo && WorkflowStateMachine.canTransition(instruction, autoAdvanceTo, role).allowed) {
+      newStage = autoAdvanceTo;
+      newProgress = WorkflowStateMachine.getStageProgress(definition, autoAdvanceTo);
     }
 
     updateInstruction(instructionId, {
-      assignee: `${userId} (${role})`,
+      ...assignment,
+      assignee: label,
       stage: newStage,
       progress: newProgress,
-      nextAction: getNextAction(newStage)
+      nextAction: WorkflowStateMachine.getNextAction(definition, newStage)
     });
+  };
 
-    addAuditEntry(instructionId, {
-      action: 'Assignment Updated',
-      user: 'System',
-      timestamp: new Date().toISOString(),
-      details: `Assigned to ${userId} (${role})`
-    });
+  const assignToUser = (instructionId: string, assignedUser: User) => {
+    applyAssignment(
+      instructionId,
+      assignedUser.role,
+      { assignedTo: assignedUser.id },
+      `${assignedUser.name} (${assignedUser.role})`
+    );
+  };
+
+  // The firm sees the matter through law_firm_id; the advocate's own account, if any,
+  // becomes the assigned user
+  const assignCounsel = (instructionId: string, firm: LawFirm, advocate: Advocate | null) => {
+    applyAssignment(
+      instructionId,
+      'EC',
+      { lawFirmId: firm.id, advocateId: advocate?.id ?? null, assignedTo: advocate?.profileId ?? null },
+      advocate ? `${advocate.name} (${firm.name})` : firm.name
+    );
   };
 
-  const generateDocuments = async (instructionId: string, templateIds: string[]): Promise<string[]> => {
-    // Simulate document generation
-    const generatedDocs = templateIds.map(templateId => `${templateId}-${instructionId}.pdf`);
-    
+  const recordGeneratedDocuments = async (
+    instructionId: string,
+    documents: GeneratedDocument[],
+    source: DocumentSource,
+    formData?: ROF5FormData
+  ): Promise<StoredDocument[]> => {
+    const instruction = getCachedInstructions().find(i => i.id === instructionId);
+    const snapshot = formData ?? normalizeROF5FormData(instruction?.formData);
+    const stored = await GeneratedDocumentService.saveDocuments(instructionId, documents, snapshot, source);
+    const names = documents.map(doc => doc.name);
+
     updateInstruction(instructionId, {
-      generatedDocuments: generatedDocs,
-      progress: 50
+      generatedDocuments: Array.from(new Set([...(instruction?.generatedDocuments || []), ...names])),
+      documentTemplateVersions: {
+        ...instruction?.documentTemplateVersions,
+        ...Object.fromEntries(
+          documents.filter(doc => doc.templateVersion).map(doc => [doc.name, doc.templateVersion!])
+        )
+      }
     });
 
-    addAuditEntry(instructionId, {
-      action: 'Documents Generated',
-      user: 'System',
-      timestamp: new Date().toISOString(),
-      details: `Generated ${templateIds.length} documents: ${templateIds.join(', ')}`
+    return stored;
+  };
+
+  const generateDocuments = async (
+    instructionId: string,
+    options: Partial<DocumentGenerationOptions> = {}
+  ): Promise<StoredDocument[]> => {
+    const instruction = getCachedInstructions().find(i => i.id === instructionId);
+    if (!instruction) {
+      throw new Error(`Instruction ${instructionId} not found`);
+    }
+
+    const formData = normalizeROF5FormData(instruction.formData);
+    const documents = await DocumentGenerationService.generateDocumentsFromROF5(formData, {
+      includeAgreement: true,
+      includeForwardingLetter: true,
+      includeInvoice: true,
+      agreementType: formData.leaseType,
+      ...options
     });
 
-    return generatedDocs;
+    return recordGeneratedDocuments(instructionId, documents, 'rof5', formData);
   };
 
   return (
     <WorkflowContext.Provider value={{
       instructions,
+      isLoading,
       addInstruction,
+      addInstructions,
       updateInstruction,
       updateInstructionStage,
-      addAuditEntry,
+      recordExecutedDocument,
+      recordGeneratedDocuments,
       generateDocuments,
-      assignToUser
+      assignToUser,
+      assignCounsel
     }}>
       {children}
     </WorkflowContext.Provider>
@@ -2,6 +2,7 @@
 import { useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
 import { AuthService } from '@/services/authService';
+import { DraftService } from '@/services/draftService';
 
 export const useAuth = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -23,6 +24,13 @@ export const useAuth = () => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Move drafts saved in this browser before drafts were stored on the server
+  useEffect(() => {
+    if (user) {
+      DraftService.migrateLocalDrafts().catch(error => console.error('Error migrating browser drafts:', error));
+    }
+  }, [user]);
+
   const signIn = async (email: string, password: string) => {
     setLoading(true);
     try {
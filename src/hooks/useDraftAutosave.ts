@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from 'react';
+import { DraftSaveKind, DraftService, SavedDraft } from "@/services/draftService";
+import { ROF5FormData, createEmptyROF5FormData, normalizeROF5FormData } from "@/schemas/rof5Schema";
+
+export type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+// Save once the form has been left alone for this long
+export const AUTOSAVE_DELAY_MS = 2000;
+
+const serialize = (formData: ROF5FormData) => JSON.stringify(normalizeROF5FormData(formData));
+
+/**
+ * Keeps the ROF5 form saved as a server draft. The first change creates a draft;
+ * later changes are saved as new revisions once typing pauses. Unchanged forms
+ * are never saved.
+ */
+export const useDraftAutosave = (formData: ROF5FormData, enabled = true) => {
+  const [draft, setDraft] = useState<SavedDraft | null>(null);
+  const [status, setStatus] = useState<DraftSaveStatus>('idle');
+  const draftRef = useRef<SavedDraft | null>(null);
+  const lastSavedRef = useRef(serialize(createEmptyROF5FormData()));
+  const pendingRef = useRef<Promise<SavedDraft | null> | null>(null);
+  // Drafts created by autosave are renamed as the site and landlord are filled in
+  const autoNamedRef = useRef(false);
+
+  const setCurrentDraft = (next: SavedDraft | null) => {
+    draftRef.current = next;
+    setDraft(next);
+  };
+
+  const save = async (saveKind: DraftSaveKind, name?: string): Promise<SavedDraft | null> => {
+    // Let an autosave already in flight finish so it doesn't create a second draft
+    if (pendingRef.current) {
+      await pendingRef.current.catch(() => null);
+    }
+
+    const serialized = serialize(formData);
+    if (saveKind === 'autosave' && serialized === lastSavedRef.current) {
+      return draftRef.current;
+    }
+
+    const current = draftRef.current;
+    const rename = name?.trim() || (autoNamedRef.current ? DraftService.getDefaultName(formData) : undefined);
+
+    const pending = current
+      ? DraftService.saveRevision(current.id, formData, saveKind, rename !== current.name ? rename : undefined)
+      : DraftService.createDraft(formData, name, saveKind);
+    pendingRef.current = pending;
+
+    try {
+      setStatus('saving');
+      const saved = await pending;
+      if (!current) autoNamedRef.current = !name?.trim();
+      if (name?.trim()) autoNamedRef.current = false;
+      lastSavedRef.current = serialized;
+      setCurrentDraft(saved);
+      setStatus('saved');
+      return saved;
+    } catch (error) {
+      setStatus('error');
+      throw error;
+    } finally {
+      pendingRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    if (!enabled || serialize(formData) === lastSavedRef.current) return;
+
+    const timer = setTimeout(() => {
+      save('autosave').catch(error => console.error('Autosave failed:', error));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [formData, enabled]);
+
+  /**
+   * Continue editing an existing draft; its saved form is the new baseline
+   */
+  const openDraft = (opened: SavedDraft) => {
+    setCurrentDraft(opened);
+    lastSavedRef.current = serialize(opened.formData);
+    autoNamedRef.current = false;
+    setStatus('saved');
+  };
+
+  /**
+   * Stop saving to the current draft, e.g. after the form has been submitted or reset
+   */
+  const detachDraft = () => {
+    setCurrentDraft(null);
+    lastSavedRef.current = serialize(createEmptyROF5FormData());
+    autoNamedRef.current = false;
+    setStatus('idle');
+  };
+
+  return {
+    draft,
+    status,
+    saveNow: (name?: string) => save('manual', name),
+    openDraft,
+    detachDraft
+  };
+};
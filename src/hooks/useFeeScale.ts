@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { FeeScale } from "@/services/feeCalculationService";
+import { FeeScaleService } from "@/services/feeScaleService";
+
+export const FEE_SCALE_QUERY_KEY = ['fee-scale'];
+
+/**
+ * The fee scale administrators have set, shared by every fee estimate on screen
+ * @returns undefined until the scale has loaded
+ */
+export const useFeeScale = (): FeeScale | undefined => {
+  const { data } = useQuery({
+    queryKey: FEE_SCALE_QUERY_KEY,
+    queryFn: () => FeeScaleService.getFeeScale()
+  });
+  return data;
+};
@@ -2,116 +2,137 @@ import { useState } from 'react';
 import { useToast } from "@/hooks/use-toast";
 import { useWorkflow, WorkflowInstruction } from "@/contexts/WorkflowContext";
 import { DocumentGenerator, DocumentVariable } from "@/services/documentGenerator";
+import { FeeCalculationService, FeeScale } from "@/services/feeCalculationService";
+import { FeeScaleService } from "@/services/feeScaleService";
+import { InstructionService } from "@/services/instructionService";
+import { LandlordPartyService } from "@/services/landlordPartyService";
+import { Site, SiteService } from "@/services/siteService";
+import { Advocate, LawFirm } from "@/services/lawFirmService";
+import {
+  LandlordParty,
+  ROF5FormData,
+  ROF5FieldKey,
+  ROF5TextFieldKey,
+  ROF5ValidationErrors,
+  ROF5ValidationOptions,
+  createEmptyROF5FormData,
+  describeValidationErrors,
+  normalizeROF5FormData,
+  toDocumentVariables,
+  validateROF5FormData
+} from "@/schemas/rof5Schema";
 
-export interface ROF5FormData {
-  // Site Details
-  siteName: string;
-  siteCode: string;
-  siteLocation: string;
-  
-  // Title Details
-  titleNumber: string;
-  titleType: string;
-  landArea: string;
-  landUse: string;
-  
-  // Landlord Information
-  landlordName: string;
-  landlordType: string;
-  landlordAddress: string;
-  landlordPhone: string;
-  landlordEmail: string;
-  landlordId: string;
-  
-  // Lease Terms
-  leaseType: string;
-  leaseTerm: string;
-  commencementDate: string;
-  monthlyRent: string;
-  deposit: string;
-  rentEscalation: string;
-  
-  // Additional Terms
-  permitType: string;
-  specialConditions: string;
-  
-  // Internal Details
-  instructingCounsel: string;
-  urgencyLevel: string;
-  expectedCompletionDate: string;
-}
-
-const initialFormData: ROF5FormData = {
-  siteName: "",
-  siteCode: "",
-  siteLocation: "",
-  county: "",
-  subCounty: "",
-  ward: "",
-  titleNumber: "",
-  titleType: "",
-  registrationSection: "",
-  landArea: "",
-  landUse: "",
-  landlordName: "",
-  landlordType: "",
-  landlordAddress: "",
-  landlordPhone: "",
-  landlordEmail: "",
-  landlordId: "",
-  leaseType: "",
-  leaseTerm: "",
-  commencementDate: "",
-  monthlyRent: "",
-  deposit: "",
-  rentEscalation: "5",
-  permitType: "",
-  specialConditions: "",
-  documentsReceived: [],
-  instructingCounsel: "",
-  urgencyLevel: "",
-  expectedCompletionDate: ""
-};
+export type { ROF5FormData } from "@/schemas/rof5Schema";
 
 export const useROF5Form = () => {
   const { toast } = useToast();
   const { addInstruction, generateDocuments } = useWorkflow();
-  const [formData, setFormData] = useState<ROF5FormData>(initialFormData);
+  const [formData, setFormData] = useState<ROF5FormData>(createEmptyROF5FormData);
+  const [errors, setErrors] = useState<ROF5ValidationErrors>({});
+  const [selectedCounsel, setSelectedCounsel] = useState<{ advocate: Advocate; firm: LawFirm } | null>(null);
+
+  const clearError = (field: ROF5FieldKey) => {
+    setErrors(prev => {
+      if (!prev[field]) return prev;
+      const { [field]: _cleared, ...rest } = prev;
+      return rest;
+    });
+  };
 
-  const handleInputChange = (field: keyof ROF5FormData, value: string) => {
+  const handleInputChange = (field: ROF5TextFieldKey, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    clearError(field);
+  };
+
+  const handleDocumentCheck = (document: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      documentsReceived: checked
+        ? [...prev.documentsReceived.filter(d => d !== document), document]
+        : prev.documentsReceived.filter(d => d !== document)
+    }));
+    clearError('documentsReceived');
+  };
+
+  const handleLandlordsChange = (parties: LandlordParty[]) => {
+    setFormData(prev => ({ ...prev, additionalLandlords: parties }));
+    clearError('additionalLandlords');
+  };
+
+  // Fill the site, title and landlord sections from the registry and the site's last instruction
+  const handleSiteSelect = async (site: Site) => {
+    try {
+      const prefill = await SiteService.getFormPrefill(site);
+      setFormData(prev => normalizeROF5FormData({ ...prev, ...prefill }));
+      setErrors(prev => Object.fromEntries(
+        Object.entries(prev).filter(([field]) => !(field in prefill))
+      ) as ROF5ValidationErrors);
+
+      toast({
+        title: "Site Details Loaded",
+        description: `Title and landlord details for ${site.siteCode} were filled in from previous instructions`
+      });
+    } catch (error) {
+      console.error('Error loading site details:', error);
+      toast({
+        title: "Site Lookup Failed",
+        description: error instanceof Error ? error.message : "Could not load details for this site",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCounselSelect = (advocate: Advocate, firm: LawFirm) => {
+    setSelectedCounsel({ advocate, firm });
+    setFormData(prev => ({ ...prev, instructingCounsel: advocate.name }));
+    clearError('instructingCounsel');
+  };
+
+  /**
+   * Firm and advocate to store on the new instruction. Only applies while the counsel
+   * field still holds the name picked from the panel.
+   */
+  const getCounselAssignment = (): Pick<WorkflowInstruction, 'lawFirmId' | 'advocateId' | 'assignedTo'> => {
+    if (!selectedCounsel || selectedCounsel.advocate.name !== formData.instructingCounsel.trim()) {
+      return {};
+    }
+
+    return {
+      lawFirmId: selectedCounsel.firm.id,
+      advocateId: selectedCounsel.advocate.id,
+      assignedTo: selectedCounsel.advocate.profileId ?? null
+    };
   };
 
   const loadFormData = (newFormData: ROF5FormData) => {
-    setFormData(newFormData);
+    setFormData(normalizeROF5FormData(newFormData));
+    setSelectedCounsel(null);
+    setErrors({});
   };
 
   const generateDocumentVariables = (): DocumentVariable[] => {
     return [
       { key: 'current_date', value: new Date().toLocaleDateString() },
-      { key: 'site_name', value: formData.siteName },
-      { key: 'site_code', value: formData.siteCode },
-      { key: 'site_location', value: formData.siteLocation },
-      { key: 'landlord_name', value: formData.landlordName },
-      { key: 'landlord_address', value: formData.landlordAddress },
-      { key: 'title_number', value: formData.titleNumber },
-      { key: 'land_area', value: formData.landArea },
-      { key: 'commencement_date', value: formData.commencementDate },
-      { key: 'lease_term', value: formData.leaseTerm },
-      { key: 'monthly_rent', value: formData.monthlyRent },
-      { key: 'escalation_rate', value: formData.rentEscalation },
-      { key: 'deposit', value: formData.deposit },
-      { key: 'lease_type', value: formData.leaseType },
+      ...toDocumentVariables(formData),
+      ...LandlordPartyService.toTemplateVariables(formData),
       { key: 'file_ref', value: `${formData.siteCode}/2024` }
     ];
   };
 
-  const submitForm = () => {
-    // Validate required fields
-    if (!formData.siteName || !formData.siteCode || !formData.siteLocation || !formData.landlordName) {
+  const submitForm = async () => {
+    if (!validateFormData()) {
+      return;
+    }
+
+    let reference: string;
+    let feeScale: FeeScale;
+    try {
+      [reference] = await InstructionService.reserveReferences();
+      feeScale = await FeeScaleService.getFeeScale();
+    } catch (error) {
       toast({
-        title: "Validation Error",
-        description: "Please fill in all required fields (Site Name, Site Code, Location, and Landlord Name)",
+        title: "Submission Failed",
+        description: error instanceof Error ? error.message : "Failed to create instruction",
         variant: "destructive"
       });
       return;
@@ -119,27 +140,22 @@ export const useROF5Form = () => {
 
     // Create new instruction
     const newInstruction: WorkflowInstruction = {
-      id: `ROF-${new Date().getFullYear()}-${String(Math.floor(Math.random() * 1000)).padStart(3, '0')}`,
+      id: reference,
       siteCode: formData.siteCode,
       siteName: formData.siteName,
       siteLocation: formData.siteLocation,
-      landlordName: formData.landlordName,
+      landlordName: LandlordPartyService.getLandlordNames(formData),
       stage: 'document-drafting',
       progress: 15,
       createdAt: new Date().toISOString().split('T')[0],
       lastUpdated: new Date().toISOString().split('T')[0],
       assignee: formData.instructingCounsel || 'Unassigned',
+      ...getCounselAssignment(),
       nextAction: 'Document Preparation Required',
       priority: formData.urgencyLevel === 'urgent' ? 'high' : formData.urgencyLevel === 'normal' ? 'medium' : 'low',
       formData: formData,
       generatedDocuments: [],
-      auditTrail: [{
-        id: `audit-${Date.now()}`,
-        action: 'Instruction Created',
-        user: 'Current User',
-        timestamp: new Date().toISOString(),
-        details: `ROF 5 form submitted for ${formData.siteName} - ${formData.siteCode}`
-      }]
+      feeBreakdown: FeeCalculationService.calculateFromFormData(formData, feeScale)
     };
 
     addInstruction(newInstruction);
@@ -153,28 +169,39 @@ export const useROF5Form = () => {
   };
 
   const resetForm = () => {
-    setFormData(initialFormData);
+    setFormData(createEmptyROF5FormData());
+    setSelectedCounsel(null);
+    setErrors({});
   };
 
-  const validateFormData = (): boolean => {
-    const requiredFields = ['siteName', 'siteCode', 'siteLocation', 'landlordName'];
-    const missingFields = requiredFields.filter(field => !formData[field as keyof ROF5FormData]);
-    
-    if (missingFields.length > 0) {
+  /**
+   * Validate against the ROF5 schema, showing errors inline and in a toast
+   * @param options Fields to check and whether blank required fields are allowed
+   */
+  const validateFormData = (options?: ROF5ValidationOptions): boolean => {
+    const result = validateROF5FormData(formData, options);
+    setErrors(result.errors);
+
+    if (!result.isValid) {
       toast({
         title: "Validation Error",
-        description: `Please fill in: ${missingFields.join(', ')}`,
+        description: describeValidationErrors(result.errors),
         variant: "destructive"
       });
-      return false;
     }
-    
-    return true;
+
+    return result.isValid;
   };
 
   return {
     formData,
+    errors,
     handleInputChange,
+    handleDocumentCheck,
+    handleLandlordsChange,
+    handleSiteSelect,
+    handleCounselSelect,
+    getCounselAssignment,
     generateDocumentVariables,
     submitForm,
     resetForm,
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import {
+  ROF5FormData,
+  ROF5Section,
+  ROF5ValidationOptions,
+  ROF5_SECTIONS,
+  getFieldKeys,
+  validateROF5FormData
+} from "@/schemas/rof5Schema";
+
+export type ROF5WizardStepId = ROF5Section | 'review';
+
+export interface ROF5WizardStep {
+  id: ROF5WizardStepId;
+  title: string;
+}
+
+// One step per form section, then a review of the whole instruction
+export const ROF5_WIZARD_STEPS: ROF5WizardStep[] = [
+  ...ROF5_SECTIONS,
+  { id: 'review', title: 'Review & Generate' }
+];
+
+/**
+ * Steps through the ROF5 form one section at a time. Moving forward validates the
+ * current section; going back, or to a step already passed, never does.
+ * @param formData Current form data
+ * @param validate Validates and shows errors, e.g. useROF5Form's validateFormData
+ */
+export const useROF5Wizard = (
+  formData: ROF5FormData,
+  validate: (options?: ROF5ValidationOptions) => boolean
+) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  // Furthest step reached, so completed steps can be revisited directly
+  const [furthestIndex, setFurthestIndex] = useState(0);
+
+  const currentStep = ROF5_WIZARD_STEPS[stepIndex];
+  const isReview = currentStep.id === 'review';
+
+  const showStep = (index: number) => {
+    setStepIndex(index);
+    setFurthestIndex(prev => Math.max(prev, index));
+  };
+
+  const validateStep = (step: ROF5WizardStep): boolean =>
+    step.id === 'review' ? validate() : validate({ fields: getFieldKeys(step.id) });
+
+  const goNext = (): boolean => {
+    if (isReview || !validateStep(currentStep)) return false;
+    showStep(stepIndex + 1);
+    return true;
+  };
+
+  const goBack = () => {
+    if (stepIndex > 0) setStepIndex(stepIndex - 1);
+  };
+
+  const goToStep = (index: number) => {
+    if (index <= furthestIndex) {
+      setStepIndex(index);
+      return;
+    }
+
+    // Skipping ahead: every step in between has to be valid
+    for (let i = stepIndex; i < index; i++) {
+      if (!validateStep(ROF5_WIZARD_STEPS[i])) {
+        setStepIndex(i);
+        return;
+      }
+    }
+    showStep(index);
+  };
+
+  /**
+   * Validates the whole form, moving to the first step with an error
+   * @returns Whether the form is ready to submit
+   */
+  const validateAll = (): boolean => {
+    const { errors } = validateROF5FormData(formData);
+    const invalidIndex = ROF5_WIZARD_STEPS.findIndex(step =>
+      step.id !== 'review' && getFieldKeys(step.id).some(key => errors[key])
+    );
+    if (invalidIndex !== -1) setStepIndex(invalidIndex);
+    return validate();
+  };
+
+  /**
+   * Back to the first step, e.g. after the form has been submitted or reset
+   */
+  const resetWizard = () => {
+    setStepIndex(0);
+    setFurthestIndex(0);
+  };
+
+  return {
+    steps: ROF5_WIZARD_STEPS,
+    stepIndex,
+    furthestIndex,
+    currentStep,
+    isReview,
+    progress: Math.round((stepIndex / (ROF5_WIZARD_STEPS.length - 1)) * 100),
+    goNext,
+    goBack,
+    goToStep,
+    validateAll,
+    resetWizard
+  };
+};
@@ -9,6 +9,126 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      advocates: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          is_active: boolean
+          law_firm_id: string
+          phone: string
+          practising_certificate_expiry: string | null
+          practising_certificate_number: string
+          profile_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string
+          full_name: string
+          id?: string
+          is_active?: boolean
+          law_firm_id: string
+          phone?: string
+          practising_certificate_expiry?: string | null
+          practising_certificate_number?: string
+          profile_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string
+          id?: string
+          is_active?: boolean
+          law_firm_id?: string
+          phone?: string
+          practising_certificate_expiry?: string | null
+          practising_certificate_number?: string
+          profile_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "advocates_law_firm_id_fkey"
+            columns: ["law_firm_id"]
+            isOneToOne: false
+            referencedRelation: "law_firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "advocates_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          changes: Json
+          created_at: string
+          id: string
+          instruction_id: string | null
+          operation: string
+          record_id: string
+          summary: string
+          table_name: string
+          template_id: string | null
+          user_id: string | null
+          user_name: string
+        }
+        Insert: {
+          changes?: Json
+          created_at?: string
+          id?: string
+          instruction_id?: string | null
+          operation: string
+          record_id: string
+          summary?: string
+          table_name: string
+          template_id?: string | null
+          user_id?: string | null
+          user_name?: string
+        }
+        Update: {
+          changes?: Json
+          created_at?: string
+          id?: string
+          instruction_id?: string | null
+          operation?: string
+          record_id?: string
+          summary?: string
+          table_name?: string
+          template_id?: string | null
+          user_id?: string | null
+          user_name?: string
+        }
+        Relationships: []
+      }
       document_templates: {
         Row: {
           category: Database["public"]["Enums"]["template_category"]
@@ -48,41 +168,147 @@ export type Database = {
         }
         Relationships: []
       }
+      fanisi_generation_logs: {
+        Row: {
+          created_at: string
+          document_type: string
+          error_message: string | null
+          generated_file_name: string | null
+          id: string
+          invalid_fields: Json
+          is_valid: boolean | null
+          missing_fields: Json
+          site_code: string
+          site_name: string
+          status: string
+          template_id: string | null
+          template_name: string | null
+          unmapped_variables: Json
+          user_id: string | null
+          user_name: string | null
+        }
+        Insert: {
+          created_at?: string
+          document_type?: string
+          error_message?: string | null
+          generated_file_name?: string | null
+          id?: string
+          invalid_fields?: Json
+          is_valid?: boolean | null
+          missing_fields?: Json
+          site_code?: string
+          site_name?: string
+          status: string
+          template_id?: string | null
+          template_name?: string | null
+          unmapped_variables?: Json
+          user_id?: string | null
+          user_name?: string | null
+        }
+        Update: {
+          created_at?: string
+          document_type?: string
+          error_message?: string | null
+          generated_file_name?: string | null
+          id?: string
+          invalid_fields?: Json
+          is_valid?: boolean | null
+          missing_fields?: Json
+          site_code?: string
+          site_name?: string
+          status?: string
+          template_id?: string | null
+          template_name?: string | null
+          unmapped_variables?: Json
+          user_id?: string | null
+          user_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fanisi_generation_logs_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "system_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       generated_documents: {
         Row: {
-          content: string
+          content: string | null
+          content_type: string
           created_at: string | null
           created_by: string | null
+          file_size: number
+          form_data: Json
           id: string
+          instruction_id: string | null
           name: string
+          source: string
           status: Database["public"]["Enums"]["document_status"] | null
+          storage_path: string | null
+          system_template_id: string | null
           template_id: string | null
+          template_name: string | null
+          template_version: number | null
           updated_at: string | null
           variables_data: Json
         }
         Insert: {
-          content: string
+          content?: string | null
+          content_type?: string
           created_at?: string | null
           created_by?: string | null
+          file_size?: number
+          form_data?: Json
           id?: string
+          instruction_id?: string | null
           name: string
+          source?: string
           status?: Database["public"]["Enums"]["document_status"] | null
+          storage_path?: string | null
+          system_template_id?: string | null
           template_id?: string | null
+          template_name?: string | null
+          template_version?: number | null
           updated_at?: string | null
           variables_data?: Json
         }
         Update: {
-          content?: string
+          content?: string | null
+          content_type?: string
           created_at?: string | null
           created_by?: string | null
+          file_size?: number
+          form_data?: Json
           id?: string
+          instruction_id?: string | null
           name?: string
+          source?: string
           status?: Database["public"]["Enums"]["document_status"] | null
+          storage_path?: string | null
+          system_template_id?: string | null
           template_id?: string | null
+          template_name?: string | null
+          template_version?: number | null
           updated_at?: string | null
           variables_data?: Json
         }
         Relationships: [
+          {
+            foreignKeyName: "generated_documents_instruction_id_fkey"
+            columns: ["instruction_id"]
+            isOneToOne: false
+            referencedRelation: "instructions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generated_documents_system_template_id_fkey"
+            columns: ["system_template_id"]
+            isOneToOne: false
+            referencedRelation: "system_templates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "generated_documents_template_id_fkey"
             columns: ["template_id"]
@@ -92,11 +318,478 @@ export type Database = {
           },
         ]
       }
+      instruction_import_profiles: {
+        Row: {
+          column_mapping: Json
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          column_mapping?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          column_mapping?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      instructions: {
+        Row: {
+          advocate_id: string | null
+          assigned_to: string | null
+          assignee: string
+          created_at: string
+          created_by: string | null
+          document_template_versions: Json
+          executed_documents: Json
+          fee_breakdown: Json | null
+          form_data: Json
+          generated_documents: Json
+          id: string
+          landlord_id: string | null
+          landlord_name: string
+          law_firm_id: string | null
+          next_action: string
+          priority: string
+          progress: number
+          progress_reason: string | null
+          site_code: string
+          site_id: string | null
+          site_location: string
+          site_name: string
+          stage: string
+          updated_at: string
+        }
+        Insert: {
+          advocate_id?: string | null
+          assigned_to?: string | null
+          assignee?: string
+          created_at?: string
+          created_by?: string | null
+          document_template_versions?: Json
+          executed_documents?: Json
+          fee_breakdown?: Json | null
+          form_data?: Json
+          generated_documents?: Json
+          id: string
+          landlord_id?: string | null
+          landlord_name?: string
+          law_firm_id?: string | null
+          next_action?: string
+          priority?: string
+          progress?: number
+          progress_reason?: string | null
+          site_code: string
+          site_id?: string | null
+          site_location?: string
+          site_name: string
+          stage?: string
+          updated_at?: string
+        }
+        Update: {
+          advocate_id?: string | null
+          assigned_to?: string | null
+          assignee?: string
+          created_at?: string
+          created_by?: string | null
+          document_template_versions?: Json
+          executed_documents?: Json
+          fee_breakdown?: Json | null
+          form_data?: Json
+          generated_documents?: Json
+          id?: string
+          landlord_id?: string | null
+          landlord_name?: string
+          law_firm_id?: string | null
+          next_action?: string
+          priority?: string
+          progress?: number
+          progress_reason?: string | null
+          site_code?: string
+          site_id?: string | null
+          site_location?: string
+          site_name?: string
+          stage?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "instructions_advocate_id_fkey"
+            columns: ["advocate_id"]
+            isOneToOne: false
+            referencedRelation: "advocates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "instructions_landlord_id_fkey"
+            columns: ["landlord_id"]
+            isOneToOne: false
+            referencedRelation: "landlords"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "instructions_law_firm_id_fkey"
+            columns: ["law_firm_id"]
+            isOneToOne: false
+            referencedRelation: "law_firms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "instructions_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      landlords: {
+        Row: {
+          address: string
+          created_at: string
+          created_by: string | null
+          email: string
+          id: string
+          id_number: string
+          kra_pin: string
+          landlord_type: string
+          name: string
+          phone: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          id?: string
+          id_number?: string
+          kra_pin?: string
+          landlord_type?: string
+          name: string
+          phone?: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          id?: string
+          id_number?: string
+          kra_pin?: string
+          landlord_type?: string
+          name?: string
+          phone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      law_firms: {
+        Row: {
+          address: string
+          contact_person: string
+          created_at: string
+          created_by: string | null
+          email: string
+          id: string
+          is_active: boolean
+          name: string
+          phone: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string
+          contact_person?: string
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          phone?: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          contact_person?: string
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          phone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          department: string
+          email: string
+          full_name: string
+          id: string
+          is_active: boolean
+          law_firm_id: string | null
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string
+          email?: string
+          full_name?: string
+          id: string
+          is_active?: boolean
+          law_firm_id?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          department?: string
+          email?: string
+          full_name?: string
+          id?: string
+          is_active?: boolean
+          law_firm_id?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_law_firm_id_fkey"
+            columns: ["law_firm_id"]
+            isOneToOne: false
+            referencedRelation: "law_firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rof5_draft_revisions: {
+        Row: {
+          created_at: string
+          draft_id: string
+          form_data: Json
+          id: string
+          revision_number: number
+          save_kind: string
+          saved_by: string | null
+          saved_by_email: string
+        }
+        Insert: {
+          created_at?: string
+          draft_id: string
+          form_data: Json
+          id?: string
+          revision_number: number
+          save_kind?: string
+          saved_by?: string | null
+          saved_by_email?: string
+        }
+        Update: {
+          created_at?: string
+          draft_id?: string
+          form_data?: Json
+          id?: string
+          revision_number?: number
+          save_kind?: string
+          saved_by?: string | null
+          saved_by_email?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rof5_draft_revisions_draft_id_fkey"
+            columns: ["draft_id"]
+            isOneToOne: false
+            referencedRelation: "rof5_drafts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rof5_draft_shares: {
+        Row: {
+          created_at: string
+          draft_id: string
+          id: string
+          shared_by: string
+          shared_with: string
+          shared_with_email: string
+        }
+        Insert: {
+          created_at?: string
+          draft_id: string
+          id?: string
+          shared_by: string
+          shared_with: string
+          shared_with_email: string
+        }
+        Update: {
+          created_at?: string
+          draft_id?: string
+          id?: string
+          shared_by?: string
+          shared_with?: string
+          shared_with_email?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rof5_draft_shares_draft_id_fkey"
+            columns: ["draft_id"]
+            isOneToOne: false
+            referencedRelation: "rof5_drafts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rof5_drafts: {
+        Row: {
+          created_at: string
+          current_revision: number
+          form_data: Json
+          id: string
+          instruction_id: string | null
+          legacy_id: string | null
+          name: string
+          owner_email: string
+          owner_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          current_revision?: number
+          form_data?: Json
+          id?: string
+          instruction_id?: string | null
+          legacy_id?: string | null
+          name: string
+          owner_email?: string
+          owner_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          current_revision?: number
+          form_data?: Json
+          id?: string
+          instruction_id?: string | null
+          legacy_id?: string | null
+          name?: string
+          owner_email?: string
+          owner_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      role_permissions: {
+        Row: {
+          created_at: string
+          id: string
+          permission: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          permission: string
+          role: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          permission?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      sites: {
+        Row: {
+          county: string
+          created_at: string
+          created_by: string | null
+          id: string
+          land_area: string
+          land_use: string
+          landlord_id: string | null
+          registration_section: string
+          site_code: string
+          site_location: string
+          site_name: string
+          sub_county: string
+          title_number: string
+          title_type: string
+          updated_at: string
+          ward: string
+        }
+        Insert: {
+          county?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          land_area?: string
+          land_use?: string
+          landlord_id?: string | null
+          registration_section?: string
+          site_code: string
+          site_location?: string
+          site_name: string
+          sub_county?: string
+          title_number?: string
+          title_type?: string
+          updated_at?: string
+          ward?: string
+        }
+        Update: {
+          county?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          land_area?: string
+          land_use?: string
+          landlord_id?: string | null
+          registration_section?: string
+          site_code?: string
+          site_location?: string
+          site_name?: string
+          sub_county?: string
+          title_number?: string
+          title_type?: string
+          updated_at?: string
+          ward?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sites_landlord_id_fkey"
+            columns: ["landlord_id"]
+            isOneToOne: false
+            referencedRelation: "landlords"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       system_templates: {
         Row: {
           category: Database["public"]["Enums"]["template_category"]
           content_type: string
           created_at: string
+          current_version: number
           description: string | null
           file_data: string
           file_name: string
@@ -110,6 +803,7 @@ export type Database = {
           category?: Database["public"]["Enums"]["template_category"]
           content_type?: string
           created_at?: string
+          current_version?: number
           description?: string | null
           file_data: string
           file_name: string
@@ -123,6 +817,7 @@ export type Database = {
           category?: Database["public"]["Enums"]["template_category"]
           content_type?: string
           created_at?: string
+          current_version?: number
           description?: string | null
           file_data?: string
           file_name?: string
@@ -134,6 +829,59 @@ export type Database = {
         }
         Relationships: []
       }
+      template_placeholder_mappings: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string
+          expression: string | null
+          expression_arg: string | null
+          id: string
+          pattern: string
+          placeholder_order: number
+          rof5_field: string | null
+          source_type: string
+          template_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description: string
+          expression?: string | null
+          expression_arg?: string | null
+          id?: string
+          pattern?: string
+          placeholder_order: number
+          rof5_field?: string | null
+          source_type: string
+          template_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          expression?: string | null
+          expression_arg?: string | null
+          id?: string
+          pattern?: string
+          placeholder_order?: number
+          rof5_field?: string | null
+          source_type?: string
+          template_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_placeholder_mappings_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "system_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       template_usage: {
         Row: {
           created_at: string | null
@@ -163,12 +911,207 @@ export type Database = {
           },
         ]
       }
+      template_versions: {
+        Row: {
+          content_type: string
+          created_at: string | null
+          created_by: string | null
+          file_data: string
+          file_name: string | null
+          id: string
+          notes: string | null
+          template_id: string
+          version_number: number
+        }
+        Insert: {
+          content_type: string
+          created_at?: string | null
+          created_by?: string | null
+          file_data: string
+          file_name?: string | null
+          id?: string
+          notes?: string | null
+          template_id: string
+          version_number: number
+        }
+        Update: {
+          content_type?: string
+          created_at?: string | null
+          created_by?: string | null
+          file_data?: string
+          file_name?: string | null
+          id?: string
+          notes?: string | null
+          template_id?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "system_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_documents: {
+        Row: {
+          blank_spaces: Json
+          content: string
+          created_at: string
+          document_type: string
+          id: string
+          modified_at: string
+          name: string
+          original_content: string | null
+          user_id: string
+        }
+        Insert: {
+          blank_spaces?: Json
+          content: string
+          created_at: string
+          document_type: string
+          id: string
+          modified_at: string
+          name: string
+          original_content?: string | null
+          user_id: string
+        }
+        Update: {
+          blank_spaces?: Json
+          content?: string
+          created_at?: string
+          document_type?: string
+          id?: string
+          modified_at?: string
+          name?: string
+          original_content?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          department: string
+          email: string
+          full_name: string
+          id: string
+          invited_by: string | null
+          law_firm_id: string | null
+          role: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          department?: string
+          email: string
+          full_name?: string
+          id?: string
+          invited_by?: string | null
+          law_firm_id?: string | null
+          role: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          department?: string
+          email?: string
+          full_name?: string
+          id?: string
+          invited_by?: string | null
+          law_firm_id?: string | null
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_invitations_law_firm_id_fkey"
+            columns: ["law_firm_id"]
+            isOneToOne: false
+            referencedRelation: "law_firms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_access_rof5_draft: {
+        Args: { draft_id: string }
+        Returns: boolean
+      }
+      can_update_instruction: {
+        Args: { instruction_id: string }
+        Returns: boolean
+      }
+      can_view_instruction: {
+        Args: { instruction_id: string }
+        Returns: boolean
+      }
+      create_rof5_draft: {
+        Args: {
+          draft_name: string
+          draft_form_data: Json
+          revision_save_kind?: string
+          draft_legacy_id?: string
+          draft_created_at?: string
+        }
+        Returns: {
+          created_at: string
+          current_revision: number
+          form_data: Json
+          id: string
+          instruction_id: string | null
+          legacy_id: string | null
+          name: string
+          owner_email: string
+          owner_id: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      current_user_law_firm: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      has_permission: {
+        Args: { permission: string }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      next_instruction_reference: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      next_instruction_references: {
+        Args: { count: number }
+        Returns: string[]
+      }
+      record_template_version: {
+        Args: {
+          template_id: string
+          file_name: string
+          content_type: string
+          file_data: string
+          notes?: string
+        }
+        Returns: number
+      }
+      share_rof5_draft: {
+        Args: { draft_id: string; colleague_email: string }
+        Returns: string
+      }
     }
     Enums: {
       document_status: "draft" | "completed" | "archived"
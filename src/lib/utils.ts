@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Shareable address of an instruction's detail page
+export function getInstructionPath(instructionId: string) {
+  return `/instructions/${encodeURIComponent(instructionId)}`
+}
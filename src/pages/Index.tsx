@@ -1,5 +1,6 @@
 
 import { useState } from "react";
+import { useLocation } from "react-router-dom";
 import { Card, CardContent } from "@/components/ui/card";
 import ROF5Form from "@/components/ROF5Form";
 import DocumentTemplates from "@/components/DocumentTemplates";
@@ -7,11 +8,20 @@ import Reports from "@/components/Reports";
 import ReminderManager from "@/components/ReminderManager";
 import DashboardLayout from "@/components/DashboardLayout";
 import DarkWorkflowDashboard from "@/components/DarkWorkflowDashboard";
+import FeeScaleSettings from "@/components/Admin/FeeScaleSettings";
 import StatsGrid from "@/components/StatsGrid";
+import SiteRegistry from "@/components/Registry/SiteRegistry";
+import LandlordRegistry from "@/components/Registry/LandlordRegistry";
+import BulkInstructionImport from "@/components/BulkImport/BulkInstructionImport";
+import GenerationHistory from "@/components/GenerationHistory";
+import UserManagement from "@/components/Admin/UserManagement";
+import LawFirmPanel from "@/components/Panel/LawFirmPanel";
 import { useUser } from "@/contexts/UserContext";
 
 const Index = () => {
-  const [activeTab, setActiveTab] = useState("dashboard");
+  const location = useLocation();
+  // Other pages link back to a tab through the navigation state
+  const [activeTab, setActiveTab] = useState<string>(location.state?.tab ?? "dashboard");
   const { hasPermission } = useUser();
 
   const renderTabContent = () => {
@@ -33,8 +43,34 @@ const Index = () => {
             </CardContent>
           </Card>
         );
+      case "bulk-import":
+        return hasPermission('create-instruction') ? (
+          <BulkInstructionImport />
+        ) : (
+          <Card className="bg-slate-800 border-slate-700">
+            <CardContent className="p-6 text-center">
+              <p className="text-slate-400">You don't have permission to create new instructions.</p>
+            </CardContent>
+          </Card>
+        );
+      case "sites":
+        return <SiteRegistry />;
+      case "landlords":
+        return <LandlordRegistry />;
+      case "panel":
+        return hasPermission('manage-panel') ? (
+          <LawFirmPanel />
+        ) : (
+          <Card className="bg-slate-800 border-slate-700">
+            <CardContent className="p-6 text-center">
+              <p className="text-slate-400">You don't have permission to manage the law firm panel.</p>
+            </CardContent>
+          </Card>
+        );
       case "templates":
         return <DocumentTemplates />;
+      case "generation-history":
+        return <GenerationHistory />;
       case "reminders":
         return hasPermission('view-dashboard') ? (
           <ReminderManager />
@@ -55,6 +91,26 @@ const Index = () => {
             </CardContent>
           </Card>
         );
+      case "users":
+        return hasPermission('manage-users') ? (
+          <UserManagement />
+        ) : (
+          <Card className="bg-slate-800 border-slate-700">
+            <CardContent className="p-6 text-center">
+              <p className="text-slate-400">You don't have permission to manage users.</p>
+            </CardContent>
+          </Card>
+        );
+      case "fee-scale":
+        return hasPermission('system-settings') ? (
+          <FeeScaleSettings />
+        ) : (
+          <Card className="bg-slate-800 border-slate-700">
+            <CardContent className="p-6 text-center">
+              <p className="text-slate-400">You don't have permission to change the fee scale.</p>
+            </CardContent>
+          </Card>
+        );
       default:
         return <DarkWorkflowDashboard />;
     }
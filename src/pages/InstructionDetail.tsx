@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  ArrowLeft,
+  Bell,
+  CheckCircle,
+  Circle,
+  Clock,
+  Download,
+  FileCheck,
+  Link2,
+  MessageSquare,
+  UserCheck
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import DashboardLayout from "@/components/DashboardLayout";
+import InstructionDocuments from "@/components/InstructionDocuments";
+import InstructionTimeline from "@/components/InstructionTimeline";
+import { useWorkflow } from "@/contexts/WorkflowContext";
+import { useNotifications } from "@/contexts/NotificationContext";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  ROF5_SECTIONS,
+  formatFieldValue,
+  getFieldDefinition,
+  getFieldKeys,
+  isFieldVisible,
+  normalizeROF5FormData
+} from "@/schemas/rof5Schema";
+import { AuditFieldHistoryItem, AuditLogEntry, AuditLogService } from "@/services/auditLogService";
+import { ExecutedDocumentService } from "@/services/executedDocumentService";
+import { WorkflowStateMachine } from "@/services/workflowStateMachine";
+
+const HistoryList = ({ items, emptyText }: { items: AuditFieldHistoryItem[]; emptyText: string }) =>
+  items.length === 0 ? (
+    <p className="text-sm text-slate-400">{emptyText}</p>
+  ) : (
+    <ol className="space-y-2">
+      {[...items].reverse().map(item => (
+        <li key={`${item.createdAt}-${AuditLogService.formatValue(item.value)}`} className="text-sm">
+          <p className="text-white whitespace-pre-wrap">{AuditLogService.formatValue(item.value)}</p>
+          <p className="text-xs text-slate-400">
+            {item.userName} · {new Date(item.createdAt).toLocaleString()}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+
+const InstructionDetail = () => {
+  const { id = "" } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { instructions, isLoading } = useWorkflow();
+  const { reminders } = useNotifications();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+
+  const instruction = instructions.find(item => item.id === id);
+
+  useEffect(() => {
+    if (instruction) {
+      loadHistory();
+    }
+  }, [instruction?.id, instruction?.lastUpdated]);
+
+  const loadHistory = async () => {
+    try {
+      setEntries(await AuditLogService.getInstructionTimeline(id));
+    } catch (error) {
+      console.error('Error loading instruction history:', error);
+      toast({
+        title: "Loading Failed",
+        description: error instanceof Error ? error.message : "Failed to load instruction history",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link Copied",
+        description: `Anyone with access to ${id} can open it from this link`
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({
+        title: "Copy Failed",
+        description: "Copy the address from the browser instead",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDownloadExecuted = async (storagePath: string) => {
+    try {
+      await ExecutedDocumentService.downloadDocument(storagePath);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Failed to download document",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+        </div>
+      );
+    }
+
+    // RLS hides instructions the user may not see, so both cases look the same here
+    if (!instruction) {
+      return (
+        <Card className="bg-slate-800 border-slate-700">
+          <CardContent className="p-6 text-center space-y-4">
+            <p className="text-slate-400">
+              Instruction {id} was not found, or you don't have permission to view it.
+            </p>
+            <Button asChild variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700">
+              <Link to="/">Back to Dashboard</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    const definition = WorkflowStateMachine.getDefinitionForInstruction(instruction);
+    const currentIndex = definition.stages.findIndex(stage => stage.id === instruction.stage);
+    const stageHistory = AuditLogService.getFieldHistory(entries, 'stage');
+    const assigneeHistory = AuditLogService.getFieldHistory(entries, 'assignee');
+    const reasonHistory = AuditLogService.getFieldHistory(entries, 'progress_reason')
+      .filter(item => item.value !== null && item.value !== '');
+    const formData = normalizeROF5FormData(instruction.formData);
+    const instructionReminders = reminders.filter(reminder => reminder.instructionId === instruction.id);
+
+    const overview: { label: string; value: string }[] = [
+      { label: 'Site', value: `${instruction.siteName} - ${instruction.siteCode}` },
+      { label: 'Location', value: instruction.siteLocation },
+      { label: 'Landlord', value: instruction.landlordName },
+      { label: 'Agreement', value: definition.name },
+      { label: 'Next action', value: instruction.nextAction },
+      { label: 'Assigned to', value: instruction.assignee },
+      { label: 'Priority', value: instruction.priority },
+      { label: 'Created', value: instruction.createdAt },
+      { label: 'Last updated', value: instruction.lastUpdated }
+    ];
+
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/')}
+              className="text-slate-400 hover:text-white -ml-3 mb-2"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Button>
+            <h2 className="text-2xl font-bold text-white">{instruction.id}</h2>
+            <p className="text-slate-400">{instruction.siteName} - {instruction.siteLocation}</p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleCopyLink}
+            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            <Link2 className="w-4 h-4 mr-2" />
+            Copy Link
+          </Button>
+        </div>
+
+        <Card className="bg-slate-800 border-slate-700">
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <Badge className="bg-orange-500/20 text-orange-400">
+                {WorkflowStateMachine.getStageLabel(definition, instruction.stage)}
+              </Badge>
+              <span className="text-sm text-slate-400">{instruction.progress}%</span>
+            </div>
+            <Progress value={instruction.progress} className="h-2" />
+            <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-3 text-sm">
+              {overview.map(item => (
+                <div key={item.label}>
+                  <dt className="text-xs text-slate-400">{item.label}</dt>
+                  <dd className="text-white">{item.value || '—'}</dd>
+                </div>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <CardTitle className="flex items-center text-white">
+                <Clock className="w-5 h-5 mr-2 text-orange-400" />
+                Stages
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-3">
+                {definition.stages.map((stage, index) => {
+                  // The last time the instruction moved into the stage, if it was recorded
+                  const reached = [...stageHistory].reverse().find(item => item.value === stage.id);
+                  const isDone = index < currentIndex;
+                  const isCurrent = index === currentIndex;
+
+                  return (
+                    <li key={stage.id} className="flex items-start space-x-3">
+                      {isDone ? (
+                        <CheckCircle className="w-4 h-4 mt-0.5 text-green-400" />
+                      ) : (
+                        <Circle className={cn("w-4 h-4 mt-0.5", isCurrent ? "text-orange-400" : "text-slate-600")} />
+                      )}
+                      <div>
+                        <p className={cn("text-sm", isCurrent ? "text-orange-400 font-medium" : isDone ? "text-white" : "text-slate-500")}>
+                          {stage.label}
+                        </p>
+                        {(isDone || isCurrent) && reached && (
+                          <p className="text-xs text-slate-400">
+                            {new Date(reached.createdAt).toLocaleDateString()} · {reached.userName}
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <CardTitle className="flex items-center text-white">
+                <UserCheck className="w-5 h-5 mr-2 text-orange-400" />
+                Assignees
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <HistoryList items={assigneeHistory} emptyText={`Assigned to ${instruction.assignee}. No changes recorded.`} />
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <CardTitle className="flex items-center text-white">
+                <MessageSquare className="w-5 h-5 mr-2 text-orange-400" />
+                Progress Reasons
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {reasonHistory.length === 0 && instruction.progressReason ? (
+                <p className="text-sm text-white whitespace-pre-wrap">{instruction.progressReason}</p>
+              ) : (
+                <HistoryList items={reasonHistory} emptyText="No progress reasons have been added." />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="bg-slate-800 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white">ROF 5 Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {ROF5_SECTIONS.map(section => (
+              <div key={section.id} className="border border-slate-700 rounded-lg p-4">
+                <h4 className="font-medium text-white mb-3">{section.title}</h4>
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                  {getFieldKeys(section.id)
+                    .filter(field => isFieldVisible(field, formData))
+                    .map(field => {
+                      const definition = getFieldDefinition(field);
+                      const value = formatFieldValue(field, formData);
+                      const label = definition.options?.find(option => option.value === value)?.label ?? value;
+
+                      return (
+                        <div key={field} className={definition.format === 'textarea' ? 'md:col-span-2' : undefined}>
+                          <dt className="text-slate-400">{definition.label}</dt>
+                          <dd className="text-white whitespace-pre-wrap">{label || <span className="text-slate-500">Not provided</span>}</dd>
+                        </div>
+                      );
+                    })}
+                </dl>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <CardTitle className="text-white">Documents</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <InstructionDocuments instructionId={instruction.id} />
+              <div>
+                <h4 className="text-sm font-medium text-slate-300 mb-2">Executed documents</h4>
+                {(instruction.executedDocuments || []).length === 0 ? (
+                  <p className="text-sm text-slate-400">No executed documents have been uploaded.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {instruction.executedDocuments?.map(document => (
+                      <li key={document} className="flex items-center justify-between text-sm text-white">
+                        <span className="flex items-center">
+                          <FileCheck className="w-4 h-4 mr-2 text-green-400" />
+                          {ExecutedDocumentService.getFileName(document)}
+                        </span>
+                        {ExecutedDocumentService.isStored(document) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDownloadExecuted(document)}
+                            className="text-slate-400 hover:text-white"
+                          >
+                            <Download className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <CardTitle className="flex items-center text-white">
+                <Bell className="w-5 h-5 mr-2 text-orange-400" />
+                Reminders
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {instructionReminders.length === 0 ? (
+                <p className="text-sm text-slate-400">No reminders are set for this instruction.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {instructionReminders.map(reminder => (
+                    <li key={reminder.id} className="border-b border-slate-700 pb-3 last:border-b-0">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium text-white">{reminder.title}</p>
+                        <Badge className={reminder.active ? "bg-green-500/20 text-green-400" : "bg-slate-600 text-slate-300"}>
+                          {reminder.active ? 'Active' : 'Paused'}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-slate-300">{reminder.message}</p>
+                      <p className="text-xs text-slate-400">
+                        Due {new Date(reminder.dueDate).toLocaleString()} · {reminder.frequency}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="bg-slate-800 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white">Audit Trail</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <InstructionTimeline instructionId={instruction.id} />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <DashboardLayout
+      activeTab="dashboard"
+      onTabChange={(tab) => navigate('/', { state: { tab } })}
+    >
+      {renderContent()}
+    </DashboardLayout>
+  );
+};
+
+export default InstructionDetail;
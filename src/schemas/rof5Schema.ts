@@ -0,0 +1,642 @@
+import { z } from "zod";
+import { ESCALATION_MODEL_OPTIONS } from "@/services/rentScheduleService";
+import { DocumentVariable } from "@/types/database";
+import { FanisiROF5Data } from "@/types/fanisi";
+import { KenyanIdentifierType, validateKenyanIdentifier, validateLandlordIdentifier } from "@/utils/kenyanIdentifiers";
+
+/**
+ * The ROF5 instruction form. Every field's type, label, required-ness, format and
+ * template variable key is declared once here; the form sections, validation and
+ * the document generators all read from ROF5_FIELDS and rof5Schema.
+ */
+
+export type ROF5Section = 'site' | 'title' | 'landlord' | 'lease' | 'additional';
+
+export type ROF5FieldFormat =
+  | 'text'
+  | 'textarea'
+  | 'select'
+  | 'date'
+  | 'kes'
+  | 'number'
+  | 'phone'
+  | 'email'
+  | 'kra-pin'
+  | 'title-number'
+  | 'checklist'
+  | 'party-list';
+
+export interface ROF5FieldOption {
+  value: string;
+  label: string;
+}
+
+// Shows a field only while another field has (or doesn't have) one of the given values
+export interface ROF5FieldCondition {
+  field: string;
+  equals?: readonly string[];
+  notEquals?: readonly string[];
+}
+
+export interface ROF5FieldDefinition {
+  label: string;
+  section: ROF5Section;
+  format: ROF5FieldFormat;
+  required?: boolean;
+  // Template variable the value is merged into, e.g. {{site_name}}
+  variableKey: string;
+  // Older template variable names that resolve to the same value
+  variableAliases?: readonly string[];
+  // Matching field in the Fanisi templates, where one exists
+  fanisiKey?: keyof FanisiROF5Data;
+  // Value used in generated documents when the field is left blank
+  blankValue?: string;
+  defaultValue?: string;
+  placeholder?: string;
+  options?: readonly ROF5FieldOption[];
+  // Hidden fields are neither validated nor merged into documents
+  visibleWhen?: ROF5FieldCondition;
+}
+
+export type LandlordRole = 'proprietor' | 'administrator' | 'director' | 'attorney';
+
+// A landlord signing the instrument besides the one captured in the main landlord fields
+export interface LandlordParty {
+  name: string;
+  role: LandlordRole;
+  idNumber: string;
+  kraPin: string;
+  address: string;
+}
+
+export const LANDLORD_ROLE_OPTIONS: { value: LandlordRole; label: string }[] = [
+  { value: 'proprietor', label: 'Registered Proprietor' },
+  { value: 'administrator', label: 'Administrator' },
+  { value: 'director', label: 'Company Director' },
+  { value: 'attorney', label: 'Attorney (Power of Attorney)' }
+];
+
+export const ROF5_SECTIONS: { id: ROF5Section; title: string }[] = [
+  { id: 'site', title: 'Site Information' },
+  { id: 'title', title: 'Title Details' },
+  { id: 'landlord', title: 'Landlord Information' },
+  { id: 'lease', title: 'Lease Terms' },
+  { id: 'additional', title: 'Additional Information' }
+];
+
+export const ROF5_DOCUMENT_OPTIONS: ROF5FieldOption[] = [
+  { value: 'title-copy', label: 'Copy of Title Deed' },
+  { value: 'official-search', label: 'Official Search' },
+  { value: 'landlord-id', label: 'Landlord ID / Passport Copy' },
+  { value: 'kra-pin', label: 'KRA PIN Certificate' },
+  { value: 'company-cr12', label: 'Company CR12' },
+  { value: 'survey-map', label: 'Survey Map / Mutation' },
+  { value: 'rates-clearance', label: 'Rates Clearance Certificate' },
+  { value: 'land-control-consent', label: 'Land Control Board Consent' },
+  { value: 'site-photos', label: 'Site Photographs' }
+];
+
+export const ROF5_FIELDS = {
+  // Site Details
+  siteName: {
+    label: 'Site Name', section: 'site', format: 'text', required: true,
+    variableKey: 'site_name', fanisiKey: 'Site_Name', placeholder: 'e.g., Westlands Plaza'
+  },
+  siteCode: {
+    label: 'Site Code', section: 'site', format: 'text', required: true,
+    variableKey: 'site_code', fanisiKey: 'Site_Number', placeholder: 'e.g., NBI001'
+  },
+  siteLocation: {
+    label: 'Site Location', section: 'site', format: 'text', required: true,
+    variableKey: 'site_location', fanisiKey: 'Property_Location', placeholder: 'e.g., Westlands, Nairobi'
+  },
+  county: {
+    label: 'County', section: 'site', format: 'text',
+    variableKey: 'county', placeholder: 'e.g., Nairobi'
+  },
+  subCounty: {
+    label: 'Sub County', section: 'site', format: 'text',
+    variableKey: 'sub_county', placeholder: 'e.g., Westlands'
+  },
+  ward: {
+    label: 'Ward', section: 'site', format: 'text',
+    variableKey: 'ward', placeholder: 'e.g., Parklands/Highridge'
+  },
+
+  // Title Details
+  titleNumber: {
+    label: 'Title Number', section: 'title', format: 'title-number', required: true,
+    variableKey: 'title_number', fanisiKey: 'Title_Number', placeholder: 'e.g., NAIROBI/BLOCK1/123'
+  },
+  titleType: {
+    label: 'Title Type', section: 'title', format: 'select', required: true,
+    variableKey: 'title_type',
+    options: [
+      { value: 'freehold', label: 'Freehold' },
+      { value: 'leasehold', label: 'Leasehold' },
+      { value: 'sectional', label: 'Sectional Title' }
+    ]
+  },
+  registrationSection: {
+    label: 'Registration Section', section: 'title', format: 'text',
+    variableKey: 'registration_section', placeholder: 'e.g., Nairobi Block 1'
+  },
+  landArea: {
+    label: 'Land Area (square metres)', section: 'title', format: 'text',
+    variableKey: 'land_area', fanisiKey: 'Property_Size', placeholder: 'e.g., 1 by 1 square metres'
+  },
+  landUse: {
+    label: 'Land Use', section: 'title', format: 'select',
+    variableKey: 'land_use', fanisiKey: 'Permitted_Use', blankValue: 'Telecommunications Infrastructure',
+    options: [
+      { value: 'commercial', label: 'Commercial' },
+      { value: 'residential', label: 'Residential' },
+      { value: 'industrial', label: 'Industrial' },
+      { value: 'mixed', label: 'Mixed Use' }
+    ]
+  },
+
+  // Landlord Information
+  landlordName: {
+    label: 'Landlord Name', section: 'landlord', format: 'text', required: true,
+    variableKey: 'landlord_name', fanisiKey: 'Landlord_Name', placeholder: 'Full name or company name'
+  },
+  landlordRole: {
+    label: 'Landlord Role', section: 'landlord', format: 'select',
+    variableKey: 'landlord_role', defaultValue: 'proprietor',
+    options: LANDLORD_ROLE_OPTIONS
+  },
+  landlordType: {
+    label: 'Landlord Type', section: 'landlord', format: 'select', required: true,
+    variableKey: 'landlord_type',
+    options: [
+      { value: 'individual', label: 'Individual' },
+      { value: 'company', label: 'Company' },
+      { value: 'government', label: 'Government Entity' },
+      { value: 'cooperative', label: 'Cooperative' }
+    ]
+  },
+  landlordAddress: {
+    label: 'Landlord Address', section: 'landlord', format: 'textarea', required: true,
+    variableKey: 'landlord_address', fanisiKey: 'Landlord_Postal_Address', placeholder: 'Complete postal address'
+  },
+  landlordPhone: {
+    label: 'Phone Number', section: 'landlord', format: 'phone',
+    variableKey: 'landlord_phone', fanisiKey: 'Landlord_Contact_Number', placeholder: 'e.g., +254 700 000 000'
+  },
+  landlordEmail: {
+    label: 'Email Address', section: 'landlord', format: 'email',
+    variableKey: 'landlord_email', fanisiKey: 'Landlord_Email', placeholder: 'landlord@example.com'
+  },
+  // Checked against the landlord type: National ID/passport or company number
+  landlordId: {
+    label: 'ID/Registration Number', section: 'landlord', format: 'text',
+    variableKey: 'landlord_id', fanisiKey: 'Landlord_ID', placeholder: 'e.g., 12345678 or CPR/2015/123456'
+  },
+  landlordPin: {
+    label: 'KRA PIN', section: 'landlord', format: 'kra-pin',
+    variableKey: 'landlord_pin', fanisiKey: 'Landlord_PIN', placeholder: 'e.g., A123456789Z'
+  },
+  companyContactPerson: {
+    label: 'Authorised Signatory', section: 'landlord', format: 'text',
+    variableKey: 'company_contact_person', placeholder: 'Director or company secretary signing for the company',
+    visibleWhen: { field: 'landlordType', equals: ['company'] }
+  },
+  companyRegisteredOffice: {
+    label: 'Registered Office', section: 'landlord', format: 'textarea',
+    variableKey: 'company_registered_office', placeholder: 'Registered office as shown on the CR12',
+    visibleWhen: { field: 'landlordType', equals: ['company'] }
+  },
+  // Co-owners, administrators, directors or attorneys signing alongside the landlord above
+  additionalLandlords: {
+    label: 'Additional Landlords', section: 'landlord', format: 'party-list',
+    variableKey: 'additional_landlords'
+  },
+
+  // Lease Terms
+  leaseType: {
+    label: 'Lease Type', section: 'lease', format: 'select', required: true,
+    variableKey: 'lease_type', fanisiKey: 'Document_Type', blankValue: 'Lease Agreement',
+    options: [
+      { value: 'lease', label: 'Lease Agreement' },
+      { value: 'licence', label: 'Licence Agreement' },
+      { value: 'agreement-to-lease', label: 'Agreement to Lease' },
+      { value: 'wayleave', label: 'Wayleave Agreement' },
+      { value: 'easement', label: 'Easement Agreement' }
+    ]
+  },
+  leaseTerm: {
+    label: 'Lease Term (Years)', section: 'lease', format: 'number', required: true,
+    variableKey: 'lease_term', fanisiKey: 'Term_Years', placeholder: 'e.g., 10'
+  },
+  commencementDate: {
+    label: 'Commencement Date', section: 'lease', format: 'date', required: true,
+    variableKey: 'commencement_date', fanisiKey: 'Commencement_Date'
+  },
+  monthlyRent: {
+    label: 'Monthly Rent (KES)', section: 'lease', format: 'kes', required: true,
+    variableKey: 'monthly_rent', placeholder: 'e.g., 50000'
+  },
+  deposit: {
+    label: 'Security Deposit (KES)', section: 'lease', format: 'kes',
+    variableKey: 'deposit', placeholder: 'e.g., 100000'
+  },
+  escalationModel: {
+    label: 'Escalation Model', section: 'lease', format: 'select',
+    variableKey: 'escalation_model', defaultValue: 'compound',
+    options: ESCALATION_MODEL_OPTIONS
+  },
+  rentEscalation: {
+    label: 'Rent Escalation (% per review)', section: 'lease', format: 'number',
+    variableKey: 'rent_escalation', variableAliases: ['escalation_rate'], fanisiKey: 'Escalation_Rate',
+    defaultValue: '5', blankValue: '5', placeholder: '5',
+    visibleWhen: { field: 'escalationModel', notEquals: ['fixed-step', 'none'] }
+  },
+  rentStepAmount: {
+    label: 'Step Increase (KES per month)', section: 'lease', format: 'kes',
+    variableKey: 'rent_step_amount', placeholder: 'e.g., 5000',
+    visibleWhen: { field: 'escalationModel', equals: ['fixed-step'] }
+  },
+  escalationInterval: {
+    label: 'Review Every (Years)', section: 'lease', format: 'number',
+    variableKey: 'escalation_interval', defaultValue: '1', blankValue: '1', placeholder: '1',
+    visibleWhen: { field: 'escalationModel', notEquals: ['none'] }
+  },
+  rentFreeMonths: {
+    label: 'Rent-Free Period (Months)', section: 'lease', format: 'number',
+    variableKey: 'rent_free_months', blankValue: '0', placeholder: '0'
+  },
+  renewalTerm: {
+    label: 'Renewal Term (Years)', section: 'lease', format: 'number',
+    variableKey: 'renewal_term', fanisiKey: 'Renewal_Term', placeholder: 'e.g., 10'
+  },
+  wayleavePurpose: {
+    label: 'Wayleave Purpose', section: 'lease', format: 'select',
+    variableKey: 'wayleave_purpose',
+    options: [
+      { value: 'fibre', label: 'Fibre Optic Cable' },
+      { value: 'power', label: 'Power Line' },
+      { value: 'access-road', label: 'Access Road' }
+    ],
+    visibleWhen: { field: 'leaseType', equals: ['wayleave'] }
+  },
+  wayleaveLength: {
+    label: 'Wayleave Length (metres)', section: 'lease', format: 'number',
+    variableKey: 'wayleave_length', placeholder: 'e.g., 250',
+    visibleWhen: { field: 'leaseType', equals: ['wayleave'] }
+  },
+  wayleaveWidth: {
+    label: 'Wayleave Width (metres)', section: 'lease', format: 'number',
+    variableKey: 'wayleave_width', placeholder: 'e.g., 1.5',
+    visibleWhen: { field: 'leaseType', equals: ['wayleave'] }
+  },
+  wayleaveRoute: {
+    label: 'Wayleave Route', section: 'lease', format: 'textarea',
+    variableKey: 'wayleave_route', placeholder: 'Route across the property, e.g. along the eastern boundary to the road reserve',
+    visibleWhen: { field: 'leaseType', equals: ['wayleave'] }
+  },
+
+  // Additional Terms
+  instructingCounsel: {
+    label: 'Instructing Counsel', section: 'additional', format: 'text', required: true,
+    variableKey: 'instructing_counsel', placeholder: 'Name of instructing counsel'
+  },
+  urgencyLevel: {
+    label: 'Urgency Level', section: 'additional', format: 'select',
+    variableKey: 'urgency_level',
+    options: [
+      { value: 'low', label: 'Low' },
+      { value: 'medium', label: 'Medium' },
+      { value: 'high', label: 'High' },
+      { value: 'urgent', label: 'Urgent' }
+    ]
+  },
+  expectedCompletionDate: {
+    label: 'Expected Completion Date', section: 'additional', format: 'date',
+    variableKey: 'expected_completion_date', variableAliases: ['expected_completion']
+  },
+  permitType: {
+    label: 'Permit Type', section: 'additional', format: 'text',
+    variableKey: 'permit_type', placeholder: 'e.g., NEMA licence, county approval'
+  },
+  documentsReceived: {
+    label: 'Documents Received', section: 'additional', format: 'checklist',
+    variableKey: 'documents_received', options: ROF5_DOCUMENT_OPTIONS
+  },
+  specialConditions: {
+    label: 'Special Conditions/Notes', section: 'additional', format: 'textarea',
+    variableKey: 'special_conditions', placeholder: 'Any special conditions, requirements, or notes...'
+  }
+} as const satisfies Record<string, ROF5FieldDefinition>;
+
+export type ROF5FieldKey = keyof typeof ROF5_FIELDS;
+
+type ROF5FieldValue<F extends ROF5FieldFormat> =
+  F extends 'checklist' ? string[] : F extends 'party-list' ? LandlordParty[] : string;
+
+// Fields holding a single text value, i.e. everything except checklists and party lists
+export type ROF5TextFieldKey = {
+  [K in ROF5FieldKey]: ROF5FieldValue<(typeof ROF5_FIELDS)[K]['format']> extends string ? K : never
+}[ROF5FieldKey];
+
+type ROF5Shape = {
+  [K in ROF5FieldKey]: z.ZodType<ROF5FieldValue<(typeof ROF5_FIELDS)[K]['format']>>
+};
+
+const LIST_FORMATS: ROF5FieldFormat[] = ['checklist', 'party-list'];
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parses a KES amount as typed on the form, e.g. "50,000" or "50000.50"
+ * @param value Amount text
+ * @returns The amount, or NaN when the text is not a number
+ */
+export const parseKesAmount = (value: string): number => {
+  const cleaned = value.replace(/[,\s]/g, '');
+  return cleaned && /^\d+(\.\d{1,2})?$/.test(cleaned) ? Number(cleaned) : NaN;
+};
+
+const isValidDate = (value: string): boolean => {
+  const match = value.match(ISO_DATE_PATTERN);
+  if (!match) return false;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 && date.getDate() === Number(match[3]);
+};
+
+const FORMAT_CHECKS: Partial<Record<ROF5FieldFormat, { test: (value: string) => boolean; message: string }>> = {
+  date: { test: isValidDate, message: 'Enter a valid date' },
+  kes: { test: (value) => !isNaN(parseKesAmount(value)), message: 'Enter an amount in KES, e.g. 50,000' },
+  number: { test: (value) => /^\d+(\.\d+)?$/.test(value.trim()), message: 'Enter a number' },
+  email: { test: (value) => z.string().email().safeParse(value.trim()).success, message: 'Enter a valid email address' }
+};
+
+// Formats checked by the Kenyan identifier rules
+const IDENTIFIER_FORMATS: Partial<Record<ROF5FieldFormat, KenyanIdentifierType>> = {
+  phone: 'phone',
+  'kra-pin': 'kra-pin',
+  'title-number': 'title-number'
+};
+
+const partySchema = z.object({
+  name: z.string(),
+  role: z.string(),
+  idNumber: z.string(),
+  kraPin: z.string(),
+  address: z.string()
+});
+
+const checkParty = (party: z.infer<typeof partySchema>, label: string): string | undefined => {
+  if (!party.name.trim()) return `${label}: name is required`;
+  if (!LANDLORD_ROLE_OPTIONS.some(option => option.value === party.role)) return `${label}: select a role`;
+
+  // Proprietors may be companies; everyone else signs as an individual
+  const individualError = validateLandlordIdentifier('individual', party.idNumber);
+  const idError = party.role === 'proprietor' && individualError
+    ? validateLandlordIdentifier('company', party.idNumber) && 'Enter a National ID, passport or company number'
+    : individualError;
+  if (idError) return `${label}: ${idError}`;
+
+  const pinError = validateKenyanIdentifier('kra-pin', party.kraPin);
+  return pinError ? `${label}: ${pinError}` : undefined;
+};
+
+const buildFieldSchema = (definition: ROF5FieldDefinition): z.ZodTypeAny => {
+  if (definition.format === 'party-list') {
+    return z.array(partySchema).superRefine((parties, ctx) => {
+      parties.forEach((party, index) => {
+        const error = checkParty(party, `Landlord ${index + 2}`);
+        if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: [index] });
+      });
+    });
+  }
+
+  if (definition.format === 'checklist') {
+    const values = definition.options?.map(option => option.value) ?? [];
+    return z.array(z.string().refine(value => values.includes(value), 'Unknown document'));
+  }
+
+  return z.string().superRefine((value, ctx) => {
+    if (!value.trim()) {
+      if (definition.required) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${definition.label} is required`, params: { rule: 'required' } });
+      }
+      return;
+    }
+
+    if (definition.format === 'select' && definition.options && !definition.options.some(option => option.value === value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Select a valid ${definition.label.toLowerCase()}` });
+      return;
+    }
+
+    const check = FORMAT_CHECKS[definition.format];
+    if (check && !check.test(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: check.message });
+    }
+
+    const identifierType = IDENTIFIER_FORMATS[definition.format];
+    const identifierError = identifierType && validateKenyanIdentifier(identifierType, value);
+    if (identifierError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: identifierError });
+    }
+  });
+};
+
+const fieldKeys = Object.keys(ROF5_FIELDS) as ROF5FieldKey[];
+
+export const rof5Schema = z.object(
+  Object.fromEntries(fieldKeys.map(key => [key, buildFieldSchema(ROF5_FIELDS[key])])) as ROF5Shape
+).superRefine((data, ctx) => {
+  // Rules that depend on more than one field
+  const landlordIdError = validateLandlordIdentifier(data.landlordType, data.landlordId);
+  if (landlordIdError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: landlordIdError, path: ['landlordId'] });
+  }
+});
+
+export type ROF5FormData = { [K in ROF5FieldKey]: z.infer<ROF5Shape[K]> };
+
+export type ROF5ValidationErrors = Partial<Record<ROF5FieldKey, string>>;
+
+export interface ROF5ValidationResult {
+  isValid: boolean;
+  errors: ROF5ValidationErrors;
+}
+
+export const getFieldDefinition = (key: ROF5FieldKey): ROF5FieldDefinition => ROF5_FIELDS[key];
+
+/**
+ * Field keys in form order, optionally limited to one section
+ */
+export const getFieldKeys = (section?: ROF5Section): ROF5FieldKey[] =>
+  section ? fieldKeys.filter(key => ROF5_FIELDS[key].section === section) : fieldKeys;
+
+export const isTextField = (key: ROF5FieldKey): key is ROF5TextFieldKey =>
+  !LIST_FORMATS.includes(getFieldDefinition(key).format);
+
+/**
+ * Single-value field keys in form order for one section, leaving out checklists and party lists
+ */
+export const getTextFieldKeys = (section: ROF5Section): ROF5TextFieldKey[] =>
+  getFieldKeys(section).filter(isTextField);
+
+/**
+ * Whether a field applies given the other answers, e.g. company details only for company landlords
+ */
+export const isFieldVisible = (key: ROF5FieldKey, formData: ROF5FormData): boolean => {
+  const condition = getFieldDefinition(key).visibleWhen;
+  if (!condition) return true;
+
+  const value = String(formData[condition.field as ROF5FieldKey] ?? '');
+  if (condition.equals && !condition.equals.includes(value)) return false;
+  return !condition.notEquals?.includes(value);
+};
+
+/**
+ * Single-value field keys for one section that apply to the current answers
+ */
+export const getVisibleTextFieldKeys = (section: ROF5Section, formData: ROF5FormData): ROF5TextFieldKey[] =>
+  getTextFieldKeys(section).filter(key => isFieldVisible(key, formData));
+
+export const getRequiredFieldKeys = (): ROF5FieldKey[] =>
+  fieldKeys.filter(key => getFieldDefinition(key).required);
+
+/**
+ * A blank form with each field's default value
+ */
+export const createEmptyROF5FormData = (): ROF5FormData =>
+  Object.fromEntries(fieldKeys.map(key => {
+    const definition = getFieldDefinition(key);
+    return [key, LIST_FORMATS.includes(definition.format) ? [] : definition.defaultValue ?? ''];
+  })) as ROF5FormData;
+
+/**
+ * Fills fields missing from older saved data (drafts, stored instructions) with their defaults
+ * @param data Possibly incomplete form data
+ * @returns Complete form data
+ */
+export const normalizeROF5FormData = (data: Partial<ROF5FormData> | null | undefined): ROF5FormData => {
+  const normalized = createEmptyROF5FormData();
+  fieldKeys.forEach(key => {
+    const value = data?.[key];
+    if (value === undefined || value === null) return;
+    (normalized as Record<string, unknown>)[key] = getFieldDefinition(key).format === 'party-list' && Array.isArray(value)
+      ? (value as Partial<LandlordParty>[]).map(createLandlordParty)
+      : Array.isArray(value) ? [...value] : String(value);
+  });
+  return normalized;
+};
+
+/**
+ * A landlord party with any missing details left blank
+ */
+export const createLandlordParty = (party: Partial<LandlordParty> = {}): LandlordParty => ({
+  name: party.name ?? '',
+  role: party.role ?? 'proprietor',
+  idNumber: party.idNumber ?? '',
+  kraPin: party.kraPin ?? '',
+  address: party.address ?? ''
+});
+
+export interface ROF5ValidationOptions {
+  // Limit validation to these fields; all fields are checked when omitted
+  fields?: ROF5FieldKey[];
+  // Only check the format of fields that have a value, e.g. for printing a partly completed form
+  allowMissing?: boolean;
+}
+
+/**
+ * Validates form data against rof5Schema
+ * @param formData Form data to validate
+ * @param options Fields to check and whether blank required fields are allowed
+ * @returns Whether the data is valid, and the first error for each invalid field
+ */
+export const validateROF5FormData = (formData: ROF5FormData, options: ROF5ValidationOptions = {}): ROF5ValidationResult => {
+  const normalized = normalizeROF5FormData(formData);
+  const result = rof5Schema.safeParse(normalized);
+  const errors: ROF5ValidationErrors = {};
+
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      const key = issue.path[0] as ROF5FieldKey;
+      if (options.fields && !options.fields.includes(key)) return;
+      if (!isFieldVisible(key, normalized)) return;
+      if (options.allowMissing && issue.code === z.ZodIssueCode.custom && issue.params?.rule === 'required') return;
+      if (!errors[key]) errors[key] = issue.message;
+    });
+  }
+
+  return { isValid: Object.keys(errors).length === 0, errors };
+};
+
+/**
+ * Re-checks form data before documents are produced, so nothing is generated from
+ * data that bypassed the form's validation (drafts, imports, stored instructions)
+ * @param formData Form data to check
+ * @param options Fields to check and whether blank required fields are allowed
+ * @throws Error listing every invalid field
+ */
+export const assertValidROF5FormData = (formData: ROF5FormData, options: ROF5ValidationOptions = {}): void => {
+  const { isValid, errors } = validateROF5FormData(formData, options);
+  if (!isValid) {
+    throw new Error(`Invalid ROF5 data: ${describeValidationErrors(errors)}`);
+  }
+};
+
+/**
+ * Summarises validation errors for a toast, e.g. "Site Name is required; Phone Number: Enter a ..."
+ */
+export const describeValidationErrors = (errors: ROF5ValidationErrors): string =>
+  (Object.keys(errors) as ROF5FieldKey[])
+    .map(key => errors[key].endsWith('is required') ? errors[key] : `${getFieldDefinition(key).label}: ${errors[key]}`)
+    .join('; ');
+
+/**
+ * Text for a field value; checklist items are listed by their labels and parties by name
+ */
+export const formatFieldValue = (key: ROF5FieldKey, formData: ROF5FormData): string => {
+  const definition = getFieldDefinition(key);
+  const value = formData[key];
+
+  if (definition.format === 'party-list') {
+    return ((value as LandlordParty[]) ?? []).map(party => party.name).filter(Boolean).join(', ');
+  }
+
+  if (Array.isArray(value)) {
+    return (value as string[])
+      .map(item => definition.options?.find(option => option.value === item)?.label ?? item)
+      .join(', ');
+  }
+
+  return (value as string) ?? '';
+};
+
+/**
+ * Template variables for every ROF5 field, keyed by each field's variableKey and aliases.
+ * Fields hidden by the other answers are treated as blank.
+ * @param formData ROF5 form data
+ * @param blank Text used for empty fields; defaults to the field's blankValue, or an empty string
+ * @returns Document variables in form order
+ */
+export const toDocumentVariables = (
+  formData: ROF5FormData,
+  blank: (definition: ROF5FieldDefinition) => string = (definition) => definition.blankValue ?? ''
+): DocumentVariable[] =>
+  fieldKeys.flatMap(key => {
+    const definition = getFieldDefinition(key);
+    const value = (isFieldVisible(key, formData) && formatFieldValue(key, formData)) || blank(definition);
+    return [definition.variableKey, ...(definition.variableAliases ?? [])].map(variableKey => ({ key: variableKey, value }));
+  });
+
+/**
+ * Fanisi template fields that map directly onto a ROF5 field
+ */
+export const toFanisiFields = (formData: ROF5FormData): Partial<FanisiROF5Data> =>
+  Object.fromEntries(
+    fieldKeys
+      .filter(key => getFieldDefinition(key).fanisiKey)
+      .map(key => {
+        const definition = getFieldDefinition(key);
+        return [definition.fanisiKey, (isFieldVisible(key, formData) && formatFieldValue(key, formData)) || (definition.blankValue ?? '')];
+      })
+  );
@@ -1,3 +1,6 @@
+import { FeeScaleService } from "./feeScaleService";
+import { parseKesAmount } from "@/schemas/rof5Schema";
+
 export interface AISuggestion {
   type: 'form-completion' | 'workflow-action' | 'priority' | 'deadline';
   field?: string;
@@ -103,13 +106,14 @@ export class AIService {
     }
 
     if (field === 'vat_amount' && formData.total_fees) {
-      const vatAmount = (parseFloat(formData.total_fees) * 0.16).toString();
+      const { vatRate } = await FeeScaleService.getFeeScale();
+      const vatAmount = (parseFloat(formData.total_fees) * vatRate / 100).toString();
       suggestions.push({
         type: 'form-completion',
         field: 'vat_amount',
         value: vatAmount,
         confidence: 1.0,
-        reason: 'VAT calculation (16%)'
+        reason: `VAT calculation (${vatRate}%)`
       });
     }
 
@@ -183,7 +187,7 @@ export class AIService {
     if (formData.urgencyLevel === 'medium') score += 1;
 
     // Lease value
-    const rent = parseFloat(formData.monthlyRent || '0');
+    const rent = parseKesAmount(formData.monthlyRent || '0') || 0;
     if (rent > 500000) score += 2;
     if (rent > 200000) score += 1;
 
@@ -0,0 +1,220 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+
+export type AuditTable = 'instructions' | 'generated_documents' | 'system_templates' | 'template_versions';
+
+// 'legacy' entries were recorded by the app before the database kept the log
+export type AuditOperation = 'insert' | 'update' | 'delete' | 'legacy';
+
+export type AuditCategory = 'instruction' | 'document' | 'template';
+
+export interface AuditFieldChange {
+  field: string;
+  label: string;
+  oldValue: Json | null;
+  newValue: Json | null;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  tableName: AuditTable;
+  recordId: string;
+  instructionId?: string;
+  templateId?: string;
+  operation: AuditOperation;
+  changes: AuditFieldChange[];
+  summary: string;
+  userId?: string;
+  userName: string;
+  createdAt: string;
+}
+
+// One value a column has held, e.g. each stage an instruction has been in
+export interface AuditFieldHistoryItem {
+  value: Json | null;
+  previousValue: Json | null;
+  userName: string;
+  createdAt: string;
+}
+
+export const AUDIT_CATEGORY_LABELS: Record<AuditCategory, string> = {
+  instruction: 'Instruction',
+  document: 'Documents',
+  template: 'Templates'
+};
+
+const TABLE_CATEGORIES: Record<AuditTable, AuditCategory> = {
+  instructions: 'instruction',
+  generated_documents: 'document',
+  system_templates: 'template',
+  template_versions: 'template'
+};
+
+const TABLE_SUBJECTS: Record<AuditTable, string> = {
+  instructions: 'Instruction',
+  generated_documents: 'Document',
+  system_templates: 'Template',
+  template_versions: 'Template version'
+};
+
+const OPERATION_VERBS: Record<Exclude<AuditOperation, 'legacy'>, string> = {
+  insert: 'created',
+  update: 'updated',
+  delete: 'deleted'
+};
+
+// Columns shown under a friendlier name; the rest are shown as written in the database
+const FIELD_LABELS: Record<string, string> = {
+  stage: 'Stage',
+  progress: 'Progress',
+  assignee: 'Assigned to',
+  assigned_to: 'Assigned user',
+  law_firm_id: 'Law firm',
+  advocate_id: 'Advocate',
+  next_action: 'Next action',
+  priority: 'Priority',
+  progress_reason: 'Progress reason',
+  form_data: 'ROF 5 details',
+  generated_documents: 'Generated documents',
+  document_template_versions: 'Template versions used',
+  executed_documents: 'Executed documents',
+  fee_breakdown: 'Fees',
+  site_id: 'Registry site',
+  landlord_id: 'Registry landlord',
+  is_active: 'Active',
+  current_version: 'Current version',
+  version_number: 'Version',
+  file_name: 'File name'
+};
+
+// Columns that say which row an entry is about, rather than what changed
+const IDENTITY_FIELDS = ['id', 'instruction_id', 'template_id', 'created_at', 'created_by', 'uploaded_by'];
+
+const isMissingTable = (error: { code?: string; message?: string }) =>
+  error.code === '42P01' || !!error.message?.includes('does not exist');
+
+export class AuditLogService {
+  /**
+   * Everything recorded against the instruction and its documents, plus changes to the
+   * templates its documents were generated from. Newest first.
+   */
+  static async getInstructionTimeline(instructionId: string): Promise<AuditLogEntry[]> {
+    try {
+      const { data: documents } = await supabase
+        .from('generated_documents')
+        .select('system_template_id')
+        .eq('instruction_id', instructionId)
+        .not('system_template_id', 'is', null);
+
+      const templateIds = Array.from(new Set((documents || []).map(doc => doc.system_template_id as string)));
+      const filter = templateIds.length > 0
+        ? `instruction_id.eq.${instructionId},template_id.in.(${templateIds.join(',')})`
+        : `instruction_id.eq.${instructionId}`;
+
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('*')
+        .or(filter)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('audit_log table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row));
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      throw new Error(`Failed to load audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Values an instruction column has held, oldest first, taken from timeline entries
+   */
+  static getFieldHistory(entries: AuditLogEntry[], field: string): AuditFieldHistoryItem[] {
+    return entries
+      .filter(entry => entry.tableName === 'instructions' && entry.operation !== 'delete')
+      .flatMap(entry => entry.changes
+        .filter(change => change.field === field)
+        .map(change => ({
+          value: change.newValue,
+          previousValue: change.oldValue,
+          userName: entry.userName,
+          createdAt: entry.createdAt
+        })))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  static getCategory(entry: AuditLogEntry): AuditCategory {
+    return TABLE_CATEGORIES[entry.tableName] ?? 'instruction';
+  }
+
+  /**
+   * One-line description, e.g. "Document created: Lease Agreement.docx"
+   */
+  static describe(entry: AuditLogEntry): string {
+    if (entry.operation === 'legacy') return entry.summary;
+
+    const subject = TABLE_SUBJECTS[entry.tableName] ?? entry.tableName;
+    const name = this.getRecordName(entry);
+    return `${subject} ${OPERATION_VERBS[entry.operation]}${name ? `: ${name}` : ''}`;
+  }
+
+  /**
+   * Changes to JSON columns such as the ROF 5 details, which are too large to show inline
+   */
+  static isDetailChange(change: AuditFieldChange): boolean {
+    return [change.oldValue, change.newValue].some(value =>
+      value !== null && typeof value === 'object' && !Array.isArray(value));
+  }
+
+  static formatValue(value: Json | null): string {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (Array.isArray(value)) return value.length > 0 ? value.map(item => this.formatValue(item)).join(', ') : '—';
+    if (typeof value === 'object') return 'details';
+    return String(value);
+  }
+
+  private static getRecordName(entry: AuditLogEntry): string {
+    const values = Object.fromEntries(entry.changes.map(change => [
+      change.field,
+      entry.operation === 'delete' ? change.oldValue : change.newValue
+    ]));
+
+    // Updates only carry the changed columns, so the name is often missing
+    const name = values.name ?? values.file_name ?? values.site_code;
+    if (typeof name === 'string') return name;
+    if (entry.tableName === 'template_versions' && values.version_number) return `v${values.version_number}`;
+    return '';
+  }
+
+  private static fromRow(row: Tables<'audit_log'>): AuditLogEntry {
+    const changes = (row.changes ?? {}) as Record<string, { old?: Json; new?: Json }>;
+
+    return {
+      id: row.id,
+      tableName: row.table_name as AuditTable,
+      recordId: row.record_id,
+      instructionId: row.instruction_id ?? undefined,
+      templateId: row.template_id ?? undefined,
+      operation: row.operation as AuditOperation,
+      changes: Object.entries(changes)
+        .filter(([field]) => row.operation === 'update' || !IDENTITY_FIELDS.includes(field))
+        .map(([field, change]) => ({
+          field,
+          label: FIELD_LABELS[field] ?? field.replace(/_/g, ' '),
+          oldValue: change?.old ?? null,
+          newValue: change?.new ?? null
+        })),
+      summary: row.summary,
+      userId: row.user_id ?? undefined,
+      userName: row.user_name,
+      createdAt: row.created_at
+    };
+  }
+}
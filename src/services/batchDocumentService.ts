@@ -0,0 +1,139 @@
+import JSZip from 'jszip';
+import type { WorkflowInstruction } from "@/contexts/WorkflowContext";
+import { normalizeROF5FormData } from "@/schemas/rof5Schema";
+import { DocumentGenerationOptions, DocumentGenerationService, GeneratedDocument } from "./documentGenerationService";
+
+export type BatchDocumentSet = Pick<DocumentGenerationOptions, 'includeAgreement' | 'includeForwardingLetter' | 'includeInvoice'>;
+
+export interface BatchItemResult {
+  instructionId: string;
+  siteCode: string;
+  siteName: string;
+  status: 'generated' | 'failed';
+  documents: GeneratedDocument[];
+  error?: string;
+}
+
+export interface BatchProgress {
+  completed: number;
+  total: number;
+  // Instruction being generated, or null once the batch has finished
+  currentInstructionId: string | null;
+}
+
+export interface BatchGenerationResult {
+  items: BatchItemResult[];
+  generated: number;
+  failed: number;
+  documentCount: number;
+}
+
+const MANIFEST_HEADERS = ['Instruction', 'Site Code', 'Site Name', 'Status', 'Document', 'Path', 'Template', 'Template Version', 'Error'];
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// File and folder names must survive Windows' zip extraction, which rejects \ / : * ? " < > |
+const toPathSegment = (value: string) => value.replace(/[\\/:*?"<>|]+/g, '-').trim();
+
+export class BatchDocumentService {
+  /**
+   * Generates the chosen documents for each instruction in turn. A failure is recorded
+   * against its instruction and the batch carries on with the next one.
+   * @param instructions Instructions to generate documents for
+   * @param documentSet Which documents to produce for each instruction
+   * @param onProgress Called before each instruction and once the batch has finished
+   */
+  static async generateBatch(
+    instructions: WorkflowInstruction[],
+    documentSet: BatchDocumentSet,
+    onProgress?: (progress: BatchProgress) => void
+  ): Promise<BatchGenerationResult> {
+    const items: BatchItemResult[] = [];
+
+    for (const [index, instruction] of instructions.entries()) {
+      onProgress?.({ completed: index, total: instructions.length, currentInstructionId: instruction.id });
+      const base = { instructionId: instruction.id, siteCode: instruction.siteCode, siteName: instruction.siteName };
+
+      try {
+        const formData = normalizeROF5FormData(instruction.formData);
+        const documents = await DocumentGenerationService.generateDocumentsFromROF5(formData, {
+          ...documentSet,
+          agreementType: formData.leaseType
+        });
+        items.push({ ...base, status: 'generated', documents });
+      } catch (error) {
+        console.error(`Error generating documents for ${instruction.id}:`, error);
+        items.push({
+          ...base,
+          status: 'failed',
+          documents: [],
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    onProgress?.({ completed: instructions.length, total: instructions.length, currentInstructionId: null });
+
+    return {
+      items,
+      generated: items.filter(item => item.status === 'generated').length,
+      failed: items.filter(item => item.status === 'failed').length,
+      documentCount: items.reduce((count, item) => count + item.documents.length, 0)
+    };
+  }
+
+  /**
+   * Packs the generated documents into one ZIP with a folder per site code, holding a
+   * folder per instruction, and a manifest.csv listing every document and every
+   * instruction that failed
+   * @param items Results from generateBatch
+   * @returns ZIP file contents
+   */
+  static async buildZip(items: BatchItemResult[]): Promise<Blob> {
+    try {
+      const zip = new JSZip();
+      const manifest: (string | number)[][] = [MANIFEST_HEADERS];
+
+      items.forEach(item => {
+        // Instructions for the same site, such as renewals, produce documents with the
+        // same names, so each gets its own folder within the site's
+        const siteFolder = toPathSegment(item.siteCode);
+        const instructionFolder = toPathSegment(item.instructionId);
+        const folder = siteFolder ? `${siteFolder}/${instructionFolder}` : instructionFolder;
+        const base = [item.instructionId, item.siteCode, item.siteName];
+
+        if (item.status === 'failed') {
+          manifest.push([...base, 'failed', '', '', '', '', item.error ?? '']);
+          return;
+        }
+
+        item.documents.forEach(document => {
+          const path = `${folder}/${toPathSegment(document.name)}`;
+          zip.file(path, document.content);
+          manifest.push([
+            ...base,
+            'generated',
+            document.name,
+            path,
+            document.templateUsed,
+            document.templateVersion?.versionNumber ?? '',
+            ''
+          ]);
+        });
+      });
+
+      zip.file('manifest.csv', manifest.map(row => row.map(csvCell).join(',')).join('\n'));
+      return await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+    } catch (error) {
+      console.error('Error building document bundle:', error);
+      throw new Error(`Failed to build ZIP bundle: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async downloadZip(items: BatchItemResult[], fileName = `documents-${new Date().toISOString().split('T')[0]}.zip`): Promise<void> {
+    DocumentGenerationService.downloadBlob(await this.buildZip(items), fileName);
+  }
+}
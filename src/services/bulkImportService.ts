@@ -0,0 +1,300 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+import type { WorkflowInstruction } from "@/contexts/WorkflowContext";
+import {
+  ROF5FormData,
+  ROF5TextFieldKey,
+  ROF5ValidationErrors,
+  createEmptyROF5FormData,
+  describeValidationErrors,
+  getFieldKeys,
+  isTextField,
+  validateROF5FormData
+} from "@/schemas/rof5Schema";
+import { SpreadsheetTable } from "@/utils/spreadsheetParser";
+import { AIService } from "./aiService";
+import { FeeCalculationService, FeeScale } from "./feeCalculationService";
+import { LandlordPartyService } from "./landlordPartyService";
+import { ROF5ImportService } from "./rof5ImportService";
+
+// Spreadsheet column heading read into each ROF5 field
+export type ColumnMapping = Partial<Record<ROF5TextFieldKey, string>>;
+
+export interface ImportMappingProfile {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  createdBy: string | null;
+  updatedAt: string;
+}
+
+export interface BulkImportRow {
+  // Row number as shown in the spreadsheet; the heading row is row 1
+  rowNumber: number;
+  formData: ROF5FormData;
+  errors: ROF5ValidationErrors;
+  isValid: boolean;
+}
+
+export interface BulkImportReportRow {
+  rowNumber: number;
+  siteCode: string;
+  siteName: string;
+  status: 'created' | 'skipped';
+  instructionId?: string;
+  message: string;
+}
+
+export interface BulkImportReport {
+  batchRef: string;
+  fileName: string;
+  createdAt: string;
+  total: number;
+  created: number;
+  skipped: number;
+  rows: BulkImportReportRow[];
+}
+
+type ProfileRow = Tables<'instruction_import_profiles'>;
+
+const isMissingTable = (error: { code?: string; message?: string }) =>
+  error.code === '42P01' || !!error.message?.includes('does not exist');
+
+const isDuplicateName = (error: { code?: string }) => error.code === '23505';
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export class BulkImportService {
+  static async getProfiles(): Promise<ImportMappingProfile[]> {
+    try {
+      const { data, error } = await supabase
+        .from('instruction_import_profiles')
+        .select('*')
+        .order('name');
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('instruction_import_profiles table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row));
+    } catch (error) {
+      console.error('Error loading import profiles:', error);
+      throw new Error(`Failed to load import profiles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Saves a column mapping under a name, updating the profile when an id is given
+   */
+  static async saveProfile(name: string, mapping: ColumnMapping, id?: string): Promise<ImportMappingProfile> {
+    if (!name.trim()) {
+      throw new Error('Give the mapping profile a name');
+    }
+
+    try {
+      if (id) {
+        const { data, error } = await supabase
+          .from('instruction_import_profiles')
+          .update({ name: name.trim(), column_mapping: mapping as Json })
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return this.fromRow(data);
+      }
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to save import profiles');
+      }
+
+      const { data, error } = await supabase
+        .from('instruction_import_profiles')
+        .insert({ name: name.trim(), column_mapping: mapping as Json, created_by: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return this.fromRow(data);
+    } catch (error) {
+      console.error('Error saving import profile:', error);
+      if (error && typeof error === 'object' && isDuplicateName(error as { code?: string })) {
+        throw new Error(`A mapping profile named "${name.trim()}" already exists`);
+      }
+      throw new Error(`Failed to save import profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async deleteProfile(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('instruction_import_profiles')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting import profile:', error);
+      throw new Error(`Failed to delete import profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Maps columns whose headings name a ROF5 field, e.g. "Site Code", "site_code" or "LR No"
+   * @param headers Spreadsheet column headings
+   */
+  static suggestMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    headers.forEach(header => {
+      const match = ROF5ImportService.matchLabel(header, true);
+      if (match && !mapping[match.field]) mapping[match.field] = header;
+    });
+    return mapping;
+  }
+
+  /**
+   * A saved mapping limited to the columns this spreadsheet has
+   */
+  static applyProfile(profile: ImportMappingProfile, headers: string[]): ColumnMapping {
+    return Object.fromEntries(
+      Object.entries(profile.mapping).filter(([, header]) => header && headers.includes(header))
+    ) as ColumnMapping;
+  }
+
+  /**
+   * Reads each spreadsheet row into ROF5 form data and checks it against the ROF5 rules
+   * @param table Parsed spreadsheet
+   * @param mapping Column for each field; unmapped fields keep their defaults
+   */
+  static validateRows(table: SpreadsheetTable, mapping: ColumnMapping): BulkImportRow[] {
+    const fields = getFieldKeys().filter(isTextField).filter(field => mapping[field]);
+    const firstRowForSite = new Map<string, number>();
+
+    return table.rows.map((cells, index) => {
+      const rowNumber = index + 2;
+      const formData = createEmptyROF5FormData();
+
+      fields.forEach(field => {
+        const value = cells[table.headers.indexOf(mapping[field]!)] ?? '';
+        if (value.trim()) formData[field] = ROF5ImportService.convertValue(field, value);
+      });
+
+      const { errors } = validateROF5FormData(formData);
+
+      // The same site twice in one programme is almost always a copy-paste mistake
+      const siteCode = formData.siteCode.trim().toUpperCase();
+      if (siteCode) {
+        const firstRow = firstRowForSite.get(siteCode);
+        if (firstRow !== undefined && !errors.siteCode) {
+          errors.siteCode = `Site code is also on row ${firstRow}`;
+        } else if (firstRow === undefined) {
+          firstRowForSite.set(siteCode, rowNumber);
+        }
+      }
+
+      return { rowNumber, formData, errors, isValid: Object.keys(errors).length === 0 };
+    });
+  }
+
+  /**
+   * Reference shared by every instruction in one import, e.g. B482913
+   */
+  static createBatchRef(): string {
+    return `B${String(Date.now()).slice(-6)}`;
+  }
+
+  /**
+   * New instructions for the valid rows, prioritised the same way as instructions from the ROF5 form
+   * @param references Reserved instruction references, one per valid row
+   * @param feeScale Scale the fee estimate of each instruction is calculated on
+   */
+  static toInstructions(rows: BulkImportRow[], references: string[], feeScale: FeeScale): WorkflowInstruction[] {
+    const today = new Date().toISOString().split('T')[0];
+
+    return rows.filter(row => row.isValid).map((row, index) => {
+      const { formData } = row;
+      const priority = AIService.calculateSmartPriority(formData);
+      const deadline = AIService.calculateSmartDeadline(formData, priority);
+
+      return {
+        id: references[index],
+        siteCode: formData.siteCode,
+        siteName: formData.siteName,
+        siteLocation: formData.siteLocation,
+        landlordName: LandlordPartyService.getLandlordNames(formData),
+        stage: 'document-drafting',
+        progress: 15,
+        createdAt: today,
+        lastUpdated: today,
+        assignee: formData.instructingCounsel || 'Unassigned',
+        nextAction: 'Document Preparation Required',
+        priority,
+        formData: { ...formData, expectedCompletionDate: formData.expectedCompletionDate || deadline },
+        generatedDocuments: [],
+        feeBreakdown: FeeCalculationService.calculateFromFormData(formData, feeScale)
+      };
+    });
+  }
+
+  /**
+   * Summary of an import: which rows became instructions and why the others were skipped
+   * @param rows Every validated row
+   * @param created Instructions created from the valid rows, in row order
+   */
+  static buildReport(batchRef: string, fileName: string, rows: BulkImportRow[], created: WorkflowInstruction[]): BulkImportReport {
+    let createdIndex = 0;
+    const reportRows = rows.map((row): BulkImportReportRow => {
+      const base = { rowNumber: row.rowNumber, siteCode: row.formData.siteCode, siteName: row.formData.siteName };
+      if (!row.isValid) {
+        return { ...base, status: 'skipped', message: describeValidationErrors(row.errors) };
+      }
+      const instruction = created[createdIndex++];
+      return { ...base, status: 'created', instructionId: instruction?.id, message: 'Instruction created' };
+    });
+
+    return {
+      batchRef,
+      fileName,
+      createdAt: new Date().toISOString(),
+      total: rows.length,
+      created: reportRows.filter(row => row.status === 'created').length,
+      skipped: reportRows.filter(row => row.status === 'skipped').length,
+      rows: reportRows
+    };
+  }
+
+  static downloadReport(report: BulkImportReport): void {
+    const lines = [
+      ['Row', 'Site Code', 'Site Name', 'Status', 'Instruction', 'Details'],
+      ...report.rows.map(row => [row.rowNumber, row.siteCode, row.siteName, row.status, row.instructionId ?? '', row.message])
+    ].map(line => line.map(csvCell).join(','));
+
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `bulk-import-${report.batchRef}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  private static fromRow(row: ProfileRow): ImportMappingProfile {
+    return {
+      id: row.id,
+      name: row.name,
+      mapping: (row.column_mapping as ColumnMapping) || {},
+      createdBy: row.created_by,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -1,11 +1,18 @@
 
+import JSZip from 'jszip';
 import { DocumentGeneratorService } from "./documentGeneratorService";
 import { SystemTemplateService, SystemTemplate } from "./systemTemplateService";
 import { DocumentVariable } from "@/types/database";
 import { ROF5FormData } from "@/hooks/useROF5Form";
 import { DocumentGenerator } from "./documentGenerator";
-import { detectAndConvertBlankSpaces } from "@/utils/templates/documentParser";
-import { detectExistingBlankSpaces, fillBlankSpace } from "@/utils/templates/blankSpaceManager";
+import { DocxMergeService } from "./docxMergeService";
+import { TemplateVersionService, TemplateVersionReference } from "./templateVersionService";
+import { RentScheduleService } from "./rentScheduleService";
+import { FeeCalculationService, FeeScale } from "./feeCalculationService";
+import { FeeScaleService } from "./feeScaleService";
+import { LandlordPartyService } from "./landlordPartyService";
+import { resolveTemplateExpression } from "@/utils/templates/templateFilters";
+import { assertValidROF5FormData, toDocumentVariables } from "@/schemas/rof5Schema";
 
 export interface GeneratedDocument {
   id: string;
@@ -13,6 +20,8 @@ export interface GeneratedDocument {
   content: Uint8Array;
   format: string;
   templateUsed: string;
+  // Set when the document came from an uploaded system template
+  templateVersion?: TemplateVersionReference;
 }
 
 export interface DocumentGenerationOptions {
@@ -23,19 +32,12 @@ export interface DocumentGenerationOptions {
 }
 
 /**
- * Fills blank spaces in HTML content with ROF5 data in a fixed order
- * @param htmlContent HTML content with blank spaces
+ * Values for the dotted blanks in system templates, in the fixed order they appear
  * @param formData ROF5 form data
- * @returns Plain text content with blanks filled
+ * @returns Blank values in document order
  */
-function fillBlanksWithROF5Data(htmlContent: string, formData: ROF5FormData): string {
-  console.log('Filling blanks with ROF5 data in fixed order...');
-  
-  // Convert any dot patterns to blank space spans
-  let processedContent = detectAndConvertBlankSpaces(htmlContent);
-  
-  // Define the fixed order of ROF5 fields as specified
-  const rof5FieldsInOrder = [
+function getROF5BlankValuesInOrder(formData: ROF5FormData): string[] {
+  return [
     formData.landlordName || '[Landlord Name]',                    // 1. Landlord
     formData.siteCode || '[Property Reference]',                   // 2. Property reference number
     formatDateString(new Date()),                                  // 3. This ....day of .....20.....
@@ -46,40 +48,6 @@ function fillBlanksWithROF5Data(htmlContent: string, formData: ROF5FormData): st
     `${formData.leaseTerm || '[Lease Term]'} years`,              // 8. Period of years (Term)
     `${formData.leaseTerm || '[Lease Term]'} years`               // 9. Consecutive term of years (Term)
   ];
-  
-  console.log('ROF5 fields in order:', rof5FieldsInOrder);
-  
-  // Detect existing blank spaces in the processed content
-  const blankSpaces = detectExistingBlankSpaces(processedContent);
-  console.log(`Found ${blankSpaces.length} blank spaces to fill`);
-  
-  // Fill each blank space with the corresponding ROF5 field value
-  let filledContent = processedContent;
-  blankSpaces.forEach((blankSpace, index) => {
-    if (index < rof5FieldsInOrder.length) {
-      const fieldValue = rof5FieldsInOrder[index];
-      console.log(`Filling blank space ${index + 1} (${blankSpace.id}) with: ${fieldValue}`);
-      filledContent = fillBlankSpace(filledContent, blankSpace.id, fieldValue);
-    } else {
-      console.warn(`No ROF5 field defined for blank space ${index + 1}, leaving unfilled`);
-    }
-  });
-  
-  // Convert HTML to plain text for DOCX generation
-  const tempDiv = document.createElement('div');
-  tempDiv.innerHTML = filledContent;
-  
-  // Extract text content from the HTML
-  let plainText = tempDiv.textContent || tempDiv.innerText || '';
-  
-  // Clean up the text
-  plainText = plainText
-    .replace(/\r\n/g, '\n')
-    .replace(/\n{3,}/g, '\n\n')
-    .trim();
-  
-  console.log(`Filled content converted to plain text, length: ${plainText.length}`);
-  return plainText;
 }
 
 /**
@@ -112,9 +80,10 @@ export class DocumentGenerationService {
     }
   ): Promise<GeneratedDocument[]> {
     console.log('Starting document generation from ROF 5 data...');
+    assertValidROF5FormData(formData);
     
     const generatedDocuments: GeneratedDocument[] = [];
-    const variables = this.extractVariablesFromROF5(formData);
+    const variables = this.extractVariablesFromROF5(formData, await FeeScaleService.getFeeScale());
     
     try {
       // Get all system templates
@@ -203,7 +172,7 @@ export class DocumentGenerationService {
 
     } catch (error) {
       console.error('Error generating documents:', error);
-      throw new Error('Failed to generate documents from ROF 5 data');
+      throw new Error(`Failed to generate documents from ROF 5 data: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -216,41 +185,28 @@ export class DocumentGenerationService {
     console.log(`Generating document from system template: ${template.name}`);
     
     try {
-      // Extract HTML content from the template
-      const htmlContent = await SystemTemplateService.extractTextFromTemplate(template);
-      
-      let finalContent: string;
-      
-      if (formData) {
+      // Merge straight into the uploaded DOCX so its formatting is preserved
+      const result = await DocxMergeService.mergeTemplate(template.file_data, {
+        resolveVariable: (expression) => resolveTemplateExpression(expression, (name) => {
+          const variable = variables.find(v => v.key === name);
+          return variable ? variable.value || `[${variable.key}]` : undefined;
+        }),
         // Fill blank spaces with ROF5 data in fixed order
-        finalContent = fillBlanksWithROF5Data(htmlContent, formData);
-      } else {
-        // Fallback: convert HTML to plain text and use variable replacement
-        const tempDiv = document.createElement('div');
-        tempDiv.innerHTML = htmlContent;
-        finalContent = tempDiv.textContent || tempDiv.innerText || '';
-        
-        // Apply variable replacement
-        variables.forEach(variable => {
-          const placeholder = `{{${variable.key}}}`;
-          const regex = new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
-          finalContent = finalContent.replace(regex, variable.value || `[${variable.key}]`);
-        });
+        blankValues: formData ? getROF5BlankValuesInOrder(formData) : [],
+        includeHighlighted: false
+      });
+
+      if (result.unfilledBlanks > 0) {
+        console.warn(`${result.unfilledBlanks} blank spaces left unfilled in ${template.name}`);
       }
-      
-      // Generate the document using the document generator service
-      const result = await DocumentGeneratorService.generateDocument(
-        finalContent,
-        [], // No need for variable replacement as we've already filled the content
-        { format: 'docx', includeFormatting: true }
-      );
 
       return {
         id: `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         name: `${baseName}.docx`,
-        content: result.content as Uint8Array,
+        content: result.content,
         format: 'docx',
-        templateUsed: template.name
+        templateUsed: template.name,
+        templateVersion: TemplateVersionService.getVersionReference(template)
       };
     } catch (error) {
       console.error('Error generating document from system template:', error);
@@ -314,52 +270,30 @@ export class DocumentGenerationService {
     };
   }
 
-  private static extractVariablesFromROF5(formData: ROF5FormData): DocumentVariable[] {
+  private static extractVariablesFromROF5(formData: ROF5FormData, feeScale: FeeScale): DocumentVariable[] {
     const currentDate = new Date();
+    const rentSchedule = RentScheduleService.calculateFromFormData(formData);
     const variables: DocumentVariable[] = [
       // Date variables
       { key: 'current_date', value: currentDate.toLocaleDateString() },
       { key: 'current_year', value: currentDate.getFullYear().toString() },
-      { key: 'commencement_date', value: formData.commencementDate || '' },
       
-      // Site information
-      { key: 'site_code', value: formData.siteCode || '' },
-      { key: 'site_name', value: formData.siteName || '' },
-      { key: 'site_location', value: formData.siteLocation || '' },
-      { key: 'county', value: formData.county || '' },
-      { key: 'sub_county', value: formData.subCounty || '' },
-      { key: 'ward', value: formData.ward || '' },
+      // Form fields
+      ...toDocumentVariables(formData),
       
-      // Title information
-      { key: 'title_number', value: formData.titleNumber || '' },
-      { key: 'title_type', value: formData.titleType || '' },
-      { key: 'registration_section', value: formData.registrationSection || '' },
-      { key: 'land_area', value: formData.landArea || '' },
-      { key: 'land_use', value: formData.landUse || '' },
+      // Landlord party lists and signature blocks
+      ...LandlordPartyService.toTemplateVariables(formData),
       
-      // Landlord information
-      { key: 'landlord_name', value: formData.landlordName || '' },
-      { key: 'landlord_type', value: formData.landlordType || '' },
-      { key: 'landlord_address', value: formData.landlordAddress || '' },
-      { key: 'landlord_phone', value: formData.landlordPhone || '' },
-      { key: 'landlord_email', value: formData.landlordEmail || '' },
-      { key: 'landlord_id', value: formData.landlordId || '' },
-      
-      // Lease terms
-      { key: 'lease_type', value: formData.leaseType || '' },
-      { key: 'lease_term', value: formData.leaseTerm || '' },
-      { key: 'monthly_rent', value: formData.monthlyRent || '' },
-      { key: 'annual_rent', value: formData.monthlyRent ? (parseFloat(formData.monthlyRent) * 12).toString() : '' },
-      { key: 'deposit', value: formData.deposit || '' },
-      { key: 'rent_escalation', value: formData.rentEscalation || '5' },
-      { key: 'escalation_rate', value: formData.rentEscalation || '5' },
-      
-      // Additional information
-      { key: 'permit_type', value: formData.permitType || '' },
-      { key: 'special_conditions', value: formData.specialConditions || '' },
-      { key: 'instructing_counsel', value: formData.instructingCounsel || '' },
-      { key: 'urgency_level', value: formData.urgencyLevel || '' },
-      { key: 'expected_completion_date', value: formData.expectedCompletionDate || '' },
+      // Rent calculations
+      { key: 'annual_rent', value: rentSchedule.terms.monthlyRent ? (rentSchedule.terms.monthlyRent * 12).toString() : '' },
+      { key: 'escalation_terms', value: RentScheduleService.describeEscalation(rentSchedule.terms) },
+      { key: 'rent_schedule', value: rentSchedule.periods
+        .map(p => `Year ${p.year}${p.term === 'renewal' ? ' (renewal)' : ''}: Kenya Shillings ${RentScheduleService.formatScheduleAmount(p.annualRent)}`)
+        .join('\n') },
+      ...rentSchedule.periods.map(p => ({ key: `rent_year_${p.year}`, value: p.annualRent.toString() })),
+
+      // Fee note and ROF 6 amounts
+      ...FeeCalculationService.toTemplateVariables(FeeCalculationService.calculateFromFormData(formData, feeScale)),
       
       // Reference numbers
       { key: 'file_ref', value: `${formData.siteCode}/2024` },
@@ -369,10 +303,7 @@ export class DocumentGenerationService {
       // Tenant information (Safaricom)
       { key: 'tenant_name', value: 'Safaricom PLC' },
       { key: 'tenant_address', value: 'Safaricom Centre, Waiyaki Way, Westlands, P.O. Box 66827-00800, Nairobi' },
-      { key: 'poa_name', value: formData.instructingCounsel || 'Legal Counsel' },
-      
-      // Document received status
-      { key: 'documents_received', value: formData.documentsReceived?.join(', ') || '' }
+      { key: 'poa_name', value: formData.instructingCounsel || 'Legal Counsel' }
     ];
 
     console.log(`Extracted ${variables.length} variables from ROF 5 form`);
@@ -383,19 +314,54 @@ export class DocumentGenerationService {
     const blob = new Blob([document.content], { 
       type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' 
     });
+    this.downloadBlob(blob, document.name);
+  }
+
+  static downloadBlob(blob: Blob, fileName: string): void {
     const url = URL.createObjectURL(blob);
     const link = globalThis.document.createElement('a');
     link.href = url;
-    link.download = document.name;
+    link.download = fileName;
     globalThis.document.body.appendChild(link);
     link.click();
     globalThis.document.body.removeChild(link);
     URL.revokeObjectURL(url);
   }
 
-  static downloadAllDocuments(documents: GeneratedDocument[]): void {
-    documents.forEach((doc, index) => {
-      setTimeout(() => this.downloadDocument(doc), index * 500); // Stagger downloads
-    });
+  /**
+   * Renders a generated document as HTML so it can be checked before downloading
+   * @param document Generated DOCX document
+   * @returns HTML of the document body
+   */
+  static async getPreviewHtml(document: GeneratedDocument): Promise<string> {
+    try {
+      const arrayBuffer = document.content.buffer.slice(
+        document.content.byteOffset,
+        document.content.byteOffset + document.content.byteLength
+      ) as ArrayBuffer;
+
+      const mammoth = await import('mammoth');
+      const result = await mammoth.convertToHtml({ arrayBuffer });
+      return result.value;
+    } catch (error) {
+      console.error('Error previewing generated document:', error);
+      throw new Error(`Failed to preview ${document.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Downloads the documents as one ZIP, as browsers block a run of separate downloads
+   * @param documents Generated documents
+   * @param zipName Name of the ZIP file, without the extension
+   */
+  static async downloadAllDocuments(documents: GeneratedDocument[], zipName = 'documents'): Promise<void> {
+    try {
+      const zip = new JSZip();
+      documents.forEach(doc => zip.file(doc.name, doc.content));
+      this.downloadBlob(await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' }), `${zipName}.zip`);
+    } catch (error) {
+      console.error('Error bundling documents:', error);
+      throw new Error(`Failed to download documents: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 }
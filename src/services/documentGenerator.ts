@@ -1,3 +1,4 @@
+import { resolveTemplateExpression } from "@/utils/templates/templateFilters";
 
 export interface DocumentVariable {
   key: string;
@@ -19,25 +20,28 @@ export class DocumentGenerator {
       content: `
 LEASE AGREEMENT
 
-THIS LEASE AGREEMENT is made this {{current_date}} between {{landlord_name}} of {{landlord_address}} (the "Landlord") and {{tenant_name}} of {{tenant_address}} (the "Tenant").
+THIS LEASE AGREEMENT is made this {{current_date}} between {{landlord_parties}} (the "Landlord") and {{tenant_name}} of {{tenant_address}} (the "Tenant").
 
 PREMISES: The premises located at {{site_location}}, Title Number {{title_number}}, measuring approximately {{land_area}}.
 
 TERM: This lease shall commence on {{commencement_date}} for a period of {{lease_term}} years.
 
-RENT: The monthly rent shall be KES {{monthly_rent}}, payable in advance on the first day of each month, subject to annual escalation of {{escalation_rate}}% per annum.
+RENT: The monthly rent shall be Kenya Shillings {{monthly_rent | amount_words}} (K.Shs. {{monthly_rent | number}}/=), payable in advance on the first day of each month, subject to escalation of {{escalation_terms}}. The rent payable in each year of the term is:
 
-DEPOSIT: A security deposit of KES {{deposit}} shall be paid upon execution of this agreement.
+{{rent_schedule}}
+
+DEPOSIT: A security deposit of Kenya Shillings {{deposit | amount_words}} (K.Shs. {{deposit | number}}/=) shall be paid upon execution of this agreement.
 
 Site Code: {{site_code}}
 File Reference: {{file_ref}}
 
 IN WITNESS WHEREOF, the parties have executed this agreement on the date first written above.
 
-Landlord: _________________    Tenant: _________________
-{{landlord_name}}             {{tenant_name}}
+{{landlord_signature_blocks}}
+
+SIGNED for and on behalf of {{tenant_name}} (the "Tenant")    _________________________
 `,
-      variables: ['current_date', 'landlord_name', 'landlord_address', 'tenant_name', 'tenant_address', 'site_location', 'title_number', 'land_area', 'commencement_date', 'lease_term', 'monthly_rent', 'escalation_rate', 'deposit', 'site_code', 'file_ref']
+      variables: ['current_date', 'landlord_parties', 'landlord_signature_blocks', 'tenant_name', 'tenant_address', 'site_location', 'title_number', 'land_area', 'commencement_date', 'lease_term', 'monthly_rent', 'escalation_terms', 'rent_schedule', 'deposit', 'site_code', 'file_ref']
     },
     'rof6-template': {
       id: 'rof6-template',
@@ -54,7 +58,7 @@ Date: {{current_date}}
 To: In-House Counsel
 From: External Counsel
 
-RE: {{landlord_name}} - {{site_location}}
+RE: {{landlord_names}} - {{site_location}}
 
 We confirm that we have completed the above instruction and attach the following documents:
 
@@ -65,14 +69,16 @@ We confirm that we have completed the above instruction and attach the following
 
 The documents have been duly executed, stamped and registered where applicable.
 
-Total Professional Fees: KES {{total_fees}}
-VAT (16%): KES {{vat_amount}}
-Total Amount Due: KES {{total_amount}}
+Total Professional Fees: KES {{total_fees | number}}
+VAT ({{vat_rate}}%): KES {{vat_amount | number}}
+Disbursements (including stamp duty of KES {{stamp_duty | number}}): KES {{disbursements_total | number}}
+Total Amount Due: KES {{total_amount | number}}
+({{total_amount | words}})
 
 Yours faithfully,
 External Counsel
 `,
-      variables: ['site_code', 'site_location', 'file_ref', 'current_date', 'landlord_name', 'lease_type', 'total_fees', 'vat_amount', 'total_amount']
+      variables: ['site_code', 'site_location', 'file_ref', 'current_date', 'landlord_names', 'lease_type', 'total_fees', 'vat_rate', 'vat_amount', 'stamp_duty', 'disbursements_total', 'total_amount']
     },
     'licence-agreement': {
       id: 'licence-agreement',
@@ -80,23 +86,24 @@ External Counsel
       content: `
 LICENCE AGREEMENT
 
-THIS LICENCE AGREEMENT is made this {{current_date}} between {{landlord_name}} of {{landlord_address}} (the "Licensor") and {{tenant_name}} of {{tenant_address}} (the "Licensee").
+THIS LICENCE AGREEMENT is made this {{current_date}} between {{landlord_parties}} (the "Licensor") and {{tenant_name}} of {{tenant_address}} (the "Licensee").
 
 LICENSED PREMISES: The premises located at {{site_location}}, Title Number {{title_number}}, measuring approximately {{land_area}}.
 
 LICENCE PERIOD: This licence shall commence on {{commencement_date}} for a period of {{lease_term}} years.
 
-LICENCE FEE: The monthly licence fee shall be KES {{monthly_rent}}, payable monthly in advance.
+LICENCE FEE: The monthly licence fee shall be Kenya Shillings {{monthly_rent | amount_words}} (K.Shs. {{monthly_rent | number}}/=), payable monthly in advance.
 
 Site Code: {{site_code}}
 File Reference: {{file_ref}}
 
 IN WITNESS WHEREOF, the parties have executed this agreement.
 
-Licensor: _________________    Licensee: _________________
-{{landlord_name}}             {{tenant_name}}
+{{landlord_signature_blocks}}
+
+SIGNED for and on behalf of {{tenant_name}} (the "Licensee")    _________________________
 `,
-      variables: ['current_date', 'landlord_name', 'landlord_address', 'tenant_name', 'tenant_address', 'site_location', 'title_number', 'land_area', 'commencement_date', 'lease_term', 'monthly_rent', 'site_code', 'file_ref']
+      variables: ['current_date', 'landlord_parties', 'landlord_signature_blocks', 'tenant_name', 'tenant_address', 'site_location', 'title_number', 'land_area', 'commencement_date', 'lease_term', 'monthly_rent', 'site_code', 'file_ref']
     },
     'wayleave-agreement': {
       id: 'wayleave-agreement',
@@ -104,21 +111,24 @@ Licensor: _________________    Licensee: _________________
       content: `
 WAYLEAVE AGREEMENT
 
-THIS WAYLEAVE AGREEMENT is made this {{current_date}} between {{landlord_name}} of {{landlord_address}} (the "Grantor") and {{tenant_name}} of {{tenant_address}} (the "Grantee").
+THIS WAYLEAVE AGREEMENT is made this {{current_date}} between {{landlord_parties}} (the "Grantor") and {{tenant_name}} of {{tenant_address}} (the "Grantee").
 
 PROPERTY: The property located at {{site_location}}, Title Number {{title_number}}.
 
-WAYLEAVE RIGHTS: The Grantor grants to the Grantee rights to install and maintain telecommunications equipment.
+WAYLEAVE RIGHTS: The Grantor grants to the Grantee rights to install and maintain telecommunications equipment within a corridor {{wayleave_length}} metres long and {{wayleave_width}} metres wide.
 
-ANNUAL PAYMENT: KES {{annual_rent}} payable annually.
+ROUTE: {{wayleave_route}}
+
+ANNUAL PAYMENT: Kenya Shillings {{annual_rent | amount_words}} (K.Shs. {{annual_rent | number}}/=) payable annually.
 
 Site Code: {{site_code}}
 File Reference: {{file_ref}}
 
-Grantor: _________________    Grantee: _________________
-{{landlord_name}}             {{tenant_name}}
+{{landlord_signature_blocks}}
+
+SIGNED for and on behalf of {{tenant_name}} (the "Grantee")    _________________________
 `,
-      variables: ['current_date', 'landlord_name', 'landlord_address', 'tenant_name', 'tenant_address', 'site_location', 'title_number', 'annual_rent', 'site_code', 'file_ref']
+      variables: ['current_date', 'landlord_parties', 'landlord_signature_blocks', 'tenant_name', 'tenant_address', 'site_location', 'title_number', 'wayleave_length', 'wayleave_width', 'wayleave_route', 'annual_rent', 'site_code', 'file_ref']
     },
     'fee-note': {
       id: 'fee-note',
@@ -133,22 +143,30 @@ Site Code: {{site_code}}
 TO: {{tenant_name}}
     {{tenant_address}}
 
-RE: {{site_location}} - {{landlord_name}}
+RE: {{site_location}} - {{landlord_names}}
 
 Professional Services Rendered:
 - Legal advice and document preparation
 - Due diligence and title verification
 - Lease negotiation and execution
 
-Professional Fees: KES {{total_fees}}
-VAT (16%): KES {{vat_amount}}
-TOTAL AMOUNT DUE: KES {{total_amount}}
+Professional Fees (on average annual rent of KES {{average_annual_rent | number}}): KES {{total_fees | number}}
+VAT ({{vat_rate}}%): KES {{vat_amount | number}}
+
+Disbursements:
+{{disbursements}}
+Total Disbursements: KES {{disbursements_total | number}}
+
+Stamp duty is assessed at {{stamp_duty_rate}}% of the average annual rent: Kenya Shillings {{stamp_duty | amount_words}} (K.Shs. {{stamp_duty | number}}/=).
+
+TOTAL AMOUNT DUE: KES {{total_amount | number}}
+({{total_amount | words}})
 
 Payment due within 30 days of this invoice date.
 
 External Counsel
 `,
-      variables: ['current_date', 'file_ref', 'site_code', 'tenant_name', 'tenant_address', 'site_location', 'landlord_name', 'total_fees', 'vat_amount', 'total_amount']
+      variables: ['current_date', 'file_ref', 'site_code', 'tenant_name', 'tenant_address', 'site_location', 'landlord_names', 'average_annual_rent', 'total_fees', 'vat_rate', 'vat_amount', 'disbursements', 'disbursements_total', 'stamp_duty_rate', 'stamp_duty', 'total_amount']
     }
   };
 
@@ -158,13 +176,9 @@ External Counsel
       throw new Error(`Template ${templateId} not found`);
     }
 
-    let content = template.content;
-    variables.forEach(variable => {
-      const regex = new RegExp(`{{${variable.key}}}`, 'g');
-      content = content.replace(regex, variable.value);
-    });
-
-    return content;
+    return template.content.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (match, expression) =>
+      resolveTemplateExpression(expression, (name) => variables.find(v => v.key === name)?.value) ?? match
+    );
   }
 
   static generatePDF(content: string, filename: string): Blob {
@@ -1,5 +1,6 @@
 import { DocumentVariable } from "@/types/database";
 import { Document, Packer, Paragraph, TextRun, HeadingLevel } from "docx";
+import { resolveTemplateExpression } from "@/utils/templates/templateFilters";
 
 export interface GenerationOptions {
   format: 'text' | 'html' | 'docx';
@@ -17,13 +18,13 @@ export class DocumentGeneratorService {
     variables: DocumentVariable[],
     options: GenerationOptions
   ): Promise<GenerationResult> {
-    let processedContent = templateContent;
-
-    // Replace variables in template
-    variables.forEach(variable => {
-      const placeholder = `{{${variable.key}}}`;
-      const regex = new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
-      processedContent = processedContent.replace(regex, variable.value || `[${variable.key}]`);
+    // Replace variables in template, applying any filters such as {{deposit | words}}
+    const processedContent = templateContent.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (match, expression) => {
+      const value = resolveTemplateExpression(expression, (name) => {
+        const variable = variables.find(v => v.key === name);
+        return variable ? variable.value || `[${variable.key}]` : undefined;
+      });
+      return value ?? match;
     });
 
     // Format based on requested format
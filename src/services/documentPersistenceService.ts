@@ -1,5 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
-import { Document } from "@/types/templates/document";
+import { Json } from "@/integrations/supabase/types";
+import { BlankSpace, Document } from "@/types/templates/document";
 
 export interface PersistedDocument {
   id: string;
@@ -29,7 +30,7 @@ export class DocumentPersistenceService {
         content: document.content,
         original_content: document.originalContent,
         document_type: document.type,
-        blank_spaces: document.blankSpaces,
+        blank_spaces: document.blankSpaces as unknown as Json,
         created_at: document.createdAt.toISOString(),
         modified_at: document.modifiedAt.toISOString(),
         user_id: user.id
@@ -61,7 +62,7 @@ export class DocumentPersistenceService {
           .single();
 
         if (error) throw error;
-        return data;
+        return data as PersistedDocument;
       } else {
         // Insert new document
         const { data, error } = await supabase
@@ -71,7 +72,7 @@ export class DocumentPersistenceService {
           .single();
 
         if (error) throw error;
-        return data;
+        return data as PersistedDocument;
       }
     } catch (error) {
       // Check if the error is due to missing table
@@ -129,7 +130,7 @@ export class DocumentPersistenceService {
         content: doc.content,
         originalContent: doc.original_content,
         type: doc.document_type as 'system' | 'template',
-        blankSpaces: doc.blank_spaces || [],
+        blankSpaces: (doc.blank_spaces as unknown as BlankSpace[]) || [],
         createdAt: new Date(doc.created_at),
         modifiedAt: new Date(doc.modified_at)
       }));
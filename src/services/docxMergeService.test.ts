@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import { DocxMergeService } from './docxMergeService';
+
+const run = (text: string, highlight = false) =>
+  `<w:r>${highlight ? '<w:rPr><w:highlight w:val="yellow"/></w:rPr>' : ''}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+
+const paragraph = (...runs: string[]) => `<w:p>${runs.join('')}</w:p>`;
+
+const createDocx = async (body: string, parts: Record<string, string> = {}): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  zip.file('word/document.xml', `<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`);
+  Object.entries(parts).forEach(([name, xml]) => zip.file(name, xml));
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+const readPart = async (content: Uint8Array, part = 'word/document.xml') =>
+  (await JSZip.loadAsync(content)).file(part)!.async('string');
+
+// Paragraph text as Word would show it, with <w:br/> as a line break
+const paragraphTexts = (xml: string) =>
+  (xml.match(/<w:p>.*?<\/w:p>/g) || []).map(p =>
+    p.replace(/<w:br\/>/g, '\n').replace(/<w:t[^>]*>([^<]*)<\/w:t>|<[^>]+>/g, '$1')
+  );
+
+describe('DocxMergeService', () => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+  it('finds placeholders Word has split across runs', async () => {
+    const template = await createDocx(
+      paragraph(run('Landlord: {{land'), run('lord_name}} of [[ address ]]')) +
+      paragraph(run('Tenant: &lt;Tenant Name&gt;'))
+    );
+
+    const placeholders = await DocxMergeService.extractPlaceholders(template);
+
+    expect(placeholders.map(p => [p.name, p.format, p.order])).toEqual([
+      ['landlord_name', 'curly', 1],
+      ['address', 'bracket', 2],
+      ['Tenant Name', 'angle', 3]
+    ]);
+  });
+
+  it('merges values without disturbing the surrounding runs', async () => {
+    const template = await createDocx(paragraph(run('Landlord: {{land'), run('lord_name}}.')));
+    const values: Record<string, string> = { landlord_name: 'Kamau & Sons' };
+
+    const result = await DocxMergeService.mergeTemplate(template, { resolveVariable: name => values[name] });
+    const xml = await readPart(result.content);
+
+    expect(result.replacedCount).toBe(1);
+    expect(paragraphTexts(xml)).toEqual(['Landlord: Kamau &amp; Sons.']);
+  });
+
+  it('reports placeholders it could not resolve and leaves them in place', async () => {
+    const template = await createDocx(paragraph(run('Rent: {{monthly_rent}}')));
+
+    const result = await DocxMergeService.mergeTemplate(template, { resolveVariable: () => undefined });
+
+    expect(result.unresolvedPlaceholders).toEqual(['monthly_rent']);
+    expect(paragraphTexts(await readPart(result.content))).toEqual(['Rent: {{monthly_rent}}']);
+  });
+
+  it('fills dotted blanks in document order', async () => {
+    const template = await createDocx(
+      paragraph(run('Dated this ........ day of ____')) +
+      paragraph(run('Signed …………'))
+    );
+
+    const result = await DocxMergeService.mergeTemplate(template, { blankValues: ['1st', 'March'] });
+
+    expect(result.unfilledBlanks).toBe(1);
+    expect(paragraphTexts(await readPart(result.content))).toEqual(['Dated this 1st day of March', 'Signed …………']);
+  });
+
+  it('replaces highlighted text and removes the highlight', async () => {
+    const template = await createDocx(paragraph(run('Site: '), run('SITE NAME', true)));
+
+    const result = await DocxMergeService.mergeTemplate(template, {
+      resolveVariable: name => (name === 'SITE NAME' ? 'Westlands Plaza' : undefined)
+    });
+    const xml = await readPart(result.content);
+
+    expect(paragraphTexts(xml)).toEqual(['Site: Westlands Plaza']);
+    expect(xml).not.toContain('w:highlight');
+  });
+
+  it('turns line breaks in values into Word line breaks', async () => {
+    const template = await createDocx(paragraph(run('{{address}}')));
+
+    const result = await DocxMergeService.mergeTemplate(template, {
+      resolveVariable: () => 'P.O. Box 66827\nNairobi'
+    });
+
+    expect(paragraphTexts(await readPart(result.content))).toEqual(['P.O. Box 66827\nNairobi']);
+  });
+
+  it('merges headers but fills blanks only in the body', async () => {
+    const template = await createDocx(paragraph(run('{{site_code}}')), {
+      'word/header1.xml': `<w:hdr>${paragraph(run('Ref {{site_code}} ....'))}</w:hdr>`
+    });
+
+    const result = await DocxMergeService.mergeTemplate(template, {
+      resolveVariable: () => 'NBI001',
+      blankValues: ['unused']
+    });
+
+    expect(paragraphTexts(await readPart(result.content, 'word/header1.xml'))).toEqual(['Ref NBI001 ....']);
+    expect(result.unfilledBlanks).toBe(0);
+  });
+
+  it('rejects files that are not Word documents', async () => {
+    const zip = new JSZip();
+    zip.file('content.xml', '<office:document/>');
+
+    await expect(DocxMergeService.extractPlaceholders(await zip.generateAsync({ type: 'uint8array' })))
+      .rejects.toThrow('Template is not a valid Word document');
+  });
+});
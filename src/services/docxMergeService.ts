@@ -0,0 +1,362 @@
+import JSZip from 'jszip';
+
+export type DocxPlaceholderFormat = 'curly' | 'bracket' | 'angle' | 'highlight' | 'blank';
+
+export interface DocxPlaceholder {
+  name: string;
+  format: DocxPlaceholderFormat;
+  originalText: string;
+  part: string;
+  order: number;
+}
+
+export interface DocxMergeOptions {
+  resolveVariable?: (name: string, placeholder: DocxPlaceholder) => string | undefined;
+  // Values for dotted/underscored blanks in word/document.xml, in document order
+  blankValues?: string[];
+  includeHighlighted?: boolean;
+}
+
+export interface DocxMergeResult {
+  content: Uint8Array;
+  replacedCount: number;
+  unresolvedPlaceholders: string[];
+  unfilledBlanks: number;
+}
+
+interface TextSegment {
+  paragraphIndex: number;
+  xmlStart: number;
+  xmlEnd: number;
+  text: string;
+  textStart: number;
+  highlightTag?: { start: number; end: number };
+}
+
+interface PlaceholderMatch {
+  paragraphIndex: number;
+  start: number;
+  end: number;
+  placeholder: DocxPlaceholder;
+}
+
+interface XmlEdit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const MERGEABLE_PARTS = /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+
+// Paragraph boundaries, run starts, highlight properties and text nodes, in document order
+const WORDML_TOKENS = /<w:p[\s>]|<w:p\/>|<\/w:p>|<w:r[\s>]|<w:highlight\b[^>]*\/>|<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g;
+
+const VARIABLE_PATTERNS: Array<{ regex: RegExp; format: DocxPlaceholderFormat }> = [
+  { regex: /\{\{\s*([^{}]+?)\s*\}\}/g, format: 'curly' },
+  { regex: /\[\[\s*([^[\]]+?)\s*\]\]/g, format: 'bracket' },
+  { regex: /<([A-Za-z][\w .-]*)>/g, format: 'angle' }
+];
+
+const BLANK_PATTERN = /[.…_]{3,}|…{2,}/g;
+
+/**
+ * Merges values into a .docx template by editing the WordprocessingML in place,
+ * so styles, numbering, tables, headers, footers and images are left untouched.
+ */
+export class DocxMergeService {
+  static async extractPlaceholders(template: Uint8Array): Promise<DocxPlaceholder[]> {
+    const zip = await this.loadZip(template);
+    const placeholders: DocxPlaceholder[] = [];
+
+    for (const partName of this.getMergeableParts(zip)) {
+      const xml = await zip.file(partName)!.async('string');
+      const { matches } = this.scanPart(xml, partName, true, placeholders.length);
+      placeholders.push(...matches.map(m => m.placeholder));
+    }
+
+    return placeholders;
+  }
+
+  static async mergeTemplate(template: Uint8Array, options: DocxMergeOptions = {}): Promise<DocxMergeResult> {
+    console.log('Merging data into DOCX template...');
+
+    const zip = await this.loadZip(template);
+    const blankValues = options.blankValues || [];
+    const unresolved = new Set<string>();
+    let replacedCount = 0;
+    let blankIndex = 0;
+    let unfilledBlanks = 0;
+
+    for (const partName of this.getMergeableParts(zip)) {
+      const xml = await zip.file(partName)!.async('string');
+      const { segments, matches } = this.scanPart(xml, partName, options.includeHighlighted !== false, 0);
+
+      const replacements: Array<{ match: PlaceholderMatch; value: string }> = [];
+      for (const match of matches) {
+        const { placeholder } = match;
+        let value: string | undefined;
+
+        if (placeholder.format === 'blank') {
+          // Blanks are filled positionally, and only in the main document body
+          if (partName !== 'word/document.xml') continue;
+          value = blankValues[blankIndex++];
+          if (value === undefined) unfilledBlanks++;
+        } else {
+          value = options.resolveVariable?.(placeholder.name, placeholder);
+          if (value === undefined) unresolved.add(placeholder.name);
+        }
+
+        if (value !== undefined) {
+          replacements.push({ match, value });
+        }
+      }
+
+      if (replacements.length === 0) continue;
+
+      zip.file(partName, this.applyReplacements(xml, segments, replacements));
+      replacedCount += replacements.length;
+    }
+
+    const content = await zip.generateAsync({
+      type: 'uint8array',
+      mimeType: DOCX_MIME_TYPE,
+      compression: 'DEFLATE'
+    });
+
+    console.log(`DOCX merge completed: ${replacedCount} placeholders replaced, ${unresolved.size} unresolved, ${unfilledBlanks} blanks unfilled`);
+
+    return {
+      content,
+      replacedCount,
+      unresolvedPlaceholders: Array.from(unresolved),
+      unfilledBlanks
+    };
+  }
+
+  private static async loadZip(template: Uint8Array): Promise<JSZip> {
+    try {
+      const zip = await JSZip.loadAsync(template);
+      if (!zip.file('word/document.xml')) {
+        throw new Error('word/document.xml not found');
+      }
+      return zip;
+    } catch (error) {
+      throw new Error(`Template is not a valid Word document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static getMergeableParts(zip: JSZip): string[] {
+    // Keep the main document first so blank ordering follows the body text
+    return Object.keys(zip.files)
+      .filter(name => MERGEABLE_PARTS.test(name))
+      .sort((a, b) => (a === 'word/document.xml' ? -1 : b === 'word/document.xml' ? 1 : a.localeCompare(b)));
+  }
+
+  /**
+   * Walk the part paragraph by paragraph, joining the text of every run so that
+   * placeholders split across runs by Word are still found.
+   */
+  private static scanPart(
+    xml: string,
+    partName: string,
+    includeHighlighted: boolean,
+    orderOffset: number
+  ): { segments: TextSegment[]; matches: PlaceholderMatch[] } {
+    const segments: TextSegment[] = [];
+    const matches: PlaceholderMatch[] = [];
+    let paragraph: TextSegment[] = [];
+    let paragraphText = '';
+    let paragraphIndex = 0;
+    let runHighlight: { start: number; end: number } | undefined;
+
+    const flushParagraph = () => {
+      if (paragraph.length > 0) {
+        matches.push(...this.findMatches(paragraph, paragraphText, partName, includeHighlighted, orderOffset + matches.length));
+        paragraphIndex++;
+      }
+      paragraph = [];
+      paragraphText = '';
+    };
+
+    const tokens = new RegExp(WORDML_TOKENS.source, 'g');
+    let token: RegExpExecArray | null;
+    while ((token = tokens.exec(xml)) !== null) {
+      const tag = token[0];
+
+      if (tag.startsWith('<w:t')) {
+        const segment: TextSegment = {
+          paragraphIndex,
+          xmlStart: token.index,
+          xmlEnd: token.index + tag.length,
+          text: this.unescapeXml(token[1]),
+          textStart: paragraphText.length,
+          highlightTag: runHighlight
+        };
+        paragraph.push(segment);
+        segments.push(segment);
+        paragraphText += segment.text;
+      } else if (tag.startsWith('<w:highlight')) {
+        runHighlight = /w:val="none"/.test(tag)
+          ? undefined
+          : { start: token.index, end: token.index + tag.length };
+      } else if (tag.startsWith('<w:r')) {
+        runHighlight = undefined;
+      } else {
+        flushParagraph();
+        runHighlight = undefined;
+      }
+    }
+    flushParagraph();
+
+    return { segments, matches };
+  }
+
+  private static findMatches(
+    paragraph: TextSegment[],
+    text: string,
+    part: string,
+    includeHighlighted: boolean,
+    orderOffset: number
+  ): PlaceholderMatch[] {
+    const matches: PlaceholderMatch[] = [];
+    const overlaps = (start: number, end: number) => matches.some(m => start < m.end && end > m.start);
+    const add = (start: number, end: number, name: string, format: DocxPlaceholderFormat) => {
+      if (end <= start || overlaps(start, end)) return;
+      matches.push({
+        paragraphIndex: paragraph[0].paragraphIndex,
+        start,
+        end,
+        placeholder: { name, format, originalText: text.slice(start, end), part, order: 0 }
+      });
+    };
+
+    VARIABLE_PATTERNS.forEach(({ regex: pattern, format }) => {
+      const regex = new RegExp(pattern.source, 'g');
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(text)) !== null) {
+        add(match.index, match.index + match[0].length, match[1].trim(), format);
+      }
+    });
+
+    if (includeHighlighted) {
+      // Consecutive highlighted runs form a single placeholder named by their text
+      let index = 0;
+      while (index < paragraph.length) {
+        if (!paragraph[index].highlightTag) {
+          index++;
+          continue;
+        }
+        const first = paragraph[index];
+        let last = first;
+        while (index + 1 < paragraph.length && paragraph[index + 1].highlightTag) {
+          last = paragraph[++index];
+        }
+        const start = first.textStart;
+        const end = last.textStart + last.text.length;
+        const name = text.slice(start, end).trim();
+        // Highlighted dotted blanks are still positional blanks
+        if (name && !/^[.…_\s]+$/.test(name)) add(start, end, name, 'highlight');
+        index++;
+      }
+    }
+
+    const blankRegex = new RegExp(BLANK_PATTERN.source, 'g');
+    let blank: RegExpExecArray | null;
+    while ((blank = blankRegex.exec(text)) !== null) {
+      add(blank.index, blank.index + blank[0].length, 'blank', 'blank');
+    }
+
+    return matches
+      .sort((a, b) => a.start - b.start)
+      .map((m, i) => ({ ...m, placeholder: { ...m.placeholder, order: orderOffset + i + 1 } }));
+  }
+
+  private static applyReplacements(
+    xml: string,
+    segments: TextSegment[],
+    replacements: Array<{ match: PlaceholderMatch; value: string }>
+  ): string {
+    const newText = new Map<TextSegment, string>();
+    const highlightsToRemove = new Map<number, { start: number; end: number }>();
+
+    const paragraphs = new Map<number, TextSegment[]>();
+    segments.forEach(segment => {
+      paragraphs.set(segment.paragraphIndex, [...(paragraphs.get(segment.paragraphIndex) || []), segment]);
+    });
+
+    // Apply right-to-left so earlier offsets within a segment stay valid
+    const ordered = [...replacements].sort((a, b) => b.match.placeholder.order - a.match.placeholder.order);
+
+    for (const { match, value } of ordered) {
+      const paragraph = paragraphs.get(match.paragraphIndex) || [];
+
+      let inserted = false;
+      for (const segment of paragraph) {
+        const segStart = segment.textStart;
+        const segEnd = segStart + segment.text.length;
+        if (match.end <= segStart || match.start >= segEnd) continue;
+
+        const current = newText.get(segment) ?? segment.text;
+        const localStart = Math.max(match.start, segStart) - segStart;
+        const localEnd = Math.min(match.end, segEnd) - segStart;
+
+        newText.set(
+          segment,
+          current.slice(0, localStart) + (inserted ? '' : value) + current.slice(localEnd)
+        );
+        inserted = true;
+
+        if (match.placeholder.format === 'highlight' && segment.highlightTag) {
+          highlightsToRemove.set(segment.highlightTag.start, segment.highlightTag);
+        }
+      }
+    }
+
+    const edits: XmlEdit[] = [];
+    newText.forEach((text, segment) => {
+      edits.push({ start: segment.xmlStart, end: segment.xmlEnd, replacement: this.buildTextNodes(text) });
+    });
+    highlightsToRemove.forEach(tag => {
+      edits.push({ start: tag.start, end: tag.end, replacement: '' });
+    });
+
+    let result = xml;
+    edits
+      .sort((a, b) => b.start - a.start)
+      .forEach(edit => {
+        result = result.slice(0, edit.start) + edit.replacement + result.slice(edit.end);
+      });
+
+    return result;
+  }
+
+  /**
+   * Line breaks in merged values become <w:br/> within the same run.
+   */
+  private static buildTextNodes(text: string): string {
+    return text
+      .split('\n')
+      .map(line => `<w:t xml:space="preserve">${this.escapeXml(line)}</w:t>`)
+      .join('<w:br/>');
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private static unescapeXml(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+      .replace(/&#x([0-9a-fA-F]+);/g, (_, code) => String.fromCharCode(parseInt(code, 16)))
+      .replace(/&amp;/g, '&');
+  }
+}
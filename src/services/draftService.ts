@@ -1,5 +1,16 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+import {
+  LandlordParty,
+  ROF5FieldKey,
+  ROF5FormData,
+  formatFieldValue,
+  getFieldDefinition,
+  getFieldKeys,
+  normalizeROF5FormData
+} from "@/schemas/rof5Schema";
 
-import { ROF5FormData } from "@/hooks/useROF5Form";
+export type DraftSaveKind = 'autosave' | 'manual' | 'migrated' | 'imported';
 
 export interface SavedDraft {
   id: string;
@@ -7,65 +18,413 @@ export interface SavedDraft {
   formData: ROF5FormData;
   savedAt: string;
   lastModified: string;
+  currentRevision: number;
+  ownerId: string;
+  ownerEmail: string;
+  // Whether the draft belongs to a colleague who shared it with the current user
+  sharedWithMe: boolean;
 }
 
+export interface DraftRevision {
+  id: string;
+  draftId: string;
+  revisionNumber: number;
+  formData: ROF5FormData;
+  saveKind: DraftSaveKind;
+  savedByEmail: string;
+  createdAt: string;
+}
+
+export interface DraftShare {
+  draftId: string;
+  userId: string;
+  email: string;
+  sharedAt: string;
+}
+
+export interface DraftFieldChange {
+  field: ROF5FieldKey;
+  label: string;
+  before: string;
+  after: string;
+}
+
+// Drafts saved in the browser before they were stored on the server
+interface LegacyDraft {
+  id: string;
+  name: string;
+  formData: ROF5FormData;
+  savedAt: string;
+  lastModified: string;
+}
+
+const isMissingTable = (error: { code?: string; message?: string }) =>
+  error.code === '42P01' || !!error.message?.includes('does not exist');
+
 export class DraftService {
-  private static readonly STORAGE_KEY = 'rof5_drafts';
-
-  static saveDraft(formData: ROF5FormData, name?: string): SavedDraft {
-    const drafts = this.getAllDrafts();
-    const timestamp = new Date().toISOString();
-    
-    const draftName = name || `Draft_${formData.siteCode || 'New'}_${new Date().toLocaleDateString()}`;
-    
-    const draft: SavedDraft = {
-      id: `draft_${Date.now()}`,
-      name: draftName,
-      formData: { ...formData },
-      savedAt: timestamp,
-      lastModified: timestamp
-    };
+  private static readonly LEGACY_STORAGE_KEY = 'rof5_drafts';
+
+  // Migration in progress, shared so that several components signing in at once run it once
+  private static migration: Promise<number> | null = null;
+
+  /**
+   * Open drafts owned by or shared with the current user, most recently saved first
+   */
+  static async getAllDrafts(): Promise<SavedDraft[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from('rof5_drafts')
+        .select('*')
+        .eq('status', 'open')
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('rof5_drafts table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row, user?.id));
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+      throw new Error(`Failed to load drafts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-    drafts.push(draft);
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(drafts));
-    
-    console.log('Draft saved:', draft.name);
-    return draft;
+  static async loadDraft(draftId: string): Promise<SavedDraft | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from('rof5_drafts')
+        .select('*')
+        .eq('id', draftId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? this.fromRow(data, user?.id) : null;
+    } catch (error) {
+      console.error('Error loading draft:', error);
+      throw new Error(`Failed to load draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a draft with the form as its first revision
+   */
+  static async createDraft(formData: ROF5FormData, name?: string, saveKind: DraftSaveKind = 'manual'): Promise<SavedDraft> {
+    try {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to save drafts');
+      }
+
+      // The draft and its first revision are created together, so a failed save leaves nothing behind
+      const { data, error } = await supabase.rpc('create_rof5_draft', {
+        draft_name: name?.trim() || this.getDefaultName(formData),
+        draft_form_data: normalizeROF5FormData(formData) as unknown as Json,
+        revision_save_kind: saveKind
+      });
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error('The draft was not created');
+      }
+
+      console.log('Draft saved:', data[0].name);
+      return this.fromRow(data[0], user.id);
+    } catch (error) {
+      console.error('Error creating draft:', error);
+      throw new Error(`Failed to save draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  static getAllDrafts(): SavedDraft[] {
+  /**
+   * Save the form as the next revision of a draft, renaming it when a name is given
+   */
+  static async saveRevision(
+    draftId: string,
+    formData: ROF5FormData,
+    saveKind: DraftSaveKind = 'manual',
+    name?: string
+  ): Promise<SavedDraft> {
     try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
+      await this.insertRevision(draftId, formData, saveKind);
+
+      if (name?.trim()) {
+        const { error } = await supabase
+          .from('rof5_drafts')
+          .update({ name: name.trim() })
+          .eq('id', draftId);
+
+        if (error) throw error;
+      }
+
+      const draft = await this.loadDraft(draftId);
+      if (!draft) {
+        throw new Error('Draft no longer exists');
+      }
+      return draft;
+    } catch (error) {
+      console.error('Error saving draft revision:', error);
+      throw new Error(`Failed to save draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async deleteDraft(draftId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('rof5_drafts')
+        .delete()
+        .eq('id', draftId);
+
+      if (error) throw error;
+      console.log('Draft deleted:', draftId);
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      throw new Error(`Failed to delete draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Close a draft once an instruction has been submitted from it. The draft and its
+   * revisions are kept but no longer listed. Only the owner can close a draft; it stays open
+   * when a colleague submits from it.
+   */
+  static async markSubmitted(draftId: string, instructionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('rof5_drafts')
+      .update({ status: 'submitted', instruction_id: instructionId })
+      .eq('id', draftId);
+
+    if (error) {
+      console.error('Error closing submitted draft:', error);
+      throw new Error(`Failed to close draft: ${error.message}`);
+    }
+  }
+
+  /**
+   * Revisions of a draft, newest first
+   */
+  static async getRevisions(draftId: string): Promise<DraftRevision[]> {
+    try {
+      const { data, error } = await supabase
+        .from('rof5_draft_revisions')
+        .select('*')
+        .eq('draft_id', draftId)
+        .order('revision_number', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(row => this.revisionFromRow(row));
+    } catch (error) {
+      console.error('Error loading draft revisions:', error);
+      throw new Error(`Failed to load draft history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Fields that differ between two versions of a draft, in form order
+   */
+  static diffRevisions(before: ROF5FormData, after: ROF5FormData): DraftFieldChange[] {
+    const previous = normalizeROF5FormData(before);
+    const next = normalizeROF5FormData(after);
+
+    return getFieldKeys()
+      .map(field => ({
+        field,
+        label: getFieldDefinition(field).label,
+        before: this.describeValue(field, previous),
+        after: this.describeValue(field, next)
+      }))
+      .filter(change => change.before !== change.after);
+  }
+
+  /**
+   * Share a draft with a colleague so they can complete it
+   * @param colleagueEmail Email the colleague signs in with
+   */
+  static async shareDraft(draftId: string, colleagueEmail: string): Promise<void> {
+    const { error } = await supabase.rpc('share_rof5_draft', {
+      draft_id: draftId,
+      colleague_email: colleagueEmail.trim()
+    });
+
+    if (error) {
+      console.error('Error sharing draft:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async getShares(draftId: string): Promise<DraftShare[]> {
+    const { data, error } = await supabase
+      .from('rof5_draft_shares')
+      .select('*')
+      .eq('draft_id', draftId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading draft shares:', error);
+      throw new Error(`Failed to load draft shares: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      draftId: row.draft_id,
+      userId: row.shared_with,
+      email: row.shared_with_email,
+      sharedAt: row.created_at
+    }));
+  }
+
+  static async removeShare(draftId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('rof5_draft_shares')
+      .delete()
+      .eq('draft_id', draftId)
+      .eq('shared_with', userId);
+
+    if (error) {
+      console.error('Error removing draft share:', error);
+      throw new Error(`Failed to stop sharing draft: ${error.message}`);
+    }
+  }
+
+  /**
+   * Moves drafts saved in this browser to the signed-in user's server drafts and
+   * clears them from localStorage. Drafts already migrated are skipped, so running
+   * this again after a failure is safe.
+   * @returns Number of drafts migrated
+   */
+  static migrateLocalDrafts(): Promise<number> {
+    if (!this.migration) {
+      this.migration = this.runMigration().finally(() => {
+        this.migration = null;
+      });
+    }
+    return this.migration;
+  }
+
+  /**
+   * Name for a draft that was not given one, e.g. "NBI001 Westlands Plaza – John Kamau"
+   */
+  static getDefaultName(formData: ROF5FormData): string {
+    const site = [formData.siteCode, formData.siteName].map(part => part?.trim()).filter(Boolean).join(' ');
+    const landlord = formData.landlordName?.trim();
+
+    if (site && landlord) return `${site} – ${landlord}`;
+    return site || landlord || 'Untitled ROF 5';
+  }
+
+  private static async runMigration(): Promise<number> {
+    const legacyDrafts = this.getLegacyDrafts();
+    if (legacyDrafts.length === 0) return 0;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return 0;
+
+    let migrated = 0;
+    let failed = false;
+    for (const legacy of legacyDrafts) {
+      const { data, error } = await supabase.rpc('create_rof5_draft', {
+        draft_name: legacy.name,
+        draft_form_data: normalizeROF5FormData(legacy.formData) as unknown as Json,
+        revision_save_kind: 'migrated',
+        draft_legacy_id: legacy.id,
+        draft_created_at: legacy.savedAt
+      });
+
+      if (error) {
+        if (isMissingTable(error)) return migrated;
+        console.error('Error migrating draft:', legacy.name, error);
+        failed = true;
+        continue;
+      }
+
+      // No row comes back when the draft was migrated on an earlier attempt
+      if (data && data.length > 0) {
+        migrated++;
+      }
+    }
+
+    // Browser drafts are only cleared once every one of them is on the server
+    if (!failed) {
+      localStorage.removeItem(this.LEGACY_STORAGE_KEY);
+    }
+    console.log(`Migrated ${migrated} browser drafts`);
+    return migrated;
+  }
+
+  private static getLegacyDrafts(): LegacyDraft[] {
+    try {
+      const stored = localStorage.getItem(this.LEGACY_STORAGE_KEY);
       return stored ? JSON.parse(stored) : [];
     } catch (error) {
-      console.error('Error loading drafts:', error);
+      console.error('Error reading browser drafts:', error);
       return [];
     }
   }
 
-  static loadDraft(draftId: string): SavedDraft | null {
-    const drafts = this.getAllDrafts();
-    return drafts.find(draft => draft.id === draftId) || null;
+  private static async insertRevision(draftId: string, formData: ROF5FormData, saveKind: DraftSaveKind): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    // revision_number is assigned by the database
+    const { error } = await supabase
+      .from('rof5_draft_revisions')
+      .insert({
+        draft_id: draftId,
+        revision_number: 0,
+        form_data: normalizeROF5FormData(formData) as unknown as Json,
+        save_kind: saveKind,
+        saved_by: user?.id ?? null,
+        saved_by_email: user?.email ?? ''
+      });
+
+    if (error) throw error;
   }
 
-  static deleteDraft(draftId: string): void {
-    const drafts = this.getAllDrafts().filter(draft => draft.id !== draftId);
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(drafts));
-    console.log('Draft deleted:', draftId);
+  private static describeValue(field: ROF5FieldKey, formData: ROF5FormData): string {
+    const definition = getFieldDefinition(field);
+
+    if (definition.format === 'party-list') {
+      return (formData[field] as LandlordParty[])
+        .map(party => [party.name, party.role, party.idNumber, party.kraPin, party.address].filter(Boolean).join(', '))
+        .join('; ');
+    }
+
+    if (definition.format === 'select') {
+      const value = formData[field] as string;
+      return definition.options?.find(option => option.value === value)?.label ?? value;
+    }
+
+    return formatFieldValue(field, formData);
+  }
+
+  private static fromRow(row: Tables<'rof5_drafts'>, userId?: string): SavedDraft {
+    return {
+      id: row.id,
+      name: row.name,
+      formData: normalizeROF5FormData(row.form_data as unknown as Partial<ROF5FormData>),
+      savedAt: row.created_at,
+      lastModified: row.updated_at,
+      currentRevision: row.current_revision,
+      ownerId: row.owner_id,
+      ownerEmail: row.owner_email,
+      sharedWithMe: !!userId && row.owner_id !== userId
+    };
   }
 
-  static updateDraft(draftId: string, formData: ROF5FormData): SavedDraft | null {
-    const drafts = this.getAllDrafts();
-    const draftIndex = drafts.findIndex(draft => draft.id === draftId);
-    
-    if (draftIndex === -1) return null;
-    
-    drafts[draftIndex].formData = { ...formData };
-    drafts[draftIndex].lastModified = new Date().toISOString();
-    
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(drafts));
-    console.log('Draft updated:', drafts[draftIndex].name);
-    
-    return drafts[draftIndex];
+  private static revisionFromRow(row: Tables<'rof5_draft_revisions'>): DraftRevision {
+    return {
+      id: row.id,
+      draftId: row.draft_id,
+      revisionNumber: row.revision_number,
+      formData: normalizeROF5FormData(row.form_data as unknown as Partial<ROF5FormData>),
+      saveKind: row.save_kind as DraftSaveKind,
+      savedByEmail: row.saved_by_email,
+      createdAt: row.created_at
+    };
   }
 }
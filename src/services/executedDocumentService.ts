@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+import { DocumentGenerationService } from "./documentGenerationService";
+
+const BUCKET = 'generated-documents';
+const FOLDER = 'executed';
+
+export class ExecutedDocumentService {
+  /**
+   * Uploads a signed copy under the instruction's folder
+   * @returns Storage path, which is what the instruction records
+   */
+  static async uploadDocument(instructionId: string, file: File): Promise<string> {
+    try {
+      const storagePath = `${instructionId}/${FOLDER}/${Date.now()}-${file.name.replace(/[\\/]/g, '_')}`;
+      const { error } = await supabase.storage
+        .from(BUCKET)
+        .upload(storagePath, file, {
+          contentType: file.type || 'application/octet-stream'
+        });
+
+      if (error) throw error;
+      return storagePath;
+    } catch (error) {
+      console.error('Error uploading executed document:', error);
+      throw new Error(`Failed to upload ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async downloadDocument(storagePath: string): Promise<void> {
+    const fileName = this.getFileName(storagePath);
+
+    try {
+      const { data, error } = await supabase.storage
+        .from(BUCKET)
+        .download(storagePath);
+
+      if (error) throw error;
+      DocumentGenerationService.downloadBlob(data, fileName);
+    } catch (error) {
+      console.error('Error downloading executed document:', error);
+      throw new Error(`Failed to download ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async removeDocument(storagePath: string): Promise<void> {
+    const { error } = await supabase.storage.from(BUCKET).remove([storagePath]);
+    if (error) {
+      console.error('Error removing executed document:', error);
+    }
+  }
+
+  /**
+   * Instructions recorded only the file name before executed documents were stored
+   */
+  static isStored(entry: string): boolean {
+    return entry.includes(`/${FOLDER}/`);
+  }
+
+  static getFileName(entry: string): string {
+    if (!this.isStored(entry)) return entry;
+    return entry.split('/').pop()!.replace(/^\d+-/, '');
+  }
+}
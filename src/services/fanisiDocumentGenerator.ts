@@ -1,13 +1,21 @@
-import { Document, Packer, Paragraph, TextRun } from 'docx';
-import { FanisiROF5Data, FanisiTemplateVariable, FanisiValidationResult, FanisiGeneratedDocument, FanisiGenerationLog } from '@/types/fanisi';
+import { DocxMergeService } from './docxMergeService';
+import { FanisiROF5Data, FanisiTemplateVariable, FanisiValidationResult, FanisiGeneratedDocument, FanisiGenerationLog, FanisiGenerationLogDetails } from '@/types/fanisi';
 import { ROF5FormData } from '@/hooks/useROF5Form';
+import { toFanisiFields } from '@/schemas/rof5Schema';
+import { KenyanIdentifierType, validateKenyanIdentifier, validateLandlordIdentifier } from '@/utils/kenyanIdentifiers';
+import { RentScheduleService } from './rentScheduleService';
+import { FeeCalculationService, FeeScale } from './feeCalculationService';
+import { LandlordPartyService } from './landlordPartyService';
+import { parseTemplateExpression, resolveTemplateExpression } from '@/utils/templates/templateFilters';
+import { GenerationLogService } from './generationLogService';
 
 export class FanisiDocumentGenerator {
   private static readonly EXPECTED_VARIABLES: (keyof FanisiROF5Data)[] = [
     'Site_Name', 'Site_Number', 'Title_Number', 'Property_Location', 'Property_Size',
     'Landlord_Name', 'Landlord_ID', 'Landlord_PIN', 'Landlord_Company_Name', 
     'Landlord_Certificate_Number', 'Landlord_Postal_Address', 'Landlord_Email',
-    'Landlord_Contact_Person', 'Landlord_Contact_Number', 'Commencement_Date',
+    'Landlord_Contact_Person', 'Landlord_Contact_Number', 'Landlord_Parties',
+    'Landlord_Signature_Blocks', 'Commencement_Date',
     'Term_Years', 'Renewal_Term', 'Permitted_Use', 'Escalation_Rate', 'Base_Rent',
     'Rent_Year_1', 'Rent_Year_2', 'Rent_Year_3', 'Rent_Year_4', 'Rent_Year_5',
     'Rent_Year_6', 'Rent_Year_7', 'Rent_Year_8', 'Rent_Year_9', 'Rent_Year_10',
@@ -20,6 +28,15 @@ export class FanisiDocumentGenerator {
     'Stamp_Duty', 'Final_Total'
   ];
 
+  private static readonly IDENTIFIER_FIELDS: Partial<Record<keyof FanisiROF5Data, KenyanIdentifierType>> = {
+    Title_Number: 'title-number',
+    Landlord_PIN: 'kra-pin',
+    Landlord_Certificate_Number: 'company-number',
+    Landlord_Contact_Number: 'phone',
+    Tenant_Company_Number: 'company-number',
+    Tenant_Phone: 'phone'
+  };
+
   private static readonly SAFARICOM_DEFAULTS: Partial<FanisiROF5Data> = {
     Tenant_Name: 'Safaricom PLC',
     Tenant_Company_Number: 'C.8/2002',
@@ -33,49 +50,35 @@ export class FanisiDocumentGenerator {
   /**
    * Convert ROF5 form data to Fanisi format with calculated rent schedule
    */
-  static convertROF5ToFanisi(rof5Data: ROF5FormData): FanisiROF5Data {
+  static convertROF5ToFanisi(rof5Data: ROF5FormData, feeScale: FeeScale): FanisiROF5Data {
     console.log('Converting ROF5 data to Fanisi format...');
     
-    const baseRent = parseFloat(rof5Data.monthlyRent || '0');
-    const escalationRate = parseFloat(rof5Data.rentEscalation || '5') / 100;
-    const termYears = parseInt(rof5Data.leaseTerm || '15');
+    const schedule = RentScheduleService.calculateFromFormData(rof5Data);
+    const baseRent = schedule.terms.monthlyRent;
+    const fees = FeeCalculationService.calculateFromFormData(rof5Data, feeScale);
+    const parties = Object.fromEntries(
+      LandlordPartyService.toTemplateVariables(rof5Data).map(variable => [variable.key, variable.value])
+    );
     
-    // Calculate yearly rent schedule with escalation
+    // The Fanisi templates carry fifteen rent slots for the initial term
     const rentSchedule: { [key: string]: string } = {};
     for (let year = 1; year <= 15; year++) {
-      const yearlyRent = year <= termYears 
-        ? Math.round(baseRent * 12 * Math.pow(1 + escalationRate, year - 1))
-        : 0;
-      rentSchedule[`Rent_Year_${year}`] = yearlyRent.toString();
+      const period = schedule.periods.find(p => p.year === year && p.term === 'initial');
+      rentSchedule[`Rent_Year_${year}`] = (period?.annualRent ?? 0).toString();
     }
 
     const currentDate = new Date().toISOString().split('T')[0];
     
     const fanisiData: FanisiROF5Data = {
-      // Site Information
-      Site_Name: rof5Data.siteName || '',
-      Site_Number: rof5Data.siteCode || '',
-      Title_Number: rof5Data.titleNumber || '',
-      Property_Location: rof5Data.siteLocation || '',
-      Property_Size: rof5Data.landArea || '',
+      // Fields taken straight from the ROF5 form
+      ...toFanisiFields(rof5Data),
       
-      // Landlord Information
-      Landlord_Name: rof5Data.landlordName || '',
-      Landlord_ID: rof5Data.landlordId || '',
-      Landlord_PIN: '', // Not in ROF5 form
+      // Landlord details derived from the form
       Landlord_Company_Name: rof5Data.landlordType === 'company' ? rof5Data.landlordName : '',
-      Landlord_Certificate_Number: '', // Not in ROF5 form
-      Landlord_Postal_Address: rof5Data.landlordAddress || '',
-      Landlord_Email: rof5Data.landlordEmail || '',
+      Landlord_Certificate_Number: rof5Data.landlordType === 'company' ? rof5Data.landlordId : '',
       Landlord_Contact_Person: rof5Data.landlordName || '',
-      Landlord_Contact_Number: rof5Data.landlordPhone || '',
-      
-      // Lease Terms
-      Commencement_Date: rof5Data.commencementDate || '',
-      Term_Years: rof5Data.leaseTerm || '',
-      Renewal_Term: rof5Data.leaseTerm || '', // Assuming same as initial term
-      Permitted_Use: rof5Data.landUse || 'Telecommunications Infrastructure',
-      Escalation_Rate: rof5Data.rentEscalation || '5',
+      Landlord_Parties: parties.landlord_parties,
+      Landlord_Signature_Blocks: parties.landlord_signature_blocks,
       Base_Rent: (baseRent * 12).toString(), // Annual base rent
       
       // Yearly Rent Schedule
@@ -90,7 +93,6 @@ export class FanisiDocumentGenerator {
       ...this.SAFARICOM_DEFAULTS,
       
       // Document Metadata
-      Document_Type: rof5Data.leaseType || 'Lease Agreement',
       ROF6_Date: currentDate,
       Instruction_Date: currentDate,
       Execution_Date: '',
@@ -99,10 +101,10 @@ export class FanisiDocumentGenerator {
       File_Closure_Date: '',
       
       // Financial Information
-      Fee_Note_Amount: '',
-      VAT_Amount: '',
-      Stamp_Duty: '',
-      Final_Total: ''
+      Fee_Note_Amount: fees.professionalFee.toString(),
+      VAT_Amount: fees.vat.toString(),
+      Stamp_Duty: fees.stampDuty.toString(),
+      Final_Total: fees.total.toString()
     } as FanisiROF5Data;
 
     console.log('Fanisi data conversion completed');
@@ -180,23 +182,47 @@ export class FanisiDocumentGenerator {
       }
     });
 
-    const isValid = missingFields.length === 0;
+    const invalidFields = this.validateIdentifiers(rof5Data, foundVariables);
+    const isValid = missingFields.length === 0 && invalidFields.length === 0;
     
     console.log('Validation result:', {
       isValid,
       foundVariables: foundVariables.length,
       missingFields: missingFields.length,
+      invalidFields: invalidFields.length,
       unmappedVariables: unmappedVariables.length
     });
 
     return {
       isValid,
       missingFields,
+      invalidFields,
       foundVariables,
       unmappedVariables
     };
   }
 
+  /**
+   * Check the identifiers a template uses against the Kenyan format rules
+   * @returns "Field: message" for each invalid identifier
+   */
+  private static validateIdentifiers(rof5Data: FanisiROF5Data, usedVariables: string[]): string[] {
+    const errors: string[] = [];
+    const check = (field: keyof FanisiROF5Data, error: string | undefined) => {
+      if (error && usedVariables.includes(field)) errors.push(`${field}: ${error}`);
+    };
+
+    (Object.keys(this.IDENTIFIER_FIELDS) as (keyof FanisiROF5Data)[]).forEach(field => {
+      check(field, validateKenyanIdentifier(this.IDENTIFIER_FIELDS[field], rof5Data[field] || ''));
+    });
+    check('Landlord_ID', validateLandlordIdentifier(
+      rof5Data.Landlord_Company_Name ? 'company' : 'individual',
+      rof5Data.Landlord_ID || ''
+    ));
+
+    return errors;
+  }
+
   /**
    * Merge ROF5 data into template content
    */
@@ -213,26 +239,7 @@ export class FanisiDocumentGenerator {
     const sortedVariables = [...templateVariables].sort((a, b) => b.position - a.position);
     
     sortedVariables.forEach(variable => {
-      const variableName = variable.name as keyof FanisiROF5Data;
-      let replacementValue = rof5Data[variableName]?.toString() || 'N/A';
-      
-      // Format specific fields
-      if (variableName.includes('Date') && replacementValue !== 'N/A') {
-        try {
-          const date = new Date(replacementValue);
-          replacementValue = date.toLocaleDateString('en-GB');
-        } catch (error) {
-          console.warn(`Invalid date format for ${variableName}:`, replacementValue);
-        }
-      }
-      
-      // Format currency fields
-      if (variableName.includes('Rent') || variableName.includes('Amount') || variableName.includes('Total')) {
-        const numValue = parseFloat(replacementValue);
-        if (!isNaN(numValue) && numValue > 0) {
-          replacementValue = `KES ${numValue.toLocaleString()}`;
-        }
-      }
+      const replacementValue = this.formatVariableValue(variable.name, rof5Data) ?? 'N/A';
       
       // Replace the variable with its value
       const regex = new RegExp(this.escapeRegExp(variable.originalText), 'g');
@@ -253,40 +260,26 @@ export class FanisiDocumentGenerator {
     console.log('Generating final DOCX document...');
     
     try {
-      // For now, we'll extract text content and work with that
-      // In a full implementation, you'd want to preserve the original DOCX structure
-      const mammoth = await import('mammoth');
-      const arrayBuffer = templateContent.buffer.slice(
-        templateContent.byteOffset,
-        templateContent.byteOffset + templateContent.byteLength
-      );
-      
-      const result = await mammoth.convertToHtml({ arrayBuffer });
-      let htmlContent = result.value;
-      
-      // Extract variables from HTML content
-      const templateVariables = await this.extractTemplateVariables(htmlContent);
+      // Extract variables straight from the Word XML so split runs are handled
+      const templateVariables = await this.extractTemplateVariablesFromDocx(templateContent);
       
       // Validate data
       const validation = this.validateROF5Data(rof5Data, templateVariables);
       if (!validation.isValid) {
-        throw new Error(`Missing required fields: ${validation.missingFields.join(', ')}`);
+        throw new Error([
+          validation.missingFields.length > 0 ? `Missing required fields: ${validation.missingFields.join(', ')}` : '',
+          validation.invalidFields.length > 0 ? `Invalid fields: ${validation.invalidFields.join('; ')}` : ''
+        ].filter(Boolean).join('. '));
       }
       
-      // Merge data into template
-      const mergedContent = this.mergeDataIntoTemplate(htmlContent, rof5Data, templateVariables);
-      
-      // Convert back to DOCX
-      const doc = new Document({
-        sections: [{
-          properties: {},
-          children: this.htmlToParagraphs(mergedContent)
-        }]
+      // Merge data into the original DOCX, preserving its formatting
+      const mergeResult = await DocxMergeService.mergeTemplate(templateContent, {
+        resolveVariable: (expression) => resolveTemplateExpression(expression, (name) => this.formatVariableValue(name, rof5Data))
       });
       
-      const docBuffer = await Packer.toBlob(doc);
-      const arrayBufferResult = await docBuffer.arrayBuffer();
-      const uint8Array = new Uint8Array(arrayBufferResult);
+      if (mergeResult.unresolvedPlaceholders.length > 0) {
+        console.warn('Unresolved template variables left in document:', mergeResult.unresolvedPlaceholders);
+      }
       
       // Generate filename
       const fileName = this.generateFileName(rof5Data);
@@ -294,7 +287,7 @@ export class FanisiDocumentGenerator {
       const generatedDoc: FanisiGeneratedDocument = {
         id: `fanisi-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         fileName,
-        content: uint8Array,
+        content: mergeResult.content,
         documentType: rof5Data.Document_Type,
         siteName: rof5Data.Site_Name,
         generatedAt: new Date().toISOString(),
@@ -310,6 +303,61 @@ export class FanisiDocumentGenerator {
     }
   }
 
+  /**
+   * Extract template variables from the DOCX itself rather than a mammoth HTML rendering
+   */
+  static async extractTemplateVariablesFromDocx(templateContent: Uint8Array): Promise<FanisiTemplateVariable[]> {
+    const placeholders = await DocxMergeService.extractPlaceholders(templateContent);
+    const variables: FanisiTemplateVariable[] = [];
+    
+    placeholders.forEach(placeholder => {
+      if (placeholder.format === 'blank') return;
+      // Filters such as {{Base_Rent | words}} do not change which field is needed
+      const { name } = parseTemplateExpression(placeholder.name);
+      if (variables.some(v => v.name === name)) return;
+      
+      variables.push({
+        name,
+        format: placeholder.format,
+        position: placeholder.order,
+        originalText: placeholder.originalText
+      });
+    });
+    
+    console.log(`Found ${variables.length} template variables:`, variables.map(v => v.name));
+    return variables;
+  }
+
+  /**
+   * Format a ROF5 value for insertion, or undefined when the variable is not a ROF5 field
+   */
+  private static formatVariableValue(name: string, rof5Data: FanisiROF5Data): string | undefined {
+    const variableName = name as keyof FanisiROF5Data;
+    if (!(variableName in rof5Data)) return undefined;
+    
+    let replacementValue = rof5Data[variableName]?.toString() || 'N/A';
+    
+    // Format specific fields
+    if (variableName.includes('Date') && replacementValue !== 'N/A') {
+      try {
+        const date = new Date(replacementValue);
+        replacementValue = date.toLocaleDateString('en-GB');
+      } catch (error) {
+        console.warn(`Invalid date format for ${variableName}:`, replacementValue);
+      }
+    }
+    
+    // Format currency fields
+    if (variableName.includes('Rent') || variableName.includes('Amount') || variableName.includes('Total')) {
+      const numValue = parseFloat(replacementValue);
+      if (!isNaN(numValue) && numValue > 0) {
+        replacementValue = `KES ${numValue.toLocaleString()}`;
+      }
+    }
+    
+    return replacementValue;
+  }
+
   /**
    * Generate filename based on Fanisi pattern
    */
@@ -321,20 +369,6 @@ export class FanisiDocumentGenerator {
     return `Final_${docType}_${siteName}_${commencementDate}.docx`;
   }
 
-  /**
-   * Convert HTML content to DOCX paragraphs
-   */
-  private static htmlToParagraphs(htmlContent: string): Paragraph[] {
-    // Simple HTML to paragraph conversion
-    // In a full implementation, you'd want more sophisticated HTML parsing
-    const textContent = htmlContent.replace(/<[^>]*>/g, '');
-    const lines = textContent.split('\n').filter(line => line.trim());
-    
-    return lines.map(line => new Paragraph({
-      children: [new TextRun(line.trim())]
-    }));
-  }
-
   /**
    * Escape special regex characters
    */
@@ -343,13 +377,19 @@ export class FanisiDocumentGenerator {
   }
 
   /**
-   * Log document generation
+   * Log document generation, saving it to the generation history in the background
+   * @param document Generated document, or a placeholder carrying the site and document type on failure
+   * @param status Whether generation succeeded
+   * @param errorMessage Why generation failed
+   * @param details Template, user and validation result for the history
    */
   static logGeneration(
     document: FanisiGeneratedDocument,
     status: 'success' | 'error',
-    errorMessage?: string
+    errorMessage?: string,
+    details: FanisiGenerationLogDetails = {}
   ): FanisiGenerationLog {
+    const { validation, ...context } = details;
     const log: FanisiGenerationLog = {
       id: `log-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       siteName: document.siteName,
@@ -358,12 +398,20 @@ export class FanisiDocumentGenerator {
       timestamp: new Date().toISOString(),
       userId: document.userId,
       status,
-      errorMessage
+      errorMessage,
+      ...context,
+      validation: validation ? {
+        isValid: validation.isValid,
+        missingFields: validation.missingFields,
+        invalidFields: validation.invalidFields,
+        unmappedVariables: validation.unmappedVariables
+      } : undefined
     };
-    
-    // In a full implementation, you'd save this to a database
-    console.log('Document generation log:', log);
-    
+
+    // A lost log entry shouldn't stop the user getting their document
+    GenerationLogService.saveLog(log)
+      .catch(error => console.error('Error recording generation log:', error));
+
     return log;
   }
 
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { ROF5FormData } from '@/hooks/useROF5Form';
+import { DEFAULT_FEE_SCALE, FeeCalculationService, FeeScale } from './feeCalculationService';
+import { RentScheduleService } from './rentScheduleService';
+
+const flatSchedule = (monthlyRent: number, termYears: number) => RentScheduleService.calculate({
+  monthlyRent,
+  termYears,
+  escalationModel: 'none',
+  escalationRate: 0,
+  escalationIntervalYears: 1,
+  stepAmount: 0,
+  rentFreeMonths: 0,
+  renewalTermYears: 0
+});
+
+describe('FeeCalculationService', () => {
+  it('charges the minimum fee, VAT, stamp duty and disbursements on a lease', () => {
+    const fees = FeeCalculationService.calculate(flatSchedule(100000, 5), 'lease', DEFAULT_FEE_SCALE);
+
+    expect(fees.averageAnnualRent).toBe(1200000);
+    expect(fees.professionalFee).toBe(30000);
+    expect(fees.vat).toBe(4800);
+    expect(fees.stampDutyRate).toBe(2);
+    expect(fees.stampDuty).toBe(24000);
+    expect(fees.disbursements.map(d => d.label)).toEqual(['Stamp duty', 'Registration fees', 'Official search']);
+    expect(fees.total).toBe(59800);
+  });
+
+  it('charges each band on the part of the rent within it', () => {
+    const fees = FeeCalculationService.calculate(flatSchedule(500000, 4), 'licence', DEFAULT_FEE_SCALE);
+
+    // 2.5% of 1M, 1.5% of the next 4M and 1% of the last 1M
+    expect(fees.professionalFee).toBe(95000);
+  });
+
+  it('charges no stamp duty on licences', () => {
+    const fees = FeeCalculationService.calculate(flatSchedule(500000, 4), 'licence', DEFAULT_FEE_SCALE);
+
+    expect(fees.stampDuty).toBe(0);
+    expect(fees.disbursements.map(d => d.label)).not.toContain('Stamp duty');
+    expect(fees.total).toBe(95000 + 15200 + 1000);
+  });
+
+  it('uses the short-term stamp duty rate for short leases', () => {
+    const fees = FeeCalculationService.calculate(flatSchedule(100000, 2), 'lease', DEFAULT_FEE_SCALE);
+
+    expect(fees.stampDutyRate).toBe(1);
+    expect(fees.stampDuty).toBe(12000);
+  });
+
+  it('charges nothing without rent', () => {
+    const fees = FeeCalculationService.calculate(flatSchedule(0, 5), 'lease', DEFAULT_FEE_SCALE);
+
+    expect(fees.professionalFee).toBe(0);
+    expect(fees.disbursements).toEqual([]);
+    expect(fees.total).toBe(0);
+  });
+
+  it('applies the scale it is given', () => {
+    const scale: FeeScale = {
+      ...DEFAULT_FEE_SCALE,
+      name: 'Flat scale',
+      bands: [{ upTo: null, rate: 5 }],
+      minimumFee: 0,
+      vatRate: 0,
+      disbursements: []
+    };
+    const fees = FeeCalculationService.calculateFromFormData({
+      leaseType: 'licence',
+      monthlyRent: '100,000',
+      leaseTerm: '5',
+      escalationModel: 'none'
+    } as ROF5FormData, scale);
+
+    expect(fees.scaleName).toBe('Flat scale');
+    expect(fees.professionalFee).toBe(60000);
+    expect(fees.total).toBe(60000);
+  });
+
+  it('provides the fee note template variables', () => {
+    const fees = FeeCalculationService.calculate(flatSchedule(100000, 5), 'lease', DEFAULT_FEE_SCALE);
+    const variables = Object.fromEntries(FeeCalculationService.toTemplateVariables(fees).map(v => [v.key, v.value]));
+
+    expect(variables.total_fees).toBe('30000');
+    expect(variables.vat_amount).toBe('4800');
+    expect(variables.total_amount).toBe('59800');
+  });
+});
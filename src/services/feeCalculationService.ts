@@ -0,0 +1,160 @@
+import { ROF5FormData } from "@/hooks/useROF5Form";
+import { DocumentVariable } from "@/types/database";
+import { RentSchedule, RentScheduleService } from "./rentScheduleService";
+import { WorkflowStateMachine } from "./workflowStateMachine";
+import { WorkflowLeaseType } from "@/types/workflow";
+
+export interface FeeScaleBand {
+  // Upper bound of the band in KES; null for the open-ended top band
+  upTo: number | null;
+  // Percentage charged on the part of the value falling in this band
+  rate: number;
+}
+
+export interface FeeDisbursement {
+  label: string;
+  amount: number;
+}
+
+export interface FeeScale {
+  name: string;
+  // Professional fee bands, applied to the average annual rent
+  bands: FeeScaleBand[];
+  minimumFee: number;
+  vatRate: number;
+  stampDuty: {
+    // Instruments assessed as leases; licences create no interest in land and are not
+    appliesTo: WorkflowLeaseType[];
+    // Terms up to this many years pay the short-term rate
+    shortTermMaxYears: number;
+    shortTermRate: number;
+    longTermRate: number;
+  };
+  // Fixed disbursements charged on every instruction, besides stamp duty
+  disbursements: FeeDisbursement[];
+}
+
+export interface FeeBreakdown {
+  scaleName: string;
+  averageAnnualRent: number;
+  termYears: number;
+  professionalFee: number;
+  vatRate: number;
+  vat: number;
+  stampDuty: number;
+  stampDutyRate: number;
+  disbursements: FeeDisbursement[];
+  disbursementsTotal: number;
+  total: number;
+  calculatedAt: string;
+}
+
+// Applies until an administrator saves a scale; see FeeScaleService
+export const DEFAULT_FEE_SCALE: FeeScale = {
+  name: 'Standard lease scale',
+  bands: [
+    { upTo: 1000000, rate: 2.5 },
+    { upTo: 5000000, rate: 1.5 },
+    { upTo: null, rate: 1 }
+  ],
+  minimumFee: 30000,
+  vatRate: 16,
+  stampDuty: {
+    appliesTo: ['lease', 'wayleave', 'easement'],
+    shortTermMaxYears: 3,
+    shortTermRate: 1,
+    longTermRate: 2
+  },
+  disbursements: [
+    { label: 'Registration fees', amount: 500 },
+    { label: 'Official search', amount: 500 }
+  ]
+};
+
+export class FeeCalculationService {
+  static calculateFromFormData(formData: ROF5FormData, scale: FeeScale): FeeBreakdown {
+    return this.calculate(
+      RentScheduleService.calculateFromFormData(formData),
+      WorkflowStateMachine.resolveLeaseType(formData.leaseType),
+      scale
+    );
+  }
+
+  static calculate(schedule: RentSchedule, leaseType: WorkflowLeaseType, scale: FeeScale): FeeBreakdown {
+    const termYears = schedule.terms.termYears;
+    // Stamp duty and fees are assessed on the initial term only, net of any rent-free period
+    const averageAnnualRent = termYears > 0 ? schedule.initialTermTotal / termYears : 0;
+
+    const stampDutyRate = this.getStampDutyRate(leaseType, termYears, scale);
+    const stampDuty = Math.ceil(averageAnnualRent * stampDutyRate / 100);
+
+    const professionalFee = averageAnnualRent > 0
+      ? Math.max(Math.round(this.applyScale(averageAnnualRent, scale.bands)), scale.minimumFee)
+      : 0;
+    const vat = Math.round(professionalFee * scale.vatRate / 100);
+
+    const disbursements: FeeDisbursement[] = [
+      ...(stampDuty > 0 ? [{ label: 'Stamp duty', amount: stampDuty }] : []),
+      ...(professionalFee > 0 ? scale.disbursements : [])
+    ];
+    const disbursementsTotal = disbursements.reduce((total, d) => total + d.amount, 0);
+
+    return {
+      scaleName: scale.name,
+      averageAnnualRent: Math.round(averageAnnualRent),
+      termYears,
+      professionalFee,
+      vatRate: scale.vatRate,
+      vat,
+      stampDuty,
+      stampDutyRate,
+      disbursements,
+      disbursementsTotal,
+      total: professionalFee + vat + disbursementsTotal,
+      calculatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Variables for the fee-note and rof6-template built-in templates
+   */
+  static toTemplateVariables(breakdown: FeeBreakdown): DocumentVariable[] {
+    return [
+      { key: 'total_fees', value: breakdown.professionalFee.toString() },
+      { key: 'vat_rate', value: breakdown.vatRate.toString() },
+      { key: 'vat_amount', value: breakdown.vat.toString() },
+      { key: 'stamp_duty', value: breakdown.stampDuty.toString() },
+      { key: 'stamp_duty_rate', value: breakdown.stampDutyRate.toString() },
+      { key: 'average_annual_rent', value: breakdown.averageAnnualRent.toString() },
+      { key: 'disbursements', value: breakdown.disbursements
+        .map(d => `${d.label}: KES ${d.amount.toLocaleString()}`)
+        .join('\n') },
+      { key: 'disbursements_total', value: breakdown.disbursementsTotal.toString() },
+      { key: 'total_amount', value: breakdown.total.toString() }
+    ];
+  }
+
+  private static getStampDutyRate(leaseType: WorkflowLeaseType, termYears: number, scale: FeeScale): number {
+    if (!scale.stampDuty.appliesTo.includes(leaseType) || termYears <= 0) return 0;
+    return termYears <= scale.stampDuty.shortTermMaxYears
+      ? scale.stampDuty.shortTermRate
+      : scale.stampDuty.longTermRate;
+  }
+
+  /**
+   * Charge each band's rate on the part of the value that falls within it
+   */
+  private static applyScale(value: number, bands: FeeScaleBand[]): number {
+    let fee = 0;
+    let lowerBound = 0;
+
+    for (const band of bands) {
+      const upperBound = band.upTo ?? Infinity;
+      if (value <= lowerBound) break;
+      fee += (Math.min(value, upperBound) - lowerBound) * band.rate / 100;
+      lowerBound = upperBound;
+    }
+
+    return fee;
+  }
+}
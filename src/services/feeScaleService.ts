@@ -0,0 +1,106 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { DEFAULT_FEE_SCALE, FeeScale } from "./feeCalculationService";
+
+const SETTING_KEY = 'fee_scale';
+
+const isMissingTable = (error: { code?: string; message?: string }) =>
+  error.code === '42P01' || !!error.message?.includes('does not exist');
+
+export class FeeScaleService {
+  /**
+   * The fee scale set by an administrator, or the standard scale until one is saved
+   */
+  static async getFeeScale(): Promise<FeeScale> {
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', SETTING_KEY)
+        .maybeSingle();
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('app_settings table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return DEFAULT_FEE_SCALE;
+        }
+        throw error;
+      }
+
+      if (!data) return DEFAULT_FEE_SCALE;
+      const saved = data.value as unknown as Partial<FeeScale>;
+      return {
+        ...DEFAULT_FEE_SCALE,
+        ...saved,
+        stampDuty: { ...DEFAULT_FEE_SCALE.stampDuty, ...saved.stampDuty }
+      };
+    } catch (error) {
+      console.error('Error fetching fee scale:', error);
+      throw new Error(`Failed to fetch fee scale: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async saveFeeScale(scale: FeeScale): Promise<FeeScale> {
+    const errors = this.validate(scale);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert({
+          key: SETTING_KEY,
+          value: scale as unknown as Json,
+          updated_by: user?.id ?? null
+        });
+
+      if (error) throw error;
+      return scale;
+    } catch (error) {
+      console.error('Error saving fee scale:', error);
+      throw new Error(`Failed to save fee scale: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Problems that would make the scale charge the wrong fees
+   * @returns One message per problem; empty if the scale can be saved
+   */
+  static validate(scale: FeeScale): string[] {
+    const errors: string[] = [];
+    const isAmount = (value: number) => Number.isFinite(value) && value >= 0;
+
+    if (!scale.name.trim()) errors.push('The scale needs a name');
+    if (scale.bands.length === 0) errors.push('The scale needs at least one band');
+
+    scale.bands.forEach((band, index) => {
+      const isLast = index === scale.bands.length - 1;
+      if (!isAmount(band.rate)) errors.push(`Band ${index + 1} needs a rate of zero or more`);
+      if (isLast && band.upTo !== null) errors.push('The last band must have no upper limit');
+      if (!isLast && (band.upTo === null || !isAmount(band.upTo))) {
+        errors.push(`Band ${index + 1} needs an upper limit`);
+      }
+      const previous = scale.bands[index - 1];
+      if (previous?.upTo != null && band.upTo != null && band.upTo <= previous.upTo) {
+        errors.push(`Band ${index + 1} must end above band ${index}`);
+      }
+    });
+
+    if (!isAmount(scale.minimumFee)) errors.push('The minimum fee must be zero or more');
+    if (!isAmount(scale.vatRate)) errors.push('The VAT rate must be zero or more');
+    if (!isAmount(scale.stampDuty.shortTermRate) || !isAmount(scale.stampDuty.longTermRate)) {
+      errors.push('Stamp duty rates must be zero or more');
+    }
+    if (!isAmount(scale.stampDuty.shortTermMaxYears)) {
+      errors.push('The short-term limit must be zero or more years');
+    }
+    scale.disbursements.forEach((disbursement, index) => {
+      if (!disbursement.label.trim()) errors.push(`Disbursement ${index + 1} needs a label`);
+      if (!isAmount(disbursement.amount)) errors.push(`Disbursement ${index + 1} needs an amount of zero or more`);
+    });
+
+    return errors;
+  }
+}
@@ -0,0 +1,163 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables, TablesInsert } from "@/integrations/supabase/types";
+import { ROF5FormData, normalizeROF5FormData } from "@/schemas/rof5Schema";
+import { DocumentGenerationService, GeneratedDocument } from "./documentGenerationService";
+import type { TemplateVersionReference } from "./templateVersionService";
+
+// Where the document was generated: the ROF5 form, the Fanisi generator or a dashboard batch
+export type DocumentSource = 'rof5' | 'fanisi' | 'batch';
+
+export interface StoredDocument {
+  id: string;
+  instructionId: string;
+  name: string;
+  storagePath: string;
+  contentType: string;
+  fileSize: number;
+  templateName: string | null;
+  templateVersion?: TemplateVersionReference;
+  source: DocumentSource;
+  // ROF5 data the document was generated from
+  formData: ROF5FormData;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+type GeneratedDocumentRow = Tables<'generated_documents'>;
+
+const BUCKET = 'generated-documents';
+const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const isMissingTable = (error: { code?: string; message?: string }) =>
+  error.code === '42P01' || !!error.message?.includes('does not exist');
+
+export class GeneratedDocumentService {
+  /**
+   * Uploads generated files to storage and records each one against the instruction
+   * @param instructionId Instruction the documents belong to
+   * @param documents Generated files
+   * @param formData ROF5 data the documents were generated from, kept as a snapshot
+   * @param source Where the documents were generated
+   * @returns The stored documents, in the order given
+   */
+  static async saveDocuments(
+    instructionId: string,
+    documents: GeneratedDocument[],
+    formData: ROF5FormData,
+    source: DocumentSource
+  ): Promise<StoredDocument[]> {
+    if (documents.length === 0) return [];
+
+    const uploadedPaths: string[] = [];
+
+    try {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to save generated documents');
+      }
+
+      const rows: TablesInsert<'generated_documents'>[] = [];
+      for (const [index, document] of documents.entries()) {
+        const storagePath = `${instructionId}/${Date.now()}-${index}-${document.name}`;
+        const { error: uploadError } = await supabase.storage
+          .from(BUCKET)
+          .upload(storagePath, new Blob([document.content], { type: DOCX_CONTENT_TYPE }), {
+            contentType: DOCX_CONTENT_TYPE
+          });
+
+        if (uploadError) throw uploadError;
+        uploadedPaths.push(storagePath);
+
+        rows.push({
+          instruction_id: instructionId,
+          name: document.name,
+          storage_path: storagePath,
+          content_type: DOCX_CONTENT_TYPE,
+          file_size: document.content.byteLength,
+          template_name: document.templateVersion?.templateName ?? document.templateUsed,
+          system_template_id: document.templateVersion?.templateId ?? null,
+          template_version: document.templateVersion?.versionNumber ?? null,
+          form_data: formData as unknown as Json,
+          source,
+          status: 'completed',
+          created_by: user.id
+        });
+      }
+
+      const { data, error } = await supabase
+        .from('generated_documents')
+        .insert(rows)
+        .select();
+
+      if (error) throw error;
+      return (data || []).map(row => this.fromRow(row));
+    } catch (error) {
+      console.error('Error saving generated documents:', error);
+      // Don't leave files behind that no row points to
+      if (uploadedPaths.length > 0) {
+        supabase.storage.from(BUCKET).remove(uploadedPaths)
+          .catch(cleanupError => console.error('Error removing uploaded documents:', cleanupError));
+      }
+      throw new Error(`Failed to save generated documents: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Documents stored for an instruction, newest first
+   */
+  static async getDocuments(instructionId: string): Promise<StoredDocument[]> {
+    try {
+      const { data, error } = await supabase
+        .from('generated_documents')
+        .select('*')
+        .eq('instruction_id', instructionId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('generated_documents table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row));
+    } catch (error) {
+      console.error('Error loading generated documents:', error);
+      throw new Error(`Failed to load generated documents: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async downloadDocument(document: StoredDocument): Promise<void> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(BUCKET)
+        .download(document.storagePath);
+
+      if (error) throw error;
+      DocumentGenerationService.downloadBlob(data, document.name);
+    } catch (error) {
+      console.error('Error downloading generated document:', error);
+      throw new Error(`Failed to download ${document.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static fromRow(row: GeneratedDocumentRow): StoredDocument {
+    return {
+      id: row.id,
+      instructionId: row.instruction_id ?? '',
+      name: row.name,
+      storagePath: row.storage_path ?? '',
+      contentType: row.content_type,
+      fileSize: row.file_size,
+      templateName: row.template_name,
+      templateVersion: row.system_template_id && row.template_version
+        ? { templateId: row.system_template_id, templateName: row.template_name ?? '', versionNumber: row.template_version }
+        : undefined,
+      source: row.source as DocumentSource,
+      formData: normalizeROF5FormData(row.form_data as Partial<ROF5FormData>),
+      createdBy: row.created_by,
+      createdAt: row.created_at ?? ''
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+import { FanisiGenerationLog } from "@/types/fanisi";
+
+export interface GenerationLogFilters {
+  // Matches site name or code, file name and error message
+  search?: string;
+  siteCode?: string;
+  documentType?: string;
+  userName?: string;
+  status?: FanisiGenerationLog['status'];
+  // ISO dates (YYYY-MM-DD), inclusive
+  from?: string;
+  to?: string;
+}
+
+export interface GenerationLogFilterOptions {
+  documentTypes: string[];
+  users: string[];
+}
+
+type GenerationLogRow = Tables<'fanisi_generation_logs'>;
+
+// Enough history to triage recent failures without paging
+const MAX_LOGS = 500;
+
+const isMissingTable = (error: { code?: string; message?: string }) =>
+  error.code === '42P01' || !!error.message?.includes('does not exist');
+
+const toStringList = (value: Json): string[] =>
+  Array.isArray(value) ? value.map(item => String(item)) : [];
+
+const uniqueSorted = (values: (string | null)[]) =>
+  Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+
+export class GenerationLogService {
+  static async saveLog(log: FanisiGenerationLog): Promise<void> {
+    try {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to record generation logs');
+      }
+
+      const { error } = await supabase
+        .from('fanisi_generation_logs')
+        .insert({
+          site_name: log.siteName,
+          site_code: log.siteCode ?? '',
+          document_type: log.documentType,
+          generated_file_name: log.status === 'success' ? log.generatedFileName : null,
+          template_id: log.templateId ?? null,
+          template_name: log.templateName ?? null,
+          status: log.status,
+          error_message: log.errorMessage ?? null,
+          is_valid: log.validation?.isValid ?? null,
+          missing_fields: log.validation?.missingFields ?? [],
+          invalid_fields: log.validation?.invalidFields ?? [],
+          unmapped_variables: log.validation?.unmappedVariables ?? [],
+          user_id: user.id,
+          user_name: log.userName ?? user.email ?? null,
+          created_at: log.timestamp
+        });
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('fanisi_generation_logs table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return;
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error saving generation log:', error);
+      throw new Error(`Failed to save generation log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Generation logs matching the filters, newest first
+   */
+  static async getLogs(filters: GenerationLogFilters = {}): Promise<FanisiGenerationLog[]> {
+    try {
+      let query = supabase
+        .from('fanisi_generation_logs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(MAX_LOGS);
+
+      const term = filters.search?.trim().replace(/[,%()]/g, ' ');
+      if (term) {
+        query = query.or(
+          `site_name.ilike.%${term}%,site_code.ilike.%${term}%,generated_file_name.ilike.%${term}%,error_message.ilike.%${term}%`
+        );
+      }
+      if (filters.siteCode) query = query.ilike('site_code', filters.siteCode);
+      if (filters.documentType) query = query.eq('document_type', filters.documentType);
+      if (filters.userName) query = query.eq('user_name', filters.userName);
+      if (filters.status) query = query.eq('status', filters.status);
+      if (filters.from) query = query.gte('created_at', `${filters.from}T00:00:00`);
+      if (filters.to) query = query.lte('created_at', `${filters.to}T23:59:59.999`);
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('fanisi_generation_logs table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row));
+    } catch (error) {
+      console.error('Error loading generation logs:', error);
+      throw new Error(`Failed to load generation logs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Document types and users that appear in the logs, for the history filters
+   */
+  static async getFilterOptions(): Promise<GenerationLogFilterOptions> {
+    try {
+      const { data, error } = await supabase
+        .from('fanisi_generation_logs')
+        .select('document_type, user_name')
+        .order('created_at', { ascending: false })
+        .limit(MAX_LOGS);
+
+      if (error) {
+        if (isMissingTable(error)) return { documentTypes: [], users: [] };
+        throw error;
+      }
+
+      return {
+        documentTypes: uniqueSorted((data || []).map(row => row.document_type)),
+        users: uniqueSorted((data || []).map(row => row.user_name))
+      };
+    } catch (error) {
+      console.error('Error loading generation log filters:', error);
+      throw new Error(`Failed to load generation log filters: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static fromRow(row: GenerationLogRow): FanisiGenerationLog {
+    return {
+      id: row.id,
+      siteName: row.site_name,
+      siteCode: row.site_code,
+      documentType: row.document_type,
+      generatedFileName: row.generated_file_name ?? '',
+      timestamp: row.created_at,
+      userId: row.user_id ?? undefined,
+      userName: row.user_name ?? undefined,
+      templateId: row.template_id ?? undefined,
+      templateName: row.template_name ?? undefined,
+      status: row.status as FanisiGenerationLog['status'],
+      errorMessage: row.error_message ?? undefined,
+      validation: row.is_valid === null ? undefined : {
+        isValid: row.is_valid,
+        missingFields: toStringList(row.missing_fields),
+        invalidFields: toStringList(row.invalid_fields),
+        unmappedVariables: toStringList(row.unmapped_variables)
+      }
+    };
+  }
+}
@@ -0,0 +1,214 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import type { WorkflowInstruction } from "@/contexts/WorkflowContext";
+import { normalizeROF5FormData } from "@/schemas/rof5Schema";
+import type { TemplateVersionReference } from "./templateVersionService";
+import type { FeeBreakdown } from "./feeCalculationService";
+import { SiteService } from "./siteService";
+
+export class InstructionService {
+  static async getAllInstructions(): Promise<WorkflowInstruction[]> {
+    try {
+      console.log('Loading workflow instructions from database...');
+
+      const { data: instructions, error } = await supabase
+        .from('instructions')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        // Check if the error is due to missing table
+        if (error.code === '42P01' || error.message?.includes('does not exist')) {
+          console.warn('instructions table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      console.log(`Loaded ${instructions?.length || 0} instructions from database`);
+      return (instructions || []).map(row => this.fromRow(row));
+    } catch (error) {
+      console.error('Error loading instructions:', error);
+      throw new Error(`Failed to load instructions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Reserves new instruction references, e.g. ROF-2025-0042. The database numbers them,
+   * so references never collide; a reserved reference that goes unused is skipped.
+   * @param count How many references to reserve
+   */
+  static async reserveReferences(count = 1): Promise<string[]> {
+    try {
+      const { data, error } = await supabase.rpc('next_instruction_references', { count });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error reserving instruction references:', error);
+      throw new Error(`Failed to reserve instruction references: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async createInstruction(instruction: WorkflowInstruction): Promise<WorkflowInstruction> {
+    try {
+      console.log('Saving instruction to database:', instruction.id);
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to create instructions');
+      }
+
+      const { data, error } = await supabase
+        .from('instructions')
+        .insert({
+          ...this.toRow(instruction),
+          id: instruction.id,
+          site_code: instruction.siteCode,
+          site_name: instruction.siteName,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return await this.linkToRegistry(this.fromRow(data));
+    } catch (error) {
+      console.error('Error creating instruction:', error);
+      throw new Error(`Failed to create instruction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Creates several instructions with one insert, so either the whole batch is saved or none of it.
+   * Their sites and landlords are registered once the batch is saved.
+   * @param instructions New instructions
+   * @returns The saved instructions
+   */
+  static async createInstructions(instructions: WorkflowInstruction[]): Promise<WorkflowInstruction[]> {
+    try {
+      console.log(`Saving ${instructions.length} instructions to database`);
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to create instructions');
+      }
+
+      const rows: TablesInsert<'instructions'>[] = instructions.map(instruction => ({
+        ...this.toRow(instruction),
+        id: instruction.id,
+        site_code: instruction.siteCode,
+        site_name: instruction.siteName,
+        created_by: user.id
+      }));
+
+      const { data, error } = await supabase
+        .from('instructions')
+        .insert(rows)
+        .select();
+
+      if (error) throw error;
+
+      const saved: WorkflowInstruction[] = [];
+      for (const row of data || []) {
+        saved.push(await this.linkToRegistry(this.fromRow(row)));
+      }
+      return saved;
+    } catch (error) {
+      console.error('Error creating instructions:', error);
+      throw new Error(`Failed to create instructions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async updateInstruction(id: string, updates: Partial<WorkflowInstruction>): Promise<void> {
+    try {
+      console.log('Updating instruction in database:', id);
+
+      const { error } = await supabase
+        .from('instructions')
+        .update(this.toRow(updates))
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating instruction:', error);
+      throw new Error(`Failed to update instruction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Saves the instruction's site and landlord to the registry once the instruction
+   * is saved, so a failed save leaves the registry alone. The instruction is still
+   * created, unlinked, when the registry cannot be updated.
+   */
+  private static async linkToRegistry(instruction: WorkflowInstruction): Promise<WorkflowInstruction> {
+    if (!instruction.formData) return instruction;
+
+    try {
+      const registry = await SiteService.registerFromFormData(normalizeROF5FormData(instruction.formData));
+      if (!registry.siteId && !registry.landlordId) return instruction;
+
+      await this.updateInstruction(instruction.id, registry);
+      return { ...instruction, ...registry };
+    } catch (error) {
+      console.warn('Could not update the site registry for instruction', instruction.id, error);
+      return instruction;
+    }
+  }
+
+  private static toRow(instruction: Partial<WorkflowInstruction>): TablesUpdate<'instructions'> {
+    const row: TablesUpdate<'instructions'> = {};
+
+    if (instruction.siteCode !== undefined) row.site_code = instruction.siteCode;
+    if (instruction.siteName !== undefined) row.site_name = instruction.siteName;
+    if (instruction.siteLocation !== undefined) row.site_location = instruction.siteLocation;
+    if (instruction.landlordName !== undefined) row.landlord_name = instruction.landlordName;
+    if (instruction.siteId !== undefined) row.site_id = instruction.siteId;
+    if (instruction.landlordId !== undefined) row.landlord_id = instruction.landlordId;
+    if (instruction.stage !== undefined) row.stage = instruction.stage;
+    if (instruction.progress !== undefined) row.progress = instruction.progress;
+    if (instruction.assignee !== undefined) row.assignee = instruction.assignee;
+    if (instruction.assignedTo !== undefined) row.assigned_to = instruction.assignedTo;
+    if (instruction.lawFirmId !== undefined) row.law_firm_id = instruction.lawFirmId;
+    if (instruction.advocateId !== undefined) row.advocate_id = instruction.advocateId;
+    if (instruction.nextAction !== undefined) row.next_action = instruction.nextAction;
+    if (instruction.priority !== undefined) row.priority = instruction.priority;
+    if (instruction.formData !== undefined) row.form_data = instruction.formData as Json;
+    if (instruction.generatedDocuments !== undefined) row.generated_documents = instruction.generatedDocuments;
+    if (instruction.documentTemplateVersions !== undefined) row.document_template_versions = instruction.documentTemplateVersions as unknown as Json;
+    if (instruction.executedDocuments !== undefined) row.executed_documents = instruction.executedDocuments;
+    if (instruction.feeBreakdown !== undefined) row.fee_breakdown = instruction.feeBreakdown as unknown as Json;
+    if (instruction.progressReason !== undefined) row.progress_reason = instruction.progressReason;
+
+    return row;
+  }
+
+  private static fromRow(row: Tables<'instructions'>): WorkflowInstruction {
+    return {
+      id: row.id,
+      siteCode: row.site_code,
+      siteName: row.site_name,
+      siteLocation: row.site_location,
+      landlordName: row.landlord_name,
+      siteId: row.site_id ?? undefined,
+      landlordId: row.landlord_id ?? undefined,
+      stage: row.stage as WorkflowInstruction['stage'],
+      progress: row.progress,
+      createdAt: row.created_at.split('T')[0],
+      lastUpdated: row.updated_at.split('T')[0],
+      assignee: row.assignee,
+      assignedTo: row.assigned_to,
+      lawFirmId: row.law_firm_id,
+      advocateId: row.advocate_id,
+      nextAction: row.next_action,
+      priority: row.priority as WorkflowInstruction['priority'],
+      formData: row.form_data,
+      generatedDocuments: (row.generated_documents as string[]) || [],
+      documentTemplateVersions: (row.document_template_versions as unknown as Record<string, TemplateVersionReference>) || {},
+      executedDocuments: (row.executed_documents as string[]) || [],
+      feeBreakdown: (row.fee_breakdown as unknown as FeeBreakdown) || undefined,
+      progressReason: row.progress_reason || undefined
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import { ROF5FormData } from "@/hooks/useROF5Form";
+import { DocumentVariable } from "@/types/database";
+import { LandlordParty, LandlordRole, LANDLORD_ROLE_OPTIONS, createLandlordParty } from "@/schemas/rof5Schema";
+import { isValidCompanyNumber } from "@/utils/kenyanIdentifiers";
+
+const SIGNATURE_LINE = '_________________________';
+
+export class LandlordPartyService {
+  /**
+   * Every landlord party on the instruction: the landlord captured in the main
+   * landlord fields first, then any additional landlords that have a name.
+   * Additional landlords without an address share the main landlord's.
+   */
+  static getParties(formData: ROF5FormData): LandlordParty[] {
+    const primary = createLandlordParty({
+      name: formData.landlordName,
+      role: (formData.landlordRole as LandlordRole) || 'proprietor',
+      idNumber: formData.landlordId,
+      kraPin: formData.landlordPin,
+      address: formData.landlordAddress
+    });
+
+    const additional = (formData.additionalLandlords ?? []).map(party => createLandlordParty({
+      ...party,
+      address: party.address?.trim() ? party.address : primary.address
+    }));
+
+    return [primary, ...additional].filter(party => party.name.trim());
+  }
+
+  /**
+   * Names joined for running text, e.g. "John Kamau, Mary Wanjiku and Peter Otieno"
+   */
+  static formatNames(parties: LandlordParty[]): string {
+    const names = parties.map(party => party.name.trim());
+    if (names.length <= 1) return names[0] ?? '';
+    return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  }
+
+  /**
+   * Parties as described in the recitals, e.g. "John Kamau (ID No. 12345678) and
+   * Mary Wanjiku (ID No. 23456789) both of P.O. Box 123-00100, Nairobi". Parties at
+   * different addresses each get their own "of ..." clause.
+   */
+  static formatPartyList(parties: LandlordParty[]): string {
+    const addresses = parties.map(party => party.address.trim()).filter(Boolean);
+    const sharedAddress = parties.length > 1 && addresses.length === parties.length &&
+      addresses.every(address => address === addresses[0]);
+
+    if (sharedAddress) {
+      const collective = parties.length === 2 ? 'both' : 'all';
+      return `${this.formatNames(parties.map(party => ({ ...party, name: this.describeParty(party) })))} ${collective} of ${addresses[0]}`;
+    }
+
+    return this.formatNames(parties.map(party => ({
+      ...party,
+      name: party.address.trim() ? `${this.describeParty(party)} of ${party.address.trim()}` : this.describeParty(party)
+    })));
+  }
+
+  /**
+   * One attestation block per party, worded for the capacity in which they sign
+   * @param parties Landlord parties in signing order
+   * @param companyName Registered name of a corporate landlord, used in directors' blocks
+   */
+  static formatSignatureBlocks(parties: LandlordParty[], companyName?: string): string {
+    return parties.map(party => [
+      `${this.getAttestationClause(party, companyName)}    ${SIGNATURE_LINE}`,
+      party.idNumber.trim() ? this.formatIdentifier(party) : '',
+      `in the presence of:    ${SIGNATURE_LINE}`,
+      'ADVOCATE'
+    ].filter(Boolean).join('\n')).join('\n\n');
+  }
+
+  /**
+   * Parties named as the landlord in the recitals. Directors and attorneys only
+   * sign on the landlord's behalf, so they are left out unless nobody else is listed.
+   */
+  static getGrantingParties(parties: LandlordParty[]): LandlordParty[] {
+    const granting = parties.filter(party => party.role === 'proprietor' || party.role === 'administrator');
+    return granting.length > 0 ? granting : parties;
+  }
+
+  /**
+   * Parties who sign. A corporate landlord signing through its directors gets no block of its own.
+   */
+  static getSignatories(parties: LandlordParty[], companyName?: string): LandlordParty[] {
+    if (!companyName || !parties.some(party => party.role === 'director')) return parties;
+    return parties.filter(party => party.name.trim() !== companyName.trim());
+  }
+
+  /**
+   * Names of the landlords on the instruction, for lists and headings
+   */
+  static getLandlordNames(formData: ROF5FormData): string {
+    return this.formatNames(this.getGrantingParties(this.getParties(formData))) || formData.landlordName;
+  }
+
+  static toTemplateVariables(formData: ROF5FormData): DocumentVariable[] {
+    const parties = this.getParties(formData);
+    const granting = this.getGrantingParties(parties);
+    const companyName = formData.landlordType === 'company' ? formData.landlordName : undefined;
+
+    return [
+      { key: 'landlord_names', value: this.formatNames(granting) },
+      { key: 'landlord_parties', value: this.formatPartyList(granting) },
+      { key: 'landlord_count', value: granting.length.toString() },
+      { key: 'landlord_signature_blocks', value: this.formatSignatureBlocks(this.getSignatories(parties, companyName), companyName) }
+    ];
+  }
+
+  static getRoleLabel(role: LandlordRole): string {
+    return LANDLORD_ROLE_OPTIONS.find(option => option.value === role)?.label ?? role;
+  }
+
+  private static describeParty(party: LandlordParty): string {
+    return party.idNumber.trim() ? `${party.name.trim()} (${this.formatIdentifier(party)})` : party.name.trim();
+  }
+
+  private static formatIdentifier(party: LandlordParty): string {
+    const label = isValidCompanyNumber(party.idNumber) ? 'Registration No.' : 'ID No.';
+    return `${label} ${party.idNumber.trim()}`;
+  }
+
+  private static getAttestationClause(party: LandlordParty, companyName?: string): string {
+    const name = party.name.trim().toUpperCase();
+
+    switch (party.role) {
+      case 'administrator':
+        return `SIGNED by ${name} as Administrator of the estate of the registered proprietor`;
+      case 'director':
+        return `SIGNED for and on behalf of ${companyName ? companyName.toUpperCase() : 'the Landlord'} by ${name}, Director`;
+      case 'attorney':
+        return `SIGNED by ${name} as lawful Attorney of the Landlord`;
+      default:
+        return `SIGNED by the said ${name}`;
+    }
+  }
+}
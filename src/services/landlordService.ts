@@ -0,0 +1,221 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { ROF5FormData, ROF5TextFieldKey } from "@/schemas/rof5Schema";
+import { validateKenyanIdentifier, validateLandlordIdentifier } from "@/utils/kenyanIdentifiers";
+
+export interface Landlord {
+  id: string;
+  name: string;
+  landlordType: string;
+  idNumber: string;
+  kraPin: string;
+  phone: string;
+  email: string;
+  address: string;
+  createdAt: string;
+  updatedAt: string;
+  // Codes of the registry sites this landlord currently owns
+  siteCodes: string[];
+}
+
+export type LandlordInput = Omit<Landlord, 'id' | 'createdAt' | 'updatedAt' | 'siteCodes'>;
+
+// Registry landlord fields and the ROF5 fields they are captured in
+export const LANDLORD_FORM_FIELDS: Record<keyof LandlordInput, ROF5TextFieldKey> = {
+  name: 'landlordName',
+  landlordType: 'landlordType',
+  idNumber: 'landlordId',
+  kraPin: 'landlordPin',
+  phone: 'landlordPhone',
+  email: 'landlordEmail',
+  address: 'landlordAddress'
+};
+
+type LandlordRow = Tables<'landlords'> & { sites?: Pick<Tables<'sites'>, 'site_code'>[] };
+
+const isMissingTable = (error: { code?: string; message?: string }) =>
+  error.code === '42P01' || !!error.message?.includes('does not exist');
+
+export class LandlordService {
+  /**
+   * Registry landlords ordered by name, optionally filtered by name, ID number or KRA PIN
+   */
+  static async getLandlords(search = ''): Promise<Landlord[]> {
+    try {
+      let query = supabase
+        .from('landlords')
+        .select('*, sites(site_code)')
+        .order('name');
+
+      const term = search.trim().replace(/[,%()]/g, ' ');
+      if (term) {
+        query = query.or(`name.ilike.%${term}%,id_number.ilike.%${term}%,kra_pin.ilike.%${term}%`);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('landlords table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row as LandlordRow));
+    } catch (error) {
+      console.error('Error loading landlords:', error);
+      throw new Error(`Failed to load landlords: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async getLandlord(id: string): Promise<Landlord | null> {
+    try {
+      const { data, error } = await supabase
+        .from('landlords')
+        .select('*, sites(site_code)')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? this.fromRow(data as LandlordRow) : null;
+    } catch (error) {
+      console.error('Error loading landlord:', error);
+      throw new Error(`Failed to load landlord: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a landlord, or update the existing one when an ID is given
+   */
+  static async saveLandlord(input: LandlordInput, id?: string): Promise<Landlord> {
+    const problems = this.validate(input);
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+
+    try {
+      const row = this.toRow(input);
+
+      if (id) {
+        const { data, error } = await supabase
+          .from('landlords')
+          .update(row)
+          .eq('id', id)
+          .select('*, sites(site_code)')
+          .single();
+
+        if (error) throw error;
+        return this.fromRow(data as LandlordRow);
+      }
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to add landlords');
+      }
+
+      const { data, error } = await supabase
+        .from('landlords')
+        .insert({ ...row, name: input.name, created_by: user.id })
+        .select('*, sites(site_code)')
+        .single();
+
+      if (error) throw error;
+      return this.fromRow(data as LandlordRow);
+    } catch (error) {
+      console.error('Error saving landlord:', error);
+      throw new Error(`Failed to save landlord: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Finds the registry landlord for the landlord on an instruction, matching on the
+   * ID/registration number where one was given and on the name otherwise. Details
+   * from the instruction are saved to the registry record, which is created if needed;
+   * details left blank on the instruction keep the value already in the registry.
+   */
+  static async registerFromFormData(formData: ROF5FormData): Promise<Landlord | null> {
+    const input = this.fromFormData(formData);
+    if (!input.name.trim()) return null;
+
+    let query = supabase.from('landlords').select('*').limit(1);
+    query = input.idNumber.trim()
+      ? query.eq('id_number', input.idNumber.trim())
+      : query.ilike('name', input.name.trim()).eq('id_number', '');
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const existing = data?.[0] ? this.fromRow(data[0]) : null;
+    if (existing) {
+      (Object.keys(LANDLORD_FORM_FIELDS) as (keyof LandlordInput)[]).forEach(key => {
+        input[key] = input[key] || existing[key];
+      });
+    }
+
+    return this.saveLandlord(input, existing?.id);
+  }
+
+  /**
+   * Format problems with a landlord's identifiers and contact details
+   */
+  static validate(input: LandlordInput): string[] {
+    return [
+      !input.name.trim() ? 'Landlord name is required' : undefined,
+      validateLandlordIdentifier(input.landlordType, input.idNumber),
+      validateKenyanIdentifier('kra-pin', input.kraPin),
+      validateKenyanIdentifier('phone', input.phone)
+    ].filter((problem): problem is string => !!problem);
+  }
+
+  static fromFormData(formData: ROF5FormData): LandlordInput {
+    return Object.fromEntries(
+      Object.entries(LANDLORD_FORM_FIELDS).map(([key, field]) => [key, (formData[field] ?? '').trim()])
+    ) as LandlordInput;
+  }
+
+  /**
+   * ROF5 landlord fields filled from a registry landlord, skipping blank details
+   */
+  static toFormData(landlord: Landlord): Partial<ROF5FormData> {
+    return Object.fromEntries(
+      Object.entries(LANDLORD_FORM_FIELDS)
+        .filter(([key]) => landlord[key as keyof LandlordInput])
+        .map(([key, field]) => [field, landlord[key as keyof LandlordInput]])
+    ) as Partial<ROF5FormData>;
+  }
+
+  static createEmptyLandlord(): LandlordInput {
+    return { name: '', landlordType: 'individual', idNumber: '', kraPin: '', phone: '', email: '', address: '' };
+  }
+
+  private static toRow(input: Partial<LandlordInput>): TablesUpdate<'landlords'> {
+    const row: TablesUpdate<'landlords'> = {};
+
+    if (input.name !== undefined) row.name = input.name.trim();
+    if (input.landlordType !== undefined) row.landlord_type = input.landlordType;
+    if (input.idNumber !== undefined) row.id_number = input.idNumber.trim();
+    if (input.kraPin !== undefined) row.kra_pin = input.kraPin.trim().toUpperCase();
+    if (input.phone !== undefined) row.phone = input.phone.trim();
+    if (input.email !== undefined) row.email = input.email.trim();
+    if (input.address !== undefined) row.address = input.address.trim();
+
+    return row;
+  }
+
+  private static fromRow(row: LandlordRow): Landlord {
+    return {
+      id: row.id,
+      name: row.name,
+      landlordType: row.landlord_type,
+      idNumber: row.id_number,
+      kraPin: row.kra_pin,
+      phone: row.phone,
+      email: row.email,
+      address: row.address,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      siteCodes: (row.sites || []).map(site => site.site_code).sort()
+    };
+  }
+}
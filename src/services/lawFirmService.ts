@@ -0,0 +1,249 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type { WorkflowInstruction } from "@/contexts/WorkflowContext";
+
+export interface Advocate {
+  id: string;
+  lawFirmId: string;
+  name: string;
+  email: string;
+  phone: string;
+  practisingCertificateNumber: string;
+  // ISO date (YYYY-MM-DD)
+  practisingCertificateExpiry?: string;
+  // Sign-in account of the advocate, once they have one
+  profileId?: string;
+  isActive: boolean;
+}
+
+export interface LawFirm {
+  id: string;
+  name: string;
+  contactPerson: string;
+  email: string;
+  phone: string;
+  address: string;
+  isActive: boolean;
+  advocates: Advocate[];
+}
+
+export type LawFirmInput = Omit<LawFirm, 'id' | 'advocates'>;
+
+export type AdvocateInput = Omit<Advocate, 'id' | 'profileId'>;
+
+export type CertificateStatus = 'valid' | 'expiring' | 'expired' | 'missing';
+
+export const CERTIFICATE_STATUS_LABELS: Record<CertificateStatus, string> = {
+  valid: 'Certificate valid',
+  expiring: 'Certificate expiring',
+  expired: 'Certificate expired',
+  missing: 'No certificate on file'
+};
+
+// Certificates are renewed annually; flag them a month and a half ahead
+const EXPIRY_WARNING_DAYS = 45;
+
+type LawFirmRow = Tables<'law_firms'> & { advocates?: Tables<'advocates'>[] };
+
+const isMissingTable = (error: { code?: string; message?: string }) =>
+  error.code === '42P01' || !!error.message?.includes('does not exist');
+
+export class LawFirmService {
+  static createEmptyLawFirm(): LawFirmInput {
+    return { name: '', contactPerson: '', email: '', phone: '', address: '', isActive: true };
+  }
+
+  static createEmptyAdvocate(lawFirmId: string): AdvocateInput {
+    return {
+      lawFirmId,
+      name: '',
+      email: '',
+      phone: '',
+      practisingCertificateNumber: '',
+      practisingCertificateExpiry: '',
+      isActive: true
+    };
+  }
+
+  /**
+   * Panel firms and their advocates, ordered by name
+   */
+  static async getLawFirms(activeOnly = false): Promise<LawFirm[]> {
+    try {
+      let query = supabase
+        .from('law_firms')
+        .select('*, advocates(*)')
+        .order('name');
+
+      if (activeOnly) query = query.eq('is_active', true);
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('law_firms table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => {
+        const firm = this.fromRow(row as LawFirmRow);
+        return activeOnly ? { ...firm, advocates: firm.advocates.filter(advocate => advocate.isActive) } : firm;
+      });
+    } catch (error) {
+      console.error('Error loading law firms:', error);
+      throw new Error(`Failed to load law firms: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a firm, or update the existing one when an ID is given
+   */
+  static async saveLawFirm(input: LawFirmInput, id?: string): Promise<LawFirm> {
+    if (!input.name.trim()) {
+      throw new Error('Firm name is required');
+    }
+
+    try {
+      const row: TablesUpdate<'law_firms'> = {
+        name: input.name.trim(),
+        contact_person: input.contactPerson.trim(),
+        email: input.email.trim(),
+        phone: input.phone.trim(),
+        address: input.address.trim(),
+        is_active: input.isActive
+      };
+
+      if (id) {
+        const { data, error } = await supabase
+          .from('law_firms')
+          .update(row)
+          .eq('id', id)
+          .select('*, advocates(*)')
+          .single();
+
+        if (error) throw error;
+        return this.fromRow(data as LawFirmRow);
+      }
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to add law firms');
+      }
+
+      const { data, error } = await supabase
+        .from('law_firms')
+        .insert({ ...row, name: input.name.trim(), created_by: user.id })
+        .select('*, advocates(*)')
+        .single();
+
+      if (error) throw error;
+      return this.fromRow(data as LawFirmRow);
+    } catch (error) {
+      console.error('Error saving law firm:', error);
+      const message = (error as { code?: string }).code === '23505'
+        ? `A firm named "${input.name.trim()}" is already on the panel`
+        : error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to save law firm: ${message}`);
+    }
+  }
+
+  /**
+   * Create an advocate, or update the existing one when an ID is given. Advocates
+   * who already have an account are linked to it by email.
+   */
+  static async saveAdvocate(input: AdvocateInput, id?: string): Promise<Advocate> {
+    if (!input.name.trim()) {
+      throw new Error('Advocate name is required');
+    }
+
+    try {
+      const email = input.email.trim().toLowerCase();
+      const row: TablesUpdate<'advocates'> = {
+        law_firm_id: input.lawFirmId,
+        full_name: input.name.trim(),
+        email,
+        phone: input.phone.trim(),
+        practising_certificate_number: input.practisingCertificateNumber.trim(),
+        practising_certificate_expiry: input.practisingCertificateExpiry || null,
+        is_active: input.isActive
+      };
+
+      if (email) {
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('id')
+          .eq('email', email)
+          .maybeSingle();
+        if (profile) row.profile_id = profile.id;
+      }
+
+      const { data, error } = id
+        ? await supabase.from('advocates').update(row).eq('id', id).select().single()
+        : await supabase
+          .from('advocates')
+          .insert({ ...row, law_firm_id: input.lawFirmId, full_name: input.name.trim() })
+          .select()
+          .single();
+
+      if (error) throw error;
+      return this.advocateFromRow(data);
+    } catch (error) {
+      console.error('Error saving advocate:', error);
+      throw new Error(`Failed to save advocate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static getCertificateStatus(advocate: Advocate, today = new Date()): CertificateStatus {
+    if (!advocate.practisingCertificateExpiry) return 'missing';
+
+    const expiry = new Date(`${advocate.practisingCertificateExpiry}T23:59:59`);
+    if (expiry < today) return 'expired';
+
+    const warnFrom = new Date(expiry);
+    warnFrom.setDate(warnFrom.getDate() - EXPIRY_WARNING_DAYS);
+    return today >= warnFrom ? 'expiring' : 'valid';
+  }
+
+  /**
+   * Open (not yet completed) instructions assigned to each firm, keyed by firm ID
+   */
+  static getWorkload(instructions: WorkflowInstruction[]): Record<string, WorkflowInstruction[]> {
+    return instructions.reduce<Record<string, WorkflowInstruction[]>>((workload, instruction) => {
+      if (instruction.lawFirmId && instruction.stage !== 'completed') {
+        workload[instruction.lawFirmId] = [...(workload[instruction.lawFirmId] || []), instruction];
+      }
+      return workload;
+    }, {});
+  }
+
+  private static fromRow(row: LawFirmRow): LawFirm {
+    return {
+      id: row.id,
+      name: row.name,
+      contactPerson: row.contact_person,
+      email: row.email,
+      phone: row.phone,
+      address: row.address,
+      isActive: row.is_active,
+      advocates: (row.advocates || [])
+        .map(advocate => this.advocateFromRow(advocate))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    };
+  }
+
+  private static advocateFromRow(row: Tables<'advocates'>): Advocate {
+    return {
+      id: row.id,
+      lawFirmId: row.law_firm_id,
+      name: row.full_name,
+      email: row.email,
+      phone: row.phone,
+      practisingCertificateNumber: row.practising_certificate_number,
+      practisingCertificateExpiry: row.practising_certificate_expiry ?? undefined,
+      profileId: row.profile_id ?? undefined,
+      isActive: row.is_active
+    };
+  }
+}
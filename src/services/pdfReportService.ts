@@ -1,4 +1,6 @@
 import { WorkflowInstruction } from "@/contexts/WorkflowContext";
+import { TemplateVersionService } from "./templateVersionService";
+import { AuditLogService } from "./auditLogService";
 
 // Define jsPDF interface to avoid TypeScript errors
 interface jsPDFInstance {
@@ -186,6 +188,7 @@ export class PDFReportService {
       
       const jsPDF = await this.loadJsPDF();
       const doc = new jsPDF();
+      const auditLog = (await AuditLogService.getInstructionTimeline(instruction.id)).reverse();
       
       let yPosition = 20;
       const pageWidth = doc.internal.pageSize.width;
@@ -253,14 +256,18 @@ export class PDFReportService {
         doc.setFontSize(11);
         doc.setFont('helvetica', 'normal');
         instruction.generatedDocuments.forEach(docName => {
-          doc.text(`• ${docName}`, margin + 5, yPosition);
+          const templateVersion = instruction.documentTemplateVersions?.[docName];
+          const label = templateVersion
+            ? `${docName} (from ${TemplateVersionService.formatVersionReference(templateVersion)})`
+            : docName;
+          doc.text(`• ${label}`, margin + 5, yPosition);
           yPosition += 7;
         });
         yPosition += 8;
       }
 
       // Audit trail
-      if (instruction.auditTrail && instruction.auditTrail.length > 0) {
+      if (auditLog.length > 0) {
         doc.setFontSize(14);
         doc.setFont('helvetica', 'bold');
         doc.text('Audit Trail', margin, yPosition);
@@ -268,17 +275,24 @@ export class PDFReportService {
 
         doc.setFontSize(10);
         doc.setFont('helvetica', 'normal');
-        instruction.auditTrail.forEach(entry => {
+        auditLog.forEach(entry => {
           if (yPosition > 270) {
             doc.addPage();
             yPosition = 20;
           }
           
-          const date = new Date(entry.timestamp).toLocaleDateString();
-          doc.text(`${date} - ${entry.action} by ${entry.user}`, margin, yPosition);
+          const date = new Date(entry.createdAt).toLocaleDateString();
+          doc.text(`${date} - ${AuditLogService.describe(entry)} by ${entry.userName}`, margin, yPosition);
           yPosition += 6;
-          if (entry.details) {
-            const details = doc.splitTextToSize(entry.details, pageWidth - (margin * 2) - 10);
+          const changes = entry.operation === 'update'
+            ? entry.changes
+              .map(change => AuditLogService.isDetailChange(change)
+                ? `${change.label} updated`
+                : `${change.label}: ${AuditLogService.formatValue(change.oldValue)} -> ${AuditLogService.formatValue(change.newValue)}`)
+              .join('; ')
+            : '';
+          if (changes) {
+            const details = doc.splitTextToSize(changes, pageWidth - (margin * 2) - 10);
             details.forEach((line: string) => {
               doc.text(`  ${line}`, margin + 10, yPosition);
               yPosition += 5;
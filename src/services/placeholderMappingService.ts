@@ -0,0 +1,194 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { ROF5FormData } from "@/hooks/useROF5Form";
+import { PlaceholderMapping } from "./templatePlaceholderService";
+import { RentScheduleService } from "./rentScheduleService";
+import { LandlordPartyService } from "./landlordPartyService";
+import { formatAmountInWords } from "@/utils/amountInWords";
+import { ROF5FieldFormat, ROF5TextFieldKey, formatFieldValue, getFieldDefinition, getFieldKeys, isTextField } from "@/schemas/rof5Schema";
+
+export type ComputedExpression =
+  | 'current-date'
+  | 'lease-date'
+  | 'rent-year'
+  | 'amount-in-words'
+  | 'landlord-parties'
+  | 'landlord-signatures';
+
+export interface StoredPlaceholderMapping {
+  id?: string;
+  templateId: string;
+  placeholderOrder: number;
+  pattern: string;
+  description: string;
+  sourceType: 'field' | 'computed';
+  rof5Field?: keyof ROF5FormData;
+  expression?: ComputedExpression;
+  expressionArg?: string;
+}
+
+// Checklists and party lists hold several values and cannot fill a single blank
+export const ROF5_FIELD_OPTIONS: { value: ROF5TextFieldKey; label: string; format: ROF5FieldFormat }[] =
+  getFieldKeys()
+    .filter(isTextField)
+    .map(key => ({ value: key, label: getFieldDefinition(key).label, format: getFieldDefinition(key).format }));
+
+export const COMPUTED_EXPRESSION_OPTIONS: {
+  value: ComputedExpression;
+  label: string;
+  argLabel?: string;
+}[] = [
+  { value: 'current-date', label: "Today's Date (5 day of June 2025)" },
+  { value: 'lease-date', label: "Today's Date, Upper Case (5 DAY OF JUNE 2025)" },
+  { value: 'rent-year', label: 'Annual Rent for Year N', argLabel: 'Year' },
+  { value: 'amount-in-words', label: 'Amount in Words', argLabel: 'ROF5 Field' },
+  { value: 'landlord-parties', label: 'All Landlords (X and Y of ...)' },
+  { value: 'landlord-signatures', label: 'Landlord Signature Blocks' }
+];
+
+export class PlaceholderMappingService {
+  /**
+   * Load the stored mappings for a system template, ordered by blank position
+   */
+  static async getMappings(templateId: string): Promise<StoredPlaceholderMapping[]> {
+    try {
+      const { data, error } = await supabase
+        .from('template_placeholder_mappings')
+        .select('*')
+        .eq('template_id', templateId)
+        .order('placeholder_order', { ascending: true });
+
+      if (error) {
+        // Check if the error is due to missing table
+        if (error.code === '42P01' || error.message?.includes('does not exist')) {
+          console.warn('template_placeholder_mappings table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row));
+    } catch (error) {
+      console.error('Error loading placeholder mappings:', error);
+      throw new Error(`Failed to load placeholder mappings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Replace all stored mappings for a template with the given set. The new set is
+   * upserted before stale blanks are removed, so a failed save keeps the old mappings.
+   */
+  static async saveMappings(templateId: string, mappings: StoredPlaceholderMapping[]): Promise<StoredPlaceholderMapping[]> {
+    try {
+      console.log(`Saving ${mappings.length} placeholder mappings for template:`, templateId);
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to save placeholder mappings');
+      }
+
+      let data: Tables<'template_placeholder_mappings'>[] = [];
+      if (mappings.length > 0) {
+        const { data: saved, error } = await supabase
+          .from('template_placeholder_mappings')
+          .upsert(mappings.map(mapping => ({
+            template_id: templateId,
+            placeholder_order: mapping.placeholderOrder,
+            pattern: mapping.pattern,
+            description: mapping.description,
+            source_type: mapping.sourceType,
+            rof5_field: mapping.sourceType === 'field' ? mapping.rof5Field : null,
+            expression: mapping.sourceType === 'computed' ? mapping.expression : null,
+            expression_arg: mapping.sourceType === 'computed' ? mapping.expressionArg || null : null,
+            created_by: user.id
+          })), { onConflict: 'template_id,placeholder_order' })
+          .select();
+
+        if (error) throw error;
+        data = saved || [];
+      }
+
+      // Blanks no longer in the set
+      let staleQuery = supabase
+        .from('template_placeholder_mappings')
+        .delete()
+        .eq('template_id', templateId);
+
+      if (mappings.length > 0) {
+        staleQuery = staleQuery.not('placeholder_order', 'in', `(${mappings.map(mapping => mapping.placeholderOrder).join(',')})`);
+      }
+
+      const { error: deleteError } = await staleQuery;
+      if (deleteError) throw deleteError;
+
+      console.log('Placeholder mappings saved successfully');
+      return data
+        .sort((a, b) => a.placeholder_order - b.placeholder_order)
+        .map(row => this.fromRow(row));
+    } catch (error) {
+      console.error('Error saving placeholder mappings:', error);
+      throw new Error(`Failed to save placeholder mappings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Convert stored mappings into the runtime form used by TemplatePlaceholderService
+   */
+  static toPlaceholderMappings(mappings: StoredPlaceholderMapping[]): PlaceholderMapping[] {
+    return mappings.map(mapping => ({
+      id: mapping.id || `stored-${mapping.placeholderOrder}`,
+      order: mapping.placeholderOrder,
+      pattern: mapping.pattern,
+      description: mapping.description,
+      rof5Field: mapping.sourceType === 'field' && mapping.rof5Field ? mapping.rof5Field : 'calculated',
+      getValue: (formData: ROF5FormData) => this.resolveValue(mapping, formData)
+    }));
+  }
+
+  static resolveValue(mapping: StoredPlaceholderMapping, formData: ROF5FormData): string {
+    if (mapping.sourceType === 'field' && mapping.rof5Field) {
+      return formatFieldValue(mapping.rof5Field, formData) || `[${mapping.description}]`;
+    }
+
+    const date = new Date();
+    const month = date.toLocaleDateString('en-US', { month: 'long' });
+
+    switch (mapping.expression) {
+      case 'current-date':
+        return `${date.getDate()} day of ${month} ${date.getFullYear()}`;
+      case 'lease-date':
+        return `${date.getDate()} DAY OF ${month.toUpperCase()} ${date.getFullYear()}`;
+      case 'rent-year': {
+        const year = parseInt(mapping.expressionArg || '1', 10);
+        const yearlyRent = RentScheduleService.getAnnualRent(RentScheduleService.calculateFromFormData(formData), year);
+        return yearlyRent !== undefined ? RentScheduleService.formatScheduleAmount(yearlyRent) : `[Year ${year} Rent]`;
+      }
+      case 'amount-in-words': {
+        const field = mapping.expressionArg as ROF5TextFieldKey;
+        return formatAmountInWords(formData[field] || '') || `[${mapping.description}]`;
+      }
+      case 'landlord-parties':
+      case 'landlord-signatures': {
+        const key = mapping.expression === 'landlord-parties' ? 'landlord_parties' : 'landlord_signature_blocks';
+        const variable = LandlordPartyService.toTemplateVariables(formData).find(v => v.key === key);
+        return variable?.value || `[${mapping.description}]`;
+      }
+      default:
+        return `[${mapping.description}]`;
+    }
+  }
+
+  private static fromRow(row: Tables<'template_placeholder_mappings'>): StoredPlaceholderMapping {
+    return {
+      id: row.id,
+      templateId: row.template_id,
+      placeholderOrder: row.placeholder_order,
+      pattern: row.pattern,
+      description: row.description,
+      sourceType: row.source_type as StoredPlaceholderMapping['sourceType'],
+      rof5Field: (row.rof5_field as keyof ROF5FormData) || undefined,
+      expression: (row.expression as ComputedExpression) || undefined,
+      expressionArg: row.expression_arg || undefined
+    };
+  }
+}
@@ -0,0 +1,304 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type { User, UserRole } from "@/contexts/UserContext";
+
+export interface UserInvitation {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  department: string;
+  lawFirmId?: string;
+  // Name of the panel firm, for display
+  lawFirm?: string;
+  createdAt: string;
+}
+
+export type NewUserInvitation = Omit<UserInvitation, 'id' | 'createdAt' | 'lawFirm'>;
+
+export type ProfileUpdate = Partial<Pick<User, 'name' | 'role' | 'department' | 'lawFirmId' | 'isActive'>>;
+
+// Panel firm names are joined in for display
+const PROFILE_SELECT = '*, law_firms(name)';
+
+type ProfileRow = Tables<'profiles'> & { law_firms?: { name: string } | null };
+type InvitationRow = Tables<'user_invitations'> & { law_firms?: { name: string } | null };
+
+const isMissingTable = (error: { code?: string; message?: string }) =>
+  error.code === '42P01' || !!error.message?.includes('does not exist');
+
+export class ProfileService {
+  /**
+   * Profile of the signed-in user, or null when nobody is signed in or no profile exists
+   */
+  static async getCurrentProfile(): Promise<User | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select(PROFILE_SELECT)
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('profiles table does not exist yet. This is expected if migrations haven\'t been applied.');
+          // Keep the In-House Counsel role every user had before profiles existed
+          return {
+            id: user.id,
+            name: user.email ?? '',
+            email: user.email ?? '',
+            role: 'IC',
+            department: '',
+            isActive: true
+          };
+        }
+        throw error;
+      }
+
+      return data ? this.fromRow(data as ProfileRow) : null;
+    } catch (error) {
+      console.error('Error loading profile:', error);
+      throw new Error(`Failed to load profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Permissions the database grants the role, or null when the matrix has not been
+   * migrated and the app's built-in copy should be used
+   */
+  static async getRolePermissions(role: UserRole): Promise<string[] | null> {
+    try {
+      const { data, error } = await supabase
+        .from('role_permissions')
+        .select('permission')
+        .eq('role', role);
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('role_permissions table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return null;
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => row.permission);
+    } catch (error) {
+      console.error('Error loading role permissions:', error);
+      throw new Error(`Failed to load permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Every profile, active users first and then by name
+   */
+  static async getProfiles(): Promise<User[]> {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select(PROFILE_SELECT)
+        .order('is_active', { ascending: false })
+        .order('full_name');
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('profiles table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row as ProfileRow));
+    } catch (error) {
+      console.error('Error loading profiles:', error);
+      throw new Error(`Failed to load users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async getUsersByRole(role: UserRole): Promise<User[]> {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select(PROFILE_SELECT)
+        .eq('role', role)
+        .eq('is_active', true)
+        .order('full_name');
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('profiles table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row as ProfileRow));
+    } catch (error) {
+      console.error('Error loading users by role:', error);
+      throw new Error(`Failed to load ${role} users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Only administrators can change anything other than their own name
+   */
+  static async updateProfile(id: string, updates: ProfileUpdate): Promise<User> {
+    try {
+      const changes: TablesUpdate<'profiles'> = {};
+      if (updates.name !== undefined) changes.full_name = updates.name.trim();
+      if (updates.role !== undefined) changes.role = updates.role;
+      if (updates.department !== undefined) changes.department = updates.department.trim();
+      if (updates.lawFirmId !== undefined) changes.law_firm_id = updates.lawFirmId || null;
+      if (updates.isActive !== undefined) changes.is_active = updates.isActive;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .update(changes)
+        .eq('id', id)
+        .select(PROFILE_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      return this.fromRow(data as ProfileRow);
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      throw new Error(`Failed to update user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Invitations that have been sent but not yet accepted, newest first
+   */
+  static async getPendingInvitations(): Promise<UserInvitation[]> {
+    try {
+      const { data, error } = await supabase
+        .from('user_invitations')
+        .select(PROFILE_SELECT)
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('user_invitations table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromInvitationRow(row as InvitationRow));
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+      throw new Error(`Failed to load invitations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record the invitation and email the user a sign-in link. Their profile takes the
+   * invited role and details when they first sign in.
+   */
+  static async inviteUser(invitation: NewUserInvitation): Promise<UserInvitation> {
+    try {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to invite users');
+      }
+
+      const email = invitation.email.trim().toLowerCase();
+
+      const { data: existing, error: existingError } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('email', email)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existing) {
+        throw new Error(`${email} already has an account. Change their role in the user list instead.`);
+      }
+
+      const { data, error } = await supabase
+        .from('user_invitations')
+        .insert({
+          email,
+          full_name: invitation.name.trim(),
+          role: invitation.role,
+          department: invitation.department.trim(),
+          law_firm_id: invitation.lawFirmId || null,
+          invited_by: user.id
+        })
+        .select(PROFILE_SELECT)
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error(`${email} has already been invited`);
+        }
+        throw error;
+      }
+
+      // Creates the auth user now; the database applies the invitation only once they
+      // follow the link and sign in, so it can still be cancelled until then
+      const { error: otpError } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          emailRedirectTo: window.location.origin,
+          data: { full_name: invitation.name.trim() }
+        }
+      });
+
+      if (otpError) {
+        // Without the email the invitation can never be accepted
+        await supabase.from('user_invitations').delete().eq('id', data.id);
+        throw otpError;
+      }
+
+      return this.fromInvitationRow(data as InvitationRow);
+    } catch (error) {
+      console.error('Error inviting user:', error);
+      throw new Error(`Failed to invite user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static async cancelInvitation(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('user_invitations')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error cancelling invitation:', error);
+      throw new Error(`Failed to cancel invitation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static fromRow(row: ProfileRow): User {
+    return {
+      id: row.id,
+      name: row.full_name || row.email,
+      email: row.email,
+      role: row.role as UserRole,
+      department: row.department,
+      lawFirmId: row.law_firm_id ?? undefined,
+      lawFirm: row.law_firms?.name,
+      isActive: row.is_active
+    };
+  }
+
+  private static fromInvitationRow(row: InvitationRow): UserInvitation {
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.full_name,
+      role: row.role as UserRole,
+      department: row.department,
+      lawFirmId: row.law_firm_id ?? undefined,
+      lawFirm: row.law_firms?.name,
+      createdAt: row.created_at
+    };
+  }
+}
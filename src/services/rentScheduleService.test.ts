@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { ROF5FormData } from '@/hooks/useROF5Form';
+import { RentScheduleService, RentScheduleTerms } from './rentScheduleService';
+
+const terms = (overrides: Partial<RentScheduleTerms> = {}): RentScheduleTerms => ({
+  monthlyRent: 10000,
+  termYears: 3,
+  escalationModel: 'compound',
+  escalationRate: 10,
+  escalationIntervalYears: 1,
+  stepAmount: 0,
+  rentFreeMonths: 0,
+  renewalTermYears: 0,
+  ...overrides
+});
+
+describe('RentScheduleService', () => {
+  describe('calculate', () => {
+    it('compounds escalation on the current rent', () => {
+      const schedule = RentScheduleService.calculate(terms());
+
+      expect(schedule.periods.map(p => p.annualRent)).toEqual([120000, 132000, 145200]);
+      expect(schedule.initialTermTotal).toBe(397200);
+    });
+
+    it('applies simple escalation to the base rent', () => {
+      const schedule = RentScheduleService.calculate(terms({ escalationModel: 'simple' }));
+
+      expect(schedule.periods.map(p => p.monthlyRent)).toEqual([10000, 11000, 12000]);
+    });
+
+    it('adds a fixed step at each review', () => {
+      const schedule = RentScheduleService.calculate(terms({
+        escalationModel: 'fixed-step',
+        stepAmount: 2500,
+        escalationIntervalYears: 2,
+        termYears: 4
+      }));
+
+      expect(schedule.periods.map(p => p.monthlyRent)).toEqual([10000, 10000, 12500, 12500]);
+    });
+
+    it('keeps the rent flat without escalation', () => {
+      const schedule = RentScheduleService.calculate(terms({ escalationModel: 'none' }));
+
+      expect(schedule.periods.every(p => p.monthlyRent === 10000)).toBe(true);
+    });
+
+    it('leaves rent-free months out of the annual rent', () => {
+      const schedule = RentScheduleService.calculate(terms({ escalationModel: 'none', rentFreeMonths: 15 }));
+
+      expect(schedule.periods.map(p => p.rentFreeMonths)).toEqual([12, 3, 0]);
+      expect(schedule.periods.map(p => p.annualRent)).toEqual([0, 90000, 120000]);
+    });
+
+    it('continues the lease years and escalation into the renewal term', () => {
+      const schedule = RentScheduleService.calculate(terms({ termYears: 2, renewalTermYears: 1 }));
+
+      expect(schedule.periods.map(p => [p.year, p.term])).toEqual([[1, 'initial'], [2, 'initial'], [3, 'renewal']]);
+      expect(schedule.initialTermTotal).toBe(252000);
+      expect(schedule.renewalTermTotal).toBe(145200);
+    });
+
+    it('dates each lease year from the commencement date', () => {
+      const schedule = RentScheduleService.calculate(terms({ termYears: 1, commencementDate: new Date(2024, 0, 31) }));
+
+      expect(schedule.periods[0].startDate).toBe('2024-01-31');
+      expect(schedule.periods[0].endDate).toBe('2025-01-30');
+    });
+
+    it('pro-rates a mid-year commencement across calendar years', () => {
+      const schedule = RentScheduleService.calculate(terms({
+        escalationModel: 'none',
+        termYears: 1,
+        commencementDate: new Date(2024, 6, 1)
+      }));
+
+      expect(schedule.calendarYears).toEqual([
+        { year: 2024, months: 6, amount: 60000 },
+        { year: 2025, months: 6, amount: 60000 }
+      ]);
+    });
+  });
+
+  describe('getTermsFromFormData', () => {
+    it('reads amounts with thousand separators', () => {
+      const result = RentScheduleService.getTermsFromFormData({
+        monthlyRent: '25,000',
+        leaseTerm: '10',
+        commencementDate: '2024-03-01'
+      } as ROF5FormData);
+
+      expect(result.monthlyRent).toBe(25000);
+      expect(result.termYears).toBe(10);
+      expect(result.commencementDate).toEqual(new Date(2024, 2, 1));
+    });
+
+    it('falls back to 5% compounded annually', () => {
+      const result = RentScheduleService.getTermsFromFormData({} as ROF5FormData);
+
+      expect(result.escalationModel).toBe('compound');
+      expect(result.escalationRate).toBe(5);
+      expect(result.escalationIntervalYears).toBe(1);
+    });
+  });
+
+  it('formats schedule amounts in words and figures', () => {
+    expect(RentScheduleService.formatScheduleAmount(600000)).toBe('Six Hundred Thousand (K.Shs. 600,000/=)');
+  });
+});
@@ -0,0 +1,246 @@
+import { ROF5FormData } from "@/hooks/useROF5Form";
+import { formatAmountInWords, formatAmountFigures } from "@/utils/amountInWords";
+
+export type EscalationModel = 'compound' | 'simple' | 'fixed-step' | 'none';
+
+export interface RentScheduleTerms {
+  monthlyRent: number;
+  termYears: number;
+  commencementDate?: Date;
+  escalationModel: EscalationModel;
+  // Percentage applied at each review (compound and simple models)
+  escalationRate: number;
+  // Years between rent reviews
+  escalationIntervalYears: number;
+  // Monthly increase applied at each review (fixed-step model)
+  stepAmount: number;
+  // Months at the start of the term for which no rent is payable
+  rentFreeMonths: number;
+  renewalTermYears: number;
+}
+
+export interface RentSchedulePeriod {
+  // 1-based lease year, counted from the commencement date and continuing into any renewal
+  year: number;
+  term: 'initial' | 'renewal';
+  startDate?: string;
+  endDate?: string;
+  monthlyRent: number;
+  rentFreeMonths: number;
+  annualRent: number;
+}
+
+export interface CalendarYearRent {
+  year: number;
+  // Months of the term falling in the calendar year, pro-rated by day
+  months: number;
+  amount: number;
+}
+
+export interface RentSchedule {
+  terms: RentScheduleTerms;
+  periods: RentSchedulePeriod[];
+  // Rent apportioned to calendar years, so a mid-year commencement is pro-rated
+  calendarYears: CalendarYearRent[];
+  initialTermTotal: number;
+  renewalTermTotal: number;
+}
+
+export const ESCALATION_MODEL_OPTIONS: { value: EscalationModel; label: string }[] = [
+  { value: 'compound', label: 'Compound (% on current rent)' },
+  { value: 'simple', label: 'Simple (% on base rent)' },
+  { value: 'fixed-step', label: 'Fixed step amount' },
+  { value: 'none', label: 'No escalation' }
+];
+
+const DEFAULT_ESCALATION_RATE = 5;
+
+export class RentScheduleService {
+  /**
+   * Read the rent terms captured on the ROF5 form. Missing values fall back to
+   * 5% compound escalation every year with no rent-free period or renewal.
+   */
+  static getTermsFromFormData(formData: ROF5FormData): RentScheduleTerms {
+    const commencement = this.parseDate(formData.commencementDate);
+    const rate = parseFloat(formData.rentEscalation);
+
+    return {
+      monthlyRent: this.parseNumber(formData.monthlyRent),
+      termYears: Math.max(Math.floor(this.parseNumber(formData.leaseTerm)), 0),
+      commencementDate: commencement,
+      escalationModel: (formData.escalationModel as EscalationModel) || 'compound',
+      escalationRate: isNaN(rate) ? DEFAULT_ESCALATION_RATE : rate,
+      escalationIntervalYears: Math.max(Math.floor(this.parseNumber(formData.escalationInterval)) || 1, 1),
+      stepAmount: this.parseNumber(formData.rentStepAmount),
+      rentFreeMonths: Math.max(Math.floor(this.parseNumber(formData.rentFreeMonths)), 0),
+      renewalTermYears: Math.max(Math.floor(this.parseNumber(formData.renewalTerm)), 0)
+    };
+  }
+
+  static calculateFromFormData(formData: ROF5FormData): RentSchedule {
+    return this.calculate(this.getTermsFromFormData(formData));
+  }
+
+  static calculate(terms: RentScheduleTerms): RentSchedule {
+    const totalYears = terms.termYears + terms.renewalTermYears;
+    const periods: RentSchedulePeriod[] = [];
+
+    for (let year = 1; year <= totalYears; year++) {
+      const monthlyRent = this.getMonthlyRentForYear(terms, year);
+      const rentFreeMonths = this.getRentFreeMonthsInYear(terms, year);
+
+      periods.push({
+        year,
+        term: year <= terms.termYears ? 'initial' : 'renewal',
+        startDate: terms.commencementDate ? this.toISODate(this.addMonths(terms.commencementDate, (year - 1) * 12)) : undefined,
+        endDate: terms.commencementDate ? this.toISODate(this.addDays(this.addMonths(terms.commencementDate, year * 12), -1)) : undefined,
+        monthlyRent: this.round(monthlyRent),
+        rentFreeMonths,
+        annualRent: Math.round(monthlyRent * (12 - rentFreeMonths))
+      });
+    }
+
+    const sum = (term: RentSchedulePeriod['term']) =>
+      periods.filter(p => p.term === term).reduce((total, p) => total + p.annualRent, 0);
+
+    return {
+      terms,
+      periods,
+      calendarYears: this.apportionToCalendarYears(terms, totalYears),
+      initialTermTotal: sum('initial'),
+      renewalTermTotal: sum('renewal')
+    };
+  }
+
+  /**
+   * Annual rent for a lease year, or undefined when the year is outside the term
+   */
+  static getAnnualRent(schedule: RentSchedule, year: number): number | undefined {
+    return schedule.periods.find(p => p.year === year)?.annualRent;
+  }
+
+  /**
+   * Formats an amount to follow "Kenya Shillings" in a lease schedule,
+   * e.g. "Six Hundred Thousand (K.Shs. 600,000/=)"
+   */
+  static formatScheduleAmount(amount: number): string {
+    return `${formatAmountInWords(amount, { includeCurrency: false })} (K.Shs. ${formatAmountFigures(amount)}/=)`;
+  }
+
+  static describeEscalation(terms: RentScheduleTerms): string {
+    const interval = terms.escalationIntervalYears === 1
+      ? 'annually'
+      : `every ${terms.escalationIntervalYears} years`;
+
+    switch (terms.escalationModel) {
+      case 'compound':
+        return `${terms.escalationRate}% compounded ${interval}`;
+      case 'simple':
+        return `${terms.escalationRate}% of the base rent ${interval}`;
+      case 'fixed-step':
+        return `KES ${terms.stepAmount.toLocaleString()} per month ${interval}`;
+      default:
+        return 'No escalation';
+    }
+  }
+
+  private static getMonthlyRentForYear(terms: RentScheduleTerms, year: number): number {
+    const reviews = Math.floor((year - 1) / terms.escalationIntervalYears);
+    const rate = terms.escalationRate / 100;
+
+    switch (terms.escalationModel) {
+      case 'compound':
+        return terms.monthlyRent * Math.pow(1 + rate, reviews);
+      case 'simple':
+        return terms.monthlyRent * (1 + rate * reviews);
+      case 'fixed-step':
+        return terms.monthlyRent + terms.stepAmount * reviews;
+      default:
+        return terms.monthlyRent;
+    }
+  }
+
+  private static getRentFreeMonthsInYear(terms: RentScheduleTerms, year: number): number {
+    const monthsBefore = (year - 1) * 12;
+    return Math.min(Math.max(terms.rentFreeMonths - monthsBefore, 0), 12);
+  }
+
+  /**
+   * Walk the term month by month from the commencement date, splitting each
+   * lease month across calendar years by day so partial years are pro-rated.
+   */
+  private static apportionToCalendarYears(terms: RentScheduleTerms, totalYears: number): CalendarYearRent[] {
+    if (!terms.commencementDate || totalYears === 0) return [];
+
+    const totals = new Map<number, CalendarYearRent>();
+    const add = (year: number, months: number, amount: number) => {
+      const entry = totals.get(year) || { year, months: 0, amount: 0 };
+      entry.months += months;
+      entry.amount += amount;
+      totals.set(year, entry);
+    };
+
+    for (let month = 0; month < totalYears * 12; month++) {
+      const start = this.addMonths(terms.commencementDate, month);
+      const end = this.addMonths(terms.commencementDate, month + 1);
+      const rent = month < terms.rentFreeMonths
+        ? 0
+        : this.getMonthlyRentForYear(terms, Math.floor(month / 12) + 1);
+
+      const yearBoundary = new Date(end.getFullYear(), 0, 1);
+      if (start.getFullYear() === end.getFullYear() || end.getTime() === yearBoundary.getTime()) {
+        add(start.getFullYear(), 1, rent);
+      } else {
+        const totalDays = this.daysBetween(start, end);
+        const share = this.daysBetween(start, yearBoundary) / totalDays;
+        add(start.getFullYear(), share, rent * share);
+        add(end.getFullYear(), 1 - share, rent * (1 - share));
+      }
+    }
+
+    return Array.from(totals.values())
+      .sort((a, b) => a.year - b.year)
+      .map(entry => ({ year: entry.year, months: this.round(entry.months), amount: Math.round(entry.amount) }));
+  }
+
+  private static addMonths(date: Date, months: number): Date {
+    const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+    // Clamp to the last day of shorter months (e.g. 31 January + 1 month)
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(date.getDate(), lastDay));
+    return result;
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  private static daysBetween(start: Date, end: Date): number {
+    return Math.round((Date.UTC(end.getFullYear(), end.getMonth(), end.getDate()) -
+      Date.UTC(start.getFullYear(), start.getMonth(), start.getDate())) / 86400000);
+  }
+
+  private static toISODate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  private static parseDate(value?: string): Date | undefined {
+    const isoDate = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    // Read yyyy-mm-dd as a local date; new Date() would treat it as UTC midnight
+    const date = isoDate
+      ? new Date(Number(isoDate[1]), Number(isoDate[2]) - 1, Number(isoDate[3]))
+      : value ? new Date(value) : undefined;
+    return date && !isNaN(date.getTime()) ? date : undefined;
+  }
+
+  private static parseNumber(value?: string): number {
+    const parsed = parseFloat(String(value ?? '').replace(/,/g, ''));
+    return isNaN(parsed) ? 0 : parsed;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
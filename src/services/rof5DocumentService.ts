@@ -1,6 +1,7 @@
 import { DocumentGeneratorService } from "./documentGeneratorService";
 import { ROF5FormData } from "@/hooks/useROF5Form";
 import { DocumentVariable } from "@/types/database";
+import { assertValidROF5FormData, toDocumentVariables } from "@/schemas/rof5Schema";
 
 export interface ROF5Document {
   id: string;
@@ -12,6 +13,8 @@ export interface ROF5Document {
 export class ROF5DocumentService {
   static async generateROF5Document(formData: ROF5FormData): Promise<ROF5Document> {
     console.log('Generating ROF5 document in Word format...');
+    // The ROF5 can be printed part-complete, but whatever is filled in must be well formed
+    assertValidROF5FormData(formData, { allowMissing: true });
     
     const variables = this.extractROF5Variables(formData);
     const templateContent = this.generateROF5Template();
@@ -37,45 +40,9 @@ export class ROF5DocumentService {
       { key: 'form_title', value: 'PROPERTY INSTRUCTION FORM (ROF 5)' },
       { key: 'current_date', value: currentDate.toLocaleDateString() },
       { key: 'form_ref', value: `ROF5-${formData.siteCode || 'NEW'}-${currentDate.getFullYear()}` },
-      
-      // Site Information
-      { key: 'site_name', value: formData.siteName || '[Site Name]' },
-      { key: 'site_code', value: formData.siteCode || '[Site Code]' },
-      { key: 'site_location', value: formData.siteLocation || '[Site Location]' },
-      { key: 'county', value: formData.county || '[County]' },
-      { key: 'sub_county', value: formData.subCounty || '[Sub County]' },
-      { key: 'ward', value: formData.ward || '[Ward]' },
-      
-      // Title Details
-      { key: 'title_number', value: formData.titleNumber || '[Title Number]' },
-      { key: 'title_type', value: formData.titleType || '[Title Type]' },
-      { key: 'registration_section', value: formData.registrationSection || '[Registration Section]' },
-      { key: 'land_area', value: formData.landArea || '[Land Area]' },
-      { key: 'land_use', value: formData.landUse || '[Land Use]' },
-      
-      // Landlord Information
-      { key: 'landlord_name', value: formData.landlordName || '[Landlord Name]' },
-      { key: 'landlord_type', value: formData.landlordType || '[Landlord Type]' },
-      { key: 'landlord_address', value: formData.landlordAddress || '[Landlord Address]' },
-      { key: 'landlord_phone', value: formData.landlordPhone || '[Phone]' },
-      { key: 'landlord_email', value: formData.landlordEmail || '[Email]' },
-      { key: 'landlord_id', value: formData.landlordId || '[ID Number]' },
-      
-      // Lease Terms
-      { key: 'lease_type', value: formData.leaseType || '[Lease Type]' },
-      { key: 'lease_term', value: formData.leaseTerm || '[Lease Term]' },
-      { key: 'commencement_date', value: formData.commencementDate || '[Commencement Date]' },
-      { key: 'monthly_rent', value: formData.monthlyRent || '[Monthly Rent]' },
-      { key: 'deposit', value: formData.deposit || '[Deposit Amount]' },
-      { key: 'rent_escalation', value: formData.rentEscalation || '5%' },
-      
-      // Additional Information
-      { key: 'permit_type', value: formData.permitType || '[Permit Type]' },
-      { key: 'special_conditions', value: formData.specialConditions || '[Special Conditions]' },
-      { key: 'documents_received', value: formData.documentsReceived?.join(', ') || '[Documents Received]' },
-      { key: 'instructing_counsel', value: formData.instructingCounsel || '[Instructing Counsel]' },
-      { key: 'urgency_level', value: formData.urgencyLevel || '[Urgency Level]' },
-      { key: 'expected_completion', value: formData.expectedCompletionDate || '[Expected Completion]' }
+
+      // Form fields, with a bracketed label for anything left blank
+      ...toDocumentVariables(formData, (definition) => `[${definition.label}]`)
     ];
   }
 
@@ -114,6 +81,8 @@ Address: {{landlord_address}}
 Phone: {{landlord_phone}}
 Email: {{landlord_email}}
 ID Number: {{landlord_id}}
+KRA PIN: {{landlord_pin}}
+Additional Landlords: {{additional_landlords}}
 
 SECTION D: LEASE TERMS
 ═══════════════════════════════════════════════════════════════════
@@ -137,7 +106,7 @@ SECTION F: INTERNAL PROCESSING
 
 Instructing Counsel: {{instructing_counsel}}
 Urgency Level: {{urgency_level}}
-Expected Completion: {{expected_completion}}
+Expected Completion: {{expected_completion_date}}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
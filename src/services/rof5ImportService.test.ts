@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ROF5ImportService } from './rof5ImportService';
+
+const byField = (lines: string[]) =>
+  Object.fromEntries(ROF5ImportService.extractFields(lines).map(found => [found.field, found]));
+
+describe('ROF5ImportService.extractFields', () => {
+  it('reads "Label: value" lines and converts the values', () => {
+    const fields = byField([
+      'Site Code: NBI001',
+      'Monthly Rent (KES): K.Shs. 50,000/=',
+      'Lease Type: Licence',
+      'Commencement Date: 1st February 2025'
+    ]);
+
+    expect(fields.siteCode).toMatchObject({ value: 'NBI001', confidence: 'high' });
+    expect(fields.monthlyRent).toMatchObject({ rawValue: 'K.Shs. 50,000/=', value: '50,000' });
+    expect(fields.leaseType.value).toBe('licence');
+    expect(fields.commencementDate.value).toBe('2025-02-01');
+  });
+
+  it('reads values from the next table cell or line', () => {
+    const fields = byField([
+      'Site Name\tWestlands Plaza\tTitle No.\tNAIROBI/BLOCK 82/1234',
+      'KRA PIN',
+      'a123456789z'
+    ]);
+
+    expect(fields.siteName.value).toBe('Westlands Plaza');
+    expect(fields.titleNumber).toMatchObject({ value: 'NAIROBI/BLOCK 82/1234', score: 0.9 });
+    expect(fields.landlordPin).toMatchObject({ value: 'A123456789Z', score: 0.85, lineIndex: 2 });
+  });
+
+  it('gives loosely matched labels a lower confidence', () => {
+    const fields = byField(['Name of the Registered Proprietor: John Kamau']);
+
+    expect(fields.landlordName).toMatchObject({ value: 'John Kamau', confidence: 'medium' });
+  });
+
+  it('keeps the closest label match for each field', () => {
+    const fields = byField(['Rent: 40,000', 'Monthly Rent (KES): 45,000']);
+
+    expect(fields.monthlyRent.value).toBe('45,000');
+  });
+
+  it('flags values that fail validation', () => {
+    const fields = byField(['Landlord Type: Individual', 'ID Number: 123']);
+
+    expect(fields.landlordId.issue).toBeDefined();
+    expect(fields.landlordId.confidence).toBe('low');
+  });
+
+  it('ignores text without labels', () => {
+    expect(ROF5ImportService.extractFields(['REQUEST FOR OFFER FORM', 'Please complete in block capitals'])).toEqual([]);
+  });
+});
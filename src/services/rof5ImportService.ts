@@ -0,0 +1,275 @@
+import {
+  ROF5FormData,
+  ROF5TextFieldKey,
+  createEmptyROF5FormData,
+  getFieldDefinition,
+  getFieldKeys,
+  isTextField,
+  validateROF5FormData
+} from "@/schemas/rof5Schema";
+import { extractPdfLines, extractWordDocumentLines } from "@/utils/templates/documentParser";
+import { stripCurrency } from "@/utils/amountInWords";
+
+export type ImportConfidence = 'high' | 'medium' | 'low';
+
+export interface ImportedField {
+  field: ROF5TextFieldKey;
+  label: string;
+  // Value as written in the document
+  rawValue: string;
+  // Value converted to the form's format, e.g. an ISO date or a select option
+  value: string;
+  // 0 to 1, from how closely the label matched and whether the value is valid
+  score: number;
+  confidence: ImportConfidence;
+  // Line of the document the value was read from
+  lineIndex: number;
+  issue?: string;
+}
+
+export interface ROF5ImportResult {
+  fileName: string;
+  lines: string[];
+  fields: ImportedField[];
+}
+
+// Other labels used for ROF5 fields on older and hand-made forms
+const LABEL_ALIASES: Partial<Record<ROF5TextFieldKey, string[]>> = {
+  siteCode: ['Site ID', 'Site Number', 'Site No'],
+  siteLocation: ['Location', 'Physical Location'],
+  titleNumber: ['Title No', 'LR No', 'LR Number', 'Parcel Number', 'Plot Number'],
+  landArea: ['Acreage', 'Plot Size', 'Land Size'],
+  landlordName: ['Landlord', 'Lessor', 'Grantor', 'Registered Owner', 'Registered Proprietor'],
+  landlordAddress: ['Postal Address', 'Address'],
+  landlordPhone: ['Phone', 'Telephone', 'Mobile', 'Mobile Number', 'Tel'],
+  landlordEmail: ['Email', 'E-mail'],
+  landlordId: ['ID Number', 'ID No', 'National ID', 'Passport Number', 'Company Registration Number'],
+  landlordPin: ['PIN', 'PIN Number', 'KRA PIN Number'],
+  leaseType: ['Agreement Type', 'Type of Agreement', 'Document Type'],
+  leaseTerm: ['Term', 'Lease Period', 'Term of Lease', 'Term (Years)'],
+  commencementDate: ['Start Date', 'Date of Commencement'],
+  monthlyRent: ['Rent', 'Rent per Month', 'Monthly Rental'],
+  deposit: ['Deposit'],
+  rentEscalation: ['Escalation', 'Escalation Rate'],
+  renewalTerm: ['Renewal', 'Renewal Period'],
+  instructingCounsel: ['Counsel', 'Instructing Advocate'],
+  specialConditions: ['Special Conditions', 'Notes', 'Remarks']
+};
+
+const LABEL_SCORE = 1;
+const ALIAS_SCORE = 0.9;
+// A known label found inside a longer one, e.g. "Name of Landlord"
+const PARTIAL_SCORE = 0.6;
+// The value was on the line after its label rather than beside it
+const NEXT_LINE_FACTOR = 0.85;
+const INVALID_FACTOR = 0.5;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const normalizeLabel = (label: string): string =>
+  label.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9]/g, '');
+
+const textFieldKeys = getFieldKeys().filter(isTextField);
+
+const LABEL_INDEX: Map<string, { field: ROF5TextFieldKey; score: number }> = (() => {
+  const index = new Map<string, { field: ROF5TextFieldKey; score: number }>();
+  const add = (label: string, field: ROF5TextFieldKey, score: number) => {
+    const key = normalizeLabel(label);
+    if (key && !index.has(key)) index.set(key, { field, score });
+  };
+
+  // Every field's own label is registered before any alias, so labels win
+  textFieldKeys.forEach(field => add(getFieldDefinition(field).label, field, LABEL_SCORE));
+  textFieldKeys.forEach(field => (LABEL_ALIASES[field] ?? []).forEach(alias => add(alias, field, ALIAS_SCORE)));
+  return index;
+})();
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null =>
+  year > 1900 && month >= 1 && month <= 12 && day >= 1 && day <= 31 ? `${year}-${pad(month)}-${pad(day)}` : null;
+
+/**
+ * Reads dates as written on Kenyan forms: day first, e.g. 01/02/2025 or 1st February 2025
+ */
+const parseDate = (value: string): string | null => {
+  const text = value.trim().toLowerCase();
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) return toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = text.match(/^(\d{1,2})(?:st|nd|rd|th)?(?:\s+day\s+of)?\s+([a-z]+),?\s+(\d{4})$/);
+  if (match) return toIsoDate(Number(match[3]), MONTHS.indexOf(match[2].slice(0, 3)) + 1, Number(match[1]));
+
+  match = text.match(/^([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  if (match) return toIsoDate(Number(match[3]), MONTHS.indexOf(match[1].slice(0, 3)) + 1, Number(match[2]));
+
+  return null;
+};
+
+/**
+ * Converts text from the document to the format the form field expects
+ */
+const convertValue = (field: ROF5TextFieldKey, rawValue: string): string => {
+  const definition = getFieldDefinition(field);
+  const value = rawValue.trim();
+
+  switch (definition.format) {
+    case 'select': {
+      const text = value.toLowerCase();
+      const options = definition.options ?? [];
+      const exact = options.find(option => option.value === text || option.label.toLowerCase() === text);
+      if (exact) return exact.value;
+      // "Lease" for "Lease Agreement", or "Freehold Title" for "Freehold"
+      const partial = options
+        .filter(option => option.label.toLowerCase().includes(text) || text.includes(option.label.toLowerCase()))
+        .sort((a, b) => b.label.length - a.label.length)[0];
+      return partial?.value ?? value;
+    }
+    case 'date':
+      return parseDate(value) ?? value;
+    case 'kes':
+      return stripCurrency(value);
+    case 'number':
+      return value.match(/\d+(\.\d+)?/)?.[0] ?? value;
+    case 'kra-pin':
+      return value.toUpperCase().replace(/\s/g, '');
+    default:
+      return value;
+  }
+};
+
+const getConfidence = (score: number): ImportConfidence =>
+  score >= 0.85 ? 'high' : score >= 0.55 ? 'medium' : 'low';
+
+export class ROF5ImportService {
+  /**
+   * Reads a filled-in ROF5 form and picks out the labelled values
+   * @param file .docx form, or a PDF with a text layer
+   * @returns The document's lines and the fields found in them
+   */
+  static async importFile(file: File): Promise<ROF5ImportResult> {
+    const fileName = file.name.toLowerCase();
+    let lines: string[];
+
+    if (fileName.endsWith('.docx')) {
+      lines = await extractWordDocumentLines(file);
+    } else if (fileName.endsWith('.pdf')) {
+      lines = await extractPdfLines(file);
+    } else {
+      throw new Error('Upload a ROF5 form as a Word (.docx) or PDF file');
+    }
+
+    const fields = this.extractFields(lines);
+    if (fields.length === 0) {
+      throw new Error('No ROF5 fields were found. Check that the form uses labels such as "Site Code:" and "Title Number:".');
+    }
+
+    return { fileName: file.name, lines, fields };
+  }
+
+  /**
+   * Finds "Label: value" pairs, and label and value in neighbouring table cells or lines
+   * @param lines Document text, with table cells separated by tabs
+   * @returns The best match for each field, in form order
+   */
+  static extractFields(lines: string[]): ImportedField[] {
+    const found = new Map<ROF5TextFieldKey, ImportedField>();
+
+    const record = (field: ROF5TextFieldKey, rawValue: string, score: number, lineIndex: number) => {
+      const existing = found.get(field);
+      if (!rawValue.trim() || (existing && existing.score >= score)) return;
+
+      found.set(field, {
+        field,
+        label: getFieldDefinition(field).label,
+        rawValue: rawValue.trim(),
+        value: convertValue(field, rawValue),
+        score,
+        confidence: getConfidence(score),
+        lineIndex
+      });
+    };
+
+    lines.forEach((line, lineIndex) => {
+      const cells = line.split('\t').map(cell => cell.trim()).filter(Boolean);
+
+      for (let i = 0; i < cells.length; i++) {
+        const colon = cells[i].indexOf(':');
+        // Only text followed by a colon is clearly a label, so only it may match loosely
+        const match = colon > 0 ? this.matchLabel(cells[i].slice(0, colon), true) : this.matchLabel(cells[i], false);
+        if (!match) continue;
+
+        const inlineValue = colon > 0 ? cells[i].slice(colon + 1).trim() : '';
+        if (inlineValue) {
+          record(match.field, inlineValue, match.score, lineIndex);
+        } else if (i + 1 < cells.length && !this.isLabel(cells[i + 1])) {
+          record(match.field, cells[i + 1], match.score, lineIndex);
+          i++;
+        } else if (cells.length === 1 && lineIndex + 1 < lines.length && !this.isLabel(lines[lineIndex + 1])) {
+          record(match.field, lines[lineIndex + 1], match.score * NEXT_LINE_FACTOR, lineIndex + 1);
+        }
+      }
+    });
+
+    // Check the values together, as some rules depend on other fields (e.g. ID against landlord type)
+    const fields = textFieldKeys.filter(field => found.has(field)).map(field => found.get(field)!);
+    const { errors } = validateROF5FormData(this.toFormData(fields), { fields: fields.map(found => found.field), allowMissing: true });
+
+    return fields.map(found => {
+      const issue = errors[found.field];
+      if (!issue) return found;
+      const score = found.score * INVALID_FACTOR;
+      return { ...found, score, confidence: getConfidence(score), issue };
+    });
+  }
+
+  /**
+   * Form data holding the confirmed fields; everything else keeps its default
+   */
+  static toFormData(fields: Pick<ImportedField, 'field' | 'value'>[]): ROF5FormData {
+    const formData = createEmptyROF5FormData();
+    fields.forEach(({ field, value }) => {
+      formData[field] = value;
+    });
+    return formData;
+  }
+
+  /**
+   * Value from a document or spreadsheet in the form's format, e.g. "1st February 2025" as 2025-02-01
+   */
+  static convertValue(field: ROF5TextFieldKey, rawValue: string): string {
+    return convertValue(field, rawValue);
+  }
+
+  /**
+   * The ROF5 field a label or column heading refers to
+   * @param text Label text, e.g. "Title No." or "Name of Landlord"
+   * @param allowPartial Also match a known label inside longer text, with a lower score
+   */
+  static matchLabel(text: string, allowPartial = false): { field: ROF5TextFieldKey; score: number } | null {
+    // Drop item numbering such as "1." or "(a)"
+    const key = normalizeLabel(text.replace(/^\(?[0-9a-z]{1,3}[.)]\s+/i, ''));
+    if (key.length < 2 || key.length > 60) return null;
+
+    const exact = LABEL_INDEX.get(key);
+    if (exact || !allowPartial) return exact ?? null;
+
+    let best: { field: ROF5TextFieldKey; score: number; length: number } | null = null;
+    LABEL_INDEX.forEach((match, label) => {
+      if (label.length >= 4 && key.includes(label) && (!best || label.length > best.length)) {
+        best = { field: match.field, score: PARTIAL_SCORE, length: label.length };
+      }
+    });
+    return best;
+  }
+
+  private static isLabel(text: string): boolean {
+    const first = text.split('\t')[0];
+    const colon = first.indexOf(':');
+    return colon > 0 ? this.matchLabel(first.slice(0, colon), true) !== null : this.matchLabel(first, false) !== null;
+  }
+}
@@ -0,0 +1,377 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import {
+  ROF5FormData,
+  ROF5TextFieldKey,
+  getFieldDefinition,
+  getFieldKeys,
+  normalizeROF5FormData
+} from "@/schemas/rof5Schema";
+import { WorkflowStage } from "@/types/workflow";
+import { WorkflowStateMachine } from "./workflowStateMachine";
+import { Landlord, LandlordService } from "./landlordService";
+
+export interface Site {
+  id: string;
+  siteCode: string;
+  siteName: string;
+  siteLocation: string;
+  county: string;
+  subCounty: string;
+  ward: string;
+  titleNumber: string;
+  titleType: string;
+  registrationSection: string;
+  landArea: string;
+  landUse: string;
+  landlordId?: string;
+  landlordName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SiteInput = Omit<Site, 'id' | 'landlordName' | 'createdAt' | 'updatedAt'>;
+
+// Registry site fields share their names with the ROF5 site and title fields
+export const SITE_FORM_FIELDS = [
+  'siteCode', 'siteName', 'siteLocation', 'county', 'subCounty', 'ward',
+  'titleNumber', 'titleType', 'registrationSection', 'landArea', 'landUse'
+] as const satisfies readonly ROF5TextFieldKey[];
+
+export type SiteFormField = (typeof SITE_FORM_FIELDS)[number];
+
+/**
+ * One instruction in a site's history. An instruction renews the site's earlier
+ * agreement of the same type; a wayleave or licence over a leased site is new.
+ */
+export interface SiteHistoryEntry {
+  instructionId: string;
+  kind: 'new' | 'renewal';
+  documentType: string;
+  landlordName: string;
+  stage: WorkflowStage;
+  stageLabel: string;
+  createdAt: string;
+  commencementDate?: string;
+  termYears?: number;
+  // Commencement date plus the lease term, when both are known
+  expiryDate?: string;
+  generatedDocuments: string[];
+  executedDocuments: string[];
+}
+
+type SiteRow = Tables<'sites'> & { landlord?: Pick<Tables<'landlords'>, 'name'> | null };
+
+type HistoryRow = Pick<
+  Tables<'instructions'>,
+  'id' | 'landlord_name' | 'stage' | 'created_at' | 'form_data' | 'generated_documents' | 'executed_documents'
+>;
+
+// Sections copied from an earlier instruction when a site is picked on the ROF5 form
+const PREFILL_SECTIONS = ['site', 'title', 'landlord'] as const;
+
+const isMissingTable = (error: { code?: string; message?: string }) =>
+  error.code === '42P01' || !!error.message?.includes('does not exist');
+
+export class SiteService {
+  /**
+   * Registry sites ordered by site code, optionally filtered by code, name or location
+   */
+  static async getSites(search = ''): Promise<Site[]> {
+    try {
+      let query = supabase
+        .from('sites')
+        .select('*, landlord:landlords(name)')
+        .order('site_code');
+
+      const term = search.trim().replace(/[,%()]/g, ' ');
+      if (term) {
+        query = query.or(`site_code.ilike.%${term}%,site_name.ilike.%${term}%,site_location.ilike.%${term}%`);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (isMissingTable(error)) {
+          console.warn('sites table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row as SiteRow));
+    } catch (error) {
+      console.error('Error loading sites:', error);
+      throw new Error(`Failed to load sites: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Sites whose code starts with the text typed so far, for autocomplete
+   */
+  static async searchByCode(prefix: string, limit = 8): Promise<Site[]> {
+    const term = prefix.trim().replace(/[%_]/g, '');
+    if (!term) return [];
+
+    const { data, error } = await supabase
+      .from('sites')
+      .select('*, landlord:landlords(name)')
+      .ilike('site_code', `${term}%`)
+      .order('site_code')
+      .limit(limit);
+
+    if (error) {
+      if (isMissingTable(error)) return [];
+      console.error('Error searching sites:', error);
+      return [];
+    }
+
+    return (data || []).map(row => this.fromRow(row as SiteRow));
+  }
+
+  static async getSiteByCode(siteCode: string): Promise<Site | null> {
+    try {
+      const { data, error } = await supabase
+        .from('sites')
+        .select('*, landlord:landlords(name)')
+        .eq('site_code', siteCode.trim())
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? this.fromRow(data as SiteRow) : null;
+    } catch (error) {
+      console.error('Error loading site:', error);
+      throw new Error(`Failed to load site: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a site, or update the existing one when an ID is given
+   */
+  static async saveSite(input: SiteInput, id?: string): Promise<Site> {
+    if (!input.siteCode.trim() || !input.siteName.trim()) {
+      throw new Error('Site code and site name are required');
+    }
+
+    try {
+      const row = this.toRow(input);
+
+      if (id) {
+        const { data, error } = await supabase
+          .from('sites')
+          .update(row)
+          .eq('id', id)
+          .select('*, landlord:landlords(name)')
+          .single();
+
+        if (error) throw error;
+        return this.fromRow(data as SiteRow);
+      }
+
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User must be authenticated to add sites');
+      }
+
+      const { data, error } = await supabase
+        .from('sites')
+        .insert({ ...row, site_code: input.siteCode.trim(), site_name: input.siteName.trim(), created_by: user.id })
+        .select('*, landlord:landlords(name)')
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error(`Site ${input.siteCode.trim()} is already in the registry`);
+        }
+        throw error;
+      }
+      return this.fromRow(data as SiteRow);
+    } catch (error) {
+      console.error('Error saving site:', error);
+      throw new Error(`Failed to save site: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Saves the site and landlord on a submitted instruction to the registry,
+   * creating or updating the records, and returns their IDs for the instruction.
+   * Fields left blank on the form keep the value already in the registry.
+   */
+  static async registerFromFormData(formData: ROF5FormData): Promise<{ siteId?: string; landlordId?: string }> {
+    const landlord = await LandlordService.registerFromFormData(formData);
+    const existing = await this.getSiteByCode(formData.siteCode);
+
+    const input = this.fromFormData(formData);
+    if (existing) {
+      SITE_FORM_FIELDS.forEach(field => {
+        input[field] = input[field] || existing[field];
+      });
+    }
+
+    const site = await this.saveSite(
+      { ...input, landlordId: landlord?.id ?? existing?.landlordId },
+      existing?.id
+    );
+
+    return { siteId: site.id, landlordId: landlord?.id };
+  }
+
+  /**
+   * ROF5 site, title and landlord fields for a site picked on the form. Fields are
+   * copied from the latest instruction for the site, including additional landlords,
+   * and then overlaid with the registry site and landlord, which hold the most recent
+   * edits.
+   */
+  static async getFormPrefill(site: Site): Promise<Partial<ROF5FormData>> {
+    const { data, error } = await supabase
+      .from('instructions')
+      .select('form_data')
+      .or(this.instructionFilter(site))
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+
+    let prefill: Partial<ROF5FormData> = {};
+    if (data?.[0]) {
+      const previous = normalizeROF5FormData(data[0].form_data as Partial<ROF5FormData>);
+      prefill = Object.fromEntries(
+        getFieldKeys()
+          .filter(key => (PREFILL_SECTIONS as readonly string[]).includes(getFieldDefinition(key).section))
+          .map(key => [key, previous[key]])
+      ) as Partial<ROF5FormData>;
+    }
+
+    const landlord: Landlord | null = site.landlordId ? await LandlordService.getLandlord(site.landlordId) : null;
+
+    return {
+      ...prefill,
+      ...this.toFormData(site),
+      ...(landlord ? LandlordService.toFormData(landlord) : {})
+    };
+  }
+
+  /**
+   * Every instruction for a site, oldest first, as leases and renewals
+   */
+  static async getSiteHistory(site: Site): Promise<SiteHistoryEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('instructions')
+        .select('id, landlord_name, stage, created_at, form_data, generated_documents, executed_documents')
+        .or(this.instructionFilter(site))
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Agreement types the site already had when each instruction was raised
+      const earlierTypes = new Set<string>();
+      return (data || []).map(row => this.toHistoryEntry(row, earlierTypes));
+    } catch (error) {
+      console.error('Error loading site history:', error);
+      throw new Error(`Failed to load site history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static fromFormData(formData: ROF5FormData): SiteInput {
+    return Object.fromEntries(
+      SITE_FORM_FIELDS.map(field => [field, (formData[field] ?? '').trim()])
+    ) as unknown as SiteInput;
+  }
+
+  /**
+   * ROF5 site and title fields filled from a registry site, skipping blank details
+   */
+  static toFormData(site: Site): Partial<ROF5FormData> {
+    return Object.fromEntries(
+      SITE_FORM_FIELDS.filter(field => site[field]).map(field => [field, site[field]])
+    ) as Partial<ROF5FormData>;
+  }
+
+  static createEmptySite(): SiteInput {
+    return {
+      siteCode: '', siteName: '', siteLocation: '', county: '', subCounty: '', ward: '',
+      titleNumber: '', titleType: '', registrationSection: '', landArea: '', landUse: ''
+    };
+  }
+
+  // Instructions linked to the site, plus older ones that only carry its code
+  private static instructionFilter(site: Site): string {
+    return `site_id.eq.${site.id},site_code.eq."${site.siteCode.replace(/"/g, '')}"`;
+  }
+
+  private static toHistoryEntry(row: HistoryRow, earlierTypes: Set<string>): SiteHistoryEntry {
+    const formData = normalizeROF5FormData(row.form_data as Partial<ROF5FormData>);
+    const definition = WorkflowStateMachine.getDefinition(formData.leaseType);
+    // Compared by ROF5 lease type, so the lease that follows an agreement to lease is new
+    const agreementType = formData.leaseType || 'lease';
+    const isRenewal = earlierTypes.has(agreementType);
+    earlierTypes.add(agreementType);
+    const stage = row.stage as WorkflowStage;
+    const termYears = parseInt(formData.leaseTerm, 10);
+
+    return {
+      instructionId: row.id,
+      kind: isRenewal ? 'renewal' : 'new',
+      documentType: definition.name,
+      landlordName: row.landlord_name,
+      stage,
+      stageLabel: WorkflowStateMachine.getStageLabel(definition, stage),
+      createdAt: row.created_at.split('T')[0],
+      commencementDate: formData.commencementDate || undefined,
+      termYears: isNaN(termYears) ? undefined : termYears,
+      expiryDate: this.getExpiryDate(formData.commencementDate, termYears),
+      generatedDocuments: (row.generated_documents as string[]) || [],
+      executedDocuments: (row.executed_documents as string[]) || []
+    };
+  }
+
+  private static getExpiryDate(commencementDate: string, termYears: number): string | undefined {
+    const match = commencementDate.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match || isNaN(termYears) || termYears <= 0) return undefined;
+
+    const expiry = new Date(Date.UTC(Number(match[1]) + termYears, Number(match[2]) - 1, Number(match[3])));
+    expiry.setUTCDate(expiry.getUTCDate() - 1);
+    return expiry.toISOString().split('T')[0];
+  }
+
+  private static toRow(input: Partial<SiteInput>): TablesUpdate<'sites'> {
+    const row: TablesUpdate<'sites'> = {};
+
+    if (input.siteCode !== undefined) row.site_code = input.siteCode.trim();
+    if (input.siteName !== undefined) row.site_name = input.siteName.trim();
+    if (input.siteLocation !== undefined) row.site_location = input.siteLocation.trim();
+    if (input.county !== undefined) row.county = input.county.trim();
+    if (input.subCounty !== undefined) row.sub_county = input.subCounty.trim();
+    if (input.ward !== undefined) row.ward = input.ward.trim();
+    if (input.titleNumber !== undefined) row.title_number = input.titleNumber.trim();
+    if (input.titleType !== undefined) row.title_type = input.titleType;
+    if (input.registrationSection !== undefined) row.registration_section = input.registrationSection.trim();
+    if (input.landArea !== undefined) row.land_area = input.landArea.trim();
+    if (input.landUse !== undefined) row.land_use = input.landUse;
+    if ('landlordId' in input) row.landlord_id = input.landlordId ?? null;
+
+    return row;
+  }
+
+  private static fromRow(row: SiteRow): Site {
+    return {
+      id: row.id,
+      siteCode: row.site_code,
+      siteName: row.site_name,
+      siteLocation: row.site_location,
+      county: row.county,
+      subCounty: row.sub_county,
+      ward: row.ward,
+      titleNumber: row.title_number,
+      titleType: row.title_type,
+      registrationSection: row.registration_section,
+      landArea: row.land_area,
+      landUse: row.land_use,
+      landlordId: row.landlord_id ?? undefined,
+      landlordName: row.landlord?.name,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -1,6 +1,7 @@
 
 import { supabase } from "@/integrations/supabase/client";
 import { TemplateCategory } from "@/types/database";
+import { TemplateVersionService } from "./templateVersionService";
 
 export interface SystemTemplate {
   id: string;
@@ -14,6 +15,7 @@ export interface SystemTemplate {
   created_at: string;
   updated_at: string;
   is_active: boolean;
+  current_version?: number;
 }
 
 export interface CreateSystemTemplateData {
@@ -74,6 +76,23 @@ export class SystemTemplateService {
 
       console.log('Template uploaded successfully:', template.id);
 
+      // Start the version history with the uploaded file. Without version 1 the template
+      // could not be restored or cited by documents, so the upload is undone; the file
+      // is stored on the template row and goes with it.
+      try {
+        await TemplateVersionService.createVersion(template.id, data, 'Initial upload');
+      } catch (versionError) {
+        const { error: cleanupError } = await supabase
+          .from('system_templates')
+          .delete()
+          .eq('id', template.id);
+
+        if (cleanupError) {
+          console.error('Error removing template after version 1 failed:', cleanupError);
+        }
+        throw new Error(`Failed to upload system template: ${versionError instanceof Error ? versionError.message : 'Unknown error'}`);
+      }
+
       return {
         ...template,
         file_data: data.file_data // Return original Uint8Array
@@ -177,25 +196,54 @@ export class SystemTemplateService {
     }
   }
 
-  static async updateSystemTemplate(id: string, updates: Partial<CreateSystemTemplateData>): Promise<SystemTemplate> {
+  /**
+   * Update a template. Replacing the file records it as a new version with the given notes.
+   */
+  static async updateSystemTemplate(
+    id: string,
+    updates: Partial<CreateSystemTemplateData>,
+    versionNotes?: string
+  ): Promise<SystemTemplate> {
     try {
       console.log('Updating system template:', id);
       
       const updateData: any = {};
+
+      if (updates.file_data) {
+        let { file_name, content_type } = updates;
+        if (!file_name || !content_type) {
+          const { data: current, error: currentError } = await supabase
+            .from('system_templates')
+            .select('file_name, content_type')
+            .eq('id', id)
+            .single();
+
+          if (currentError) {
+            throw new Error(`Failed to load current template: ${currentError.message}`);
+          }
+          file_name = file_name || current.file_name;
+          content_type = content_type || current.content_type;
+        }
+
+        // Stores the file on the template along with its new version
+        await TemplateVersionService.createVersion(
+          id,
+          { file_name, content_type, file_data: updates.file_data },
+          versionNotes
+        );
+      } else {
+        if (updates.file_name) updateData.file_name = updates.file_name;
+        if (updates.content_type) updateData.content_type = updates.content_type;
+      }
       
       if (updates.name) updateData.name = updates.name;
       if (updates.description !== undefined) updateData.description = updates.description;
       if (updates.category) updateData.category = updates.category;
-      if (updates.file_name) updateData.file_name = updates.file_name;
-      if (updates.content_type) updateData.content_type = updates.content_type;
-      if (updates.file_data) updateData.file_data = updates.file_data; // Store Uint8Array directly
 
-      const { data: template, error } = await supabase
-        .from('system_templates')
-        .update(updateData)
-        .eq('id', id)
-        .select()
-        .single();
+      // A file-only update has already been saved with its version
+      const { data: template, error } = Object.keys(updateData).length > 0
+        ? await supabase.from('system_templates').update(updateData).eq('id', id).select().single()
+        : await supabase.from('system_templates').select('*').eq('id', id).single();
 
       if (error) {
         console.error('Error updating system template:', error);
@@ -1,4 +1,6 @@
 import { ROF5FormData } from "@/hooks/useROF5Form";
+import { RentScheduleService } from "./rentScheduleService";
+import { LandlordPartyService } from "./landlordPartyService";
 
 export interface PlaceholderMapping {
   id: string;
@@ -9,6 +11,14 @@ export interface PlaceholderMapping {
   getValue: (formData: ROF5FormData) => string;
 }
 
+export type PlaceholderMatchStatus = 'matched' | 'low-confidence' | 'ambiguous' | 'unmapped' | 'manual';
+
+export interface PlaceholderCandidate {
+  mappingId: string;
+  description: string;
+  score: number;
+}
+
 export interface DetectedPlaceholder {
   id: string;
   order: number;
@@ -18,8 +28,24 @@ export interface DetectedPlaceholder {
   description: string;
   value: string;
   filled: boolean;
+  mappingId?: string;
+  confidence?: number;
+  matchStatus?: PlaceholderMatchStatus;
+  candidates?: PlaceholderCandidate[];
+  contextBefore?: string;
+  contextAfter?: string;
 }
 
+// Below this score a blank is not filled automatically
+const MIN_MATCH_CONFIDENCE = 0.5;
+// A runner-up this close to the best score makes the match ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+const CONTEXT_WORDS = 12;
+const PATTERN_WORDS = 8;
+// How many words a pattern word may drift from its expected position
+const POSITION_SLACK = 1;
+const STOP_WORDS = new Set(['the', 'of', 'and', 'an', 'to', 'in', 'as', 'at', 'by', 'for', 'on', 'or', 'this', 'that', 'is', 'be']);
+
 export class TemplatePlaceholderService {
   // Define placeholder mappings for each template type
   private static readonly TEMPLATE_MAPPINGS: Record<string, PlaceholderMapping[]> = {
@@ -30,7 +56,7 @@ export class TemplatePlaceholderService {
         pattern: 'from………………………………………………………(as the "Landlord")',
         description: 'Landlord Name',
         rof5Field: 'landlordName',
-        getValue: (data) => data.landlordName || '[Landlord Name]'
+        getValue: (data) => LandlordPartyService.getLandlordNames(data) || '[Landlord Name]'
       },
       {
         id: 'land-reference-2',
@@ -76,7 +102,7 @@ export class TemplatePlaceholderService {
         pattern: 'The Landlord: ……………………………….',
         description: 'Landlord Name (Second Reference)',
         rof5Field: 'landlordName',
-        getValue: (data) => data.landlordName || '[Landlord Name]'
+        getValue: (data) => LandlordPartyService.getLandlordNames(data) || '[Landlord Name]'
       },
       {
         id: 'postal-address-7',
@@ -86,7 +112,7 @@ export class TemplatePlaceholderService {
         rof5Field: 'landlordAddress',
         getValue: (data) => data.landlordAddress || '[Landlord Address]'
       },
-      // Rent schedule for years 1-20
+      // Rent schedule for years 1-10
       ...Array.from({ length: 10 }, (_, i) => ({
         id: `rent-year-${i + 8}`,
         order: i + 8,
@@ -94,10 +120,8 @@ export class TemplatePlaceholderService {
         description: `Year ${i + 1} Rent`,
         rof5Field: 'calculated' as const,
         getValue: (data: ROF5FormData) => {
-          const baseRent = parseFloat(data.monthlyRent || '0');
-          const escalationRate = parseFloat(data.rentEscalation || '5') / 100;
-          const yearlyRent = Math.round(baseRent * 12 * Math.pow(1 + escalationRate, i));
-          return `${yearlyRent.toLocaleString()} (K.Shs. ${yearlyRent.toLocaleString()}/=)`;
+          const yearlyRent = RentScheduleService.getAnnualRent(RentScheduleService.calculateFromFormData(data), i + 1);
+          return yearlyRent !== undefined ? RentScheduleService.formatScheduleAmount(yearlyRent) : `[Year ${i + 1} Rent]`;
         }
       })),
       {
@@ -133,7 +157,7 @@ export class TemplatePlaceholderService {
         pattern: 'from …………………………………………………. (as the "Landlord")',
         description: 'Landlord Name',
         rof5Field: 'landlordName',
-        getValue: (data) => data.landlordName || '[Landlord Name]'
+        getValue: (data) => LandlordPartyService.getLandlordNames(data) || '[Landlord Name]'
       },
       {
         id: 'title-number-2',
@@ -167,7 +191,7 @@ export class TemplatePlaceholderService {
         pattern: 'from …………………………………………………. (as the "Landlord")',
         description: 'Landlord Name',
         rof5Field: 'landlordName',
-        getValue: (data) => data.landlordName || '[Landlord Name]'
+        getValue: (data) => LandlordPartyService.getLandlordNames(data) || '[Landlord Name]'
       },
       {
         id: 'land-reference-2',
@@ -274,10 +298,14 @@ export class TemplatePlaceholderService {
   /**
    * Detect and mark placeholders in template content
    */
-  static detectPlaceholders(content: string, templateType: string): { content: string; placeholders: DetectedPlaceholder[] } {
+  static detectPlaceholders(
+    content: string,
+    templateType: string,
+    customMappings?: PlaceholderMapping[]
+  ): { content: string; placeholders: DetectedPlaceholder[] } {
     console.log(`Detecting placeholders for template type: ${templateType}`);
     
-    const mappings = this.TEMPLATE_MAPPINGS[templateType] || [];
+    const mappings = this.getMappingsForTemplate(templateType, customMappings);
     const placeholders: DetectedPlaceholder[] = [];
     let processedContent = content;
 
@@ -303,18 +331,18 @@ export class TemplatePlaceholderService {
       });
     });
 
-    // Extract all marked placeholders
+    // Extract all marked placeholders along with the words either side of them
     const placeholderRegex = /<span class="placeholder-marker" data-id="([^"]*)" data-length="([^"]*)"[^>]*>(.*?)<\/span>/g;
     let match;
     let orderCounter = 1;
 
     while ((match = placeholderRegex.exec(processedContent)) !== null) {
       const id = match[1];
-      const length = parseInt(match[2]);
       const originalText = match[3];
-      
-      // Try to find matching mapping based on surrounding context
-      const mapping = this.findBestMapping(content, match.index, mappings, orderCounter);
+      const contextBefore = this.tokenize(this.stripTags(processedContent.substring(0, match.index))).slice(-CONTEXT_WORDS);
+      const contextAfter = this.tokenize(
+        this.stripTags(processedContent.substring(match.index + match[0].length, match.index + match[0].length + 1000))
+      ).slice(0, CONTEXT_WORDS);
       
       placeholders.push({
         id,
@@ -322,43 +350,65 @@ export class TemplatePlaceholderService {
         pattern: originalText,
         position: match.index,
         originalText,
-        description: mapping?.description || `Placeholder ${orderCounter}`,
+        description: `Placeholder ${orderCounter}`,
         value: '', // Will be filled later
-        filled: false
+        filled: false,
+        contextBefore: contextBefore.join(' '),
+        contextAfter: contextAfter.join(' ')
       });
       
       orderCounter++;
     }
 
+    this.assignMappings(placeholders, mappings);
+
     console.log(`Detected ${placeholders.length} placeholders in template`);
     return { content: processedContent, placeholders };
   }
 
   /**
-   * Fill placeholders with ROF5 data in systematic order
+   * Fill placeholders with ROF5 data using the mapping matched to each blank
    */
   static fillPlaceholdersWithROF5(
     content: string, 
     placeholders: DetectedPlaceholder[], 
     formData: ROF5FormData,
-    templateType: string
+    templateType: string,
+    customMappings?: PlaceholderMapping[]
   ): { content: string; filledPlaceholders: DetectedPlaceholder[] } {
-    console.log('Filling placeholders with ROF5 data in systematic order...');
+    console.log('Filling placeholders with ROF5 data using matched mappings...');
     
-    const mappings = this.TEMPLATE_MAPPINGS[templateType] || [];
+    const mappings = this.getMappingsForTemplate(templateType, customMappings);
     let filledContent = content;
     const filledPlaceholders: DetectedPlaceholder[] = [];
 
     // Sort placeholders by order to fill systematically
     const sortedPlaceholders = [...placeholders].sort((a, b) => a.order - b.order);
 
-    sortedPlaceholders.forEach((placeholder, index) => {
-      // Find corresponding mapping or use index-based mapping
-      const mapping = mappings[index] || this.createDefaultMapping(index + 1, formData);
+    sortedPlaceholders.forEach(placeholder => {
+      const regex = new RegExp(`<span class="placeholder-marker" data-id="${placeholder.id}"[^>]*>.*?</span>`, 'g');
+      const mapping = mappings.find(m => m.id === placeholder.mappingId);
+      const confident = placeholder.matchStatus === 'matched' || placeholder.matchStatus === 'manual';
+
+      // Blanks a reviewer chose to leave unfilled keep their original text
+      if (placeholder.matchStatus === 'manual' && !mapping) {
+        filledContent = filledContent.replace(regex, placeholder.originalText);
+        filledPlaceholders.push({ ...placeholder, value: '', filled: false });
+        return;
+      }
+
+      // Low-confidence and ambiguous blanks are left for manual mapping rather than guessed
+      if (!mapping || !confident) {
+        filledContent = filledContent.replace(regex,
+          `<span class="review-placeholder" data-id="${placeholder.id}" style="background-color: #fef3c7; border: 2px dashed #f59e0b; padding: 2px 4px; border-radius: 3px;">${placeholder.originalText}</span>`
+        );
+        filledPlaceholders.push({ ...placeholder, value: '', filled: false });
+        return;
+      }
+
       const value = mapping.getValue(formData);
 
       // Update the placeholder in content
-      const regex = new RegExp(`<span class="placeholder-marker" data-id="${placeholder.id}"[^>]*>.*?</span>`, 'g');
       filledContent = filledContent.replace(regex, 
         `<span class="filled-placeholder" data-id="${placeholder.id}" style="background-color: #dcfce7; border: 1px solid #16a34a; padding: 2px 4px; border-radius: 3px; font-weight: 500;">${value}</span>`
       );
@@ -394,57 +444,152 @@ export class TemplatePlaceholderService {
   }
 
   /**
-   * Calculate rent schedule based on ROF5 data
+   * Get the placeholder mappings for a template. Mappings stored against the
+   * template take precedence over the built-in ones for its detected type.
    */
-  static calculateRentSchedule(formData: ROF5FormData, years: number = 15): string[] {
-    const baseRent = parseFloat(formData.monthlyRent || '0');
-    const escalationRate = parseFloat(formData.rentEscalation || '5') / 100;
-    const schedule: string[] = [];
-
-    for (let year = 1; year <= years; year++) {
-      const yearlyRent = Math.round(baseRent * 12 * Math.pow(1 + escalationRate, year - 1));
-      schedule.push(`${yearlyRent.toLocaleString()} (K.Shs. ${yearlyRent.toLocaleString()}/=)`);
-    }
+  static getMappingsForTemplate(templateType: string, customMappings?: PlaceholderMapping[]): PlaceholderMapping[] {
+    if (customMappings && customMappings.length > 0) return customMappings;
+    return this.TEMPLATE_MAPPINGS[templateType] || [];
+  }
+
+  /**
+   * Manually map a flagged placeholder to a field, or pass null to leave it unfilled
+   */
+  static applyManualMapping(
+    placeholder: DetectedPlaceholder,
+    mappingId: string | null,
+    templateType: string,
+    customMappings?: PlaceholderMapping[]
+  ): DetectedPlaceholder {
+    const mapping = this.getMappingsForTemplate(templateType, customMappings).find(m => m.id === mappingId);
 
-    return schedule;
+    return {
+      ...placeholder,
+      mappingId: mapping?.id,
+      matchStatus: 'manual',
+      confidence: 1,
+      description: mapping?.description || 'Left unfilled'
+    };
   }
 
   /**
-   * Find best mapping based on context
+   * Whether a placeholder needs a person to confirm its mapping
    */
-  private static findBestMapping(
-    content: string, 
-    position: number, 
-    mappings: PlaceholderMapping[], 
-    order: number
-  ): PlaceholderMapping | null {
-    // Extract context around the position
-    const contextStart = Math.max(0, position - 100);
-    const contextEnd = Math.min(content.length, position + 100);
-    const context = content.substring(contextStart, contextEnd).toLowerCase();
-
-    // Try to find mapping based on context keywords
-    for (const mapping of mappings) {
-      if (mapping.order === order) {
-        return mapping;
+  static needsReview(placeholder: DetectedPlaceholder): boolean {
+    return placeholder.matchStatus !== 'matched' && placeholder.matchStatus !== 'manual';
+  }
+
+  /**
+   * Whether a reviewer deliberately chose not to fill a placeholder
+   */
+  static isLeftUnfilled(placeholder: DetectedPlaceholder): boolean {
+    return placeholder.matchStatus === 'manual' && !placeholder.mappingId;
+  }
+
+  /**
+   * Score every blank against every mapping pattern and assign mappings greedily,
+   * highest score first, so each mapping is used for at most one blank.
+   */
+  private static assignMappings(placeholders: DetectedPlaceholder[], mappings: PlaceholderMapping[]): void {
+    const scores = placeholders.map(placeholder =>
+      mappings
+        .map(mapping => ({
+          mappingId: mapping.id,
+          description: mapping.description,
+          score: this.scoreMapping(placeholder, mapping),
+          orderDistance: Math.abs(mapping.order - placeholder.order)
+        }))
+        .filter(candidate => candidate.score > 0)
+        // Position in the template only breaks ties between equally good matches
+        .sort((a, b) => b.score - a.score || a.orderDistance - b.orderDistance)
+    );
+
+    const pairs = scores
+      .flatMap((candidates, index) => candidates.map(candidate => ({ index, ...candidate })))
+      .sort((a, b) => b.score - a.score || a.orderDistance - b.orderDistance);
+
+    const usedMappings = new Set<string>();
+    const assigned = new Map<number, { mappingId: string; description: string; score: number }>();
+
+    pairs.forEach(pair => {
+      if (assigned.has(pair.index) || usedMappings.has(pair.mappingId)) return;
+      assigned.set(pair.index, pair);
+      usedMappings.add(pair.mappingId);
+    });
+
+    placeholders.forEach((placeholder, index) => {
+      const candidates = scores[index].slice(0, 3).map(({ mappingId, description, score }) => ({
+        mappingId,
+        description,
+        score: Math.round(score * 100) / 100
+      }));
+      const best = assigned.get(index);
+
+      placeholder.candidates = candidates;
+
+      if (!best) {
+        placeholder.matchStatus = 'unmapped';
+        placeholder.confidence = 0;
+        return;
       }
-    }
 
-    return null;
+      const runnerUp = scores[index].find(candidate => candidate.mappingId !== best.mappingId);
+
+      placeholder.mappingId = best.mappingId;
+      placeholder.description = best.description;
+      placeholder.confidence = Math.round(best.score * 100) / 100;
+
+      if (best.score < MIN_MATCH_CONFIDENCE) {
+        placeholder.matchStatus = 'low-confidence';
+      } else if (runnerUp && runnerUp.score >= best.score - AMBIGUITY_MARGIN) {
+        placeholder.matchStatus = 'ambiguous';
+      } else {
+        placeholder.matchStatus = 'matched';
+      }
+    });
   }
 
   /**
-   * Create default mapping for unmapped placeholders
+   * Compare the words around a blank with the words around the first blank in a
+   * mapping pattern. A pattern word only counts if it sits at roughly the same
+   * distance from the blank, and words nearer the blank carry more weight.
    */
-  private static createDefaultMapping(order: number, formData: ROF5FormData): PlaceholderMapping {
-    return {
-      id: `default-${order}`,
-      order,
-      pattern: `Placeholder ${order}`,
-      description: `Placeholder ${order}`,
-      rof5Field: 'siteName',
-      getValue: () => `[Placeholder ${order}]`
+  private static scoreMapping(placeholder: DetectedPlaceholder, mapping: PlaceholderMapping): number {
+    const [patternBefore, ...patternRest] = mapping.pattern.split(/[.…_]{2,}|…/);
+    const expectedBefore = this.tokenize(patternBefore).slice(-PATTERN_WORDS).reverse();
+    const expectedAfter = this.tokenize(patternRest.join(' ')).slice(0, PATTERN_WORDS);
+    const actualBefore = (placeholder.contextBefore || '').split(' ').filter(Boolean).reverse();
+    const actualAfter = (placeholder.contextAfter || '').split(' ').filter(Boolean);
+
+    let matched = 0;
+    let total = 0;
+
+    const weigh = (expected: string[], actual: string[]) => {
+      expected.forEach((word, distance) => {
+        const weight = Math.pow(0.85, distance);
+        const actualDistance = actual.indexOf(word);
+        total += weight;
+        if (actualDistance !== -1 && actualDistance <= distance + POSITION_SLACK) matched += weight;
+      });
     };
+
+    weigh(expectedBefore, actualBefore);
+    weigh(expectedAfter, actualAfter);
+
+    // Patterns with only a word or two of context cannot give full confidence
+    const evidence = Math.min(1, total / 2);
+    return total > 0 ? (matched / total) * evidence : 0;
+  }
+
+  private static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+  }
+
+  private static stripTags(html: string): string {
+    return html.replace(/<[^>]*>/g, ' ');
   }
 
   /**
@@ -455,7 +600,9 @@ export class TemplatePlaceholderService {
     unfilledCount: number;
     unfilledPlaceholders: DetectedPlaceholder[];
   } {
-    const unfilled = placeholders.filter(p => !p.filled || !p.value || p.value.trim() === '');
+    const unfilled = placeholders.filter(p =>
+      !this.isLeftUnfilled(p) && (!p.filled || !p.value || p.value.trim() === '')
+    );
     
     return {
       isValid: unfilled.length === 0,
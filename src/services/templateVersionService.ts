@@ -0,0 +1,159 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { SystemTemplate, SystemTemplateService } from "./systemTemplateService";
+
+export interface TemplateVersion {
+  id: string;
+  templateId: string;
+  versionNumber: number;
+  fileName: string;
+  fileData: Uint8Array;
+  contentType: string;
+  createdAt: string;
+  createdBy?: string;
+  notes?: string;
+}
+
+export interface TemplateVersionFile {
+  file_name: string;
+  file_data: Uint8Array;
+  content_type: string;
+}
+
+// The template and version a generated document was produced from
+export interface TemplateVersionReference {
+  templateId: string;
+  templateName: string;
+  versionNumber: number;
+}
+
+export class TemplateVersionService {
+  /**
+   * Version history for a template, newest first
+   */
+  static async getVersions(templateId: string): Promise<TemplateVersion[]> {
+    try {
+      const { data, error } = await supabase
+        .from('template_versions')
+        .select('*')
+        .eq('template_id', templateId)
+        .order('version_number', { ascending: false });
+
+      if (error) {
+        // Check if the error is due to missing table
+        if (error.code === '42P01' || error.message?.includes('does not exist')) {
+          console.warn('template_versions table does not exist yet. This is expected if migrations haven\'t been applied.');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.fromRow(row));
+    } catch (error) {
+      console.error('Error loading template versions:', error);
+      throw new Error(`Failed to load template versions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record a file as the next version of a template and make it the template's current
+   * file. The database numbers the version and saves both in one transaction.
+   * @returns The new version number
+   */
+  static async createVersion(templateId: string, file: TemplateVersionFile, notes?: string): Promise<number> {
+    try {
+      console.log('Recording new version of template:', templateId);
+
+      const { data: versionNumber, error } = await supabase.rpc('record_template_version', {
+        template_id: templateId,
+        file_name: file.file_name,
+        content_type: file.content_type,
+        file_data: this.toBytea(file.file_data),
+        notes: notes?.trim() || undefined
+      });
+
+      if (error) throw error;
+      return versionNumber;
+    } catch (error) {
+      console.error('Error creating template version:', error);
+      throw new Error(`Failed to create template version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Make an earlier version current again. The restored file is recorded as a
+   * new version so the history stays append-only.
+   */
+  static async restoreVersion(templateId: string, version: TemplateVersion): Promise<SystemTemplate> {
+    console.log(`Restoring version ${version.versionNumber} of template:`, templateId);
+
+    return SystemTemplateService.updateSystemTemplate(
+      templateId,
+      {
+        file_name: version.fileName,
+        file_data: version.fileData,
+        content_type: version.contentType
+      },
+      `Restored from version ${version.versionNumber}`
+    );
+  }
+
+  static downloadVersion(template: SystemTemplate, version: TemplateVersion): void {
+    const extension = version.fileName.match(/\.[^.]+$/)?.[0] || '.docx';
+    const baseName = version.fileName.replace(/\.[^.]+$/, '');
+
+    // Reuse the template download with the version's file swapped in
+    SystemTemplateService.downloadTemplate({
+      ...template,
+      file_name: `${baseName}_v${version.versionNumber}${extension}`,
+      file_data: version.fileData,
+      content_type: version.contentType
+    });
+  }
+
+  static getVersionReference(template: SystemTemplate): TemplateVersionReference {
+    return {
+      templateId: template.id,
+      templateName: template.name,
+      versionNumber: template.current_version ?? 1
+    };
+  }
+
+  static formatVersionReference(reference?: TemplateVersionReference): string {
+    return reference ? `${reference.templateName} v${reference.versionNumber}` : '';
+  }
+
+  /**
+   * PostgREST exchanges BYTEA columns as \x-prefixed hex strings
+   */
+  private static toBytea(data: Uint8Array): string {
+    return '\\x' + Array.from(data, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private static fromBytea(value: string): Uint8Array {
+    if (typeof value !== 'string' || !value.startsWith('\\x')) {
+      return new Uint8Array(value as unknown as ArrayLike<number>);
+    }
+
+    const hex = value.slice(2);
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+  }
+
+  private static fromRow(row: Tables<'template_versions'>): TemplateVersion {
+    return {
+      id: row.id,
+      templateId: row.template_id,
+      versionNumber: row.version_number,
+      fileName: row.file_name || `template_v${row.version_number}.docx`,
+      fileData: this.fromBytea(row.file_data),
+      contentType: row.content_type,
+      createdAt: row.created_at || '',
+      createdBy: row.created_by || undefined,
+      notes: row.notes || undefined
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkflowInstruction } from '@/contexts/WorkflowContext';
+import type { ROF5FormData } from '@/hooks/useROF5Form';
+import { WorkflowStage } from '@/types/workflow';
+import { WorkflowStateMachine } from './workflowStateMachine';
+
+const instruction = (stage: WorkflowStage, overrides: Partial<WorkflowInstruction> = {}): WorkflowInstruction => ({
+  id: 'ROF-2025-0001',
+  siteCode: 'NBI001',
+  siteName: 'Westlands Plaza',
+  siteLocation: 'Nairobi',
+  landlordName: 'John Kamau',
+  stage,
+  progress: 0,
+  createdAt: '2025-01-01',
+  lastUpdated: '2025-01-01',
+  assignee: 'Unassigned',
+  nextAction: '',
+  priority: 'medium',
+  formData: { leaseType: 'lease' } as ROF5FormData,
+  generatedDocuments: [],
+  ...overrides
+} as WorkflowInstruction);
+
+const licence = (stage: WorkflowStage, overrides: Partial<WorkflowInstruction> = {}) =>
+  instruction(stage, { formData: { leaseType: 'licence' } as ROF5FormData, ...overrides });
+
+describe('WorkflowStateMachine', () => {
+  describe('resolveLeaseType', () => {
+    it('maps agreement types to workflows', () => {
+      expect(WorkflowStateMachine.resolveLeaseType('License')).toBe('licence');
+      expect(WorkflowStateMachine.resolveLeaseType('wayleave')).toBe('wayleave');
+      expect(WorkflowStateMachine.resolveLeaseType('agreement-to-lease')).toBe('lease');
+      expect(WorkflowStateMachine.resolveLeaseType(undefined)).toBe('lease');
+    });
+  });
+
+  it('skips registration for licences', () => {
+    const stages = WorkflowStateMachine.getDefinition('licence').stages.map(s => s.id);
+
+    expect(stages).toEqual(['document-drafting', 'execution', 'completed']);
+    expect(WorkflowStateMachine.getStageProgress(WorkflowStateMachine.getDefinition('licence'), 'execution')).toBe(70);
+  });
+
+  describe('canTransition', () => {
+    it('needs generated documents before execution', () => {
+      const blocked = WorkflowStateMachine.canTransition(instruction('document-drafting'), 'execution', 'EC');
+      const allowed = WorkflowStateMachine.canTransition(
+        instruction('document-drafting', { generatedDocuments: ['Lease.docx'] }),
+        'execution',
+        'EC'
+      );
+
+      expect(blocked).toMatchObject({ allowed: false, reasons: ['Documents must be generated'] });
+      expect(allowed.allowed).toBe(true);
+    });
+
+    it('names the executed document the next stage needs', () => {
+      const result = WorkflowStateMachine.canTransition(licence('execution'), 'completed', 'IC');
+
+      expect(result.reasons).toEqual(['Executed licence must be uploaded']);
+    });
+
+    it('limits transitions to their roles', () => {
+      const result = WorkflowStateMachine.canTransition(instruction('registration'), 'completed', 'EC');
+
+      expect(result.allowed).toBe(false);
+      expect(result.reasons).toEqual(['Only IC, POA, Admin users can mark registered & close']);
+    });
+
+    it('refuses transitions the workflow does not define', () => {
+      const result = WorkflowStateMachine.canTransition(licence('execution'), 'registration', 'Admin');
+
+      expect(result.allowed).toBe(false);
+      expect(result.transition).toBeUndefined();
+      expect(result.reasons[0]).toBe('Licence instructions cannot move from Execution to Registration');
+    });
+
+    it('refuses every transition without a role', () => {
+      const result = WorkflowStateMachine.canTransition(instruction('completed'), 'registration');
+
+      expect(result.allowed).toBe(false);
+    });
+  });
+
+  describe('getTransitions', () => {
+    it('lists the transitions out of the current stage with their checks', () => {
+      const transitions = WorkflowStateMachine.getTransitions(
+        instruction('execution', { executedDocuments: ['signed.pdf'] }),
+        'POA'
+      );
+
+      expect(transitions.map(t => [t.transition.to, t.allowed])).toEqual([
+        ['document-drafting', false],
+        ['registration', true]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import type { UserRole } from "@/contexts/UserContext";
+import type { WorkflowInstruction } from "@/contexts/WorkflowContext";
+import {
+  TransitionCheckResult,
+  WorkflowDefinition,
+  WorkflowLeaseType,
+  WorkflowPrecondition,
+  WorkflowPreconditionId,
+  WorkflowStage,
+  WorkflowStageDefinition,
+  WorkflowTransition
+} from "@/types/workflow";
+
+const PRECONDITIONS: Record<WorkflowPreconditionId, WorkflowPrecondition> = {
+  'documents-generated': {
+    id: 'documents-generated',
+    describe: () => 'Documents must be generated',
+    check: (instruction) => (instruction.generatedDocuments || []).length > 0
+  },
+  'executed-document-uploaded': {
+    id: 'executed-document-uploaded',
+    describe: (definition) => `Executed ${definition.executedDocumentName} must be uploaded`,
+    check: (instruction) => (instruction.executedDocuments || []).length > 0
+  }
+};
+
+const stage = (id: WorkflowStage, label: string, progress: number, nextAction: string): WorkflowStageDefinition => ({
+  id,
+  label,
+  progress,
+  nextAction
+});
+
+// Registered instruments (lease, wayleave, easement) share the same transitions.
+// The database checks stage changes against a copy: keep workflow_transition_roles() in step
+const registeredInstrumentTransitions: WorkflowTransition[] = [
+  {
+    from: 'document-drafting',
+    to: 'execution',
+    label: 'Send for Execution',
+    type: 'advance',
+    roles: ['IC', 'EC', 'Admin'],
+    preconditions: ['documents-generated']
+  },
+  {
+    from: 'execution',
+    to: 'document-drafting',
+    label: 'Send Back for Redrafting',
+    type: 'send-back',
+    roles: ['IC', 'EC', 'Admin']
+  },
+  {
+    from: 'execution',
+    to: 'registration',
+    label: 'Lodge for Registration',
+    type: 'advance',
+    roles: ['IC', 'EC', 'POA', 'Admin'],
+    preconditions: ['executed-document-uploaded']
+  },
+  {
+    from: 'registration',
+    to: 'execution',
+    label: 'Send Back for Re-execution',
+    type: 'send-back',
+    roles: ['IC', 'POA', 'Admin']
+  },
+  {
+    from: 'registration',
+    to: 'completed',
+    label: 'Mark Registered & Close',
+    type: 'advance',
+    roles: ['IC', 'POA', 'Admin']
+  },
+  {
+    from: 'completed',
+    to: 'registration',
+    label: 'Reopen Registration',
+    type: 'send-back',
+    roles: ['IC', 'Admin']
+  }
+];
+
+export const WORKFLOW_DEFINITIONS: Record<WorkflowLeaseType, WorkflowDefinition> = {
+  lease: {
+    leaseType: 'lease',
+    name: 'Lease',
+    executedDocumentName: 'lease',
+    stages: [
+      stage('document-drafting', 'Document Drafting', 25, 'EC Review & Document Finalization'),
+      stage('execution', 'Execution', 60, 'Lease Execution & Signing'),
+      stage('registration', 'Registration', 85, 'Registration & Closure'),
+      stage('completed', 'Completed', 100, 'File Archived')
+    ],
+    transitions: registeredInstrumentTransitions
+  },
+  // Licences confer no interest in land, so they are not registered
+  licence: {
+    leaseType: 'licence',
+    name: 'Licence',
+    executedDocumentName: 'licence',
+    stages: [
+      stage('document-drafting', 'Document Drafting', 30, 'EC Review & Licence Finalization'),
+      stage('execution', 'Execution', 70, 'Licence Execution & Signing'),
+      stage('completed', 'Completed', 100, 'File Archived')
+    ],
+    transitions: [
+      {
+        from: 'document-drafting',
+        to: 'execution',
+        label: 'Send for Execution',
+        type: 'advance',
+        roles: ['IC', 'EC', 'Admin'],
+        preconditions: ['documents-generated']
+      },
+      {
+        from: 'execution',
+        to: 'document-drafting',
+        label: 'Send Back for Redrafting',
+        type: 'send-back',
+        roles: ['IC', 'EC', 'Admin']
+      },
+      {
+        from: 'execution',
+        to: 'completed',
+        label: 'Mark Executed & Close',
+        type: 'advance',
+        roles: ['IC', 'EC', 'Admin'],
+        preconditions: ['executed-document-uploaded']
+      },
+      {
+        from: 'completed',
+        to: 'execution',
+        label: 'Reopen Execution',
+        type: 'send-back',
+        roles: ['IC', 'Admin']
+      }
+    ]
+  },
+  wayleave: {
+    leaseType: 'wayleave',
+    name: 'Wayleave',
+    executedDocumentName: 'wayleave agreement',
+    stages: [
+      stage('document-drafting', 'Document Drafting', 25, 'EC Review & Wayleave Finalization'),
+      stage('execution', 'Execution', 60, 'Wayleave Execution & Signing'),
+      stage('registration', 'Registration', 85, 'Wayleave Registration & Closure'),
+      stage('completed', 'Completed', 100, 'File Archived')
+    ],
+    transitions: registeredInstrumentTransitions
+  },
+  easement: {
+    leaseType: 'easement',
+    name: 'Easement',
+    executedDocumentName: 'deed of easement',
+    stages: [
+      stage('document-drafting', 'Document Drafting', 25, 'EC Review & Deed Finalization'),
+      stage('execution', 'Execution', 60, 'Deed of Easement Execution'),
+      stage('registration', 'Registration', 85, 'Easement Registration & Closure'),
+      stage('completed', 'Completed', 100, 'File Archived')
+    ],
+    transitions: registeredInstrumentTransitions
+  }
+};
+
+export class WorkflowStateMachine {
+  static resolveLeaseType(leaseType?: string): WorkflowLeaseType {
+    switch ((leaseType || '').toLowerCase()) {
+      case 'licence':
+      case 'license':
+        return 'licence';
+      case 'wayleave':
+        return 'wayleave';
+      case 'easement':
+        return 'easement';
+      // Agreements to lease and unspecified instructions follow the lease workflow
+      default:
+        return 'lease';
+    }
+  }
+
+  static getDefinition(leaseType?: string): WorkflowDefinition {
+    return WORKFLOW_DEFINITIONS[this.resolveLeaseType(leaseType)];
+  }
+
+  static getDefinitionForInstruction(instruction: WorkflowInstruction): WorkflowDefinition {
+    return this.getDefinition(instruction.formData?.leaseType);
+  }
+
+  static getStage(definition: WorkflowDefinition, stageId: WorkflowStage): WorkflowStageDefinition | undefined {
+    return definition.stages.find(s => s.id === stageId);
+  }
+
+  static getStageProgress(definition: WorkflowDefinition, stageId: WorkflowStage): number {
+    return this.getStage(definition, stageId)?.progress ?? 0;
+  }
+
+  static getNextAction(definition: WorkflowDefinition, stageId: WorkflowStage): string {
+    return this.getStage(definition, stageId)?.nextAction ?? 'Pending Review';
+  }
+
+  static getStageLabel(definition: WorkflowDefinition, stageId: WorkflowStage): string {
+    return this.getStage(definition, stageId)?.label
+      ?? stageId.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase());
+  }
+
+  static findTransition(
+    definition: WorkflowDefinition,
+    from: WorkflowStage,
+    to: WorkflowStage
+  ): WorkflowTransition | undefined {
+    return definition.transitions.find(t => t.from === from && t.to === to);
+  }
+
+  /**
+   * Transitions defined out of the instruction's current stage, each with the
+   * result of checking role guards and preconditions for the given role.
+   */
+  static getTransitions(
+    instruction: WorkflowInstruction,
+    role?: UserRole
+  ): Array<TransitionCheckResult & { transition: WorkflowTransition }> {
+    const definition = this.getDefinitionForInstruction(instruction);
+
+    return definition.transitions
+      .filter(t => t.from === instruction.stage)
+      .map(transition => ({
+        ...this.evaluateTransition(definition, transition, instruction, role),
+        transition
+      }));
+  }
+
+  static canTransition(
+    instruction: WorkflowInstruction,
+    to: WorkflowStage,
+    role?: UserRole
+  ): TransitionCheckResult {
+    const definition = this.getDefinitionForInstruction(instruction);
+    const transition = this.findTransition(definition, instruction.stage, to);
+
+    if (!transition) {
+      return {
+        allowed: false,
+        reasons: [
+          `${definition.name} instructions cannot move from ${this.getStageLabel(definition, instruction.stage)} to ${this.getStageLabel(definition, to)}`
+        ]
+      };
+    }
+
+    return this.evaluateTransition(definition, transition, instruction, role);
+  }
+
+  private static evaluateTransition(
+    definition: WorkflowDefinition,
+    transition: WorkflowTransition,
+    instruction: WorkflowInstruction,
+    role?: UserRole
+  ): TransitionCheckResult {
+    const reasons: string[] = [];
+
+    if (!role || !transition.roles.includes(role)) {
+      reasons.push(`Only ${transition.roles.join(', ')} users can ${transition.label.toLowerCase()}`);
+    }
+
+    for (const preconditionId of transition.preconditions || []) {
+      const precondition = PRECONDITIONS[preconditionId];
+      if (!precondition.check(instruction, definition)) {
+        reasons.push(precondition.describe(definition));
+      }
+    }
+
+    return { allowed: reasons.length === 0, transition, reasons };
+  }
+}
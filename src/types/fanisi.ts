@@ -16,6 +16,9 @@ export interface FanisiROF5Data {
   Landlord_Email: string;
   Landlord_Contact_Person: string;
   Landlord_Contact_Number: string;
+  // Every landlord party, e.g. "X and Y both of P.O. Box ...", and one signature block per party
+  Landlord_Parties: string;
+  Landlord_Signature_Blocks: string;
   
   // Lease Terms
   Commencement_Date: string;
@@ -82,6 +85,8 @@ export interface FanisiTemplateVariable {
 export interface FanisiValidationResult {
   isValid: boolean;
   missingFields: string[];
+  // "Field: message" for identifiers that fail the Kenyan format rules
+  invalidFields: string[];
   foundVariables: string[];
   unmappedVariables: string[];
 }
@@ -99,10 +104,25 @@ export interface FanisiGeneratedDocument {
 export interface FanisiGenerationLog {
   id: string;
   siteName: string;
+  siteCode?: string;
   documentType: string;
   generatedFileName: string;
   timestamp: string;
   userId?: string;
+  userName?: string;
+  templateId?: string;
+  templateName?: string;
   status: 'success' | 'error';
   errorMessage?: string;
+  // Template validation run before generating, where there was one
+  validation?: Omit<FanisiValidationResult, 'foundVariables'>;
+}
+
+// What the generator knows about a generation beyond the document itself
+export interface FanisiGenerationLogDetails {
+  siteCode?: string;
+  templateId?: string;
+  templateName?: string;
+  userName?: string;
+  validation?: FanisiValidationResult | null;
 }
\ No newline at end of file
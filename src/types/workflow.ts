@@ -0,0 +1,46 @@
+import type { UserRole } from "@/contexts/UserContext";
+import type { WorkflowInstruction } from "@/contexts/WorkflowContext";
+
+export type WorkflowStage = 'document-drafting' | 'execution' | 'registration' | 'completed';
+
+export type WorkflowLeaseType = 'lease' | 'licence' | 'wayleave' | 'easement';
+
+export type WorkflowPreconditionId =
+  | 'documents-generated'
+  | 'executed-document-uploaded';
+
+export interface WorkflowPrecondition {
+  id: WorkflowPreconditionId;
+  describe: (definition: WorkflowDefinition) => string;
+  check: (instruction: WorkflowInstruction, definition: WorkflowDefinition) => boolean;
+}
+
+export interface WorkflowStageDefinition {
+  id: WorkflowStage;
+  label: string;
+  progress: number;
+  nextAction: string;
+}
+
+export interface WorkflowTransition {
+  from: WorkflowStage;
+  to: WorkflowStage;
+  label: string;
+  type: 'advance' | 'send-back';
+  roles: UserRole[];
+  preconditions?: WorkflowPreconditionId[];
+}
+
+export interface WorkflowDefinition {
+  leaseType: WorkflowLeaseType;
+  name: string;
+  executedDocumentName: string;
+  stages: WorkflowStageDefinition[];
+  transitions: WorkflowTransition[];
+}
+
+export interface TransitionCheckResult {
+  allowed: boolean;
+  transition?: WorkflowTransition;
+  reasons: string[];
+}
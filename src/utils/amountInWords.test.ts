@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { formatAmountFigures, formatAmountInWords, numberToWords, parseAmount } from './amountInWords';
+
+describe('numberToWords', () => {
+  it('reads numbers in British legal style', () => {
+    expect(numberToWords(0)).toBe('Zero');
+    expect(numberToWords(45)).toBe('Forty-Five');
+    expect(numberToWords(245)).toBe('Two Hundred and Forty-Five');
+    expect(numberToWords(1250005)).toBe('One Million Two Hundred and Fifty Thousand and Five');
+  });
+});
+
+describe('parseAmount', () => {
+  it('ignores currency labels, separators and the "/=" suffix', () => {
+    expect(parseAmount('KES 1,200,000.50')).toBe(1200000.5);
+    expect(parseAmount('K.Shs. 1,200,000/=')).toBe(1200000);
+    expect(parseAmount('Kshs 75,000/-')).toBe(75000);
+  });
+
+  it('keeps the sign of negative amounts', () => {
+    expect(parseAmount('-5,000')).toBe(-5000);
+    expect(parseAmount('KES -5,000')).toBe(-5000);
+    expect(parseAmount('(5,000)')).toBe(-5000);
+  });
+
+  it('returns NaN without digits', () => {
+    expect(parseAmount('[Deposit]')).toBeNaN();
+    expect(parseAmount('')).toBeNaN();
+  });
+});
+
+describe('formatAmountInWords', () => {
+  it('writes the amount in Kenya Shillings', () => {
+    expect(formatAmountInWords('K.Shs. 1,200,000/=')).toBe('One Million Two Hundred Thousand Kenya Shillings Only');
+  });
+
+  it('includes cents', () => {
+    expect(formatAmountInWords(1500.5)).toBe('One Thousand Five Hundred Kenya Shillings and Fifty Cents Only');
+  });
+
+  it('leaves the currency out when asked', () => {
+    expect(formatAmountInWords(600000, { includeCurrency: false })).toBe('Six Hundred Thousand');
+  });
+
+  it('rejects negative and non-numeric amounts', () => {
+    expect(formatAmountInWords(-5000)).toBe('');
+    expect(formatAmountInWords('TBC')).toBe('');
+  });
+});
+
+describe('formatAmountFigures', () => {
+  it('adds separators and keeps cents only when present', () => {
+    expect(formatAmountFigures('1200000')).toBe('1,200,000');
+    expect(formatAmountFigures(1200000.5)).toBe('1,200,000.50');
+    expect(formatAmountFigures('n/a')).toBe('');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Converts monetary amounts into words for legal documents
+ */
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine',
+  'Ten', 'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen',
+  'Seventeen', 'Eighteen', 'Nineteen'
+];
+
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const SCALES = ['', 'Thousand', 'Million', 'Billion', 'Trillion'];
+
+/**
+ * Converts a number below one hundred into words
+ * @param n Number between 1 and 99
+ * @returns Words, e.g. "Forty-Five"
+ */
+const tensToWords = (n: number): string => {
+  if (n < 20) return ONES[n];
+  return n % 10 > 0 ? `${TENS[Math.floor(n / 10)]}-${ONES[n % 10]}` : TENS[Math.floor(n / 10)];
+};
+
+/**
+ * Converts a number below one thousand into words
+ * @param n Number between 1 and 999
+ * @returns Words, e.g. "Two Hundred and Forty-Five"
+ */
+const hundredsToWords = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const remainder = n % 100;
+
+  if (hundreds === 0) return tensToWords(remainder);
+  return remainder > 0
+    ? `${ONES[hundreds]} Hundred and ${tensToWords(remainder)}`
+    : `${ONES[hundreds]} Hundred`;
+};
+
+/**
+ * Converts a whole number into words, in British legal style
+ * @param value Non-negative whole number
+ * @returns Words, e.g. "One Million Two Hundred and Fifty Thousand and Five"
+ */
+export const numberToWords = (value: number): string => {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return 'Zero';
+
+  const groups: string[] = [];
+  let remaining = n;
+  let scale = 0;
+
+  while (remaining > 0 && scale < SCALES.length) {
+    const group = remaining % 1000;
+    if (group > 0) {
+      groups.unshift(SCALES[scale] ? `${hundredsToWords(group)} ${SCALES[scale]}` : hundredsToWords(group));
+    }
+    // A trailing group below one hundred reads "... Thousand and Five"
+    if (scale === 0 && group > 0 && group < 100 && n >= 1000) {
+      groups[0] = `and ${groups[0]}`;
+    }
+    remaining = Math.floor(remaining / 1000);
+    scale++;
+  }
+
+  return groups.join(' ');
+};
+
+/**
+ * Removes currency labels and the "/=" suffix, e.g. "K.Shs. 1,200,000/=" becomes "1,200,000"
+ * @param value Amount as written on a form
+ */
+export const stripCurrency = (value: string): string =>
+  value.replace(/k\.?\s?shs?\.?|kes/gi, '').replace(/\/=|=|\/-/g, '').trim();
+
+/**
+ * Parses an amount written as a number or a string such as "KES 1,200,000.50"
+ * @param amount Amount to parse; a leading minus or surrounding brackets make it negative
+ * @returns The numeric amount, or NaN if there are no digits
+ */
+export const parseAmount = (amount: number | string): number => {
+  if (typeof amount === 'number') return amount;
+  const text = stripCurrency(String(amount));
+  const match = text.match(/(-\s*)?(\d[\d,]*(\.\d+)?|\.\d+)/);
+  if (!match) return NaN;
+
+  const value = parseFloat(match[2].replace(/,/g, ''));
+  const negative = Boolean(match[1]) || /^\(.*\)$/.test(text);
+  return negative ? -value : value;
+};
+
+/**
+ * Formats an amount in Kenya Shillings as words
+ * @param amount Amount as a number or numeric string (commas and currency labels are ignored)
+ * @param options includeCurrency: false omits "Kenya Shillings ... Only" for templates that print it themselves
+ * @returns e.g. "One Million Two Hundred Thousand Kenya Shillings Only", or '' if not numeric or negative
+ */
+export const formatAmountInWords = (
+  amount: number | string,
+  options: { includeCurrency?: boolean } = {}
+): string => {
+  const numeric = parseAmount(amount);
+  // Documents state sums owed, so a negative amount is a mistake rather than something to read out
+  if (isNaN(numeric) || numeric < 0) return '';
+
+  const totalCents = Math.round(numeric * 100);
+  const shillings = Math.floor(totalCents / 100);
+  const cents = totalCents % 100;
+  const centsWords = cents > 0 ? ` and ${numberToWords(cents)} Cents` : '';
+
+  if (options.includeCurrency === false) {
+    return `${numberToWords(shillings)}${centsWords}`;
+  }
+
+  return `${numberToWords(shillings)} Kenya Shillings${centsWords} Only`;
+};
+
+/**
+ * Formats an amount with thousand separators, keeping cents only when present
+ * @param amount Amount as a number or numeric string
+ * @returns e.g. "1,200,000" or "1,200,000.50", or '' if not numeric
+ */
+export const formatAmountFigures = (amount: number | string): string => {
+  const numeric = parseAmount(amount);
+  if (isNaN(numeric)) return '';
+
+  const hasCents = Math.round(numeric * 100) % 100 !== 0;
+  return numeric.toLocaleString('en-US', {
+    minimumFractionDigits: hasCents ? 2 : 0,
+    maximumFractionDigits: 2
+  });
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  IDENTIFIER_FORMAT_MESSAGES,
+  isSafaricomNumber,
+  isValidCompanyNumber,
+  isValidKraPin,
+  isValidNationalId,
+  isValidPassportNumber,
+  isValidTitleNumber,
+  normalizeKenyanPhone,
+  validateKenyanIdentifier,
+  validateLandlordIdentifier
+} from './kenyanIdentifiers';
+
+describe('normalizeKenyanPhone', () => {
+  it('converts local and international formats to +254', () => {
+    expect(normalizeKenyanPhone('0712 345 678')).toBe('+254712345678');
+    expect(normalizeKenyanPhone('712345678')).toBe('+254712345678');
+    expect(normalizeKenyanPhone('+254-110-123-456')).toBe('+254110123456');
+  });
+
+  it('rejects numbers that are not Kenyan mobiles', () => {
+    expect(normalizeKenyanPhone('0201234567')).toBeUndefined();
+    expect(normalizeKenyanPhone('+1 415 555 0100')).toBeUndefined();
+  });
+});
+
+describe('isSafaricomNumber', () => {
+  it('matches Safaricom prefixes only', () => {
+    expect(isSafaricomNumber('0722 003 272')).toBe(true);
+    expect(isSafaricomNumber('0110 123 456')).toBe(true);
+    expect(isSafaricomNumber('0733 123 456')).toBe(false);
+  });
+});
+
+describe('identifier formats', () => {
+  it('checks National ID and passport numbers', () => {
+    expect(isValidNationalId('12345678')).toBe(true);
+    expect(isValidNationalId('12345')).toBe(false);
+    expect(isValidPassportNumber('AK1234567')).toBe(true);
+    expect(isValidPassportNumber('1234567')).toBe(false);
+  });
+
+  it('checks KRA PINs', () => {
+    expect(isValidKraPin('A123456789Z')).toBe(true);
+    expect(isValidKraPin('p051234567q')).toBe(true);
+    expect(isValidKraPin('B123456789Z')).toBe(false);
+  });
+
+  it('accepts the common title number styles', () => {
+    expect(isValidTitleNumber('NAIROBI/BLOCK 82/1234')).toBe(true);
+    expect(isValidTitleNumber('Mombasa / MN / I / 1234')).toBe(true);
+    expect(isValidTitleNumber('L.R. No. 209/1234')).toBe(true);
+    expect(isValidTitleNumber('I.R. 12345')).toBe(true);
+    expect(isValidTitleNumber('Plot 12')).toBe(false);
+  });
+
+  it('accepts the common company number styles', () => {
+    expect(isValidCompanyNumber('C.8/2002')).toBe(true);
+    expect(isValidCompanyNumber('CPR/2015/123456')).toBe(true);
+    expect(isValidCompanyNumber('PVT-AB1CD2EF')).toBe(true);
+    expect(isValidCompanyNumber('Safaricom PLC')).toBe(false);
+  });
+});
+
+describe('validateKenyanIdentifier', () => {
+  it('lets blank values through', () => {
+    expect(validateKenyanIdentifier('kra-pin', '  ')).toBeUndefined();
+  });
+
+  it('returns the format message for invalid values', () => {
+    expect(validateKenyanIdentifier('kra-pin', 'A12')).toBe(IDENTIFIER_FORMAT_MESSAGES['kra-pin']);
+    expect(validateKenyanIdentifier('phone', '0712345678')).toBeUndefined();
+  });
+});
+
+describe('validateLandlordIdentifier', () => {
+  it('checks individuals against ID and passport formats', () => {
+    expect(validateLandlordIdentifier('individual', '12345678')).toBeUndefined();
+    expect(validateLandlordIdentifier('individual', 'AK1234567')).toBeUndefined();
+    expect(validateLandlordIdentifier('individual', 'C.8/2002')).toBeDefined();
+  });
+
+  it('checks companies against company number formats', () => {
+    expect(validateLandlordIdentifier('company', 'C.8/2002')).toBeUndefined();
+    expect(validateLandlordIdentifier('company', '12345678')).toBe(IDENTIFIER_FORMAT_MESSAGES['company-number']);
+  });
+
+  it('does not check government entities', () => {
+    expect(validateLandlordIdentifier('government', 'anything')).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Format rules for Kenyan identifiers captured on instructions: National ID and
+ * passport numbers, KRA PINs, phone numbers, title numbers and company numbers
+ */
+
+export type KenyanIdentifierType =
+  | 'national-id'
+  | 'passport'
+  | 'kra-pin'
+  | 'phone'
+  | 'title-number'
+  | 'company-number';
+
+export const IDENTIFIER_FORMAT_MESSAGES: Record<KenyanIdentifierType, string> = {
+  'national-id': 'Enter a National ID number of 6 to 8 digits, e.g. 12345678',
+  'passport': 'Enter a passport number, e.g. AK1234567',
+  'kra-pin': 'Enter a KRA PIN of a letter, 9 digits and a letter, e.g. A123456789Z',
+  'phone': 'Enter a Kenyan phone number, e.g. 0712 345 678 or +254 712 345 678',
+  'title-number': 'Enter a title number such as NAIROBI/BLOCK 82/1234, L.R. No. 209/1234 or I.R. 12345',
+  'company-number': 'Enter a company number such as C.8/2002, CPR/2015/123456 or PVT-AB1CD2EF'
+};
+
+// Mobile prefixes (digits after the leading 0) allocated to Safaricom
+const SAFARICOM_PREFIXES = [
+  /^7[0-2]\d/,
+  /^74[0-3568]/,
+  /^75[7-9]/,
+  /^76[89]/,
+  /^79\d/,
+  /^11[0-5]/
+];
+
+const TITLE_NUMBER_PATTERNS = [
+  // Registered land: registration section, optional block, parcel, e.g. NAIROBI/BLOCK 82/1234, MOMBASA/MN/I/1234
+  /^[A-Z][A-Z .'-]*(\/[A-Z][A-Z0-9 .'-]*)*\/\d+[A-Z]?(\/\d+)?$/,
+  // Land Reference numbers, e.g. L.R. No. 209/1234, LR 12345/6
+  /^L\.?\s?R\.?\s*(NO\.?)?\s*\d+(\/\d+)*$/,
+  // Registered titles under the former registration Acts, e.g. I.R. 12345, C.R. 6789/1
+  /^(I|C)\.?\s?R\.?\s*(NO\.?)?\s*\d+(\/\d+)?$/
+];
+
+const COMPANY_NUMBER_PATTERNS = [
+  // Companies Act (Cap 486) numbers, e.g. C.8/2002, C. 12345
+  /^C\.?\s?\d+(\/\d{4})?$/,
+  // Registrar of Companies numbers, e.g. CPR/2015/123456, BN/2014/12345, CS/2010/123
+  /^(CPR|BN|LLP|CS|PVT|PLC)\/\d{4}\/\d+$/,
+  // Business Registration Service numbers, e.g. PVT-AB1CD2EF
+  /^(PVT|PLC|CPR|LLP|BN|CLG)-[A-Z0-9]{6,10}$/
+];
+
+const compact = (value: string): string => value.replace(/[\s-]/g, '');
+
+/**
+ * Converts a Kenyan phone number to international format
+ * @param value Phone number, e.g. "0712 345 678", "712345678" or "+254712345678"
+ * @returns Number as +254XXXXXXXXX, or undefined when it is not a Kenyan number
+ */
+export const normalizeKenyanPhone = (value: string): string | undefined => {
+  const match = compact(value).match(/^(?:\+?254|0)?([17]\d{8})$/);
+  return match ? `+254${match[1]}` : undefined;
+};
+
+export const isValidKenyanPhone = (value: string): boolean => normalizeKenyanPhone(value) !== undefined;
+
+/**
+ * Whether the number falls in a Safaricom prefix range. Numbers ported between
+ * networks keep their prefix, so this is a guide rather than a guarantee.
+ */
+export const isSafaricomNumber = (value: string): boolean => {
+  const normalized = normalizeKenyanPhone(value);
+  return !!normalized && SAFARICOM_PREFIXES.some(prefix => prefix.test(normalized.slice(4)));
+};
+
+export const isValidNationalId = (value: string): boolean => /^\d{6,8}$/.test(compact(value));
+
+export const isValidPassportNumber = (value: string): boolean => /^[A-Z]{1,2}\d{6,8}$/i.test(compact(value));
+
+export const isValidKraPin = (value: string): boolean => /^[AP]\d{9}[A-Z]$/i.test(compact(value));
+
+export const isValidTitleNumber = (value: string): boolean => {
+  const normalized = value.trim().toUpperCase().replace(/\s*\/\s*/g, '/').replace(/\s+/g, ' ');
+  return TITLE_NUMBER_PATTERNS.some(pattern => pattern.test(normalized));
+};
+
+export const isValidCompanyNumber = (value: string): boolean => {
+  const normalized = value.trim().toUpperCase().replace(/\s*\/\s*/g, '/');
+  return COMPANY_NUMBER_PATTERNS.some(pattern => pattern.test(normalized));
+};
+
+const VALIDATORS: Record<KenyanIdentifierType, (value: string) => boolean> = {
+  'national-id': isValidNationalId,
+  'passport': isValidPassportNumber,
+  'kra-pin': isValidKraPin,
+  'phone': isValidKenyanPhone,
+  'title-number': isValidTitleNumber,
+  'company-number': isValidCompanyNumber
+};
+
+/**
+ * Checks an identifier against its format rules. Blank values pass; whether a
+ * field is required is checked separately.
+ * @param type Kind of identifier
+ * @param value Value as entered
+ * @returns An error message, or undefined when the value is valid
+ */
+export const validateKenyanIdentifier = (type: KenyanIdentifierType, value: string): string | undefined => {
+  if (!value?.trim()) return undefined;
+  return VALIDATORS[type](value) ? undefined : IDENTIFIER_FORMAT_MESSAGES[type];
+};
+
+/**
+ * Checks a landlord's ID/registration number against the rules for the landlord type:
+ * National ID or passport for individuals, company number for companies.
+ * Government entities and cooperatives are not checked.
+ * @param landlordType ROF5 landlord type
+ * @param value ID or registration number
+ * @returns An error message, or undefined when the value is valid
+ */
+export const validateLandlordIdentifier = (landlordType: string, value: string): string | undefined => {
+  if (!value?.trim()) return undefined;
+
+  switch (landlordType) {
+    case 'individual':
+      return isValidNationalId(value) || isValidPassportNumber(value)
+        ? undefined
+        : 'Enter a National ID number (6 to 8 digits) or passport number';
+    case 'company':
+      return validateKenyanIdentifier('company-number', value);
+    default:
+      return undefined;
+  }
+};
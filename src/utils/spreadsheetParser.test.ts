@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './spreadsheetParser';
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('Site Code,Site Name\nNBI001,Westlands Plaza\n')).toEqual([
+      ['Site Code', 'Site Name'],
+      ['NBI001', 'Westlands Plaza']
+    ]);
+  });
+
+  it('keeps delimiters, quotes and line breaks inside quoted cells', () => {
+    expect(parseCsv('Landlord,Address\r\n"Kamau, John","P.O. Box 1\r\nNairobi"\n"The ""Hub"" Ltd",')).toEqual([
+      ['Landlord', 'Address'],
+      ['Kamau, John', 'P.O. Box 1\r\nNairobi'],
+      ['The "Hub" Ltd', '']
+    ]);
+  });
+
+  it('detects semicolon and tab separated files', () => {
+    expect(parseCsv('Site Code;Monthly Rent\nNBI001;50,000')).toEqual([
+      ['Site Code', 'Monthly Rent'],
+      ['NBI001', '50,000']
+    ]);
+    expect(parseCsv('Site Code\tSite Name\nNBI001\tWestlands')).toEqual([
+      ['Site Code', 'Site Name'],
+      ['NBI001', 'Westlands']
+    ]);
+  });
+
+  it('drops the byte order mark Excel adds', () => {
+    expect(parseCsv('\uFEFFSite Code\nNBI001')[0]).toEqual(['Site Code']);
+  });
+
+  it('returns no rows for empty text', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+import JSZip from 'jszip';
+
+export interface SpreadsheetTable {
+  headers: string[];
+  // Data rows, each with one cell per header
+  rows: string[][];
+}
+
+// Built-in Excel number formats that display a date
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Excel's day 0 for the 1900 date system, allowing for its phantom 29 February 1900
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the first sheet of a CSV or XLSX file, taking the first row as the column headings
+ * @param file .csv or .xlsx file
+ * @returns Column headings and the non-empty rows below them
+ */
+export const parseSpreadsheetFile = async (file: File): Promise<SpreadsheetTable> => {
+  const fileName = file.name.toLowerCase();
+  let cells: string[][];
+
+  if (fileName.endsWith('.csv')) {
+    cells = parseCsv(await file.text());
+  } else if (fileName.endsWith('.xlsx')) {
+    cells = await parseXlsx(await file.arrayBuffer());
+  } else {
+    throw new Error('Upload a .csv or .xlsx file');
+  }
+
+  const nonEmpty = cells.filter(row => row.some(cell => cell.trim()));
+  if (nonEmpty.length < 2) {
+    throw new Error('The file needs a heading row and at least one row of data');
+  }
+
+  const [headerRow, ...dataRows] = nonEmpty;
+  const width = Math.max(...nonEmpty.map(row => row.length));
+  const headers = Array.from({ length: width }, (_, index) => headerRow[index]?.trim() || `Column ${index + 1}`);
+
+  return {
+    headers,
+    rows: dataRows.map(row => headers.map((_, index) => row[index]?.trim() ?? ''))
+  };
+};
+
+/**
+ * Splits CSV text into rows of cells. Quoted cells may contain delimiters, quotes ("")
+ * and line breaks. Semicolon and tab separated files are detected from the first line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+const columnIndex = (reference: string): number =>
+  reference.replace(/\d+$/, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const excelSerialToIsoDate = (serial: number): string =>
+  new Date(EXCEL_EPOCH_MS + Math.round(serial) * MS_PER_DAY).toISOString().split('T')[0];
+
+/**
+ * Style indexes whose number format shows a date, so their serial numbers can be read as dates
+ */
+const getDateStyles = (stylesXml: string | undefined): Set<number> => {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+
+  const styles = parseXml(stylesXml);
+  const customDateFormats = new Set(
+    Array.from(styles.getElementsByTagName('numFmt'))
+      // Day, month or year codes outside quoted text and [colour] blocks
+      .filter(format => /[dmy]/i.test((format.getAttribute('formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+      .map(format => Number(format.getAttribute('numFmtId')))
+  );
+
+  const cellXfs = styles.getElementsByTagName('cellXfs')[0];
+  Array.from(cellXfs?.getElementsByTagName('xf') ?? []).forEach((xf, index) => {
+    const formatId = Number(xf.getAttribute('numFmtId'));
+    if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+  });
+
+  return dateStyles;
+};
+
+const parseXlsx = async (data: ArrayBuffer): Promise<string[][]> => {
+  try {
+    const zip = await JSZip.loadAsync(data);
+
+    const workbook = parseXml(await zip.file('xl/workbook.xml')?.async('string') ?? '');
+    const firstSheet = workbook.getElementsByTagName('sheet')[0];
+    if (!firstSheet) throw new Error('The workbook has no sheets');
+
+    // Find the first sheet's part through the workbook relationships
+    const relationshipId = firstSheet.getAttribute('r:id');
+    const relationships = parseXml(await zip.file('xl/_rels/workbook.xml.rels')?.async('string') ?? '');
+    const target = Array.from(relationships.getElementsByTagName('Relationship'))
+      .find(relationship => relationship.getAttribute('Id') === relationshipId)
+      ?.getAttribute('Target') ?? 'worksheets/sheet1.xml';
+    const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+    const sheetXml = await zip.file(sheetPath)?.async('string');
+    if (!sheetXml) throw new Error('The first sheet could not be found');
+
+    const sharedStringsXml = await zip.file('xl/sharedStrings.xml')?.async('string');
+    const sharedStrings = sharedStringsXml
+      ? Array.from(parseXml(sharedStringsXml).getElementsByTagName('si')).map(item =>
+        Array.from(item.getElementsByTagName('t')).map(text => text.textContent ?? '').join(''))
+      : [];
+    const dateStyles = getDateStyles(await zip.file('xl/styles.xml')?.async('string'));
+
+    return Array.from(parseXml(sheetXml).getElementsByTagName('row')).map(row => {
+      const cells: string[] = [];
+      Array.from(row.getElementsByTagName('c')).forEach((cell, position) => {
+        const reference = cell.getAttribute('r');
+        const index = reference ? columnIndex(reference) : position;
+        const type = cell.getAttribute('t');
+        const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+
+        let text: string;
+        if (type === 's') {
+          text = sharedStrings[Number(value)] ?? '';
+        } else if (type === 'inlineStr') {
+          text = Array.from(cell.getElementsByTagName('t')).map(node => node.textContent ?? '').join('');
+        } else if (type === 'b') {
+          text = value === '1' ? 'TRUE' : 'FALSE';
+        } else if (value && (!type || type === 'n') && dateStyles.has(Number(cell.getAttribute('s'))) && !isNaN(Number(value))) {
+          text = excelSerialToIsoDate(Number(value));
+        } else {
+          text = value;
+        }
+
+        cells[index] = text;
+      });
+      return Array.from(cells, cell => cell ?? '');
+    });
+  } catch (error) {
+    console.error('XLSX parsing error:', error);
+    throw new Error(`Failed to read Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
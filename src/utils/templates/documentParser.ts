@@ -324,4 +324,99 @@ export const detectAndConvertBlankSpaces = (content: string): string => {
   }
 
   return processedContent;
-};
\ No newline at end of file
+};
+
+// Block elements that start a new line of text in converted Word HTML
+const TEXT_BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6';
+
+/**
+ * Reads a filled-in Word form as lines of text. Table rows become one line with
+ * their cells separated by tabs, so "Site Code | NBI001" reads as "Site Code\tNBI001".
+ * @param file .docx file
+ * @returns Non-empty lines in document order
+ */
+export const extractWordDocumentLines = async (file: File): Promise<string[]> => {
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    if (arrayBuffer.byteLength === 0) {
+      throw new Error('File is empty');
+    }
+
+    const result = await mammoth.convertToHtml({ arrayBuffer });
+    const body = new DOMParser().parseFromString(result.value, 'text/html').body;
+    const lines: string[] = [];
+
+    body.querySelectorAll(`tr, ${TEXT_BLOCK_SELECTOR}`).forEach(element => {
+      if (element.tagName === 'TR') {
+        // Skip rows of nested tables; the outer row already includes their text
+        if (element.parentElement?.closest('tr')) return;
+        const cells = Array.from(element.children).map(cell => cell.textContent?.trim() ?? '');
+        lines.push(cells.filter(Boolean).join('\t'));
+      } else if (!element.closest('tr')) {
+        lines.push(element.textContent?.trim() ?? '');
+      }
+    });
+
+    return lines.map(line => line.replace(/[ \u00a0]+/g, ' ').trim()).filter(Boolean);
+  } catch (error) {
+    console.error('Word text extraction error:', error);
+    if (error instanceof Error && error.message.includes('not a valid zip file')) {
+      throw new Error('This file is not a valid Word document. Please ensure you are uploading a .docx file.');
+    }
+    throw new Error(`Failed to read Word document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Horizontal gap, in points, wider than any space between words
+const PDF_COLUMN_GAP = 12;
+
+/**
+ * Reads the text layer of a PDF as lines, joining text that shares a baseline.
+ * Scanned PDFs without a text layer are rejected.
+ * @param file PDF file
+ * @returns Non-empty lines, page by page from top to bottom
+ */
+export const extractPdfLines = async (file: File): Promise<string[]> => {
+  try {
+    const pdfjs = await import('pdfjs-dist');
+    const { default: workerSrc } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    const lines: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const rows = new Map<number, { x: number; width: number; text: string }[]>();
+
+      content.items.forEach(item => {
+        if (!('str' in item) || !item.str.trim()) return;
+        // Items within 2pt of each other vertically are on the same line
+        const y = Math.round(item.transform[5] / 2) * 2;
+        rows.set(y, [...(rows.get(y) ?? []), { x: item.transform[4], width: item.width, text: item.str.trim() }]);
+      });
+
+      Array.from(rows.entries())
+        .sort(([a], [b]) => b - a)
+        .forEach(([, items]) => {
+          const sorted = items.sort((a, b) => a.x - b.x);
+          // Wide gaps separate the columns of a form, like table cells in Word
+          lines.push(sorted.map((item, index) => {
+            const previous = sorted[index - 1];
+            if (!previous) return item.text;
+            return `${item.x - (previous.x + previous.width) > PDF_COLUMN_GAP ? '\t' : ' '}${item.text}`;
+          }).join(''));
+        });
+    }
+
+    if (lines.length === 0) {
+      throw new Error('The PDF has no text layer. Scanned forms need to be typed in or run through OCR first.');
+    }
+
+    return lines.map(line => line.replace(/[ \u00a0]+/g, ' ').trim()).filter(Boolean);
+  } catch (error) {
+    console.error('PDF text extraction error:', error);
+    throw new Error(`Failed to read PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyTemplateFilters, parseTemplateExpression, resolveTemplateExpression } from './templateFilters';
+
+describe('parseTemplateExpression', () => {
+  it('splits the variable name from its filters', () => {
+    expect(parseTemplateExpression(' deposit | words |upper ')).toEqual({ name: 'deposit', filters: ['words', 'upper'] });
+    expect(parseTemplateExpression('deposit')).toEqual({ name: 'deposit', filters: [] });
+  });
+});
+
+describe('applyTemplateFilters', () => {
+  it('applies filters in order', () => {
+    expect(applyTemplateFilters('600000', ['amount_words', 'upper'])).toBe('SIX HUNDRED THOUSAND');
+    expect(applyTemplateFilters('1200000', ['number'])).toBe('1,200,000');
+  });
+
+  it('leaves values it cannot format unchanged', () => {
+    expect(applyTemplateFilters('[Deposit]', ['words'])).toBe('[Deposit]');
+    expect(applyTemplateFilters('', ['words'])).toBe('');
+  });
+
+  it('skips unknown filters', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(applyTemplateFilters('Nairobi', ['shout', 'upper'])).toBe('NAIROBI');
+    expect(warn).toHaveBeenCalledWith('Unknown template filter "shout"');
+    warn.mockRestore();
+  });
+});
+
+describe('resolveTemplateExpression', () => {
+  const variables: Record<string, string> = { monthly_rent: '50000' };
+  const resolve = (name: string) => variables[name];
+
+  it('resolves and filters known variables', () => {
+    expect(resolveTemplateExpression('monthly_rent | words', resolve)).toBe('Fifty Thousand Kenya Shillings Only');
+  });
+
+  it('returns undefined for unknown variables', () => {
+    expect(resolveTemplateExpression('deposit | words', resolve)).toBeUndefined();
+  });
+});
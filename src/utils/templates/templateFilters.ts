@@ -0,0 +1,63 @@
+/**
+ * Filters applied to template variables, e.g. {{deposit | words}}
+ */
+
+import { formatAmountInWords, formatAmountFigures } from '@/utils/amountInWords';
+
+type TemplateFilter = (value: string) => string;
+
+// Filters leave values they cannot format unchanged, so "[Deposit]" placeholders survive
+const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  // "One Million Two Hundred Thousand Kenya Shillings Only"
+  words: (value) => formatAmountInWords(value) || value,
+  // "One Million Two Hundred Thousand", for templates that already print "Kenya Shillings"
+  amount_words: (value) => formatAmountInWords(value, { includeCurrency: false }) || value,
+  // "1,200,000"
+  number: (value) => formatAmountFigures(value) || value,
+  upper: (value) => value.toUpperCase(),
+  lower: (value) => value.toLowerCase()
+};
+
+export const TEMPLATE_FILTER_NAMES = Object.keys(TEMPLATE_FILTERS);
+
+/**
+ * Splits a template expression into the variable name and its filters
+ * @param expression Text between the placeholder delimiters, e.g. "deposit | words"
+ * @returns Variable name and filter names in the order they apply
+ */
+export const parseTemplateExpression = (expression: string): { name: string; filters: string[] } => {
+  const [name, ...filters] = expression.split('|').map(part => part.trim());
+  return { name, filters: filters.filter(Boolean) };
+};
+
+/**
+ * Applies filters to a value in order. Unknown filters are skipped with a warning.
+ * @param value Resolved variable value
+ * @param filters Filter names
+ * @returns Filtered value
+ */
+export const applyTemplateFilters = (value: string, filters: string[]): string => {
+  return filters.reduce((current, filterName) => {
+    const filter = TEMPLATE_FILTERS[filterName.toLowerCase()];
+    if (!filter) {
+      console.warn(`Unknown template filter "${filterName}"`);
+      return current;
+    }
+    return current ? filter(current) : current;
+  }, value);
+};
+
+/**
+ * Resolves a template expression such as "monthly_rent | words"
+ * @param expression Text between the placeholder delimiters
+ * @param resolve Looks up a variable by name, returning undefined when unknown
+ * @returns Filtered value, or undefined when the variable is unknown
+ */
+export const resolveTemplateExpression = (
+  expression: string,
+  resolve: (name: string) => string | undefined
+): string | undefined => {
+  const { name, filters } = parseTemplateExpression(expression);
+  const value = resolve(name);
+  return value === undefined ? undefined : applyTemplateFilters(value, filters);
+};
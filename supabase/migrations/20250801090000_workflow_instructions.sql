@@ -0,0 +1,112 @@
+/*
+  # Persist workflow instructions
+
+  1. New Tables
+    - `instructions`
+      - `id` (text, primary key) - instruction reference, e.g. ROF-2025-001
+      - `site_code`, `site_name`, `site_location`, `landlord_name` (text)
+      - `stage` (text) - current workflow stage
+      - `progress` (integer) - percentage complete
+      - `assignee` (text) - current assignee label
+      - `next_action` (text)
+      - `priority` (text) - 'low', 'medium' or 'high'
+      - `form_data` (jsonb) - submitted ROF5 form data
+      - `generated_documents` (jsonb) - generated document names
+      - `progress_reason` (text, nullable)
+      - `created_by` (uuid) - references auth.users
+      - `created_at`, `updated_at` (timestamptz)
+    - `audit_entries`
+      - `id` (uuid, primary key)
+      - `instruction_id` (text) - references instructions
+      - `action` (text)
+      - `user_name` (text) - display name of the acting user
+      - `user_id` (uuid, nullable) - references auth.users
+      - `details` (text)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on both tables
+    - Authenticated users can read and write instructions
+    - Audit entries can be read and appended, never updated or deleted
+
+  3. Indexes
+    - `instructions` by stage and by last update
+    - `audit_entries` by instruction
+*/
+
+CREATE TABLE IF NOT EXISTS public.instructions (
+  id TEXT PRIMARY KEY,
+  site_code TEXT NOT NULL,
+  site_name TEXT NOT NULL,
+  site_location TEXT NOT NULL DEFAULT '',
+  landlord_name TEXT NOT NULL DEFAULT '',
+  stage TEXT NOT NULL DEFAULT 'document-drafting',
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  assignee TEXT NOT NULL DEFAULT 'Unassigned',
+  next_action TEXT NOT NULL DEFAULT '',
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  form_data JSONB NOT NULL DEFAULT '{}',
+  generated_documents JSONB NOT NULL DEFAULT '[]',
+  progress_reason TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.audit_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  instruction_id TEXT NOT NULL REFERENCES public.instructions(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  user_name TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id),
+  details TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.instructions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_entries ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_instructions_stage ON public.instructions(stage);
+CREATE INDEX IF NOT EXISTS idx_instructions_updated ON public.instructions(updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_entries_instruction ON public.audit_entries(instruction_id, created_at);
+
+-- RLS Policies for instructions
+CREATE POLICY "Authenticated users can view instructions"
+  ON public.instructions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create instructions"
+  ON public.instructions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Authenticated users can update instructions"
+  ON public.instructions
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- RLS Policies for audit_entries (append-only)
+CREATE POLICY "Authenticated users can view audit entries"
+  ON public.audit_entries
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can add audit entries"
+  ON public.audit_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE TRIGGER update_instructions_updated_at
+  BEFORE UPDATE ON public.instructions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,11 @@
+/*
+  # Track executed documents on instructions
+
+  1. Changes
+    - `instructions.executed_documents` (jsonb) - names of executed documents uploaded
+      against the instruction, used by the workflow preconditions that gate
+      registration and closure
+*/
+
+ALTER TABLE public.instructions
+  ADD COLUMN IF NOT EXISTS executed_documents JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,84 @@
+/*
+  # Store placeholder mappings per system template
+
+  1. New Tables
+    - `template_placeholder_mappings`
+      - `id` (uuid, primary key)
+      - `template_id` (uuid) - references system_templates
+      - `placeholder_order` (integer) - position of the blank in the template
+      - `pattern` (text) - words around the blank, used for context matching
+      - `description` (text) - label shown to users
+      - `source_type` (text) - 'field' for a ROF5 field, 'computed' for an expression
+      - `rof5_field` (text, nullable) - ROF5 form field name
+      - `expression` (text, nullable) - computed expression id
+      - `expression_arg` (text, nullable) - argument for the expression, e.g. rent year
+      - `created_by` (uuid) - references auth.users
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `template_placeholder_mappings`
+    - Authenticated users can read mappings
+    - Authenticated users can create, update and delete mappings
+
+  3. Indexes
+    - Unique mapping per template blank
+*/
+
+CREATE TABLE IF NOT EXISTS public.template_placeholder_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.system_templates(id) ON DELETE CASCADE,
+  placeholder_order INTEGER NOT NULL,
+  pattern TEXT NOT NULL DEFAULT '',
+  description TEXT NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('field', 'computed')),
+  rof5_field TEXT,
+  expression TEXT,
+  expression_arg TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (template_id, placeholder_order),
+  CHECK (
+    (source_type = 'field' AND rof5_field IS NOT NULL) OR
+    (source_type = 'computed' AND expression IS NOT NULL)
+  )
+);
+
+-- Enable RLS
+ALTER TABLE public.template_placeholder_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_template_placeholder_mappings_template
+  ON public.template_placeholder_mappings(template_id, placeholder_order);
+
+-- RLS Policies
+CREATE POLICY "Authenticated users can view placeholder mappings"
+  ON public.template_placeholder_mappings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create placeholder mappings"
+  ON public.template_placeholder_mappings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Authenticated users can update placeholder mappings"
+  ON public.template_placeholder_mappings
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete placeholder mappings"
+  ON public.template_placeholder_mappings
+  FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Keep updated_at current
+CREATE TRIGGER update_template_placeholder_mappings_updated_at
+  BEFORE UPDATE ON public.template_placeholder_mappings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
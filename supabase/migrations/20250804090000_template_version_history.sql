@@ -0,0 +1,36 @@
+/*
+  # Template version history
+
+  1. Changes
+    - `template_versions.file_name` (text) - original file name of each version, used
+      when an earlier version is downloaded
+    - `system_templates.current_version` (integer) - version number of the file
+      currently stored on the template
+    - `instructions.document_template_versions` (jsonb) - template and version that
+      produced each generated document, keyed by document name
+
+  2. Backfill
+    - Every existing template gets a version 1 row holding its current file
+
+  3. Indexes
+    - `template_versions(template_id, version_number)` for the history panel
+*/
+
+ALTER TABLE public.template_versions
+  ADD COLUMN IF NOT EXISTS file_name TEXT;
+
+ALTER TABLE public.system_templates
+  ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.instructions
+  ADD COLUMN IF NOT EXISTS document_template_versions JSONB NOT NULL DEFAULT '{}';
+
+INSERT INTO public.template_versions (template_id, version_number, file_data, content_type, file_name, created_by, notes, created_at)
+SELECT t.id, 1, t.file_data, t.content_type, t.file_name, t.uploaded_by, 'Initial version', t.created_at
+FROM public.system_templates t
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.template_versions v WHERE v.template_id = t.id
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_versions_template_version
+  ON public.template_versions(template_id, version_number DESC);
@@ -0,0 +1,61 @@
+/*
+  # Store the fee breakdown on instructions and the fee scale in settings
+
+  1. New Tables
+    - `app_settings`
+      - `key` (text, primary key) - e.g. 'fee_scale'
+      - `value` (jsonb) - the setting, shaped as the app expects for its key
+      - `updated_by` (uuid) - references auth.users
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - `instructions.fee_breakdown` (jsonb) - stamp duty, professional fee, VAT and
+      disbursements calculated when the instruction was submitted, as printed on
+      the fee note and ROF 6
+    - The fee scale those amounts are calculated on is read from the 'fee_scale'
+      setting; the app's standard scale applies until one is saved
+
+  3. Security
+    - Enable RLS on `app_settings`
+    - Authenticated users can read settings, since fees are calculated in the browser
+    - Authenticated users can add and change settings
+*/
+
+ALTER TABLE public.instructions
+  ADD COLUMN IF NOT EXISTS fee_breakdown JSONB;
+
+CREATE TABLE IF NOT EXISTS public.app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Authenticated users can view settings"
+  ON public.app_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can add settings"
+  ON public.app_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = updated_by);
+
+CREATE POLICY "Authenticated users can update settings"
+  ON public.app_settings
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (auth.uid() = updated_by);
+
+-- Keep updated_at current
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,193 @@
+/*
+  # Site and landlord registry
+
+  1. New Tables
+    - `landlords`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `landlord_type` (text) - 'individual', 'company', 'government' or 'cooperative'
+      - `id_number`, `kra_pin`, `phone`, `email`, `address` (text)
+      - `created_by` (uuid) - references auth.users
+      - `created_at`, `updated_at` (timestamptz)
+    - `sites`
+      - `id` (uuid, primary key)
+      - `site_code` (text, unique) - operator site code, e.g. NBI001
+      - `site_name`, `site_location`, `county`, `sub_county`, `ward` (text)
+      - `title_number`, `title_type`, `registration_section`, `land_area`, `land_use` (text)
+      - `landlord_id` (uuid, nullable) - current landlord, references landlords
+      - `created_by` (uuid) - references auth.users
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `instructions.site_id` (uuid, nullable) - registry site the instruction is for
+    - `instructions.landlord_id` (uuid, nullable) - registry landlord on the instruction
+
+  3. Backfill
+    - One landlord and one site per site code, taken from the latest instruction
+      for that site, and every existing instruction linked to them
+
+  4. Security
+    - Enable RLS on both tables
+    - Authenticated users can read, create and update registry records
+
+  5. Indexes
+    - `sites` by site code prefix for autocomplete
+    - `landlords` by name and ID number
+    - `instructions` by site and by landlord for the site history
+*/
+
+CREATE TABLE IF NOT EXISTS public.landlords (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  landlord_type TEXT NOT NULL DEFAULT 'individual',
+  id_number TEXT NOT NULL DEFAULT '',
+  kra_pin TEXT NOT NULL DEFAULT '',
+  phone TEXT NOT NULL DEFAULT '',
+  email TEXT NOT NULL DEFAULT '',
+  address TEXT NOT NULL DEFAULT '',
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.sites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_code TEXT NOT NULL UNIQUE,
+  site_name TEXT NOT NULL,
+  site_location TEXT NOT NULL DEFAULT '',
+  county TEXT NOT NULL DEFAULT '',
+  sub_county TEXT NOT NULL DEFAULT '',
+  ward TEXT NOT NULL DEFAULT '',
+  title_number TEXT NOT NULL DEFAULT '',
+  title_type TEXT NOT NULL DEFAULT '',
+  registration_section TEXT NOT NULL DEFAULT '',
+  land_area TEXT NOT NULL DEFAULT '',
+  land_use TEXT NOT NULL DEFAULT '',
+  landlord_id UUID REFERENCES public.landlords(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.instructions
+  ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES public.sites(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS landlord_id UUID REFERENCES public.landlords(id) ON DELETE SET NULL;
+
+-- Backfill the registry from the latest instruction for each site code
+WITH latest AS (
+  SELECT DISTINCT ON (site_code) *
+  FROM public.instructions
+  WHERE site_code <> ''
+  ORDER BY site_code, created_at DESC
+),
+new_landlords AS (
+  INSERT INTO public.landlords (name, landlord_type, id_number, kra_pin, phone, email, address, created_by)
+  SELECT
+    latest.landlord_name,
+    COALESCE(NULLIF(latest.form_data->>'landlordType', ''), 'individual'),
+    COALESCE(latest.form_data->>'landlordId', ''),
+    COALESCE(latest.form_data->>'landlordPin', ''),
+    COALESCE(latest.form_data->>'landlordPhone', ''),
+    COALESCE(latest.form_data->>'landlordEmail', ''),
+    COALESCE(latest.form_data->>'landlordAddress', ''),
+    latest.created_by
+  FROM latest
+  WHERE latest.landlord_name <> ''
+    AND NOT EXISTS (SELECT 1 FROM public.sites s WHERE s.site_code = latest.site_code)
+  RETURNING id, name, id_number
+)
+INSERT INTO public.sites (
+  site_code, site_name, site_location, county, sub_county, ward,
+  title_number, title_type, registration_section, land_area, land_use, landlord_id, created_by
+)
+SELECT
+  latest.site_code,
+  latest.site_name,
+  latest.site_location,
+  COALESCE(latest.form_data->>'county', ''),
+  COALESCE(latest.form_data->>'subCounty', ''),
+  COALESCE(latest.form_data->>'ward', ''),
+  COALESCE(latest.form_data->>'titleNumber', ''),
+  COALESCE(latest.form_data->>'titleType', ''),
+  COALESCE(latest.form_data->>'registrationSection', ''),
+  COALESCE(latest.form_data->>'landArea', ''),
+  COALESCE(latest.form_data->>'landUse', ''),
+  (
+    SELECT l.id FROM new_landlords l
+    WHERE l.name = latest.landlord_name
+      AND l.id_number = COALESCE(latest.form_data->>'landlordId', '')
+    LIMIT 1
+  ),
+  latest.created_by
+FROM latest
+ON CONFLICT (site_code) DO NOTHING;
+
+UPDATE public.instructions i
+SET site_id = s.id,
+    landlord_id = COALESCE(i.landlord_id, s.landlord_id)
+FROM public.sites s
+WHERE i.site_code = s.site_code
+  AND i.site_id IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.landlords ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sites ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_sites_code_prefix ON public.sites(site_code text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_sites_landlord ON public.sites(landlord_id);
+CREATE INDEX IF NOT EXISTS idx_landlords_name ON public.landlords(lower(name));
+CREATE INDEX IF NOT EXISTS idx_landlords_id_number ON public.landlords(id_number) WHERE id_number <> '';
+CREATE INDEX IF NOT EXISTS idx_instructions_site ON public.instructions(site_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_instructions_landlord ON public.instructions(landlord_id);
+
+-- RLS Policies for landlords
+CREATE POLICY "Authenticated users can view landlords"
+  ON public.landlords
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create landlords"
+  ON public.landlords
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Authenticated users can update landlords"
+  ON public.landlords
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- RLS Policies for sites
+CREATE POLICY "Authenticated users can view sites"
+  ON public.sites
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create sites"
+  ON public.sites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Authenticated users can update sites"
+  ON public.sites
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Keep updated_at current
+CREATE TRIGGER update_landlords_updated_at
+  BEFORE UPDATE ON public.landlords
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_sites_updated_at
+  BEFORE UPDATE ON public.sites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
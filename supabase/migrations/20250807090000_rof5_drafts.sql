@@ -0,0 +1,221 @@
+/*
+  # Server-side ROF5 drafts
+
+  1. New Tables
+    - `rof5_drafts`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `form_data` (jsonb) - latest saved ROF5 form data
+      - `current_revision` (integer) - number of the latest revision
+      - `status` (text) - 'open', or 'submitted' once an instruction is raised from it
+      - `instruction_id` (text, nullable) - instruction raised from the draft
+      - `legacy_id` (text, nullable) - id of the browser draft it was migrated from
+      - `owner_id` (uuid) - references auth.users
+      - `owner_email` (text) - shown to colleagues the draft is shared with
+      - `created_at`, `updated_at` (timestamptz)
+    - `rof5_draft_revisions`
+      - `id` (uuid, primary key)
+      - `draft_id` (uuid) - references rof5_drafts
+      - `revision_number` (integer) - assigned on insert, 1 for the first save
+      - `form_data` (jsonb) - snapshot of the form at this save
+      - `save_kind` (text) - 'autosave', 'manual' or 'migrated'
+      - `saved_by` (uuid) - references auth.users
+      - `saved_by_email` (text)
+      - `created_at` (timestamptz)
+    - `rof5_draft_shares`
+      - `id` (uuid, primary key)
+      - `draft_id` (uuid) - references rof5_drafts
+      - `shared_with` (uuid) - colleague the draft is shared with, references auth.users
+      - `shared_with_email` (text)
+      - `shared_by` (uuid) - references auth.users
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `can_access_rof5_draft(draft_id)` - whether the current user owns the draft or
+      it has been shared with them
+    - `share_rof5_draft(draft_id, email)` - shares a draft with the colleague who
+      signs in with the given email
+    - Inserting a revision assigns its number and copies its form data onto the draft
+
+  3. Security
+    - Enable RLS on all three tables
+    - Owners and colleagues a draft is shared with can read and update it and add revisions
+    - Only owners can delete drafts and manage shares
+    - Revisions are append-only
+*/
+
+CREATE TABLE IF NOT EXISTS public.rof5_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  form_data JSONB NOT NULL DEFAULT '{}',
+  current_revision INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'submitted')),
+  instruction_id TEXT,
+  legacy_id TEXT,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner_email TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (owner_id, legacy_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.rof5_draft_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  draft_id UUID NOT NULL REFERENCES public.rof5_drafts(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  form_data JSONB NOT NULL,
+  save_kind TEXT NOT NULL DEFAULT 'manual' CHECK (save_kind IN ('autosave', 'manual', 'migrated')),
+  saved_by UUID REFERENCES auth.users(id),
+  saved_by_email TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (draft_id, revision_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.rof5_draft_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  draft_id UUID NOT NULL REFERENCES public.rof5_drafts(id) ON DELETE CASCADE,
+  shared_with UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  shared_with_email TEXT NOT NULL,
+  shared_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (draft_id, shared_with)
+);
+
+-- Enable RLS
+ALTER TABLE public.rof5_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rof5_draft_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rof5_draft_shares ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_rof5_drafts_owner ON public.rof5_drafts(owner_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rof5_draft_revisions_draft ON public.rof5_draft_revisions(draft_id, revision_number DESC);
+CREATE INDEX IF NOT EXISTS idx_rof5_draft_shares_user ON public.rof5_draft_shares(shared_with);
+
+-- Security definer so the policies below can check shares without recursing through RLS
+CREATE OR REPLACE FUNCTION public.can_access_rof5_draft(draft_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.rof5_drafts d
+    WHERE d.id = $1
+      AND (
+        d.owner_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM public.rof5_draft_shares s
+          WHERE s.draft_id = d.id AND s.shared_with = auth.uid()
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Colleagues are looked up by sign-in email, which clients cannot read from auth.users
+CREATE OR REPLACE FUNCTION public.share_rof5_draft(draft_id UUID, colleague_email TEXT)
+RETURNS UUID AS $$
+DECLARE
+  colleague_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.rof5_drafts d WHERE d.id = $1 AND d.owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the owner of a draft can share it';
+  END IF;
+
+  SELECT u.id INTO colleague_id
+  FROM auth.users u
+  WHERE lower(u.email) = lower(trim(colleague_email));
+
+  IF colleague_id IS NULL THEN
+    RAISE EXCEPTION 'No user signs in with %', colleague_email;
+  END IF;
+
+  IF colleague_id = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this draft';
+  END IF;
+
+  INSERT INTO public.rof5_draft_shares (draft_id, shared_with, shared_with_email, shared_by)
+  VALUES ($1, colleague_id, lower(trim(colleague_email)), auth.uid())
+  ON CONFLICT (draft_id, shared_with) DO NOTHING;
+
+  RETURN colleague_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+-- Number each revision and make it the draft's current form data
+CREATE OR REPLACE FUNCTION public.apply_rof5_draft_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO NEW.revision_number
+  FROM public.rof5_draft_revisions
+  WHERE draft_id = NEW.draft_id;
+
+  UPDATE public.rof5_drafts
+  SET form_data = NEW.form_data,
+      current_revision = NEW.revision_number
+  WHERE id = NEW.draft_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apply_rof5_draft_revision
+  BEFORE INSERT ON public.rof5_draft_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_rof5_draft_revision();
+
+-- RLS Policies for rof5_drafts
+CREATE POLICY "Users can view their own and shared drafts"
+  ON public.rof5_drafts
+  FOR SELECT
+  TO authenticated
+  USING (public.can_access_rof5_draft(id));
+
+CREATE POLICY "Users can create their own drafts"
+  ON public.rof5_drafts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Users can update their own and shared drafts"
+  ON public.rof5_drafts
+  FOR UPDATE
+  TO authenticated
+  USING (public.can_access_rof5_draft(id))
+  WITH CHECK (public.can_access_rof5_draft(id));
+
+CREATE POLICY "Users can delete their own drafts"
+  ON public.rof5_drafts
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = owner_id);
+
+-- RLS Policies for rof5_draft_revisions (append-only)
+CREATE POLICY "Users can view revisions of accessible drafts"
+  ON public.rof5_draft_revisions
+  FOR SELECT
+  TO authenticated
+  USING (public.can_access_rof5_draft(draft_id));
+
+CREATE POLICY "Users can add revisions to accessible drafts"
+  ON public.rof5_draft_revisions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.can_access_rof5_draft(draft_id) AND auth.uid() = saved_by);
+
+-- RLS Policies for rof5_draft_shares
+CREATE POLICY "Owners and colleagues can view draft shares"
+  ON public.rof5_draft_shares
+  FOR SELECT
+  TO authenticated
+  USING (shared_with = auth.uid() OR shared_by = auth.uid() OR public.can_access_rof5_draft(draft_id));
+
+CREATE POLICY "Owners can remove draft shares"
+  ON public.rof5_draft_shares
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.rof5_drafts d
+    WHERE d.id = draft_id AND d.owner_id = auth.uid()
+  ));
+
+-- Keep updated_at current
+CREATE TRIGGER update_rof5_drafts_updated_at
+  BEFORE UPDATE ON public.rof5_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,14 @@
+/*
+  # Drafts imported from ROF5 documents
+
+  1. Changes
+    - `rof5_draft_revisions.save_kind` also accepts 'imported', recorded for the
+      first revision of a draft created from an uploaded ROF5 Word or PDF form
+*/
+
+ALTER TABLE public.rof5_draft_revisions
+  DROP CONSTRAINT IF EXISTS rof5_draft_revisions_save_kind_check;
+
+ALTER TABLE public.rof5_draft_revisions
+  ADD CONSTRAINT rof5_draft_revisions_save_kind_check
+  CHECK (save_kind IN ('autosave', 'manual', 'migrated', 'imported'));
@@ -0,0 +1,60 @@
+/*
+  # Column mapping profiles for bulk instruction imports
+
+  1. New Tables
+    - `instruction_import_profiles`
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - e.g. "Rollout programme tracker"
+      - `column_mapping` (jsonb) - spreadsheet column heading for each ROF5 field
+      - `created_by` (uuid) - references auth.users
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Authenticated users can read every profile, so a team shares its mappings
+    - Users can create profiles, and update or delete the ones they created
+*/
+
+CREATE TABLE IF NOT EXISTS public.instruction_import_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.instruction_import_profiles ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for instruction_import_profiles
+CREATE POLICY "Authenticated users can view import profiles"
+  ON public.instruction_import_profiles
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create import profiles"
+  ON public.instruction_import_profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can update their own import profiles"
+  ON public.instruction_import_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by)
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can delete their own import profiles"
+  ON public.instruction_import_profiles
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = created_by);
+
+-- Keep updated_at current
+CREATE TRIGGER update_instruction_import_profiles_updated_at
+  BEFORE UPDATE ON public.instruction_import_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,64 @@
+/*
+  # Store generated documents against instructions
+
+  1. Changes
+    - `generated_documents.instruction_id` (text, nullable) - references instructions
+    - `generated_documents.storage_path` (text, nullable) - object path in the
+      `generated-documents` bucket
+    - `generated_documents.content_type` (text) and `file_size` (integer)
+    - `generated_documents.template_name` (text, nullable) - system or built-in template used
+    - `generated_documents.system_template_id` (uuid, nullable) - references system_templates
+    - `generated_documents.template_version` (integer, nullable) - system template version
+    - `generated_documents.form_data` (jsonb) - ROF5 data the document was generated from
+    - `generated_documents.source` (text) - 'rof5', 'fanisi' or 'batch'
+    - `generated_documents.content` is no longer required, as files are kept in storage
+
+  2. Storage
+    - Private `generated-documents` bucket, with objects stored under the instruction id
+
+  3. Security
+    - Authenticated users can view every document linked to an instruction, as they can
+      view the instructions themselves
+    - Authenticated users can upload to and download from the bucket
+
+  4. Indexes
+    - `generated_documents(instruction_id, created_at)` for the documents tab
+*/
+
+ALTER TABLE public.generated_documents
+  ALTER COLUMN content DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS instruction_id TEXT REFERENCES public.instructions(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS storage_path TEXT,
+  ADD COLUMN IF NOT EXISTS content_type TEXT NOT NULL DEFAULT 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ADD COLUMN IF NOT EXISTS file_size INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS template_name TEXT,
+  ADD COLUMN IF NOT EXISTS system_template_id UUID REFERENCES public.system_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS template_version INTEGER,
+  ADD COLUMN IF NOT EXISTS form_data JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'rof5'
+    CHECK (source IN ('rof5', 'fanisi', 'batch'));
+
+CREATE POLICY "Authenticated users can view instruction documents"
+  ON public.generated_documents
+  FOR SELECT
+  TO authenticated
+  USING (instruction_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_generated_documents_instruction
+  ON public.generated_documents(instruction_id, created_at DESC);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('generated-documents', 'generated-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users can upload generated documents"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'generated-documents');
+
+CREATE POLICY "Authenticated users can download generated documents"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'generated-documents');
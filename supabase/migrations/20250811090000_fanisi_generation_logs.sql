@@ -0,0 +1,73 @@
+/*
+  # Fanisi document generation logs
+
+  1. New Tables
+    - `fanisi_generation_logs`
+      - `id` (uuid, primary key)
+      - `site_name`, `site_code` (text) - site the document was generated for
+      - `document_type` (text) - e.g. "Lease Agreement"
+      - `generated_file_name` (text, nullable) - blank when generation failed
+      - `template_id` (uuid, nullable) - references system_templates
+      - `template_name` (text, nullable)
+      - `status` (text) - 'success' or 'error'
+      - `error_message` (text, nullable)
+      - `is_valid` (boolean, nullable) - template validation result, when one was run
+      - `missing_fields`, `invalid_fields`, `unmapped_variables` (jsonb) - from the
+        template validation
+      - `user_id` (uuid) - references auth.users
+      - `user_name` (text) - display name of the user who generated the document
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Authenticated users can read every log, so failures can be triaged by anyone
+    - Users can add logs of their own generations; logs are never updated or deleted
+
+  3. Indexes
+    - By creation time, status and site for the history filters
+*/
+
+CREATE TABLE IF NOT EXISTS public.fanisi_generation_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_name TEXT NOT NULL DEFAULT '',
+  site_code TEXT NOT NULL DEFAULT '',
+  document_type TEXT NOT NULL DEFAULT '',
+  generated_file_name TEXT,
+  template_id UUID REFERENCES public.system_templates(id) ON DELETE SET NULL,
+  template_name TEXT,
+  status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+  error_message TEXT,
+  is_valid BOOLEAN,
+  missing_fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  invalid_fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  unmapped_variables JSONB NOT NULL DEFAULT '[]'::jsonb,
+  user_id UUID REFERENCES auth.users(id),
+  user_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.fanisi_generation_logs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for fanisi_generation_logs
+CREATE POLICY "Authenticated users can view generation logs"
+  ON public.fanisi_generation_logs
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can add generation logs"
+  ON public.fanisi_generation_logs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Indexes for the generation history filters
+CREATE INDEX IF NOT EXISTS idx_fanisi_generation_logs_created_at
+  ON public.fanisi_generation_logs(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_fanisi_generation_logs_status
+  ON public.fanisi_generation_logs(status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_fanisi_generation_logs_site
+  ON public.fanisi_generation_logs(site_code, created_at DESC);
@@ -0,0 +1,199 @@
+/*
+  # User profiles and roles
+
+  1. New Tables
+    - `profiles`
+      - `id` (uuid, primary key) - references auth.users
+      - `email` (text) - sign-in email, copied from auth.users
+      - `full_name` (text)
+      - `role` (text) - 'IC', 'EC', 'POA' or 'Admin'
+      - `department` (text)
+      - `law_firm` (text, nullable) - external counsel's firm
+      - `is_active` (boolean) - inactive users keep their history but lose their role
+      - `created_at`, `updated_at` (timestamptz)
+    - `user_invitations`
+      - `id` (uuid, primary key)
+      - `email` (text, unique) - address the invitation was sent to
+      - `full_name`, `role`, `department`, `law_firm` - applied to the profile on first sign-in
+      - `invited_by` (uuid) - references auth.users
+      - `accepted_at` (timestamptz, nullable)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - A profile is created for every new auth user, taking its role and details from
+      a pending invitation when there is one
+    - Existing users are given In-House Counsel profiles, which is the role the app
+      assumed for everyone until now. Promote the first administrator with:
+        UPDATE public.profiles SET role = 'Admin' WHERE email = '<email>';
+
+  3. Security
+    - Enable RLS on both tables
+    - Authenticated users can read every profile, to pick assignees by role
+    - Users can update their own name; only admins can change roles, departments,
+      law firms and active status
+    - Only admins can read and manage invitations
+    - `current_user_role()` and `is_admin()` helpers for later policies
+
+  4. Indexes
+    - Profiles by role, invitations by email
+*/
+
+CREATE TABLE IF NOT EXISTS public.profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL DEFAULT '',
+  full_name TEXT NOT NULL DEFAULT '',
+  role TEXT NOT NULL DEFAULT 'IC' CHECK (role IN ('IC', 'EC', 'POA', 'Admin')),
+  department TEXT NOT NULL DEFAULT '',
+  law_firm TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.user_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL UNIQUE,
+  full_name TEXT NOT NULL DEFAULT '',
+  role TEXT NOT NULL CHECK (role IN ('IC', 'EC', 'POA', 'Admin')),
+  department TEXT NOT NULL DEFAULT '',
+  law_firm TEXT,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Role of the signed-in user, readable from policies without recursing through profiles RLS
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT AS $$
+  SELECT p.role
+  FROM public.profiles p
+  WHERE p.id = auth.uid() AND p.is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.current_user_role() = 'Admin', false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create the profile for a new auth user from their pending invitation, if any
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  invitation public.user_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO invitation
+  FROM public.user_invitations i
+  WHERE lower(i.email) = lower(NEW.email) AND i.accepted_at IS NULL;
+
+  INSERT INTO public.profiles (id, email, full_name, role, department, law_firm)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.email, ''),
+    COALESCE(invitation.full_name, NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(invitation.role, 'IC'),
+    COALESCE(invitation.department, ''),
+    invitation.law_firm
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  IF invitation.id IS NOT NULL THEN
+    UPDATE public.user_invitations SET accepted_at = now() WHERE id = invitation.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+-- Users may rename themselves, but only admins can change what they are allowed to do
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.is_admin() AND (
+    NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.department IS DISTINCT FROM OLD.department
+    OR NEW.law_firm IS DISTINCT FROM OLD.law_firm
+    OR NEW.is_active IS DISTINCT FROM OLD.is_active
+    OR NEW.email IS DISTINCT FROM OLD.email
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can change roles and departments';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_profile_role
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_role();
+
+-- Existing users keep the In-House Counsel role the app gave everyone before profiles
+INSERT INTO public.profiles (id, email, full_name, role)
+SELECT u.id, COALESCE(u.email, ''), COALESCE(u.raw_user_meta_data->>'full_name', ''), 'IC'
+FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_invitations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for profiles
+CREATE POLICY "Authenticated users can view profiles"
+  ON public.profiles
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can update their own profile"
+  ON public.profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Admins can update profiles"
+  ON public.profiles
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- RLS Policies for user_invitations
+CREATE POLICY "Admins can view invitations"
+  ON public.user_invitations
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can create invitations"
+  ON public.user_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin() AND auth.uid() = invited_by);
+
+CREATE POLICY "Admins can update invitations"
+  ON public.user_invitations
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can delete invitations"
+  ON public.user_invitations
+  FOR DELETE
+  TO authenticated
+  USING (public.is_admin());
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_profiles_role ON public.profiles(role);
+CREATE INDEX IF NOT EXISTS idx_user_invitations_email ON public.user_invitations(lower(email));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,354 @@
+/*
+  # Enforce role permissions with RLS
+
+  1. New Tables
+    - `role_permissions`
+      - `id` (uuid, primary key)
+      - `role` (text) - 'IC', 'EC', 'POA' or 'Admin'
+      - `permission` (text) - e.g. 'create-instruction'; unique per role
+      - `created_at` (timestamptz)
+      - The permission matrix the app checks in the browser, so policies and UI
+        read the same rules. Beyond what the UI granted explicitly, every role that
+        can move an instruction between stages gets 'update-status', and In-House
+        Counsel get the document permissions they already used from the ROF5 form.
+
+  2. Changes
+    - `instructions.assigned_to` (uuid, nullable) - user the instruction is assigned
+      to; external counsel only see and update instructions assigned to them
+    - Only users with 'assign-external-counsel' can change `assigned_to`
+
+  3. Security
+    - `has_permission()`, `can_view_instruction()` and `can_update_instruction()`
+      helpers, all driven by the signed-in user's profile role
+    - instructions: create needs 'create-instruction'; read needs 'view-dashboard',
+      'view-all-instructions' or 'view-all', or 'view-assigned-instructions' for the
+      assignee; update needs 'update-status' on an instruction the user can read
+    - audit_entries, instruction documents and their stored files follow the
+      instruction they belong to; saving documents needs 'generate-documents'
+    - system_templates, template_versions and template_placeholder_mappings: only
+      'manage-templates' can write. Inactive templates are hidden from everyone else
+      again, replacing the `USING (true)` read policy
+    - sites and landlords: writes need 'manage-properties' or 'create-instruction'
+    - instruction_import_profiles: creating needs 'create-instruction'
+    - app_settings: only 'system-settings' can add or change settings
+
+  4. Indexes
+    - `instructions` by assignee
+*/
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  role TEXT NOT NULL CHECK (role IN ('IC', 'EC', 'POA', 'Admin')),
+  permission TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (role, permission)
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('IC', 'create-instruction'),
+  ('IC', 'view-dashboard'),
+  ('IC', 'assign-external-counsel'),
+  ('IC', 'approve-documents'),
+  ('IC', 'generate-reports'),
+  ('IC', 'update-status'),
+  ('IC', 'upload-documents'),
+  ('IC', 'generate-documents'),
+  ('EC', 'view-assigned-instructions'),
+  ('EC', 'upload-documents'),
+  ('EC', 'update-status'),
+  ('EC', 'generate-documents'),
+  ('POA', 'view-all-instructions'),
+  ('POA', 'manage-properties'),
+  ('POA', 'generate-reports'),
+  ('POA', 'update-status'),
+  ('POA', 'upload-documents'),
+  ('Admin', 'manage-users'),
+  ('Admin', 'view-all'),
+  ('Admin', 'system-settings'),
+  ('Admin', 'manage-templates'),
+  ('Admin', 'generate-reports'),
+  ('Admin', 'update-status'),
+  ('Admin', 'generate-documents')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.instructions
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Permission checks for the signed-in user
+CREATE OR REPLACE FUNCTION public.has_permission(permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.role_permissions rp
+    WHERE rp.role = public.current_user_role()
+      AND rp.permission = $1
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_view_instruction(instruction_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.instructions i
+    WHERE i.id = $1
+      AND (
+        public.has_permission('view-all')
+        OR public.has_permission('view-all-instructions')
+        OR public.has_permission('view-dashboard')
+        OR (public.has_permission('view-assigned-instructions') AND i.assigned_to = auth.uid())
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_update_instruction(instruction_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_permission('update-status') AND public.can_view_instruction($1);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Reassigning an instruction is a separate permission from working on it
+CREATE OR REPLACE FUNCTION public.protect_instruction_assignment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+    AND NOT public.has_permission('assign-external-counsel') THEN
+    RAISE EXCEPTION 'You do not have permission to reassign instructions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_instruction_assignment
+  BEFORE UPDATE ON public.instructions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_instruction_assignment();
+
+-- Enable RLS
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view role permissions"
+  ON public.role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- RLS Policies for instructions
+DROP POLICY IF EXISTS "Authenticated users can view instructions" ON public.instructions;
+DROP POLICY IF EXISTS "Authenticated users can create instructions" ON public.instructions;
+DROP POLICY IF EXISTS "Authenticated users can update instructions" ON public.instructions;
+
+CREATE POLICY "Users can view permitted instructions"
+  ON public.instructions
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission('view-all')
+    OR public.has_permission('view-all-instructions')
+    OR public.has_permission('view-dashboard')
+    OR (public.has_permission('view-assigned-instructions') AND assigned_to = auth.uid())
+  );
+
+CREATE POLICY "Users with create-instruction can create instructions"
+  ON public.instructions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('create-instruction') AND auth.uid() = created_by);
+
+CREATE POLICY "Users with update-status can update permitted instructions"
+  ON public.instructions
+  FOR UPDATE
+  TO authenticated
+  USING (public.can_update_instruction(id))
+  WITH CHECK (public.can_update_instruction(id));
+
+-- RLS Policies for audit_entries
+DROP POLICY IF EXISTS "Authenticated users can view audit entries" ON public.audit_entries;
+DROP POLICY IF EXISTS "Authenticated users can add audit entries" ON public.audit_entries;
+
+CREATE POLICY "Users can view audit entries of permitted instructions"
+  ON public.audit_entries
+  FOR SELECT
+  TO authenticated
+  USING (public.can_view_instruction(instruction_id));
+
+CREATE POLICY "Users can add audit entries to permitted instructions"
+  ON public.audit_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.can_view_instruction(instruction_id));
+
+-- RLS Policies for generated_documents
+DROP POLICY IF EXISTS "Authenticated users can view instruction documents" ON public.generated_documents;
+
+CREATE POLICY "Users can view documents of permitted instructions"
+  ON public.generated_documents
+  FOR SELECT
+  TO authenticated
+  USING (instruction_id IS NOT NULL AND public.can_view_instruction(instruction_id));
+
+CREATE POLICY "Saving instruction documents needs generate-documents"
+  ON public.generated_documents
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    instruction_id IS NULL
+    OR (public.has_permission('generate-documents') AND public.can_view_instruction(instruction_id))
+  );
+
+-- Stored files sit under a folder named after their instruction
+DROP POLICY IF EXISTS "Authenticated users can upload generated documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can download generated documents" ON storage.objects;
+
+CREATE POLICY "Users can upload documents for permitted instructions"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'generated-documents'
+    AND public.has_permission('generate-documents')
+    AND public.can_view_instruction((storage.foldername(name))[1])
+  );
+
+CREATE POLICY "Users can download documents of permitted instructions"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'generated-documents'
+    AND public.can_view_instruction((storage.foldername(name))[1])
+  );
+
+-- RLS Policies for system_templates
+DROP POLICY IF EXISTS "All users can view system templates" ON public.system_templates;
+DROP POLICY IF EXISTS "Users can view system templates" ON public.system_templates;
+DROP POLICY IF EXISTS "Authenticated users can upload system templates" ON public.system_templates;
+DROP POLICY IF EXISTS "Users can create system templates" ON public.system_templates;
+DROP POLICY IF EXISTS "Users can update their own system templates" ON public.system_templates;
+DROP POLICY IF EXISTS "Users can delete their own system templates" ON public.system_templates;
+DROP POLICY IF EXISTS "Users can hard delete their own system templates" ON public.system_templates;
+
+CREATE POLICY "Users can view active system templates"
+  ON public.system_templates
+  FOR SELECT
+  TO authenticated
+  USING (is_active = true OR public.has_permission('manage-templates'));
+
+CREATE POLICY "Template managers can upload system templates"
+  ON public.system_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('manage-templates') AND auth.uid() = uploaded_by);
+
+CREATE POLICY "Template managers can update system templates"
+  ON public.system_templates
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('manage-templates'))
+  WITH CHECK (public.has_permission('manage-templates'));
+
+CREATE POLICY "Template managers can delete system templates"
+  ON public.system_templates
+  FOR DELETE
+  TO authenticated
+  USING (public.has_permission('manage-templates'));
+
+-- RLS Policies for template_versions
+DROP POLICY IF EXISTS "Users can create template versions" ON public.template_versions;
+
+CREATE POLICY "Template managers can create template versions"
+  ON public.template_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('manage-templates') AND auth.uid() = created_by);
+
+-- RLS Policies for template_placeholder_mappings
+DROP POLICY IF EXISTS "Authenticated users can create placeholder mappings" ON public.template_placeholder_mappings;
+DROP POLICY IF EXISTS "Authenticated users can update placeholder mappings" ON public.template_placeholder_mappings;
+DROP POLICY IF EXISTS "Authenticated users can delete placeholder mappings" ON public.template_placeholder_mappings;
+
+CREATE POLICY "Template managers can create placeholder mappings"
+  ON public.template_placeholder_mappings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('manage-templates') AND auth.uid() = created_by);
+
+CREATE POLICY "Template managers can update placeholder mappings"
+  ON public.template_placeholder_mappings
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('manage-templates'))
+  WITH CHECK (public.has_permission('manage-templates'));
+
+CREATE POLICY "Template managers can delete placeholder mappings"
+  ON public.template_placeholder_mappings
+  FOR DELETE
+  TO authenticated
+  USING (public.has_permission('manage-templates'));
+
+-- RLS Policies for sites and landlords
+DROP POLICY IF EXISTS "Authenticated users can create landlords" ON public.landlords;
+DROP POLICY IF EXISTS "Authenticated users can update landlords" ON public.landlords;
+DROP POLICY IF EXISTS "Authenticated users can create sites" ON public.sites;
+DROP POLICY IF EXISTS "Authenticated users can update sites" ON public.sites;
+
+CREATE POLICY "Property editors can create landlords"
+  ON public.landlords
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (public.has_permission('manage-properties') OR public.has_permission('create-instruction'))
+    AND auth.uid() = created_by
+  );
+
+CREATE POLICY "Property editors can update landlords"
+  ON public.landlords
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('manage-properties') OR public.has_permission('create-instruction'))
+  WITH CHECK (public.has_permission('manage-properties') OR public.has_permission('create-instruction'));
+
+CREATE POLICY "Property editors can create sites"
+  ON public.sites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (public.has_permission('manage-properties') OR public.has_permission('create-instruction'))
+    AND auth.uid() = created_by
+  );
+
+CREATE POLICY "Property editors can update sites"
+  ON public.sites
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('manage-properties') OR public.has_permission('create-instruction'))
+  WITH CHECK (public.has_permission('manage-properties') OR public.has_permission('create-instruction'));
+
+-- RLS Policies for instruction_import_profiles
+DROP POLICY IF EXISTS "Authenticated users can create import profiles" ON public.instruction_import_profiles;
+
+CREATE POLICY "Instruction creators can create import profiles"
+  ON public.instruction_import_profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('create-instruction') AND auth.uid() = created_by);
+
+-- RLS Policies for app_settings
+DROP POLICY IF EXISTS "Authenticated users can add settings" ON public.app_settings;
+DROP POLICY IF EXISTS "Authenticated users can update settings" ON public.app_settings;
+
+CREATE POLICY "Administrators can add settings"
+  ON public.app_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('system-settings') AND auth.uid() = updated_by);
+
+CREATE POLICY "Administrators can update settings"
+  ON public.app_settings
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('system-settings'))
+  WITH CHECK (public.has_permission('system-settings') AND auth.uid() = updated_by);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_instructions_assigned_to ON public.instructions(assigned_to);
@@ -0,0 +1,290 @@
+/*
+  # External counsel panel
+
+  1. New Tables
+    - `law_firms`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `contact_person`, `email`, `phone`, `address` (text)
+      - `is_active` (boolean) - inactive firms stay on old instructions but cannot be
+        given new ones
+      - `created_by` (uuid) - references auth.users
+      - `created_at`, `updated_at` (timestamptz)
+    - `advocates`
+      - `id` (uuid, primary key)
+      - `law_firm_id` (uuid) - references law_firms
+      - `full_name`, `email`, `phone` (text)
+      - `practising_certificate_number` (text)
+      - `practising_certificate_expiry` (date, nullable)
+      - `profile_id` (uuid, nullable) - the advocate's sign-in account, linked by email
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `instructions.law_firm_id` and `instructions.advocate_id` - the panel firm and
+      advocate an instruction is assigned to
+    - `profiles.law_firm_id` and `user_invitations.law_firm_id` replace the free-text
+      `law_firm` columns; existing firm names become panel firms
+    - New users are linked to the advocate record with their email
+    - Changing an instruction's firm or advocate needs 'assign-external-counsel'
+    - New 'manage-panel' permission for In-House Counsel and Admin
+
+  3. Security
+    - Enable RLS on both tables
+    - The panel is visible to users who assign or manage it; external counsel see
+      their own firm
+    - Only 'manage-panel' can add or change firms and advocates
+    - External counsel see and update every instruction assigned to their firm, as
+      well as those assigned to them personally
+
+  4. Indexes
+    - Advocates by firm and by email, instructions by firm
+*/
+
+CREATE TABLE IF NOT EXISTS public.law_firms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  contact_person TEXT NOT NULL DEFAULT '',
+  email TEXT NOT NULL DEFAULT '',
+  phone TEXT NOT NULL DEFAULT '',
+  address TEXT NOT NULL DEFAULT '',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.advocates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  law_firm_id UUID NOT NULL REFERENCES public.law_firms(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL,
+  email TEXT NOT NULL DEFAULT '',
+  phone TEXT NOT NULL DEFAULT '',
+  practising_certificate_number TEXT NOT NULL DEFAULT '',
+  practising_certificate_expiry DATE,
+  profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.instructions
+  ADD COLUMN IF NOT EXISTS law_firm_id UUID REFERENCES public.law_firms(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS advocate_id UUID REFERENCES public.advocates(id) ON DELETE SET NULL;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS law_firm_id UUID REFERENCES public.law_firms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.user_invitations
+  ADD COLUMN IF NOT EXISTS law_firm_id UUID REFERENCES public.law_firms(id) ON DELETE SET NULL;
+
+-- Firm names typed against users so far become the starting panel
+INSERT INTO public.law_firms (name)
+SELECT DISTINCT trim(law_firm)
+FROM (
+  SELECT law_firm FROM public.profiles
+  UNION
+  SELECT law_firm FROM public.user_invitations
+) names
+WHERE trim(COALESCE(law_firm, '')) <> ''
+ON CONFLICT (name) DO NOTHING;
+
+-- Run as the migration owner, so the admin-only profile trigger is bypassed
+ALTER TABLE public.profiles DISABLE TRIGGER protect_profile_role;
+
+UPDATE public.profiles p
+SET law_firm_id = f.id
+FROM public.law_firms f
+WHERE f.name = trim(p.law_firm);
+
+ALTER TABLE public.profiles ENABLE TRIGGER protect_profile_role;
+
+UPDATE public.user_invitations i
+SET law_firm_id = f.id
+FROM public.law_firms f
+WHERE f.name = trim(i.law_firm);
+
+ALTER TABLE public.profiles DROP COLUMN IF EXISTS law_firm;
+ALTER TABLE public.user_invitations DROP COLUMN IF EXISTS law_firm;
+
+-- Firm of the signed-in external counsel, readable from policies
+CREATE OR REPLACE FUNCTION public.current_user_law_firm()
+RETURNS UUID AS $$
+  SELECT p.law_firm_id
+  FROM public.profiles p
+  WHERE p.id = auth.uid() AND p.is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_view_instruction(instruction_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.instructions i
+    WHERE i.id = $1
+      AND (
+        public.has_permission('view-all')
+        OR public.has_permission('view-all-instructions')
+        OR public.has_permission('view-dashboard')
+        OR (
+          public.has_permission('view-assigned-instructions')
+          AND (i.assigned_to = auth.uid() OR i.law_firm_id = public.current_user_law_firm())
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.protect_instruction_assignment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+    OR NEW.law_firm_id IS DISTINCT FROM OLD.law_firm_id
+    OR NEW.advocate_id IS DISTINCT FROM OLD.advocate_id
+  ) AND NOT public.has_permission('assign-external-counsel') THEN
+    RAISE EXCEPTION 'You do not have permission to reassign instructions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.is_admin() AND (
+    NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.department IS DISTINCT FROM OLD.department
+    OR NEW.law_firm_id IS DISTINCT FROM OLD.law_firm_id
+    OR NEW.is_active IS DISTINCT FROM OLD.is_active
+    OR NEW.email IS DISTINCT FROM OLD.email
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can change roles and departments';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  invitation public.user_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO invitation
+  FROM public.user_invitations i
+  WHERE lower(i.email) = lower(NEW.email) AND i.accepted_at IS NULL;
+
+  INSERT INTO public.profiles (id, email, full_name, role, department, law_firm_id)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.email, ''),
+    COALESCE(invitation.full_name, NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(invitation.role, 'IC'),
+    COALESCE(invitation.department, ''),
+    invitation.law_firm_id
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  IF invitation.id IS NOT NULL THEN
+    UPDATE public.user_invitations SET accepted_at = now() WHERE id = invitation.id;
+  END IF;
+
+  UPDATE public.advocates
+  SET profile_id = NEW.id
+  WHERE lower(email) = lower(NEW.email) AND profile_id IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('IC', 'manage-panel'),
+  ('Admin', 'manage-panel')
+ON CONFLICT DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE public.law_firms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.advocates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for instructions
+DROP POLICY IF EXISTS "Users can view permitted instructions" ON public.instructions;
+
+CREATE POLICY "Users can view permitted instructions"
+  ON public.instructions
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission('view-all')
+    OR public.has_permission('view-all-instructions')
+    OR public.has_permission('view-dashboard')
+    OR (
+      public.has_permission('view-assigned-instructions')
+      AND (assigned_to = auth.uid() OR law_firm_id = public.current_user_law_firm())
+    )
+  );
+
+-- RLS Policies for law_firms
+CREATE POLICY "Users can view the counsel panel"
+  ON public.law_firms
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission('assign-external-counsel')
+    OR public.has_permission('manage-panel')
+    OR public.has_permission('view-all')
+    OR id = public.current_user_law_firm()
+  );
+
+CREATE POLICY "Panel managers can add law firms"
+  ON public.law_firms
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('manage-panel') AND auth.uid() = created_by);
+
+CREATE POLICY "Panel managers can update law firms"
+  ON public.law_firms
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('manage-panel'))
+  WITH CHECK (public.has_permission('manage-panel'));
+
+-- RLS Policies for advocates
+CREATE POLICY "Users can view panel advocates"
+  ON public.advocates
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission('assign-external-counsel')
+    OR public.has_permission('manage-panel')
+    OR public.has_permission('view-all')
+    OR law_firm_id = public.current_user_law_firm()
+  );
+
+CREATE POLICY "Panel managers can add advocates"
+  ON public.advocates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('manage-panel'));
+
+CREATE POLICY "Panel managers can update advocates"
+  ON public.advocates
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('manage-panel'))
+  WITH CHECK (public.has_permission('manage-panel'));
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_advocates_law_firm ON public.advocates(law_firm_id);
+CREATE INDEX IF NOT EXISTS idx_advocates_email ON public.advocates(lower(email));
+CREATE INDEX IF NOT EXISTS idx_instructions_law_firm ON public.instructions(law_firm_id);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_law_firms_updated_at
+  BEFORE UPDATE ON public.law_firms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_advocates_updated_at
+  BEFORE UPDATE ON public.advocates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,181 @@
+/*
+  # Server-recorded audit log
+
+  1. New Tables
+    - `audit_log`
+      - `id` (uuid, primary key)
+      - `table_name` (text) - table the change was made to
+      - `record_id` (text) - primary key of the changed row
+      - `instruction_id` (text, nullable) - instruction the change belongs to; kept
+        after the instruction is deleted
+      - `template_id` (uuid, nullable) - system template the change belongs to
+      - `operation` (text) - 'insert', 'update', 'delete', or 'legacy' for entries
+        copied from `audit_entries`
+      - `changes` (jsonb) - `{ column: { old, new } }` for every changed column
+      - `summary` (text) - description carried over from `audit_entries`
+      - `user_id` (uuid, nullable) and `user_name` (text) - who made the change
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Triggers on `instructions`, `generated_documents`, `system_templates` and
+      `template_versions` write an entry for every insert, update and delete.
+      File contents and `updated_at` are left out.
+    - Existing `audit_entries` are copied into the log and the table is dropped; the
+      app no longer writes audit entries itself
+
+  3. Security
+    - Enable RLS on `audit_log`
+    - Entries are visible to users who can view the instruction; template entries to
+      every authenticated user
+    - Nobody can add, change or delete entries directly: only the trigger function
+      writes to the table, and updates, deletes and truncates are rejected
+
+  4. Indexes
+    - `audit_log` by instruction and by template, newest first
+*/
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  instruction_id TEXT,
+  template_id UUID,
+  operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete', 'legacy')),
+  changes JSONB NOT NULL DEFAULT '{}',
+  summary TEXT NOT NULL DEFAULT '',
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_name TEXT NOT NULL DEFAULT 'System',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Trigger arguments name the columns to leave out of the log
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB;
+  row_data JSONB;
+  changed JSONB := '{}';
+  column_name TEXT;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD) - TG_ARGV;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW) - TG_ARGV;
+  END IF;
+  row_data := COALESCE(new_row, old_row);
+
+  FOR column_name IN SELECT jsonb_object_keys(row_data) LOOP
+    IF TG_OP = 'UPDATE' AND new_row -> column_name IS NOT DISTINCT FROM old_row -> column_name THEN
+      CONTINUE;
+    END IF;
+    changed := changed || jsonb_build_object(
+      column_name,
+      jsonb_build_object('old', old_row -> column_name, 'new', new_row -> column_name)
+    );
+  END LOOP;
+
+  -- Updates that only touched excluded columns are not worth an entry
+  IF TG_OP = 'UPDATE' AND changed = '{}' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, instruction_id, template_id, operation, changes, user_id, user_name)
+  VALUES (
+    TG_TABLE_NAME,
+    row_data ->> 'id',
+    CASE TG_TABLE_NAME
+      WHEN 'instructions' THEN row_data ->> 'id'
+      ELSE row_data ->> 'instruction_id'
+    END,
+    CASE TG_TABLE_NAME
+      WHEN 'system_templates' THEN (row_data ->> 'id')::uuid
+      WHEN 'template_versions' THEN (row_data ->> 'template_id')::uuid
+      WHEN 'generated_documents' THEN (row_data ->> 'system_template_id')::uuid
+    END,
+    lower(TG_OP),
+    changed,
+    auth.uid(),
+    COALESCE(
+      (SELECT COALESCE(NULLIF(p.full_name, ''), p.email) FROM public.profiles p WHERE p.id = auth.uid()),
+      'System'
+    )
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Keep the entries recorded by the app so far
+INSERT INTO public.audit_log (table_name, record_id, instruction_id, operation, summary, user_id, user_name, created_at)
+SELECT
+  'instructions',
+  e.instruction_id,
+  e.instruction_id,
+  'legacy',
+  CASE WHEN e.details <> '' THEN e.action || ': ' || e.details ELSE e.action END,
+  e.user_id,
+  e.user_name,
+  e.created_at
+FROM public.audit_entries e;
+
+DROP TABLE IF EXISTS public.audit_entries;
+
+-- Enable RLS
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+
+-- RLS Policies for audit_log (read-only; rows come from record_audit_log)
+CREATE POLICY "Users can view the audit log of permitted records"
+  ON public.audit_log
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission('view-all')
+    OR (instruction_id IS NOT NULL AND public.can_view_instruction(instruction_id))
+    OR (instruction_id IS NULL AND template_id IS NOT NULL)
+  );
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_audit_log_instruction ON public.audit_log(instruction_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_template ON public.audit_log(template_id, created_at DESC);
+
+-- Triggers
+CREATE TRIGGER prevent_audit_log_update_delete
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER prevent_audit_log_truncate
+  BEFORE TRUNCATE ON public.audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER audit_instructions
+  AFTER INSERT OR UPDATE OR DELETE ON public.instructions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log('updated_at');
+
+CREATE TRIGGER audit_generated_documents
+  AFTER INSERT OR UPDATE OR DELETE ON public.generated_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log('updated_at', 'content', 'form_data', 'variables_data');
+
+CREATE TRIGGER audit_system_templates
+  AFTER INSERT OR UPDATE OR DELETE ON public.system_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log('updated_at', 'file_data');
+
+CREATE TRIGGER audit_template_versions
+  AFTER INSERT OR UPDATE OR DELETE ON public.template_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_audit_log('file_data');
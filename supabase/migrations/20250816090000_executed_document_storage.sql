@@ -0,0 +1,23 @@
+/*
+  # Store executed documents
+
+  1. Changes
+    - Executed documents are uploaded to the `generated-documents` bucket under
+      `<instruction id>/executed/`, and `instructions.executed_documents` records their
+      storage paths. Entries saved before this hold the file name only.
+
+  2. Security
+    - Users with 'upload-documents' can upload executed documents for instructions
+      they can update
+*/
+
+CREATE POLICY "Users can upload executed documents for permitted instructions"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'generated-documents'
+    AND (storage.foldername(name))[2] = 'executed'
+    AND public.has_permission('upload-documents')
+    AND public.can_update_instruction((storage.foldername(name))[1])
+  );
@@ -0,0 +1,122 @@
+/*
+  # Check instruction updates against the workflow on the server
+
+  1. Changes
+    - `workflow_stage_progress()` and `workflow_transition_roles()` mirror the stages
+      and transitions in `workflowStateMachine.ts`, so keep both in step
+    - Instruction updates now go through `protect_instruction_changes()`:
+      - `id`, `created_by` and `created_at` never change
+      - Only users with 'create-instruction' can change the ROF5 details, site,
+        landlord, priority and fees; everyone else can only work the instruction
+        through its stage, progress reason and documents
+      - A stage change must be a defined transition for the instruction's agreement
+        type, open to the user's role, with its preconditions met
+      - Progress follows the stage and cannot be set on its own
+
+  2. Security
+    - The stage guards the dashboard shows are now enforced for direct API calls too
+*/
+
+-- Progress of each stage; licences are not registered
+CREATE OR REPLACE FUNCTION public.workflow_stage_progress(lease_type TEXT, stage TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN lower(COALESCE($1, '')) IN ('licence', 'license') THEN
+      CASE $2
+        WHEN 'document-drafting' THEN 30
+        WHEN 'execution' THEN 70
+        WHEN 'completed' THEN 100
+      END
+    ELSE
+      CASE $2
+        WHEN 'document-drafting' THEN 25
+        WHEN 'execution' THEN 60
+        WHEN 'registration' THEN 85
+        WHEN 'completed' THEN 100
+      END
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Roles that may make a transition, and what it requires; no row if it isn't defined
+CREATE OR REPLACE FUNCTION public.workflow_transition_roles(lease_type TEXT, from_stage TEXT, to_stage TEXT)
+RETURNS TABLE (roles TEXT[], precondition TEXT) AS $$
+  SELECT t.roles, t.precondition
+  FROM (
+    VALUES
+      (false, 'document-drafting', 'execution', ARRAY['IC', 'EC', 'Admin'], 'documents-generated'),
+      (false, 'execution', 'document-drafting', ARRAY['IC', 'EC', 'Admin'], NULL),
+      (false, 'execution', 'registration', ARRAY['IC', 'EC', 'POA', 'Admin'], 'executed-document-uploaded'),
+      (false, 'registration', 'execution', ARRAY['IC', 'POA', 'Admin'], NULL),
+      (false, 'registration', 'completed', ARRAY['IC', 'POA', 'Admin'], NULL),
+      (false, 'completed', 'registration', ARRAY['IC', 'Admin'], NULL),
+      (true, 'document-drafting', 'execution', ARRAY['IC', 'EC', 'Admin'], 'documents-generated'),
+      (true, 'execution', 'document-drafting', ARRAY['IC', 'EC', 'Admin'], NULL),
+      (true, 'execution', 'completed', ARRAY['IC', 'EC', 'Admin'], 'executed-document-uploaded'),
+      (true, 'completed', 'execution', ARRAY['IC', 'Admin'], NULL)
+  ) AS t(is_licence, from_stage, to_stage, roles, precondition)
+  WHERE t.is_licence = (lower(COALESCE($1, '')) IN ('licence', 'license'))
+    AND t.from_stage = $2
+    AND t.to_stage = $3;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.protect_instruction_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  -- Columns anyone who can update the instruction may change; assignment columns
+  -- are guarded by protect_instruction_assignment
+  workable_columns TEXT[] := ARRAY[
+    'stage', 'progress', 'next_action', 'progress_reason', 'generated_documents',
+    'document_template_versions', 'executed_documents', 'assignee', 'assigned_to',
+    'law_firm_id', 'advocate_id', 'updated_at'
+  ];
+  lease_type TEXT := NEW.form_data ->> 'leaseType';
+  transition RECORD;
+BEGIN
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'An instruction''s reference and creator cannot be changed';
+  END IF;
+
+  IF NOT public.has_permission('create-instruction')
+    AND (to_jsonb(NEW) - workable_columns) IS DISTINCT FROM (to_jsonb(OLD) - workable_columns) THEN
+    RAISE EXCEPTION 'You do not have permission to edit instruction details';
+  END IF;
+
+  IF NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    IF NEW.progress IS DISTINCT FROM OLD.progress THEN
+      RAISE EXCEPTION 'Progress follows the instruction''s stage';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO transition FROM public.workflow_transition_roles(lease_type, OLD.stage, NEW.stage);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Instructions cannot move from % to %', OLD.stage, NEW.stage;
+  END IF;
+
+  IF NOT (public.current_user_role() = ANY (transition.roles)) THEN
+    RAISE EXCEPTION 'Only % users can move instructions from % to %',
+      array_to_string(transition.roles, ', '), OLD.stage, NEW.stage;
+  END IF;
+
+  IF transition.precondition = 'documents-generated'
+    AND jsonb_array_length(COALESCE(NEW.generated_documents, '[]')) = 0 THEN
+    RAISE EXCEPTION 'Documents must be generated';
+  END IF;
+
+  IF transition.precondition = 'executed-document-uploaded'
+    AND jsonb_array_length(COALESCE(NEW.executed_documents, '[]')) = 0 THEN
+    RAISE EXCEPTION 'The executed document must be uploaded';
+  END IF;
+
+  NEW.progress := COALESCE(public.workflow_stage_progress(lease_type, NEW.stage), NEW.progress);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_instruction_changes
+  BEFORE UPDATE ON public.instructions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_instruction_changes();
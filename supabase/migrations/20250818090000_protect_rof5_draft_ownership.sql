@@ -0,0 +1,36 @@
+/*
+  # Keep shared ROF5 drafts with their owner
+
+  1. Changes
+    - `protect_rof5_draft_ownership()` runs before every draft update:
+      - `owner_id`, `owner_email` and `legacy_id` never change
+      - Only the owner can change `status` and `instruction_id`, so a colleague the
+        draft is shared with cannot close it or take it over
+
+  2. Security
+    - The update policy's check ran against the row before the update, so colleagues
+      could previously move a shared draft to themselves and then delete it
+*/
+
+CREATE OR REPLACE FUNCTION public.protect_rof5_draft_ownership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    OR NEW.owner_email IS DISTINCT FROM OLD.owner_email
+    OR NEW.legacy_id IS DISTINCT FROM OLD.legacy_id THEN
+    RAISE EXCEPTION 'The owner of a draft cannot be changed';
+  END IF;
+
+  IF (NEW.status IS DISTINCT FROM OLD.status OR NEW.instruction_id IS DISTINCT FROM OLD.instruction_id)
+    AND OLD.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the owner of a draft can close it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_rof5_draft_ownership
+  BEFORE UPDATE ON public.rof5_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_rof5_draft_ownership();
@@ -0,0 +1,84 @@
+/*
+  # Apply user invitations on first sign-in
+
+  1. Changes
+    - Sending the invitation email creates the auth user straight away, which used to
+      apply the invitation before the invitee had signed in. `handle_new_user()` now
+      leaves users with a pending invitation without a profile.
+    - `apply_user_invitation()` runs when a user signs in for the first time and
+      creates their profile from the pending invitation, marking it accepted
+    - Users whose invitation was cancelled before they signed in get an inactive
+      profile, with no role permissions, until an admin activates them
+
+  2. Security
+    - Invitations stay pending, and can be cancelled, until the invitee signs in
+*/
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.user_invitations i
+    WHERE lower(i.email) = lower(NEW.email) AND i.accepted_at IS NULL
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.email, ''),
+    COALESCE(NEW.raw_user_meta_data->>'full_name', '')
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  UPDATE public.advocates
+  SET profile_id = NEW.id
+  WHERE lower(email) = lower(NEW.email) AND profile_id IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+CREATE OR REPLACE FUNCTION public.apply_user_invitation()
+RETURNS TRIGGER AS $$
+DECLARE
+  invitation public.user_invitations%ROWTYPE;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO invitation
+  FROM public.user_invitations i
+  WHERE lower(i.email) = lower(NEW.email) AND i.accepted_at IS NULL;
+
+  INSERT INTO public.profiles (id, email, full_name, role, department, law_firm_id, is_active)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.email, ''),
+    COALESCE(invitation.full_name, NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(invitation.role, 'IC'),
+    COALESCE(invitation.department, ''),
+    invitation.law_firm_id,
+    invitation.id IS NOT NULL
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  IF invitation.id IS NOT NULL THEN
+    UPDATE public.user_invitations SET accepted_at = now() WHERE id = invitation.id;
+  END IF;
+
+  UPDATE public.advocates
+  SET profile_id = NEW.id
+  WHERE lower(email) = lower(NEW.email) AND profile_id IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+CREATE TRIGGER on_auth_user_first_sign_in
+  AFTER UPDATE OF last_sign_in_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.last_sign_in_at IS NULL AND NEW.last_sign_in_at IS NOT NULL)
+  EXECUTE FUNCTION public.apply_user_invitation();
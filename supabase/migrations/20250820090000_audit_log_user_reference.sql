@@ -0,0 +1,11 @@
+/*
+  # Keep audit log entries when users are deleted
+
+  1. Changes
+    - `audit_log.user_id` no longer references auth.users. Its `ON DELETE SET NULL`
+      updated the log, which the append-only trigger rejects, so users with entries
+      could not be deleted. Entries keep the id and name of whoever made the change.
+*/
+
+ALTER TABLE public.audit_log
+  DROP CONSTRAINT IF EXISTS audit_log_user_id_fkey;
@@ -0,0 +1,42 @@
+/*
+  # Number instruction references in the database
+
+  1. Changes
+    - `instruction_reference_seq` numbers instructions; references look like
+      ROF-2025-0042. The four-digit number keeps them apart from the three-digit
+      references the app generated before, which are left as they are.
+    - `next_instruction_reference()` is the default for `instructions.id`
+    - `next_instruction_references(count)` reserves references for the app, which
+      needs them before saving to name documents and show the new instruction
+
+  2. Security
+    - Reserving references needs 'create-instruction'
+*/
+
+CREATE SEQUENCE IF NOT EXISTS public.instruction_reference_seq;
+
+CREATE OR REPLACE FUNCTION public.next_instruction_reference()
+RETURNS TEXT AS $$
+  SELECT 'ROF-' || extract(year FROM now())::int || '-'
+    || lpad(nextval('public.instruction_reference_seq')::text, 4, '0');
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.next_instruction_references(count INTEGER)
+RETURNS SETOF TEXT AS $$
+BEGIN
+  IF NOT public.has_permission('create-instruction') THEN
+    RAISE EXCEPTION 'You do not have permission to create instructions';
+  END IF;
+
+  IF count < 1 OR count > 1000 THEN
+    RAISE EXCEPTION 'Between 1 and 1000 references can be reserved at a time';
+  END IF;
+
+  RETURN QUERY
+  SELECT public.next_instruction_reference()
+  FROM generate_series(1, count);
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.instructions
+  ALTER COLUMN id SET DEFAULT public.next_instruction_reference();
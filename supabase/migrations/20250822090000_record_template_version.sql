@@ -0,0 +1,49 @@
+/*
+  # Record template versions in one transaction
+
+  1. Changes
+    - `record_template_version()` numbers a new version, stores it and makes it the
+      template's current file in one call. The template row is locked while the
+      number is picked, so two uploads at once get consecutive numbers rather than
+      the same one, and a failure saves neither the version nor the file.
+    - `get_next_template_version()` is dropped; nothing else used it
+
+  2. Security
+    - Runs with the caller's rights, so the 'manage-templates' policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION public.record_template_version(
+  template_id UUID,
+  file_name TEXT,
+  content_type TEXT,
+  file_data BYTEA,
+  notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  next_version INTEGER;
+BEGIN
+  PERFORM 1 FROM public.system_templates t WHERE t.id = $1 FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template % not found', $1;
+  END IF;
+
+  SELECT COALESCE(MAX(v.version_number), 0) + 1 INTO next_version
+  FROM public.template_versions v
+  WHERE v.template_id = $1;
+
+  INSERT INTO public.template_versions (template_id, version_number, file_name, file_data, content_type, notes, created_by)
+  VALUES ($1, next_version, $2, $4, $3, NULLIF(trim($5), ''), auth.uid());
+
+  UPDATE public.system_templates t
+  SET file_name = $2,
+      content_type = $3,
+      file_data = $4,
+      current_version = next_version
+  WHERE t.id = $1;
+
+  RETURN next_version;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP FUNCTION IF EXISTS public.get_next_template_version(UUID);
@@ -0,0 +1,19 @@
+/*
+  # Let uploaders remove their own unrecorded files
+
+  1. Security
+    - Users can delete files they uploaded to the `generated-documents` bucket, in
+      the folder of an instruction they can view. The app removes files this way when
+      saving the row that points to them fails; without the policy the removal was
+      silently ignored and the files were left behind.
+*/
+
+CREATE POLICY "Uploaders can remove their documents of permitted instructions"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'generated-documents'
+    AND owner = auth.uid()
+    AND public.can_view_instruction((storage.foldername(name))[1])
+  );
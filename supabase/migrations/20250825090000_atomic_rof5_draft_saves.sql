@@ -0,0 +1,63 @@
+/*
+  # Save ROF5 drafts and their revisions atomically
+
+  1. Changes
+    - Revision numbers come from bumping the draft's `current_revision`, which locks the
+      draft row; two saves of the same draft at once previously both read the same
+      MAX(revision_number) and the second failed on the unique constraint
+    - `create_rof5_draft(...)` creates a draft with its first revision in one
+      transaction, so a failed revision no longer leaves an empty draft behind. Browser
+      drafts migrated on an earlier attempt (same `legacy_id`) are skipped and no row
+      is returned
+
+  2. Security
+    - `create_rof5_draft` runs as the caller, so the existing draft and revision
+      policies still apply; the owner is always the signed-in user
+*/
+
+-- Number each revision and make it the draft's current form data
+CREATE OR REPLACE FUNCTION public.apply_rof5_draft_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.rof5_drafts
+  SET form_data = NEW.form_data,
+      current_revision = current_revision + 1
+  WHERE id = NEW.draft_id
+  RETURNING current_revision INTO NEW.revision_number;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft % does not exist', NEW.draft_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.create_rof5_draft(
+  draft_name TEXT,
+  draft_form_data JSONB,
+  revision_save_kind TEXT DEFAULT 'manual',
+  draft_legacy_id TEXT DEFAULT NULL,
+  draft_created_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS SETOF public.rof5_drafts AS $$
+DECLARE
+  new_draft_id UUID;
+  user_email TEXT := COALESCE(auth.jwt() ->> 'email', '');
+BEGIN
+  INSERT INTO public.rof5_drafts (name, owner_id, owner_email, legacy_id, created_at)
+  VALUES (draft_name, auth.uid(), user_email, draft_legacy_id, COALESCE(draft_created_at, now()))
+  ON CONFLICT (owner_id, legacy_id) DO NOTHING
+  RETURNING id INTO new_draft_id;
+
+  IF new_draft_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- revision_number is assigned by apply_rof5_draft_revision
+  INSERT INTO public.rof5_draft_revisions (draft_id, revision_number, form_data, save_kind, saved_by, saved_by_email)
+  VALUES (new_draft_id, 0, draft_form_data, revision_save_kind, auth.uid(), user_email);
+
+  RETURN QUERY SELECT * FROM public.rof5_drafts d WHERE d.id = new_draft_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
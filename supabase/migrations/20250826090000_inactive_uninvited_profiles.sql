@@ -0,0 +1,39 @@
+/*
+  # Keep uninvited sign-ups inactive
+
+  1. Changes
+    - `handle_new_user()` created an active profile with the default 'IC' role for
+      anyone who signed up without an invitation, giving them In-House Counsel
+      permissions. Those profiles are now created inactive, with no role permissions,
+      until an admin activates them, the same as users whose invitation was cancelled
+
+  2. Security
+    - Only invited users, or users an admin has activated, get role permissions
+*/
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.user_invitations i
+    WHERE lower(i.email) = lower(NEW.email) AND i.accepted_at IS NULL
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.profiles (id, email, full_name, is_active)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.email, ''),
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    false
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  UPDATE public.advocates
+  SET profile_id = NEW.id
+  WHERE lower(email) = lower(NEW.email) AND profile_id IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
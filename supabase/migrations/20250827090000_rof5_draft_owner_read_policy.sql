@@ -0,0 +1,20 @@
+/*
+  # Let draft owners read their drafts without the access helper
+
+  1. Changes
+    - `can_access_rof5_draft()` is STABLE and looks the draft up again, so it cannot see
+      a draft inserted by the same statement. `INSERT ... RETURNING id` in
+      `create_rof5_draft()` therefore failed the SELECT policy on every new draft.
+
+  2. Security
+    - The SELECT policy on `rof5_drafts` checks the owner on the row itself before
+      falling back to the helper for shared drafts; who can read which draft is unchanged
+*/
+
+DROP POLICY IF EXISTS "Users can view their own and shared drafts" ON public.rof5_drafts;
+
+CREATE POLICY "Users can view their own and shared drafts"
+  ON public.rof5_drafts
+  FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid() OR public.can_access_rof5_draft(id));
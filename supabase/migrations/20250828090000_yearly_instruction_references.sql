@@ -0,0 +1,52 @@
+/*
+  # Restart instruction reference numbers each year
+
+  1. New Tables
+    - `instruction_reference_counters`
+      - `year` (integer, primary key)
+      - `last_number` (integer) - last reference number issued in that year
+
+  2. Changes
+    - References carry the year, so numbering now restarts at ROF-<year>-0001 each
+      year instead of running on from one sequence. The current year carries on from
+      the sequence so no reference already issued is handed out again.
+    - `next_instruction_reference()` pads the number to four digits without cutting
+      it short; ROF-2025-10000 follows ROF-2025-9999 instead of repeating ROF-2025-1000
+    - Reserving a reference locks that year's counter until the transaction ends
+    - `instruction_reference_seq` is dropped
+
+  3. Security
+    - Enable RLS on `instruction_reference_counters` with no policies; it is only
+      read and written through `next_instruction_reference()`
+*/
+
+CREATE TABLE IF NOT EXISTS public.instruction_reference_counters (
+  year INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL
+);
+
+-- Enable RLS
+ALTER TABLE public.instruction_reference_counters ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.instruction_reference_counters (year, last_number)
+SELECT extract(year FROM now())::int, CASE WHEN is_called THEN last_value ELSE 0 END
+FROM public.instruction_reference_seq
+ON CONFLICT (year) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.next_instruction_reference()
+RETURNS TEXT AS $$
+DECLARE
+  reference_year INTEGER := extract(year FROM now())::int;
+  reference_number INTEGER;
+BEGIN
+  INSERT INTO public.instruction_reference_counters AS c (year, last_number)
+  VALUES (reference_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = c.last_number + 1
+  RETURNING c.last_number INTO reference_number;
+
+  RETURN 'ROF-' || reference_year || '-'
+    || lpad(reference_number::text, greatest(4, length(reference_number::text)), '0');
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+DROP SEQUENCE IF EXISTS public.instruction_reference_seq;
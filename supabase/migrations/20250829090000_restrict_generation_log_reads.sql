@@ -0,0 +1,25 @@
+/*
+  # Restrict who can read generation logs
+
+  1. Changes
+    - Generation logs name the site and document of every generation, but every
+      signed-in user could read all of them. Logs are not linked to an instruction, so
+      reads now follow the instruction-wide read permissions instead
+
+  2. Security
+    - Users with 'view-all', 'view-all-instructions' or 'view-dashboard' can read every log
+    - Everyone else, e.g. external counsel, can only read logs of their own generations
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can view generation logs" ON public.fanisi_generation_logs;
+
+CREATE POLICY "Users can view generation logs they may see"
+  ON public.fanisi_generation_logs
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission('view-all')
+    OR public.has_permission('view-all-instructions')
+    OR public.has_permission('view-dashboard')
+    OR auth.uid() = user_id
+  );